@@ -1,5 +1,6 @@
 #!/usr/bin/env node
 // scripts/fetch-prices.mjs — compact price overlays for runtime refresh (no full card JSON rewrite)
+// Each run also appends a dated snapshot to SWU-<SET>.price-history.json for value-over-time charts.
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import process from 'node:process';
@@ -32,6 +33,7 @@ async function readConfig() {
       label: `${name} (${key})`,
       file: `SWU-${key}.json`,
       pricesFile: `SWU-${key}.prices.json`,
+      historyFile: `SWU-${key}.price-history.json`,
     }));
     return KEYS_FILTER.length ? all.filter(s => KEYS_FILTER.includes(s.key)) : all;
   } catch (e) {
@@ -88,6 +90,24 @@ function extractPrices(arr) {
   return prices;
 }
 
+async function readJSONFile(filePath) {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/** Adds today's prices to a history payload; a second run on the same day replaces that day. */
+function appendPriceSnapshot(existing, setKey, date, prices) {
+  const previous = Array.isArray(existing?.snapshots) ? existing.snapshots : [];
+  const snapshots = previous
+    .filter(s => s && typeof s.date === 'string' && s.date !== date)
+    .concat({ date, prices })
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return { version: 1, setKey, snapshots };
+}
+
 (async () => {
   log(`SWU fetch-prices • Node ${process.versions.node} • out=${OUT_DIR} • api=${API_BASE}`);
   await fs.mkdir(OUT_DIR, { recursive: true });
@@ -98,22 +118,29 @@ function extractPrices(arr) {
     process.exit(1);
   }
 
-  for (const { key, pricesFile } of sets) {
+  for (const { key, pricesFile, historyFile } of sets) {
     const url = `${API_BASE}/${encodeURIComponent(key)}`;
     process.stdout.write(`→ ${key} prices … `);
     try {
       const data = await fetchWithRetry(url);
       const arr = Array.isArray(data) ? data : (data?.data ?? data?.cards ?? []);
       const prices = extractPrices(arr);
+      const updatedAt = new Date().toISOString();
       const payload = {
         version: 1,
         setKey: key,
-        updatedAt: new Date().toISOString(),
+        updatedAt,
         prices,
       };
       const outPath = path.join(OUT_DIR, pricesFile);
       await fs.writeFile(outPath, JSON.stringify(payload, null, 2));
-      console.log(`saved ${path.relative(process.cwd(), outPath)} (${Object.keys(prices).length} rows)`);
+
+      const historyPath = path.join(OUT_DIR, historyFile);
+      const history = appendPriceSnapshot(await readJSONFile(historyPath), key, updatedAt.slice(0, 10), prices);
+      await fs.writeFile(historyPath, JSON.stringify(history));
+      console.log(
+        `saved ${path.relative(process.cwd(), outPath)} (${Object.keys(prices).length} rows, ${history.snapshots.length} dated snapshots)`
+      );
     } catch (e) {
       console.log(`failed: ${e.message}`);
       process.exitCode = 1;
@@ -49,6 +49,22 @@ async function fetchJSON(url, timeoutMs = 20000) {
   }
 }
 
+// Numeric stats come back as strings ("7", "-" for none); keep real numbers only.
+function slimNumber(v) {
+  const n = typeof v === 'number' ? v : typeof v === 'string' && v.trim() ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function slimText(v) {
+  const s = typeof v === 'string' ? v : v?.Name;
+  return typeof s === 'string' && s.trim() ? s.trim() : undefined;
+}
+
+function slimList(v) {
+  const items = Array.isArray(v) ? v.map(slimText).filter(Boolean) : [];
+  return items.length ? items : undefined;
+}
+
 function slimCard(c) {
   return {
     Name: c?.Name?.trim?.() ?? c?.name ?? '',
@@ -61,6 +77,15 @@ function slimCard(c) {
     Rarity:
       typeof c?.Rarity === 'string' ? c.Rarity :
       (c?.Rarity?.Name ?? c?.rarity?.Name ?? c?.rarity ?? undefined),
+    Cost: slimNumber(c?.Cost),
+    Power: slimNumber(c?.Power),
+    HP: slimNumber(c?.HP),
+    Arena: slimText(c?.Arena) ?? slimList(c?.Arenas)?.[0],
+    Traits: slimList(c?.Traits),
+    Keywords: slimList(c?.Keywords),
+    FrontText: slimText(c?.FrontText),
+    Artist: slimText(c?.Artist),
+    VariantType: slimText(c?.VariantType),
   };
 }
 
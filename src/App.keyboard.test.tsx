@@ -1,4 +1,4 @@
-import { act, cleanup, render, screen, waitFor } from '@testing-library/react';
+import { act, cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import App from './App';
 
@@ -12,6 +12,10 @@ const cards = Array.from({ length: 108 }, (_, index) => ({
 describe('App binder keyboard shortcuts', () => {
   beforeEach(() => {
     localStorage.clear();
+    Object.defineProperty(HTMLElement.prototype, 'scrollIntoView', {
+      configurable: true,
+      value: vi.fn(),
+    });
     vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL) => {
       const url = String(input);
       if (url.endsWith('/sets/manifest.json')) {
@@ -101,4 +105,22 @@ describe('App binder keyboard shortcuts', () => {
     });
     expect(setSelect()?.value).toBe('BBB');
   });
+
+  it('closes the card detail drawer when Escape clears the selection', async () => {
+    const { container } = render(<App />);
+    // Hidden pockets (left of page 1) render no label, so the filled ones are the selectable cards.
+    const pockets = () => Array.from(container.querySelectorAll('.cell')).filter(cell => cell.textContent);
+    await waitFor(() => expect(pockets().length).toBeGreaterThan(1));
+
+    fireEvent.click(pockets()[0]);
+    fireEvent.click(await screen.findByRole('button', { name: /^Details for / }));
+    expect(screen.getByRole('complementary', { name: 'Card details' })).toBeTruthy();
+
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    });
+    fireEvent.click(pockets()[1]);
+    await screen.findByRole('button', { name: /^Details for / });
+    expect(screen.queryByRole('complementary', { name: 'Card details' })).toBeNull();
+  });
 });
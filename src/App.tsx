@@ -1,12 +1,36 @@
 import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import * as XLSX from 'xlsx';
 import {
+  DEFAULT_BINDER_PROFILE,
   binderLayout,
   getSpreadCoords,
+  loadBinderProfile,
   numberFromPagePosition,
   pageToSpread,
-  spreadToPrimaryPage,
+  persistBinderProfile,
+  spreadLabel,
+  spreadPages,
+  totalBinderPages,
+  totalBinderSpreads,
+  type BinderProfile,
 } from './core/binder';
+import {
+  binderSlots as sortBinderSlots,
+  loadBinderSorts,
+  numberAtSlot,
+  persistBinderSorts,
+  slotOfNumber,
+  type BinderSlots,
+  type BinderSortKey,
+  type BinderSortSettings,
+} from './core/binderSort';
+import { comparePockets, planBinderReorg, pocketOf, type BinderArrangement, type Pocket, type ReorgPlan } from './core/reorgPlan';
+import { deckPullList, pullListHtml, type PullListLine } from './core/pullList';
+import { cardStatsLine } from './core/cardStats';
+import { cardDeckUsage, cardOwnershipSplit, cardPrintings } from './core/cardDetail';
+import { looksLikeQuery, parseSearchQuery, runSearchQuery, type QueryResult } from './core/searchQuery';
+import { filingExtras, filingQueue, removeFilingEntry, type FilingSession } from './core/filingSession';
+import type { DeckContents } from './core/deckContents';
 import {
   buildSearchSuggestions,
   submittedSuggestion,
@@ -14,21 +38,47 @@ import {
   type SearchSuggestion,
 } from './core/search';
 import {
-  applyImportedInventories,
   canonicalizeInventory,
   collectRawImportEntry,
+  collectRawImportRow,
+  createImportLog,
+  finishImport,
   createInventoryExportSnapshot,
+  decrementPrinting,
+  incrementPrinting,
+  labelAlternatePrintings,
   loadInventoriesForPersistence,
+  mergeHigherCounts,
+  parsePrintingKey,
   persistCanonicalInventory,
-  quotaForType,
+  printingKey,
+  printingNumberLookup,
+  printingVariant,
+  defaultQuota,
+  removeCardPrintings,
   removePersistedInventory,
+  resolveVariant,
+  rollupInventory,
+  splitPlayset,
+  surplusPrintings,
+  variantCounts,
+  variantFromLabel,
+  VARIANT_KINDS,
+  VARIANT_LABELS,
   type CanonicalCatalog,
+  type ImportMode,
+  type ImportRejection,
   type ImportResult,
+  type ImportRowRef,
+  type VariantCounts,
+  type VariantKind,
 } from './core/inventory';
 import { createLoadCommitGate } from './core/loadGuard';
+import { STORAGE_WRITE_ERROR_EVENT, appStorage, storageKeys } from './core/storage';
 import { fetchSetPayload } from './core/setData';
+import { decodeCsvBytes, inventoryTableCsv, missingTableCsv, parseCsvTable, rejectedRowsCsv } from './core/csv';
 import { selectionAfterMove } from './core/selection';
-import type { ActiveSelection, Card, Inventory, SetKey, SetMeta } from './core/types';
+import type { ActiveSelection, BaseTotals, Card, Inventory, SetKey, SetMeta } from './core/types';
 import {
   createCloudSync,
   makeBrowserBroadcast,
@@ -48,6 +98,94 @@ import {
   type MigrationChoice,
 } from './components/CloudMigrationModal';
 import { fetchPreconCatalog, type PreconCatalogEntry } from './core/precons';
+import {
+  loadQuotaSettings,
+  persistQuotaSettings,
+  quotaResolver,
+  type QuotaSettings,
+} from './core/quotas';
+import { QuotaSettingsModal } from './components/QuotaSettingsModal';
+import {
+  applyChanges,
+  createJournalEntry,
+  diffInventories,
+  journalForSet,
+  loadInventoryJournal,
+  persistInventoryJournal,
+  recordEntry,
+  redoEntry,
+  undoEntry,
+  type ChangeSource,
+  type InventoryJournal,
+  type JournalEntry,
+} from './core/history';
+import { HistoryPanel } from './components/HistoryPanel';
+import {
+  createInventorySnapshot,
+  loadSnapshots,
+  persistSnapshots,
+  type InventorySnapshot,
+} from './core/snapshots';
+import { SnapshotsModal } from './components/SnapshotsModal';
+import {
+  averageCost,
+  cardPosition,
+  createLedgerEntry,
+  ledgerPositions,
+  ledgerTotals,
+  loadLedger,
+  persistLedger,
+  type LedgerEntry,
+  type NewLedgerEntryInput,
+} from './core/ledger';
+import { LedgerModal } from './components/LedgerModal';
+import {
+  cardLocationTotals,
+  loadLocationState,
+  persistLocationState,
+  MAIN_BINDER_ID,
+  type LocationCount,
+  type LocationState,
+} from './core/locations';
+import { LocationsModal } from './components/LocationsModal';
+import {
+  previewImport,
+  selectedImportInventories,
+  type ImportExclusions,
+} from './core/importPreview';
+import { ImportPreviewModal } from './components/ImportPreviewModal';
+import {
+  importWithColumnMapping,
+  initialColumnMapping,
+  loadColumnMappings,
+  mappingSignature,
+  persistColumnMappings,
+  rememberColumnMapping,
+  type ColumnMapping,
+  type SavedColumnMappings,
+  type SourceTable,
+} from './core/columnMapping';
+import { ColumnMappingModal } from './components/ColumnMappingModal';
+import { setNameFromLabel, type MarketplaceFormat, type MarketplaceListKind, type MarketplaceSet } from './core/marketplace';
+import { MarketplaceExportModal } from './components/MarketplaceExportModal';
+import { collectionWorkbookSheets } from './core/workbook';
+import { binderPrintHtml, binderPrintPages, type BinderPrintMode } from './core/binderPrint';
+import { BinderPrintModal } from './components/BinderPrintModal';
+import { BinderProfileModal } from './components/BinderProfileModal';
+import { BinderSortModal } from './components/BinderSortModal';
+import { ReorgPlanPanel } from './components/ReorgPlanPanel';
+import { PullListModal } from './components/PullListModal';
+import { FilingSessionModal } from './components/FilingSessionModal';
+import { BinderWalkPanel, type BinderWalkStop } from './components/BinderWalkPanel';
+import { SearchResultsModal } from './components/SearchResultsModal';
+import { CardDetailDrawer } from './components/CardDetailDrawer';
+import {
+  collectionValueSeries,
+  fetchPriceHistory,
+  type PriceSnapshot,
+  type WantedCard,
+} from './core/valueHistory';
+import { CollectionValueModal } from './components/CollectionValueModal';
 import {
   deriveOwnedTotals,
   loadDeckLibrary,
@@ -97,6 +235,7 @@ const RARITY_STYLE: Record<string, {letter: string; color: string}> = {
 const ALL_RARITIES = ['Common', 'Uncommon', 'Rare', 'Legendary', 'Special'] as const;
 const ALL_ASPECTS = ['Vigilance', 'Command', 'Aggression', 'Cunning', 'Heroism', 'Villainy', 'NEUTRAL'];
 const ALL_TYPES = ['Leader', 'Base', 'Unit', 'Event', 'Upgrade'];
+const ALL_ARENAS = ['Ground', 'Space'];
 
 /** Vigilance / Command / Aggression / Cunning only — not Heroism, Villainy, NEUTRAL (affiliation). */
 const PRIMARY_ASPECT_NAMES = new Set<string>([
@@ -200,6 +339,7 @@ function rarityGlyph(r?: string) {
 
 /** Collection status for filter pills (same semantics as the Status column: ✓ / ! / ✕). */
 type CollectionStatusKey = 'complete' | 'partial' | 'none';
+type BulkAction = 'add' | 'remove' | 'add_max' | 'remove_all';
 const ALL_COLLECTION_STATUSES: readonly CollectionStatusKey[] = ['complete', 'partial', 'none'];
 
 function collectionStatusFromQty(qty: number, max: number): CollectionStatusKey {
@@ -212,16 +352,19 @@ type Filters = {
   aspect: string[];
   rarity: string[];
   type: string[];
+  arena: string[];
   status: CollectionStatusKey[];
 };
 
 type FilterControlsProps = {
   filters: Filters;
   setFilters: React.Dispatch<React.SetStateAction<Filters>>;
+  /** Hides the arena group when no card in the set data carries an arena. */
+  showArenas?: boolean;
 };
 
 // --- FilterControls Component Definition (Used outside App function) ---
-function FilterControls({ filters, setFilters }: FilterControlsProps) {
+function FilterControls({ filters, setFilters, showArenas = true }: FilterControlsProps) {
   const handleFilterChange = <K extends keyof Filters>(category: K, value: Filters[K][number]) => {
     setFilters(prev => {
       const cur = prev[category] as Array<Filters[K][number]>;
@@ -234,7 +377,7 @@ function FilterControls({ filters, setFilters }: FilterControlsProps) {
   };
 
   const handleClearFilters = () => {
-    setFilters({ aspect: [], rarity: [], type: [], status: [] });
+    setFilters({ aspect: [], rarity: [], type: [], arena: [], status: [] });
   };
 
   // ---- Color helpers ----
@@ -270,7 +413,7 @@ function FilterControls({ filters, setFilters }: FilterControlsProps) {
   const needsDarkOutline = (bg: string) => relLuminance(hexToRgb(bg)) < 0.12;
 
 
-  const renderFilterGroup = <K extends 'aspect' | 'rarity' | 'type'>(
+  const renderFilterGroup = <K extends 'aspect' | 'rarity' | 'type' | 'arena'>(
     category: K,
     items: readonly Filters[K][number][],
   ) => (
@@ -430,6 +573,7 @@ function FilterControls({ filters, setFilters }: FilterControlsProps) {
         {renderFilterGroup('aspect', ALL_ASPECTS)}
         {renderFilterGroup('rarity', ALL_RARITIES)}
         {renderFilterGroup('type', ALL_TYPES)}
+        {showArenas && renderFilterGroup('arena', ALL_ARENAS)}
         {renderStatusFilterGroup()}
         <button
           className="tbtn tbtn-danger"
@@ -455,97 +599,120 @@ function addRawCount(
   setKey: unknown,
   cardNumber: unknown,
   count: unknown,
+  variant: VariantKind | undefined,
+  ref: ImportRowRef,
 ): boolean {
-  return collectRawImportEntry(aggregatedData, setKey, cardNumber, count);
+  return collectRawImportEntry(aggregatedData, setKey, cardNumber, count, variant, ref);
 }
 
-function normalizedImportResult(
-  raw: Record<SetKey, Inventory>,
-  catalog: CanonicalCatalog,
-  malformedSkipped: number,
-): ImportResult {
-  const result = applyImportedInventories({}, raw, 'replace', catalog);
-  return { ...result, skipped: result.skipped + malformedSkipped };
+/** Owned copies per printing, e.g. "2 Normal · 1 Hyperspace", in `VARIANT_KINDS` order. */
+function formatVariantBreakdown(counts: VariantCounts): string {
+  return VARIANT_KINDS
+    .filter(variant => counts[variant])
+    .map(variant => `${counts[variant]} ${VARIANT_LABELS[variant]}`)
+    .join(' · ');
 }
 
-function parseCsvContent(fileContent: string): { headers: string[]; rows: string[][] } {
-    // FIX 1: Normalize line endings to ensure correct line splitting regardless of OS/source.
-    const normalizedContent = fileContent.trim()
-        .replace(/\r\n/g, '\n') // Normalize CRLF to LF
-        .replace(/\r/g, '');    // Handle stray CR (for older Mac files)
-
-    const lines = normalizedContent.split('\n').filter(l => l.trim() !== '');
-    if (lines.length < 1) throw new Error("File is empty or contains no lines.");
-
-    // Simple header parsing (first line)
-    const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-    
-    const rows = lines.slice(1).map(line => {
-      // Regex to capture fields, respecting quotes.
-      const parts = line.match(/(".*?"|[^",]+)(?=\s*,|\s*$)/g) || [];
-      const row = parts.map(p => p.trim().replace(/^"|"$/g, '')); // Trim and remove quotes
-      
-      // FIX 2: Ensure rows are padded to match header length for trailing empty fields.
-      while (row.length < headers.length) {
-          row.push('');
-      }
+/** SWUDB marks foil copies with a boolean-ish column; anything truthy files the row as foil. */
+function isFoilFlag(value: unknown): boolean {
+  return ['true', 'yes', 'y', '1', 'foil'].includes(String(value ?? '').trim().toLowerCase());
+}
 
-      return row;
-    });
+// Normalize header for robust matching (lowercase + strip spaces/underscores)
+const normImportHeader = (s: string) => s.toLowerCase().replace(/[\s_]+/g, "");
 
-    return { headers, rows };
+type ImportFormat = "swudb" | "swunlimiteddb" | "unknown";
+
+/** Header-based format detection (no filename reliance); unknown layouts go to the column-mapping wizard. */
+function detectImportFormat(headers: string[]): ImportFormat {
+  const h = headers.map(normImportHeader);
+  const has = (name: string) => h.includes(normImportHeader(name));
+
+  // swudb: Set, CardNumber, Count
+  if (has("Set") && has("CardNumber") && has("Count")) return "swudb";
+  // sw-unlimited: Set, Base card id, Normal
+  if (has("Set") && (has("Base card id") || has("BaseCardId")) && has("Normal")) return "swunlimiteddb";
+  return "unknown";
 }
 
+/** Every non-empty sheet as text rows, for format detection and the column-mapping wizard. */
+async function readXlsxTables(file: File): Promise<SourceTable[]> {
+  const wb = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const tables: SourceTable[] = [];
+  for (const sheetName of wb.SheetNames) {
+    // The first non-empty row is the header
+    const records = XLSX.utils
+      .sheet_to_json<unknown[]>(wb.Sheets[sheetName], { header: 1, defval: '', raw: false })
+      .filter(record => record.some(cell => String(cell ?? '').trim() !== ''));
+    const [headerRecord, ...dataRecords] = records;
+    if (!headerRecord) continue;
+
+    const headers = headerRecord.map(cell => String(cell ?? '').trim());
+    tables.push({
+      headers,
+      rows: dataRecords.map(record => headers.map((_, i) => String(record[i] ?? '').trim())),
+      rowLabels: dataRecords.map(record => {
+        const rowNum = (record as { __rowNum__?: number }).__rowNum__;
+        return rowNum === undefined ? sheetName : `${sheetName} row ${rowNum + 1}`;
+      }),
+    });
+  }
+  return tables;
+}
+
+/**
+ * Reads every sheet laid out like an SW-Unlimited export (Set, Base card id, Normal, ...), which
+ * includes the app's own workbook export; other sheets, such as its summary, are skipped.
+ */
 export async function parseXlsxData(file: File, catalog: CanonicalCatalog): Promise<ImportResult> {
   const aggregatedData: Record<SetKey, Inventory> = {};
-  let malformedSkipped = 0;
+  const log = createImportLog();
 
   const buf = await file.arrayBuffer();
   const wb = XLSX.read(buf, { type: 'array' });
-  const sheet = wb.Sheets[wb.SheetNames[0]];
-  if (!sheet) throw new Error('XLSX has no sheets.');
-
-  // Read as rows with header row
-  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' });
-  if (!rows.length) return normalizedImportResult(aggregatedData, catalog, malformedSkipped);
+  if (!wb.SheetNames.length) throw new Error('XLSX has no sheets.');
 
   // Normalize header names once
   const norm = (s: string) => s.toLowerCase().replace(/[\s_]+/g, '');
-  const headerSet = new Set(Object.keys(rows[0]).map(norm));
-
-  // Required columns
-  if (!(headerSet.has('set') && (headerSet.has('basecardid') || headerSet.has('basecardid')) && headerSet.has('normal'))) {
-    throw new Error('Invalid XLSX format (need Set, Base card id, Normal).');
-  }
-
   // Construct column name resolvers (case/space tolerant)
   const col = (wanted: string, obj: Record<string, unknown>) => {
     const k = Object.keys(obj).find(h => norm(h) === norm(wanted));
     return k ?? wanted; // fall back, but usually found
   };
 
-  for (const r of rows) {
-    const setKey = String(r[col('Set', r)] ?? '').trim().toUpperCase() as SetKey;
-    const baseIdNum = Number(r[col('Base card id', r)]);
-    // Sum all variant columns starting at "Normal" through the end of the row.
-    // We’ll include common known alt headers if present.
-    const ALT_HEADERS = [
-      'Normal','Foil','Hyperspace','Foil & Hyperspace','Showcase','Organized Play',
-      'Event Exclusive','Prerelease Promo','Organized Play Foil','Standard Prestige',
-      'Foil Prestige','Serialized Prestige'
-    ];
-    let totalCount = 0;
-    for (const h of ALT_HEADERS) {
-      const key = col(h, r);
-      if (key in r) {
-        const n = Number(r[key]);
-        if (Number.isFinite(n)) totalCount += n;
+  let sawRows = false;
+  let sawInventorySheet = false;
+  for (const sheetName of wb.SheetNames) {
+    // Read as rows with header row
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(wb.Sheets[sheetName], { defval: '' });
+    if (!rows.length) continue;
+    sawRows = true;
+    // Required columns
+    if (detectImportFormat(Object.keys(rows[0])) !== 'swunlimiteddb') continue;
+    sawInventorySheet = true;
+
+    for (const r of rows) {
+      const setKey = String(r[col('Set', r)] ?? '').trim().toUpperCase() as SetKey;
+      const baseIdNum = Number(r[col('Base card id', r)]);
+      // Keep each known variant column ("Normal", "Foil", "Hyperspace", ...) as its own printing.
+      const counts: Partial<Record<VariantKind, unknown>> = {};
+      for (const variant of VARIANT_KINDS) {
+        const key = col(VARIANT_LABELS[variant], r);
+        if (key in r) counts[variant] = r[key];
       }
+      // sheet_to_json tags each row object with its 0-based sheet row
+      const rowNum = (r as { __rowNum__?: number }).__rowNum__;
+      collectRawImportRow(aggregatedData, setKey, baseIdNum, counts, {
+        row: rowNum === undefined ? sheetName : `${sheetName} row ${rowNum + 1}`,
+        log,
+      });
     }
-    if (!addRawCount(aggregatedData, setKey, baseIdNum, totalCount)) malformedSkipped += 1;
   }
 
-  return normalizedImportResult(aggregatedData, catalog, malformedSkipped);
+  if (sawRows && !sawInventorySheet) {
+    throw new Error('Invalid XLSX format (need Set, Base card id, Normal).');
+  }
+  return finishImport(aggregatedData, catalog, log);
 }
 
 export function parseCsvData(
@@ -554,38 +721,19 @@ export function parseCsvData(
   catalog: CanonicalCatalog
 ): ImportResult {
   const aggregatedData: Record<SetKey, Inventory> = {};
-  let malformedSkipped = 0;
+  const log = createImportLog();
 
   // Parse CSV into headers + rows (rows are string[]; access via indices)
-  const { headers, rows } = parseCsvContent(fileContent);
-
-  // -------- Header-based format detection (no filename reliance) --------
-  type ImportFormat = "swudb" | "swunlimiteddb" | "unknown";
-
-  // Normalize header for robust matching (lowercase + strip spaces/underscores)
-  const norm = (s: string) => s.toLowerCase().replace(/[\s_]+/g, "");
-  const headersNorm = headers.map(norm);
-
-  const detectImportFormat = (hdrs: string[]): ImportFormat => {
-    const h = hdrs.map(norm);
-
-    // swudb: Set, CardNumber, Count
-    if (h.includes(norm("Set")) && h.includes(norm("CardNumber")) && h.includes(norm("Count"))) {
-      return "swudb";
-    }
-    // sw-unlimited: Set, Base card id, Normal
-    if (h.includes(norm("Set")) && (h.includes(norm("Base card id")) || h.includes(norm("BaseCardId"))) && h.includes(norm("Normal"))) {
-      return "swunlimiteddb";
-    }
-    return "unknown";
-  };
+  const { headers, rows, lines } = parseCsvTable(fileContent);
+  const lineRef = (index: number): ImportRowRef => ({ row: `line ${lines[index]}`, log });
 
+  const headersNorm = headers.map(normImportHeader);
   const format = detectImportFormat(headers);
 
   // Helper: find column index by any of the provided header names
   const findColAny = (...names: string[]) => {
     for (const n of names) {
-      const idx = headersNorm.indexOf(norm(n));
+      const idx = headersNorm.indexOf(normImportHeader(n));
       if (idx !== -1) return idx;
     }
     return -1;
@@ -601,19 +749,22 @@ export function parseCsvData(
       throw new Error("Invalid format for SW-Unlimited export (missing Set, Base card id, or Normal column).");
     }
 
-    // Variant columns start at "Normal" and run to the end; sum them all
-    for (const row of rows) {
+    // Variant columns start at "Normal" and run to the end; unknown headers count as normal copies
+    const variantCols = headers
+      .map((header, index) => ({ index, variant: variantFromLabel(header) ?? 'normal' as VariantKind }))
+      .filter(({ index }) => index >= normalCol);
+    for (const [index, row] of rows.entries()) {
       const rawSet = (row[setCol] ?? "").toString().trim();
       const setKey = rawSet.toUpperCase() as SetKey;
 
       const baseIdNum = Number(row[idCol]);
-      let totalCount = 0;
-      for (let i = normalCol; i < row.length; i++) {
-        const v = Number(row[i]);
-        if (Number.isFinite(v)) totalCount += v;
+      const counts: Partial<Record<VariantKind, number>> = {};
+      for (const { index, variant } of variantCols) {
+        const v = Number(row[index]);
+        if (Number.isFinite(v)) counts[variant] = (counts[variant] ?? 0) + v;
       }
 
-      if (!addRawCount(aggregatedData, setKey, baseIdNum, totalCount)) malformedSkipped += 1;
+      collectRawImportRow(aggregatedData, setKey, baseIdNum, counts, lineRef(index));
     }
 
   } else if (format === "swudb") {
@@ -621,34 +772,42 @@ export function parseCsvData(
     const setCol = findColAny("Set");
     const numCol = findColAny("CardNumber");
     const countCol = findColAny("Count");
+    // Optional finish columns: "IsFoil" (true/false) and a free-text "Variant"
+    const foilCol = findColAny("IsFoil", "Foil");
+    const variantCol = findColAny("Variant", "VariantType");
 
     if (setCol === -1 || numCol === -1 || countCol === -1) {
       throw new Error("Invalid format for SWUDB export (missing Set, CardNumber, or Count column).");
     }
 
-    for (const row of rows) {
+    for (const [index, row] of rows.entries()) {
       const setKey = (row[setCol] ?? "").toString().trim().toUpperCase() as SetKey;
 
+      // Raw values go through as written ("079" still resolves to 79) so the skipped-row report shows them
       const cardNumRaw = (row[numCol] ?? "").toString().trim();
-      const count = Number(row[countCol]);
+      const variant =
+        (variantCol !== -1 ? variantFromLabel(row[variantCol]) : undefined) ??
+        (foilCol !== -1 && isFoilFlag(row[foilCol]) ? 'foil' : undefined);
 
-      // Strip leading zeros so keys match your index (e.g., "079" -> "79")
-      const numericId = Number(cardNumRaw);
-
-      if (!addRawCount(aggregatedData, setKey, numericId, count)) malformedSkipped += 1;
+      addRawCount(aggregatedData, setKey, cardNumRaw, row[countCol], variant, lineRef(index));
     }
 
   } else {
     // Fallback: try your existing JSON format
     try {
       const raw: unknown = JSON.parse(fileContent);
-      if (isUnknownRecord(raw) && raw.version === 1 && isUnknownRecordMap(raw.sets)) {
+      // v1 exports hold base-card counts; v2 exports hold printing keys such as "87:foil"
+      if (isUnknownRecord(raw) && (raw.version === 1 || raw.version === 2) && isUnknownRecordMap(raw.sets)) {
         for (const [setKey, inventory] of Object.entries(raw.sets)) {
           for (const [numStr, count] of Object.entries(inventory)) {
-            if (!addRawCount(aggregatedData, setKey, numStr, count)) malformedSkipped += 1;
+            const key = parsePrintingKey(numStr);
+            addRawCount(aggregatedData, setKey, key?.number ?? numStr, count, key?.variant, {
+              row: `sets.${setKey}.${numStr}`,
+              log,
+            });
           }
         }
-        return normalizedImportResult(aggregatedData, catalog, malformedSkipped);
+        return finishImport(aggregatedData, catalog, log);
       }
     } catch {
       // not JSON; fall through
@@ -657,7 +816,7 @@ export function parseCsvData(
     throw new Error("File format not recognized. Expected a SWUDB or SW-Unlimited CSV (or a valid app JSON export).");
   }
 
-  return normalizedImportResult(aggregatedData, catalog, malformedSkipped);
+  return finishImport(aggregatedData, catalog, log);
 }
 
 type ParsedSet = {
@@ -679,11 +838,6 @@ function isUnknownRecordMap(value: unknown): value is Record<string, UnknownReco
   return isUnknownRecord(value) && Object.values(value).every(isUnknownRecord);
 }
 
-function stringOrNamedValue(value: unknown): string | undefined {
-  if (typeof value === 'string') return value;
-  if (isUnknownRecord(value) && typeof value.Name === 'string') return value.Name;
-  return undefined;
-}
 
 function canonicalCatalogFromParsedSets(parsedSets: Iterable<ParsedSet>): CanonicalCatalog {
   const catalog: CanonicalCatalog = new Map();
@@ -696,10 +850,12 @@ function canonicalCatalogFromParsedSets(parsedSets: Iterable<ParsedSet>): Canoni
         printingNumber: card.Number,
         baseNumber,
         type: baseCard?.Type ?? card.Type,
+        rarity: baseCard?.Rarity ?? card.Rarity,
+        variant: variantFromLabel(card.VariantType),
       });
     }
   }
-  return catalog;
+  return labelAlternatePrintings(catalog);
 }
 
 export default function App() {
@@ -710,15 +866,41 @@ export default function App() {
   const submitSearchRef = useRef<() => void>(() => {});
   const [showImportModal, setShowImportModal] = useState(false);
   const [importData, setImportData] = useState<Record<SetKey, Inventory>>({});
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [importRejected, setImportRejected] = useState<ImportRejection[]>([]);
   const [importStats, setImportStats] = useState({ recognized: 0, skipped: 0 });
   const [importingFileName, setImportingFileName] = useState('');
+  const [columnMappings, setColumnMappings] = useState<SavedColumnMappings>(() => loadColumnMappings(appStorage));
+  // File whose layout the importers didn't recognize, waiting on the column-mapping wizard.
+  const [unmappedTable, setUnmappedTable] = useState<SourceTable | null>(null);
   const [showResetModal, setShowResetModal] = useState(false);
   const [showDeckCheckModal, setShowDeckCheckModal] = useState(false);
-  const [listView, setListView] = React.useState<'inventory' | 'missing'>('inventory');
+  const [listView, setListView] = React.useState<'inventory' | 'missing' | 'trade'>('inventory');
   const [view, setView] = useState<'binder' | 'decks'>('binder');
   const [ownershipScope, setOwnershipScope] = useState<'combined' | 'bindersOnly'>('combined');
   const [preconCatalog, setPreconCatalog] = useState<PreconCatalogEntry[]>([]);
-  const [deckLibrary, setDeckLibrary] = useState<DeckLibrary>(() => loadDeckLibrary(localStorage));
+  const [deckLibrary, setDeckLibrary] = useState<DeckLibrary>(() => loadDeckLibrary(appStorage));
+  const [quotaSettings, setQuotaSettings] = useState<QuotaSettings>(() => loadQuotaSettings(appStorage));
+  const [showQuotaModal, setShowQuotaModal] = useState(false);
+  const [journal, setJournal] = useState<InventoryJournal>(() => loadInventoryJournal(appStorage));
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [snapshots, setSnapshots] = useState<InventorySnapshot[]>(() => loadSnapshots(appStorage));
+  const [showSnapshotsModal, setShowSnapshotsModal] = useState(false);
+  const [ledger, setLedger] = useState<LedgerEntry[]>(() => loadLedger(appStorage));
+  const [showLedgerModal, setShowLedgerModal] = useState(false);
+  const [locationState, setLocationState] = useState<LocationState>(() => loadLocationState(appStorage));
+  const [showLocationsModal, setShowLocationsModal] = useState(false);
+  const [showCardDetail, setShowCardDetail] = useState(false);
+  const [showValueModal, setShowValueModal] = useState(false);
+  const [showMarketplaceModal, setShowMarketplaceModal] = useState(false);
+  const [showBinderPrintModal, setShowBinderPrintModal] = useState(false);
+  const [priceHistory, setPriceHistory] = useState<Record<SetKey, PriceSnapshot[]> | null>(null);
+  // Copies wanted per card under the active quota profile (feeds caps, x/y readouts and missing counts).
+  const quotaFor = useMemo(() => quotaResolver(quotaSettings), [quotaSettings]);
+  const quotaForCard = useCallback(
+    (card: Card) => quotaFor({ setKey: card.Set || setKey, type: card.Type, rarity: card.Rarity }),
+    [quotaFor, setKey],
+  );
 
   // In-app toast notifications (replaces window.alert)
   type ToastKind = 'success' | 'error' | 'warning';
@@ -735,6 +917,12 @@ export default function App() {
   const dismissToast = useCallback((id: number) => {
     setToasts(prev => prev.filter(t => t.id !== id));
   }, []);
+  // The persist helpers only see the in-memory cache; IndexedDB rejects writes later, through here.
+  useEffect(() => {
+    const onWriteError = () => showToast('Changes could not be saved on this device.', 'error');
+    window.addEventListener(STORAGE_WRITE_ERROR_EVENT, onWriteError);
+    return () => window.removeEventListener(STORAGE_WRITE_ERROR_EVENT, onWriteError);
+  }, [showToast]);
 
   // cache parsed data for sets (so we don't refetch repeatedly)
   const parsedCacheRef = useRef<Map<string, ParsedSet>>(new Map());
@@ -745,6 +933,7 @@ export default function App() {
   const auth = useAuth();
   const cloudSyncRef = useRef<CloudSync | null>(null);
   const applyRemoteInventoryRef = useRef<(setKey: SetKey, data: Inventory) => void>(() => {});
+  const readSetInvRef = useRef<(setKey: SetKey) => Inventory>(() => ({}));
   const [syncStatus, setSyncStatus] = useState<SyncStatus>('off');
   const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
   const [migrationPrompt, setMigrationPrompt] = useState<null | {
@@ -753,7 +942,7 @@ export default function App() {
   }>(null);
   if (cloudSyncRef.current == null) {
     cloudSyncRef.current = createCloudSync({
-      storage: localStorage,
+      storage: appStorage,
       fetch: (input, init) => fetch(input, init),
       broadcast: makeBrowserBroadcast(),
       onLocalApply: (incomingKey, data) => applyRemoteInventoryRef.current(incomingKey, data),
@@ -764,7 +953,7 @@ export default function App() {
   const applyRemoteDeckLibraryRef = useRef<(data: DeckLibrary) => void>(() => {});
   if (deckSyncRef.current == null) {
     deckSyncRef.current = createDeckSync({
-      storage: localStorage,
+      storage: appStorage,
       fetch: (input, init) => fetch(input, init),
       broadcast: makeDeckBroadcast(),
       onLocalApply: data => applyRemoteDeckLibraryRef.current(data),
@@ -802,25 +991,6 @@ export default function App() {
   // Data variants
   const [cardsAll, setCardsAll] = useState<Card[]>([]);     // unique by Number (used to color pages)
   const [cardsBase, setCardsBase] = useState<Card[]>([]);   // base printing per Name (lowest Number)
-  // Rarity normalization
-  function normalizeRarity(r: unknown): string | undefined {
-    if (!r) return undefined;
-    const v = String(r).trim();
-    const k = v.toLowerCase();
-    const map: Record<string,string> = {
-      c: 'Common', common: 'Common',
-      u: 'Uncommon', uncommon: 'Uncommon',
-      r: 'Rare', rare: 'Rare',
-      l: 'Legendary', legendary: 'Legendary',
-      s: 'Special',
-      starter: 'Special',
-      'starter deck exclusive': 'Special',
-      'starter deck-exclusive': 'Special',
-      special: 'Special'
-    };
-    return map[k] ?? v; // fall back to the original string
-  }
-
   // stable key for dedupe/show
   function keyNameType(c: {Name: string; Subtitle?: string; Type?: string}) {
     const sub = (c.Subtitle || '').trim().toLowerCase();
@@ -883,30 +1053,99 @@ export default function App() {
   // Inventory
   const [inventory, setInventory] = useState<Inventory>({});
   const [inventoryReadyForSet, setInventoryReadyForSet] = useState<SetKey | null>(null);
+  // Binder slots, tables and filters read per-card totals; printings are broken out on demand.
+  const baseTotals = useMemo<BaseTotals>(() => rollupInventory(inventory), [inventory]);
+  const [filingVariant, setFilingVariant] = useState<VariantKind>('normal');
+  // Journal bookkeeping: callers tag the next inventory update with its source, and the save
+  // effect records the difference from the last saved state of the same set.
+  const inventorySourceRef = useRef<{ source: ChangeSource; label?: string }>({ source: 'sync' });
+  const journalBaseRef = useRef<{ setKey: SetKey; inventory: Inventory } | null>(null);
+  const noteInventorySource = useCallback((source: ChangeSource, label?: string) => {
+    inventorySourceRef.current = { source, label };
+  }, []);
+  /** Journals a change to a set other than the one on screen, which bypasses the save effect. */
+  const recordSetChange = useCallback(
+    (k: SetKey, before: Inventory, after: Inventory, source: ChangeSource, label?: string) => {
+      const changes = diffInventories(before, after);
+      if (changes.length) setJournal(j => recordEntry(j, k, createJournalEntry(source, changes, label)));
+    },
+    [],
+  );
   useEffect(() => {
     if (inventoryReadyForSet === setKey) {
-      if (!persistCanonicalInventory(localStorage, setKey, inventory, canonicalCatalog)) {
+      if (!persistCanonicalInventory(appStorage, setKey, inventory, canonicalCatalog)) {
         showToast('Inventory could not be saved on this device.', 'error');
         return;
       }
       cloudSyncRef.current?.scheduleSync(setKey, inventory);
+
+      const previous = journalBaseRef.current;
+      const { source, label } = inventorySourceRef.current;
+      journalBaseRef.current = { setKey, inventory };
+      inventorySourceRef.current = { source: 'sync' };
+      // Undo/redo already moved their entry between stacks; the initial load has nothing to diff.
+      if (previous?.setKey === setKey && source !== 'undo' && source !== 'redo') {
+        recordSetChange(setKey, previous.inventory, inventory, source, label);
+      }
+    }
+  }, [canonicalCatalog, inventory, inventoryReadyForSet, recordSetChange, setKey, showToast]);
+
+  useEffect(() => {
+    if (!persistInventoryJournal(appStorage, journal)) {
+      showToast('Inventory history could not be saved on this device.', 'warning');
+    }
+  }, [journal, showToast]);
+
+  useEffect(() => {
+    if (!persistSnapshots(appStorage, snapshots)) {
+      showToast('Snapshots could not be saved on this device.', 'error');
+    }
+  }, [snapshots, showToast]);
+
+  useEffect(() => {
+    if (!persistLedger(appStorage, ledger)) {
+      showToast('Ledger could not be saved on this device.', 'error');
+    }
+  }, [ledger, showToast]);
+
+  useEffect(() => {
+    if (!persistLocationState(appStorage, locationState)) {
+      showToast('Storage locations could not be saved on this device.', 'error');
     }
-  }, [canonicalCatalog, inventory, inventoryReadyForSet, setKey, showToast]);
+  }, [locationState, showToast]);
+
+  useEffect(() => {
+    if (!persistColumnMappings(appStorage, columnMappings)) {
+      showToast('Import column mappings could not be saved on this device.', 'error');
+    }
+  }, [columnMappings, showToast]);
 
   useEffect(() => {
     applyRemoteInventoryRef.current = (incomingKey, data) => {
+      const before = incomingKey === setKey ? null : readSetInvRef.current(incomingKey);
       try {
-        persistCanonicalInventory(localStorage, incomingKey, data, canonicalCatalog);
+        persistCanonicalInventory(appStorage, incomingKey, data, canonicalCatalog);
       } catch {
         // Best-effort; ignore write failures on cross-tab replay.
       }
-      if (incomingKey === setKey) setInventory(data);
+      if (incomingKey === setKey) {
+        noteInventorySource('sync');
+        setInventory(canonicalizeInventory(incomingKey, data, canonicalCatalog));
+      } else if (before) {
+        recordSetChange(incomingKey, before, readSetInvRef.current(incomingKey), 'sync');
+      }
     };
-  }, [canonicalCatalog, setKey]);
+  }, [canonicalCatalog, noteInventorySource, recordSetChange, setKey]);
+
+  useEffect(() => {
+    if (!persistQuotaSettings(appStorage, quotaSettings)) {
+      showToast('Quota settings could not be saved on this device.', 'error');
+    }
+  }, [quotaSettings, showToast]);
 
   // Deck library (precon ownership + saved decks) — kept separate from binder inventory.
   useEffect(() => {
-    if (!persistDeckLibrary(localStorage, deckLibrary)) {
+    if (!persistDeckLibrary(appStorage, deckLibrary)) {
       showToast('Deck library could not be saved on this device.', 'error');
       return;
     }
@@ -1007,7 +1246,7 @@ export default function App() {
       const local: Record<SetKey, Inventory> = {};
       for (const key of setKeys) {
         try {
-          const raw = localStorage.getItem(`inv:${key}`);
+          const raw = appStorage.getItem(`inv:${key}`);
           local[key] = raw ? (JSON.parse(raw) as Inventory) : {};
         } catch {
           local[key] = {};
@@ -1022,8 +1261,8 @@ export default function App() {
           sync.markMigrationDone();
         } else if (!anyLocal && anyCloud) {
           for (const [k, v] of Object.entries(cloud)) {
-            if (persistCanonicalInventory(localStorage, k, v.data, canonicalCatalog)) {
-              if (k === setKey) setInventory(v.data);
+            if (persistCanonicalInventory(appStorage, k, v.data, canonicalCatalog)) {
+              if (k === setKey) setInventory(canonicalizeInventory(k, v.data, canonicalCatalog));
             }
           }
           sync.markMigrationDone();
@@ -1033,8 +1272,8 @@ export default function App() {
         }
       } else {
         for (const [k, v] of Object.entries(cloud)) {
-          if (persistCanonicalInventory(localStorage, k, v.data, canonicalCatalog)) {
-            if (k === setKey) setInventory(v.data);
+          if (persistCanonicalInventory(appStorage, k, v.data, canonicalCatalog)) {
+            if (k === setKey) setInventory(canonicalizeInventory(k, v.data, canonicalCatalog));
           }
         }
       }
@@ -1129,6 +1368,7 @@ export default function App() {
     aspect: [],
     rarity: [],
     type: [],
+    arena: [],
     status: [],
   });
 
@@ -1147,70 +1387,118 @@ export default function App() {
 
   useEffect(() => () => clearTcgCopyFeedbackTimer(), []);
 
-  // Spreads (instead of pages)
-  const maxNumber = useMemo(() => cardsBase.reduce((m,c)=>Math.max(m,c.Number), 0), [cardsBase]);
-  const totalPages = Math.max(1, Math.ceil(maxNumber / 12));
-  const totalSpreads = 1 + Math.ceil(Math.max(0, totalPages - 1) / 2);
-  const [viewSpread, setViewSpread] = useState<number>(0); // 0 => Page 1; >=1 => 2/3, 4/5, ...
+  // Spreads (instead of pages), laid out by the binder profile (pockets per page, page pairing)
+  const [binderProfile, setBinderProfile] = useState<BinderProfile>(() => loadBinderProfile(appStorage));
+  const [showBinderProfileModal, setShowBinderProfileModal] = useState(false);
+  // Sort order per set: cards fill binder slots in this order instead of by collector number.
+  const [binderSorts, setBinderSorts] = useState<BinderSortSettings>(() => loadBinderSorts(appStorage));
+  const [showBinderSortModal, setShowBinderSortModal] = useState(false);
+  const binderSortKeys = useMemo(() => binderSorts[setKey] ?? [], [binderSorts, setKey]);
+  const binderSlots = useMemo(() => sortBinderSlots(cardsBase, binderSortKeys), [cardsBase, binderSortKeys]);
+  const cardsBySlot = useMemo(
+    () => new Map(cardsBase.map(card => [slotOfNumber(binderSlots, card.Number), card])),
+    [cardsBase, binderSlots],
+  );
+  const totalPages = totalBinderPages(binderSlots.lastSlot, binderProfile);
+  const totalSpreads = totalBinderSpreads(totalPages, binderProfile);
+  const [viewSpread, setViewSpread] = useState<number>(0); // 0 => first spread (Page 1 with the default profile)
 
   const binderRef = useRef<HTMLDivElement>(null);
 
+  const selectionFor = useCallback((card: Card, profile: BinderProfile, slots: BinderSlots): ActiveSelection => {
+    const { page, row, column } = binderLayout(slotOfNumber(slots, card.Number), profile);
+    const { spreadCol, spreadRow } = getSpreadCoords(page, row, column, profile);
+    return { number: card.Number, card, page, row, column, spreadCol, spreadRow };
+  }, []);
+
   const activateCard = useCallback((card: Card) => {
-    const { page, row, column } = binderLayout(card.Number);
-    const { spreadCol, spreadRow } = getSpreadCoords(page, row, column);
-    setActive({ number: card.Number, card, page, row, column, spreadCol, spreadRow });
+    const selection = selectionFor(card, binderProfile, binderSlots);
+    setActive(selection);
     setError('');
-    setViewSpread(pageToSpread(page));
+    setViewSpread(pageToSpread(selection.page, binderProfile));
     setHighlightedRowNumber(card.Number);
 
     window.setTimeout(() => setHighlightedRowNumber(null), 500);
     binderRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
-  }, []);
+  }, [selectionFor, binderProfile, binderSlots]);
+
+  // A new geometry or sort order moves every card; keep the selected card selected and in view.
+  const relayoutBinder = (profile: BinderProfile, slots: BinderSlots) => {
+    if (active) {
+      const selection = selectionFor(active.card, profile, slots);
+      setActive(selection);
+      setViewSpread(pageToSpread(selection.page, profile));
+    } else {
+      setViewSpread(0);
+    }
+  };
 
-  // Suggestions dropdown
-  const [openSug, setOpenSug] = useState(false);
-  const [highlightIdx, setHighlightIdx] = useState(0);
-  const boxRef = useRef<HTMLDivElement | null>(null);
+  const changeBinderProfile = (profile: BinderProfile) => {
+    setBinderProfile(profile);
+    relayoutBinder(profile, binderSlots);
+  };
 
-  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+  // Reorganisation planner: the arrangement before the layout or sort settings were opened, and
+  // the moves from it to the arrangement after they are closed.
+  const layoutBeforeRef = useRef<BinderArrangement | null>(null);
+  const [reorgPlan, setReorgPlan] = useState<(ReorgPlan & { setKey: SetKey; id: number }) | null>(null);
+  const [reorgStep, setReorgStep] = useState(0);
 
-  // Build an overview of what will be imported per set
-  const importOverview = React.useMemo(() => {
-    const lines: Array<{ set: SetKey; counts: Record<string, number> }> = [];
+  const startLayoutEdit = () => {
+    layoutBeforeRef.current = { profile: binderProfile, slots: binderSlots };
+  };
 
-    for (const [set, inv] of Object.entries(importData)) {
-      const parsed = parsedCacheRef.current.get(set);
-      const counts: Record<string, number> = {
-        Leader: 0, Base: 0, Unit: 0, Event: 0, Upgrade: 0, Other: 0
-      };
+  const finishLayoutEdit = () => {
+    const before = layoutBeforeRef.current;
+    layoutBeforeRef.current = null;
+    if (!before) return;
+    const owned = cardsBase.filter(card => (baseTotals[card.Number] ?? 0) > 0).map(card => card.Number);
+    const plan = planBinderReorg(owned, before, { profile: binderProfile, slots: binderSlots });
+    setReorgPlan(plan.steps.length ? { ...plan, setKey, id: Date.now() } : null);
+    setReorgStep(0);
+  };
 
-      for (const numStr of Object.keys(inv)) {
-        const baseNum = Number(numStr);
-        if (!Number.isFinite(baseNum)) continue;
+  const reorgCurrent = reorgPlan?.setKey === setKey ? reorgPlan.steps[reorgStep] : undefined;
+  const reorgHighlights = useMemo(() => {
+    if (!reorgCurrent) return undefined;
+    const highlights: Array<Pocket & { tone: 'source' | 'target' }> = [];
+    if (reorgCurrent.from !== 'aside' && !reorgPlan?.newBinder) highlights.push({ ...reorgCurrent.from, tone: 'source' });
+    if (reorgCurrent.to !== 'aside') highlights.push({ ...reorgCurrent.to, tone: 'target' });
+    return highlights;
+  }, [reorgCurrent, reorgPlan]);
 
-        // Prefer byNumber (base-only list), fall back to allCards if needed
-        const card =
-          parsed?.byNumber.get(baseNum) ??
-          parsed?.allCards.find(c => c.Number === baseNum);
+  // Each step turns the binder to the pocket the card goes into (or leaves, when set aside).
+  useEffect(() => {
+    const pocket = reorgHighlights?.find(h => h.tone === 'target') ?? reorgHighlights?.[0];
+    if (pocket) setViewSpread(pageToSpread(pocket.page, binderProfile));
+  }, [reorgHighlights, binderProfile]);
+
+  const changeBinderSort = (keys: BinderSortKey[]) => {
+    setBinderSorts(prev => {
+      const next = { ...prev };
+      if (keys.length) next[setKey] = keys;
+      else delete next[setKey];
+      return next;
+    });
+    relayoutBinder(binderProfile, sortBinderSlots(cardsBase, keys));
+  };
 
-        const t = (card?.Type || '').trim();
-        if (t === 'Leader' || t === 'Base' || t === 'Unit' || t === 'Event' || t === 'Upgrade') {
-          counts[t] += 1;
-        } else {
-          counts.Other += 1;
-        }
-      }
+  useEffect(() => {
+    if (!persistBinderProfile(appStorage, binderProfile)) {
+      showToast('Binder layout could not be saved on this device.', 'error');
+    }
+  }, [binderProfile, showToast]);
 
-      // Only push if the set has any entries
-      if (Object.values(counts).some(v => v > 0)) {
-        lines.push({ set: set as SetKey, counts });
-      }
+  useEffect(() => {
+    if (!persistBinderSorts(appStorage, binderSorts)) {
+      showToast('Binder sort order could not be saved on this device.', 'error');
     }
+  }, [binderSorts, showToast]);
 
-    // Optional: sort by set key for stable display
-    lines.sort((a, b) => a.set.localeCompare(b.set));
-    return lines;
-  }, [importData]);
+  // Suggestions dropdown
+  const [openSug, setOpenSug] = useState(false);
+  const [highlightIdx, setHighlightIdx] = useState(0);
+  const boxRef = useRef<HTMLDivElement | null>(null);
 
   // Load set JSON
     useEffect(() => {
@@ -1224,7 +1512,7 @@ export default function App() {
         }
         
         const url = meta.file.startsWith('/') ? meta.file : `/sets/${meta.file}`;
-        const data = await fetchSetPayload(fetch, url);
+        const data = await fetchSetPayload(fetch, url, meta.key);
 
         const pricesName = meta.file.replace(/\.json$/i, '.prices.json');
         const pricesUrl = pricesName.startsWith('/') ? pricesName : `/sets/${pricesName}`;
@@ -1245,35 +1533,12 @@ export default function App() {
           /* optional overlay */
         }
 
-        const mapped: Card[] = data.map((value: unknown) => {
-          const c = isUnknownRecord(value) ? value : {};
-          const rawName = String(c.Name || '').trim();
-          const rawSubtitle = String(c.Subtitle || '').trim();
-          const cardName = rawName;
-          const num = Number(c.Number);
-          let marketPrice = Number(c.MarketPrice ?? c.Price ?? 0);
-          if (priceByNumber) {
-            const p = priceByNumber[String(num)];
-            if (p !== undefined && Number.isFinite(Number(p))) {
-              marketPrice = Number(p);
-            }
-          }
-          
-          return {
-            Name: cardName,
-            Subtitle: rawSubtitle || undefined,
-            Number: num,
-            Aspects: Array.isArray(c.Aspects)
-              ? c.Aspects.filter((aspect): aspect is string => typeof aspect === 'string')
-              : [],
-            Type: stringOrNamedValue(c.Type)?.trim(),
-            Rarity: normalizeRarity(
-              stringOrNamedValue(c.Rarity ?? c.rarity ?? c.RarityCode),
-            ),
-            MarketPrice: marketPrice,
-            Set: meta.key,
-          };
-        }).filter((c: Card) => !!c.Name && Number.isFinite(c.Number));
+        const mapped: Card[] = priceByNumber
+          ? data.map(card => {
+              const price = priceByNumber[String(card.Number)];
+              return price === undefined ? card : { ...card, MarketPrice: price };
+            })
+          : data;
 
         // 1) unique by Number
         const byNum = new Map<number, Card>();
@@ -1325,7 +1590,7 @@ export default function App() {
         if (!loadCommitGate.canCommit(loadToken)) return;
 
         const catalog = canonicalCatalogFromParsedSets(parsedCacheRef.current.values());
-        const loadedInventory = loadInventoriesForPersistence(localStorage, setKeys, catalog);
+        const loadedInventory = loadInventoriesForPersistence(appStorage, setKeys, catalog);
         if (!loadCommitGate.canCommit(loadToken)) return;
 
         if (!loadedInventory.migrationSucceeded) {
@@ -1408,8 +1673,9 @@ export default function App() {
     },
     [canonicalCatalog],
   );
+  // Query syntax (type:unit owned<3 …) runs as a search on Enter instead of suggesting cards.
   const suggestions = useMemo(
-    () => buildSearchSuggestions(query, searchCatalogs, setKey),
+    () => (looksLikeQuery(query) ? [] : buildSearchSuggestions(query, searchCatalogs, setKey)),
     [query, searchCatalogs, setKey],
   );
 
@@ -1428,16 +1694,19 @@ export default function App() {
   );
 
   // Deck Check: owned-quantity lookup spanning every set (not just the currently displayed one).
-  // Binder quantities stay capped at the playset quota; owned precons + physical decks are added
-  // on top, uncapped, unless the user has switched to "Binders only".
+  // Binder quantities count every copy, trade stock included; owned precons + physical decks are
+  // added on top unless the user has switched to "Binders only".
   const deckOwnedTotals = useMemo(
     () => (ownershipScope === 'combined' ? deriveOwnedTotals(deckLibrary, preconCatalog) : {}),
     [ownershipScope, deckLibrary, preconCatalog],
   );
   const buildOwnedLookup = useCallback(() => {
-    const snapshot = createInventoryExportSnapshot(localStorage, setKeys, setKey, inventory, canonicalCatalog);
+    const snapshot = createInventoryExportSnapshot(appStorage, setKeys, setKey, inventory, canonicalCatalog);
+    const totals = Object.fromEntries(
+      Object.entries(snapshot).map(([key, inv]) => [key, rollupInventory(inv)]),
+    ) as Record<SetKey, BaseTotals>;
     return (targetSetKey: SetKey, baseNumber: number) =>
-      (snapshot[targetSetKey]?.[baseNumber] ?? 0) + (deckOwnedTotals[targetSetKey]?.[baseNumber] ?? 0);
+      (totals[targetSetKey]?.[baseNumber] ?? 0) + (deckOwnedTotals[targetSetKey]?.[baseNumber] ?? 0);
   }, [setKeys, setKey, inventory, canonicalCatalog, deckOwnedTotals]);
 
   const togglePrecon = useCallback((key: string) => {
@@ -1482,24 +1751,27 @@ export default function App() {
     return () => document.removeEventListener('mousedown', onDoc);
   }, []);
 
-  function chooseSuggestion(suggestion: SearchSuggestion) {
-    if (suggestion.setKey !== setKey) {
-      setPendingSelection({
-        setKey: suggestion.setKey,
-        baseNumber: suggestion.baseNumber,
-      });
-      setSetKey(suggestion.setKey);
-      setQuery('');
-      setOpenSug(false);
+  // Selects a card in any set; another set is opened first and the card selected once it loads.
+  function focusCard(targetSetKey: SetKey, baseNumber: number) {
+    if (targetSetKey !== setKey) {
+      setPendingSelection({ setKey: targetSetKey, baseNumber });
+      setSetKey(targetSetKey);
       return;
     }
+    selectCardByNumber(baseNumber);
+  }
 
-    selectCardByNumber(suggestion.baseNumber);
+  function chooseSuggestion(suggestion: SearchSuggestion) {
+    focusCard(suggestion.setKey, suggestion.baseNumber);
     setQuery('');
     setOpenSug(false);
   }
 
   function submitSearch() {
+    if (looksLikeQuery(query)) {
+      runQuery(query.trim());
+      return;
+    }
     const suggestion = submittedSuggestion(suggestions, highlightIdx);
     if (!suggestion) {
       setError(query.trim() ? 'No matching card found.' : 'Enter a name or number.');
@@ -1527,12 +1799,12 @@ export default function App() {
         : deltaRow < 0
           ? 'up'
           : 'down';
-    const next = selectionAfterMove(active, direction, totalPages, byNumber);
+    const next = selectionAfterMove(active, direction, totalPages, cardsBySlot, binderProfile);
     if (next === active) return;
 
     setActive(next);
-    setViewSpread(pageToSpread(next.page));
-  }, [active, totalPages, byNumber]);
+    setViewSpread(pageToSpread(next.page, binderProfile));
+  }, [active, totalPages, cardsBySlot, binderProfile]);
   
 
   const [prevSetKey, nextSetKey] = useMemo(() => {
@@ -1572,43 +1844,225 @@ export default function App() {
     try {
       return canonicalizeInventory(
         k,
-        JSON.parse(localStorage.getItem(`inv:${k}`) || '{}') as Inventory,
+        JSON.parse(appStorage.getItem(`inv:${k}`) || '{}') as Inventory,
         canonicalCatalog,
       );
     }
     catch { return {}; }
   }
+  readSetInvRef.current = readSetInv;
   function writeSetInv(k: SetKey, inv: Inventory): boolean {
-    return persistCanonicalInventory(localStorage, k, inv, canonicalCatalog);
+    return persistCanonicalInventory(appStorage, k, inv, canonicalCatalog);
   }
-  const inc = useCallback((n: number) => {
-    const baseNumber = canonicalCatalog.get(`${setKey}:${n}`)?.baseNumber ?? null;
-    if (baseNumber === null) return;
-    const ref = canonicalCatalog.get(`${setKey}:${baseNumber}`);
-    const max = quotaForType(ref?.type);
-    setInventory(prev => ({
-      ...prev,
-      [baseNumber]: Math.min((prev[baseNumber] || 0) + 1, max),
+  /** Variant that +/- act on: the selected "filing as" finish applied to printing `n`. */
+  const filingKeyFor = useCallback((n: number) => {
+    const printing = canonicalCatalog.get(`${setKey}:${n}`);
+    if (!printing) return null;
+    return {
+      baseNumber: printing.baseNumber,
+      variant: resolveVariant(printingVariant(printing), filingVariant),
+    };
+  }, [canonicalCatalog, filingVariant, setKey]);
+  const inc = useCallback((n: number, source: ChangeSource = 'click') => {
+    const target = filingKeyFor(n);
+    if (!target) return;
+    noteInventorySource(source);
+    setInventory(prev => incrementPrinting(prev, target.baseNumber, target.variant));
+  }, [filingKeyFor, noteInventorySource]);
+  const dec = useCallback((n: number, source: ChangeSource = 'click') => {
+    const target = filingKeyFor(n);
+    if (!target) return;
+    noteInventorySource(source);
+    setInventory(prev => decrementPrinting(prev, target.baseNumber, target.variant));
+  }, [filingKeyFor, noteInventorySource]);
+
+  // Undo/redo walk the current set's journal; reverting adds a new entry so it can be undone too.
+  const canEditInventory = inventoryReadyForSet === setKey;
+  const undoInventory = useCallback(() => {
+    const step = canEditInventory ? undoEntry(journal, setKey) : null;
+    if (!step) return;
+    noteInventorySource('undo');
+    setJournal(step.journal);
+    setInventory(prev => applyChanges(prev, step.entry.changes, 'backward'));
+  }, [canEditInventory, journal, noteInventorySource, setKey]);
+  const redoInventory = useCallback(() => {
+    const step = canEditInventory ? redoEntry(journal, setKey) : null;
+    if (!step) return;
+    noteInventorySource('redo');
+    setJournal(step.journal);
+    setInventory(prev => applyChanges(prev, step.entry.changes, 'forward'));
+  }, [canEditInventory, journal, noteInventorySource, setKey]);
+  const revertInventoryEntry = useCallback((entry: JournalEntry) => {
+    if (!canEditInventory) return;
+    noteInventorySource('revert', new Date(entry.at).toLocaleString());
+    setInventory(prev => applyChanges(prev, entry.changes, 'backward'));
+  }, [canEditInventory, noteInventorySource]);
+  const describeSetPrintingKey = useCallback((k: SetKey, key: string) => {
+    const parsed = parsePrintingKey(key);
+    if (!parsed) return key;
+    const name = parsedCacheRef.current.get(k)?.byNumber.get(parsed.number)?.Name ?? `#${parsed.number}`;
+    return parsed.variant === 'normal' ? name : `${name} (${VARIANT_LABELS[parsed.variant]})`;
+  }, []);
+  const describePrintingKey = useCallback(
+    (key: string) => describeSetPrintingKey(setKey, key),
+    [describeSetPrintingKey, setKey],
+  );
+
+  // Snapshots: named copies of every set, diffed against each other or the live collection.
+  const liveCollection = useMemo(
+    () => (showSnapshotsModal || showValueModal || showMarketplaceModal
+      ? createInventoryExportSnapshot(appStorage, setKeys, setKey, inventory, canonicalCatalog)
+      : {}),
+    [showSnapshotsModal, showValueModal, showMarketplaceModal, setKeys, setKey, inventory, canonicalCatalog],
+  );
+  // Printings are priced by their own collector number; foils and others without one use the base card's.
+  const printingNumberOf = useMemo(() => printingNumberLookup(canonicalCatalog), [canonicalCatalog]);
+  const pricesByNumber = useMemo(() => {
+    const prices = new Map<SetKey, Map<number, number>>();
+    if (canonicalCatalog.size === 0) return prices;
+    for (const [k, parsed] of parsedCacheRef.current) {
+      prices.set(k, new Map(parsed.allCards.map(card => [card.Number, Number(card.MarketPrice ?? 0)])));
+    }
+    return prices;
+  }, [canonicalCatalog]);
+  const marketPriceOf = useCallback(
+    (k: SetKey, baseNumber: number, variant: VariantKind = 'normal') =>
+      pricesByNumber.get(k)?.get(printingNumberOf(k, baseNumber, variant)) ?? 0,
+    [pricesByNumber, printingNumberOf],
+  );
+  const saveSnapshot = (name: string) => {
+    const snapshot = createInventorySnapshot(
+      name,
+      createInventoryExportSnapshot(appStorage, setKeys, setKey, inventory, canonicalCatalog),
+    );
+    setSnapshots(prev => [...prev, snapshot]);
+    showToast(`Saved snapshot “${snapshot.name}”.`);
+  };
+  // Collection value: dated price snapshots (fetched once, on first open) applied to the live
+  // collection or the inventory snapshots saved before each date.
+  useEffect(() => {
+    if (!showValueModal || priceHistory) return;
+    let cancelled = false;
+    void Promise.all(
+      sets.map(async meta => {
+        const historyName = meta.file.replace(/\.json$/i, '.price-history.json');
+        const url = historyName.startsWith('/') ? historyName : `/sets/${historyName}`;
+        return [meta.key, await fetchPriceHistory(fetch, url)] as const;
+      }),
+    ).then(entries => {
+      if (!cancelled) setPriceHistory(Object.fromEntries(entries.filter(([, days]) => days.length > 0)));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showValueModal, priceHistory, sets]);
+  // Base cards of every loaded set, for the marketplace and workbook exports.
+  const loadedCollectionSets = useCallback(
+    (): MarketplaceSet[] =>
+      sets
+        .filter(meta => parsedCacheRef.current.has(meta.key))
+        .map(meta => ({
+          setKey: meta.key,
+          setName: setNameFromLabel(meta.label, meta.key),
+          cards: parsedCacheRef.current.get(meta.key)!.baseCards,
+        })),
+    [sets],
+  );
+  const cardQuotaOf = useCallback(
+    (k: SetKey, card: Card) => quotaFor({ setKey: k, type: card.Type, rarity: card.Rarity }),
+    [quotaFor],
+  );
+  // Marketplace export: wants and haves across every loaded set.
+  const marketplaceSets = useMemo(
+    () => (showMarketplaceModal ? loadedCollectionSets() : []),
+    [showMarketplaceModal, loadedCollectionSets],
+  );
+  const copyMarketplaceList = (text: string) => {
+    navigator.clipboard.writeText(text).then(
+      () => showToast('Copied list to clipboard.'),
+      () => showToast('Could not write to the clipboard. Check site permissions.', 'error'),
+    );
+  };
+  const downloadMarketplaceList = (text: string, format: MarketplaceFormat, kind: MarketplaceListKind) => {
+    const fileName = `swu-${kind}-${format.id}-${tsStamp()}.${format.extension}`;
+    if (format.extension === 'csv') downloadCsv(text, fileName);
+    else downloadText(text, fileName, 'text/plain;charset=utf-8');
+  };
+  const valueSeries = useMemo(() => {
+    if (!showValueModal || !priceHistory) return null;
+    const wanted: Record<SetKey, WantedCard[]> = {};
+    for (const [k, parsed] of parsedCacheRef.current) {
+      wanted[k] = parsed.baseCards.map(card => ({
+        baseNumber: card.Number,
+        quota: quotaFor({ setKey: k, type: card.Type, rarity: card.Rarity }),
+      }));
+    }
+    return collectionValueSeries(priceHistory, liveCollection, snapshots, wanted, { numberOf: printingNumberOf });
+  }, [showValueModal, priceHistory, liveCollection, snapshots, quotaFor, printingNumberOf]);
+  // Locations: per-printing counts of the selected card outside the main binder.
+  const activeCardPrintings = useMemo(() => {
+    if (!active) return [];
+    return Object.entries(variantCounts(inventory, active.card.Number)).map(([variant, owned]) => ({
+      key: printingKey(active.card.Number, variant as VariantKind),
+      label: VARIANT_LABELS[variant as VariantKind],
+      owned: owned ?? 0,
     }));
-  }, [canonicalCatalog, setKey]);
-  const dec = useCallback((n: number) => {
-    const baseNumber = canonicalCatalog.get(`${setKey}:${n}`)?.baseNumber ?? null;
-    if (baseNumber === null) return;
-    setInventory(prev => {
-      const next = Math.max((prev[baseNumber] || 0) - 1, 0);
-      if (next === 0) {
-        const { [baseNumber]: _removed, ...rest } = prev; // drop the key entirely
-        return rest;
-      }
-      return { ...prev, [baseNumber]: next };
+  }, [active, inventory]);
+  const activeLocations: LocationCount[] = useMemo(
+    () => cardLocationTotals(locationState, setKey, inventory, activeCardPrintings.map(p => p.key)),
+    [locationState, setKey, inventory, activeCardPrintings],
+  );
+  // Card detail drawer: every printing of the selected card, where the copies are and which decks use it.
+  // It follows the selection and closes once nothing is selected (Escape, set change).
+  useEffect(() => {
+    if (!active) setShowCardDetail(false);
+  }, [active]);
+  const activeCardDetail = useMemo(() => {
+    if (!showCardDetail || !active) return null;
+    const baseNumber = active.card.Number;
+    const parsed = parsedCacheRef.current.get(setKey);
+    const printingCards = new Map((parsed?.allCards ?? []).map(card => [card.Number, card]));
+    return {
+      printings: cardPrintings(
+        setKey,
+        parsed?.baseToAll.get(baseNumber) ?? [baseNumber],
+        number => printingCards.get(number),
+        canonicalCatalog,
+        variantCounts(inventory, baseNumber),
+      ),
+      ownership: cardOwnershipSplit(setKey, baseNumber, baseTotals[baseNumber] ?? 0, deckLibrary, preconCatalog),
+      usage: cardDeckUsage(setKey, baseNumber, deckLibrary, preconCatalog),
+    };
+  }, [showCardDetail, active, setKey, canonicalCatalog, inventory, baseTotals, deckLibrary, preconCatalog]);
+
+  // Ledger: purchases and sales, valued against the same market prices as the tables.
+  const ledgerByCard = useMemo(() => ledgerPositions(ledger), [ledger]);
+  const addLedgerEntry = (input: NewLedgerEntryInput) => {
+    const entry = createLedgerEntry(input);
+    if (!entry) {
+      showToast('Ledger entries need a date, a card, a quantity of at least 1 and a price.', 'warning');
+      return false;
+    }
+    setLedger(prev => [...prev, entry]);
+    return true;
+  };
+  const restoreSnapshot = (snapshot: InventorySnapshot) => {
+    setImportData(snapshot.sets);
+    setImportStats({
+      recognized: Object.values(snapshot.sets).reduce((sum, inv) => sum + Object.keys(inv).length, 0),
+      skipped: 0,
     });
-  }, [canonicalCatalog, setKey]);
+    setImportRejected([]);
+    setImportingFileName(`snapshot “${snapshot.name}”`);
+    setShowSnapshotsModal(false);
+    setShowImportModal(true);
+  };
   function exportAllInv() {
     try {
       const payload = {
-        version: 1 as const,
+        version: 2 as const,
         sets: createInventoryExportSnapshot(
-          localStorage,
+          appStorage,
           setKeys,
           setKey,
           inventory,
@@ -1627,6 +2081,265 @@ export default function App() {
     }
   }
 
+  // Binder print: pages of the open set, laid out the way the binder files cards.
+  const binderPrintSheets = useMemo(
+    () => (showBinderPrintModal ? binderPrintPages(cardsBase, baseTotals, quotaForCard, binderProfile, binderSlots) : []),
+    [showBinderPrintModal, cardsBase, baseTotals, quotaForCard, binderProfile, binderSlots],
+  );
+  const setLabel = sets.find(meta => meta.key === setKey)?.label ?? setKey;
+  // Opens a printable document in a new window with the print dialog; false when pop-ups are blocked.
+  function printHtml(html: string, what: string): boolean {
+    const win = window.open('', '_blank');
+    if (!win) {
+      showToast(`Allow pop-ups for this site to print the ${what}.`, 'warning');
+      return false;
+    }
+    win.document.write(html);
+    win.document.close();
+    win.focus();
+    win.print();
+    return true;
+  }
+  function printBinder(mode: BinderPrintMode) {
+    if (!printHtml(binderPrintHtml(mode, setLabel, binderPrintSheets), 'binder')) return;
+    setShowBinderPrintModal(false);
+  }
+
+  // Where a card of any loaded set is filed, using that set's sort order.
+  function binderPocketLookup() {
+    const slotsBySet = new Map<SetKey, BinderSlots>();
+    return (k: SetKey, n: number): Pocket | undefined => {
+      const parsed = parsedCacheRef.current.get(k);
+      if (!parsed?.byNumber.has(n)) return undefined;
+      const slots = slotsBySet.get(k) ?? sortBinderSlots(parsed.baseCards, binderSorts[k] ?? []);
+      slotsBySet.set(k, slots);
+      return pocketOf({ profile: binderProfile, slots }, n);
+    };
+  }
+
+  // Binder copies of a card in any set, across printings.
+  function binderOwnedLookup() {
+    const inventories = createInventoryExportSnapshot(appStorage, setKeys, setKey, inventory, canonicalCatalog);
+    const totals = new Map<SetKey, BaseTotals>();
+    return (k: SetKey, n: number) => {
+      const setTotals = totals.get(k) ?? rollupInventory(inventories[k] ?? {});
+      totals.set(k, setTotals);
+      return setTotals[n] ?? 0;
+    };
+  }
+
+  // Binder walk: steps through cards in binder order, selecting each so the spread follows.
+  const [binderWalk, setBinderWalk] = useState<{ title: string; stops: BinderWalkStop[] } | null>(null);
+  const [walkStep, setWalkStep] = useState(0);
+
+  function goToWalkStep(walk: { stops: BinderWalkStop[] }, step: number) {
+    const stop = walk.stops[step];
+    if (!stop) return;
+    setWalkStep(step);
+    focusCard(stop.setKey, stop.baseNumber);
+  }
+
+  function startBinderWalk(title: string, stops: BinderWalkStop[]) {
+    const walk = { title, stops };
+    endFilingSession();
+    setBinderWalk(walk);
+    setView('binder');
+    goToWalkStep(walk, 0);
+  }
+
+  // Deck pull list: the deck's cards in binder order across sets, capped by the binder copies.
+  const [pullList, setPullList] = useState<{ title: string; lines: PullListLine[] } | null>(null);
+
+  function showPullList(title: string, contents: DeckContents) {
+    const lines = deckPullList(
+      contents,
+      {
+        cardOf: (k, n) => parsedCacheRef.current.get(k)?.byNumber.get(n),
+        pocketOf: binderPocketLookup(),
+        ownedOf: binderOwnedLookup(),
+      },
+      setKeys,
+    );
+    setPullList({ title, lines });
+  }
+
+  function startPullWalk() {
+    if (!pullList) return;
+    setPullList(null);
+    startBinderWalk(
+      `Pulling ${pullList.title}`,
+      pullList.lines
+        .filter(line => line.pull > 0 && line.pocket)
+        .map(line => ({ ...line, action: `pull ${line.pull} ×` })),
+    );
+  }
+
+  // Sets in the order of the set picker; untracked sets go last.
+  const setRank = (k: SetKey) => (setKeys.includes(k) ? setKeys.indexOf(k) : setKeys.length);
+
+  // Query search: every loaded set's cards matching the query, listed for selection and bulk actions.
+  const [queryResults, setQueryResults] = useState<{ query: string; results: QueryResult[] } | null>(null);
+
+  function runQuery(text: string) {
+    const { node, errors } = parseSearchQuery(text);
+    if (errors.length) {
+      setError(errors[0]);
+      return;
+    }
+    if (!node) {
+      setError('Enter a name or number.');
+      return;
+    }
+    setError('');
+    setOpenSug(false);
+    const catalogs = [...searchCatalogs].sort((a, b) => setRank(a.setKey) - setRank(b.setKey));
+    setQueryResults({ query: text, results: runSearchQuery(node, catalogs, { ownedOf: binderOwnedLookup() }) });
+  }
+
+  function chooseQueryResult(result: QueryResult) {
+    setQueryResults(null);
+    setView('binder');
+    focusCard(result.setKey, result.card.Number);
+  }
+
+  function walkQueryResults() {
+    if (!queryResults) return;
+    const pocketOfCard = binderPocketLookup();
+    const stops = queryResults.results
+      .map(({ setKey: k, card }) => ({
+        setKey: k,
+        baseNumber: card.Number,
+        name: card.Name,
+        subtitle: card.Subtitle,
+        action: 'find',
+        pocket: pocketOfCard(k, card.Number),
+      }))
+      .sort(
+        (a, b) =>
+          setRank(a.setKey) - setRank(b.setKey) ||
+          (a.pocket && b.pocket ? comparePockets(a.pocket, b.pocket) : 0) ||
+          a.baseNumber - b.baseNumber,
+      );
+    setQueryResults(null);
+    startBinderWalk(`Search: ${queryResults.query}`, stops);
+  }
+
+  function bulkUpdateQueryResults(action: BulkAction) {
+    if (!queryResults) return;
+    const cards = queryResults.results.filter(result => result.setKey === setKey).map(result => result.card);
+    applyBulkAction(action, cards, `search "${queryResults.query}"`);
+  }
+
+  // Filing session: a stack of new cards for the current set, counted as they are entered and
+  // then filed in binder order. Copies over quota are kept apart on an extras pile.
+  const [filingSession, setFilingSession] = useState<FilingSession | null>(null);
+  const [filingWalk, setFilingWalk] = useState(false);
+  const [filingStep, setFilingStep] = useState(0);
+  const filingCatalogs = useMemo(() => searchCatalogs.filter(catalog => catalog.setKey === setKey), [searchCatalogs, setKey]);
+  const filingSuggest = useCallback(
+    (text: string) => buildSearchSuggestions(text, filingCatalogs, setKey, 5),
+    [filingCatalogs, setKey],
+  );
+  const filingStops = useMemo(
+    () =>
+      filingSession
+        ? filingQueue(filingSession.entries, n => pocketOf({ profile: binderProfile, slots: binderSlots }, n)).map(stop => ({
+            ...stop,
+            setKey: filingSession.setKey,
+            action: `file ${stop.copies} ×`,
+          }))
+        : [],
+    [filingSession, binderProfile, binderSlots],
+  );
+  const filingExtraStops = useMemo(() => (filingSession ? filingExtras(filingSession.entries) : []), [filingSession]);
+
+  // Entries belong to the session's set; while another set is open or the inventory can't be edited,
+  // adding and removing are blocked and the session says why.
+  const filingBlockedReason = !filingSession
+    ? undefined
+    : filingSession.setKey !== setKey
+      ? `Switch back to ${filingSession.setKey} to add or remove cards.`
+      : !canEditInventory
+        ? 'Inventory is read-only until saved data can be read.'
+        : undefined;
+  const filingBlocked = !!filingBlockedReason;
+
+  function addFilingEntry(suggestion: SearchSuggestion, text: string) {
+    const card = byNumber.get(suggestion.baseNumber);
+    if (!filingSession || filingBlocked || !card) return;
+    // A typed collector number of an alternate printing counts that printing.
+    const typed = Number(text.trim());
+    const printingNumber =
+      suggestion.kind === 'number' && suggestion.printingNumbers.includes(typed) ? typed : suggestion.baseNumber;
+    const target = filingKeyFor(printingNumber);
+    if (!target) return;
+    const extra = (baseTotals[suggestion.baseNumber] ?? 0) >= quotaForCard(card);
+    noteInventorySource('filing');
+    setInventory(prev => incrementPrinting(prev, target.baseNumber, target.variant));
+    const id = filingSession.entries.reduce((max, entry) => Math.max(max, entry.id), 0) + 1;
+    setFilingSession({
+      ...filingSession,
+      entries: [
+        ...filingSession.entries,
+        {
+          id,
+          baseNumber: target.baseNumber,
+          printingNumber,
+          variant: target.variant,
+          name: card.Name,
+          subtitle: card.Subtitle,
+          extra,
+        },
+      ],
+    });
+  }
+
+  // Takes back exactly the printing the entry added, whatever "Filing as" is set to now.
+  function removeFilingCopy(id: number) {
+    const entry = filingSession?.entries.find(e => e.id === id);
+    if (!filingSession || filingBlocked || !entry) return;
+    noteInventorySource('filing');
+    setInventory(prev =>
+      variantCounts(prev, entry.baseNumber)[entry.variant]
+        ? decrementPrinting(prev, entry.baseNumber, entry.variant)
+        : prev,
+    );
+    setFilingSession({ ...filingSession, entries: removeFilingEntry(filingSession.entries, id) });
+  }
+
+  function goToFilingStep(step: number) {
+    const stop = filingStops[step];
+    if (!stop) return;
+    setFilingStep(step);
+    focusCard(stop.setKey, stop.baseNumber);
+  }
+
+  function startFilingWalk() {
+    setBinderWalk(null);
+    setFilingWalk(true);
+    setView('binder');
+    goToFilingStep(0);
+  }
+
+  function endFilingSession() {
+    setFilingSession(null);
+    setFilingWalk(false);
+  }
+
+  // One sheet per set plus a summary; the set sheets import back through parseXlsxData.
+  function exportCollectionWorkbook() {
+    try {
+      const inventories = createInventoryExportSnapshot(appStorage, setKeys, setKey, inventory, canonicalCatalog);
+      const wb = XLSX.utils.book_new();
+      for (const sheet of collectionWorkbookSheets(loadedCollectionSets(), inventories, cardQuotaOf, marketPriceOf)) {
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(sheet.rows), sheet.name);
+      }
+      XLSX.writeFile(wb, `SWU-Collection-${tsStamp()}.xlsx`);
+    } catch {
+      showToast('Collection workbook could not be created because saved data is unreadable.', 'error');
+    }
+  }
+
   function RarityBadge({ rarity }: { rarity?: string }) {
     const sty = rarityGlyph(rarity);
     if (!sty) return null;
@@ -1706,64 +2419,53 @@ export default function App() {
   const CORE_RARITIES = ['Common', 'Uncommon', 'Rare', 'Legendary']; // List of non-special core rarities
 
   function performBulkAction(
-    action: 'add' | 'remove' | 'add_max' | 'remove_all',
+    action: BulkAction,
     target: 'all' | string, // string means Rarity or Type key
     qty: number = 1
   ) {
     // REMOVED BROWSER CONFIRMATION for all actions per user request.
-    
-    setInventory(prevInv => {
-      const nextInv: Inventory = { ...prevInv };
-
-      for (const card of cardsBase) {
-        let processCard = false;
+    const cards = cardsBase.filter(card => {
+      if (target === 'all') return true;
+      // Core rarities and Special match on Rarity; anything else is a Card Type (Leader, Unit, …).
+      if (CORE_RARITIES.includes(target) || target === 'Special') return card.Rarity === target;
+      return card.Type === target;
+    });
+    applyBulkAction(action, cards, target === 'all' ? 'All cards' : target, qty);
+    setShowBulkActionsModal(false);
+  }
 
-        if (target === 'all') {
-          processCard = true;
-        } else if (CORE_RARITIES.includes(target)) {
-          // Check for core Rarity targets
-          if (card.Rarity === target) {
-            processCard = true;
-          }
-        } else if (target === 'Special') {
-          const cardRarity = card.Rarity;
-          if (cardRarity === 'Special') {
-            processCard = true;
-          }
-        } else {
-          // Assume target is a Card Type (Leader, Unit, Event, Upgrade, etc.)
-          if (card.Type === target) {
-            processCard = true;
-          }
-        }
+  // Applies a bulk action to some of the current set's cards; `label` names them in History.
+  function applyBulkAction(action: BulkAction, cards: Card[], label: string, qty: number = 1) {
+    const actionLabels = { add: `+${qty}`, add_max: 'Max', remove: `−${qty}`, remove_all: 'Clear' };
+    noteInventorySource('bulk', `${actionLabels[action]} · ${label}`);
 
-        if (processCard) {
-          const max = quotaForType(card.Type);
-          const currentQty = nextInv[card.Number] || 0;
-
-          if (action === 'add' || action === 'add_max') {
-            const amount = action === 'add' ? qty : max;
-            nextInv[card.Number] = Math.min(currentQty + amount, max);
-          } else if (action === 'remove') {
-            const nextQty = Math.max(currentQty - qty, 0);
-            if (nextQty === 0) {
-              delete nextInv[card.Number];
-            } else {
-              nextInv[card.Number] = nextQty;
-            }
-          } else if (action === 'remove_all') {
-             delete nextInv[card.Number];
+    setInventory(prevInv => {
+      let nextInv: Inventory = { ...prevInv };
+
+      for (const card of cards) {
+        const max = quotaForCard(card);
+
+        // Adds file copies as the selected variant up to the quota; removals take that variant first.
+        if (action === 'add' || action === 'add_max') {
+          const owned = rollupInventory(nextInv)[card.Number] ?? 0;
+          const amount = Math.min(action === 'add' ? qty : max, Math.max(max - owned, 0));
+          nextInv = incrementPrinting(nextInv, card.Number, filingVariant, amount);
+        } else if (action === 'remove') {
+          for (let i = 0; i < qty; i++) {
+            nextInv = decrementPrinting(nextInv, card.Number, filingVariant);
           }
+        } else if (action === 'remove_all') {
+          nextInv = removeCardPrintings(nextInv, card.Number);
         }
       }
       return pruneZeros(nextInv);
     });
-    setShowBulkActionsModal(false);
   }
 
   const handleResetInventory = (scope: 'current' | 'all') => {
       if (scope === 'current') {
-          if (removePersistedInventory(localStorage, setKey, canonicalCatalog)) {
+          if (removePersistedInventory(appStorage, setKey, canonicalCatalog)) {
+              noteInventorySource('reset');
               setInventory({});
               cloudSyncRef.current?.scheduleSync(setKey, {});
               showToast(`Inventory for the current set (${setKey}) has been cleared.`);
@@ -1773,12 +2475,14 @@ export default function App() {
       } else if (scope === 'all') {
           let allRemoved = true;
           const clearedKeys: SetKey[] = [];
+          const clearedFrom = new Map<SetKey, Inventory>();
           // Clear set inventories without deleting the migration backup or schema marker.
           if (!sets.length) {
-              for (const key of Object.keys(localStorage)) {
+              for (const key of storageKeys(appStorage)) {
                   if (/^inv:[A-Z0-9]+$/.test(key)) {
                       const setKeyToClear = key.slice(4);
-                      const ok = removePersistedInventory(localStorage, setKeyToClear, canonicalCatalog);
+                      clearedFrom.set(setKeyToClear, readSetInv(setKeyToClear));
+                      const ok = removePersistedInventory(appStorage, setKeyToClear, canonicalCatalog);
                       allRemoved = ok && allRemoved;
                       if (ok) clearedKeys.push(setKeyToClear);
                   }
@@ -1786,15 +2490,18 @@ export default function App() {
           } else {
               // Clear based on loaded set keys
               for (const set of sets) {
-                  const ok = removePersistedInventory(localStorage, set.key, canonicalCatalog);
+                  clearedFrom.set(set.key, readSetInv(set.key));
+                  const ok = removePersistedInventory(appStorage, set.key, canonicalCatalog);
                   allRemoved = ok && allRemoved;
                   if (ok) clearedKeys.push(set.key);
               }
           }
           if (allRemoved) {
+              noteInventorySource('reset');
               setInventory({}); // Reset current view as well
               for (const key of clearedKeys) {
                   cloudSyncRef.current?.scheduleSync(key, {});
+                  if (key !== setKey) recordSetChange(key, clearedFrom.get(key) ?? {}, {}, 'reset');
               }
               showToast('Inventory for ALL sets has been cleared.');
           } else {
@@ -1821,28 +2528,28 @@ export default function App() {
       } else if (choice === 'startFresh') {
         await sync.pushAll({});
         for (const key of setKeys) {
-          if (removePersistedInventory(localStorage, key, canonicalCatalog) && key === setKey) {
+          if (removePersistedInventory(appStorage, key, canonicalCatalog) && key === setKey) {
             setInventory({});
           }
         }
       } else if (choice === 'useCloud') {
         for (const [k, inv] of Object.entries(cloudAsInv)) {
-          if (persistCanonicalInventory(localStorage, k, inv, canonicalCatalog) && k === setKey) {
+          if (persistCanonicalInventory(appStorage, k, inv, canonicalCatalog) && k === setKey) {
             setInventory(inv);
           }
         }
         for (const key of setKeys) {
           if (!(key in cloudAsInv)) {
-            if (removePersistedInventory(localStorage, key, canonicalCatalog) && key === setKey) {
+            if (removePersistedInventory(appStorage, key, canonicalCatalog) && key === setKey) {
               setInventory({});
             }
           }
         }
       } else if (choice === 'merge') {
-        const merged = applyImportedInventories(local, cloudAsInv, 'merge', canonicalCatalog);
-        await sync.pushAll(merged.inventories);
-        for (const [k, inv] of Object.entries(merged.inventories)) {
-          if (persistCanonicalInventory(localStorage, k, inv, canonicalCatalog) && k === setKey) {
+        const merged = mergeHigherCounts(local, cloudAsInv, canonicalCatalog);
+        await sync.pushAll(merged);
+        for (const [k, inv] of Object.entries(merged)) {
+          if (persistCanonicalInventory(appStorage, k, inv, canonicalCatalog) && k === setKey) {
             setInventory(inv);
           }
         }
@@ -1856,22 +2563,46 @@ export default function App() {
     }
   }, [canonicalCatalog, migrationPrompt, setKey, setKeys, showToast]);
 
-  const applyImport = (mode: 'merge' | 'replace') => {
-      const current = Object.fromEntries(setKeys.map(key => [key, readSetInv(key)])) as Record<SetKey, Inventory>;
-      const knownSetKeys = new Set(setKeys);
-      const safeImportData = Object.fromEntries(
-        Object.entries(importData).filter(([key]) => knownSetKeys.has(key)),
-      ) as Record<SetKey, Inventory>;
-      const result = applyImportedInventories(current, safeImportData, mode, canonicalCatalog);
+  // Per-card preview of the pending import under the chosen mode; the same changes are applied.
+  // The open set comes from memory, so a change not yet saved is neither shown stale nor overwritten.
+  // null when a saved set cannot be read.
+  const importPreviews = useMemo(() => {
+    if (!showImportModal || canonicalCatalog.size === 0) return [];
+    let current: Record<SetKey, Inventory>;
+    try {
+      current = createInventoryExportSnapshot(appStorage, setKeys, setKey, inventory, canonicalCatalog);
+    } catch {
+      return null;
+    }
+    const knownSetKeys = new Set(setKeys);
+    const safeImportData = Object.fromEntries(
+      Object.entries(importData).filter(([key]) => knownSetKeys.has(key)),
+    ) as Record<SetKey, Inventory>;
+    return previewImport(current, safeImportData, importMode, canonicalCatalog, (k, baseNumber) => {
+      const card = parsedCacheRef.current.get(k)?.byNumber.get(baseNumber);
+      return quotaFor({ setKey: k, type: card?.Type, rarity: card?.Rarity });
+    });
+  }, [showImportModal, importData, importMode, setKeys, setKey, inventory, canonicalCatalog, quotaFor]);
+
+  const applyImport = (exclusions: ImportExclusions) => {
+      if (!importPreviews) {
+          showToast('Import could not be applied because saved data is unreadable.', 'error');
+          return;
+      }
+      const selected = selectedImportInventories(importPreviews, exclusions);
       let importedCount = 0;
       let persistenceBlocked = false;
 
-      for (const key of Object.keys(safeImportData) as SetKey[]) {
-          if (!knownSetKeys.has(key)) continue;
-          const nextInventory = pruneZeros(result.inventories[key] ?? {});
+      for (const [key, nextInventory] of Object.entries(selected)) {
+          const before = importPreviews.find(preview => preview.setKey === key)?.before ?? {};
           if (writeSetInv(key, nextInventory)) {
-              importedCount += Object.keys(nextInventory).length;
-              if (key === setKey) setInventory(nextInventory);
+              importedCount += diffInventories(before, nextInventory).length;
+              if (key === setKey) {
+                  noteInventorySource('import', importingFileName);
+                  setInventory(nextInventory);
+              } else {
+                  recordSetChange(key, before, nextInventory, 'import', importingFileName);
+              }
               cloudSyncRef.current?.scheduleSync(key, nextInventory);
           } else {
               persistenceBlocked = true;
@@ -1883,13 +2614,26 @@ export default function App() {
       showToast(
         persistenceBlocked
           ? 'Import was not saved while protected persistence is locked.'
-          : `Applied ${importedCount} canonical card entries in ${mode} mode (${importStats.recognized} recognized, ${importStats.skipped} skipped).`,
+          : `Applied ${importedCount} card changes in ${importMode} mode (${importStats.recognized} recognized, ${importStats.skipped} skipped).`,
         persistenceBlocked ? 'warning' : 'success',
       );
       setImportStats({ recognized: 0, skipped: 0 });
+      setImportRejected([]);
+      setImportMode('merge');
   };
   
   // File change handler to parse the file and open the modal
+  const openImportPreview = (parsedImport: ImportResult) => {
+      const knownSetKeys = new Set(setKeys);
+      const safeInventories = Object.fromEntries(
+        Object.entries(parsedImport.inventories).filter(([key]) => knownSetKeys.has(key)),
+      ) as Record<SetKey, Inventory>;
+      setImportData(safeInventories);
+      setImportStats({ recognized: parsedImport.recognized, skipped: parsedImport.skipped });
+      setImportRejected(parsedImport.rejected);
+      setShowImportModal(true);
+  };
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
@@ -1902,17 +2646,25 @@ export default function App() {
           
           if (canonicalCatalog.size === 0) throw new Error('Card catalog is still loading. Please try again.');
           
-          const parsedImport =
-            ext === 'xlsx'
-              ? await parseXlsxData(file, canonicalCatalog)
-              : parseCsvData(file.name, await file.text(), canonicalCatalog);
-          const knownSetKeys = new Set(setKeys);
-          const safeInventories = Object.fromEntries(
-            Object.entries(parsedImport.inventories).filter(([key]) => knownSetKeys.has(key)),
-          ) as Record<SetKey, Inventory>;
-          setImportData(safeInventories);
-          setImportStats({ recognized: parsedImport.recognized, skipped: parsedImport.skipped });
-          setShowImportModal(true);
+          // Layouts the importers don't know go through the column-mapping wizard instead of failing.
+          if (ext === 'xlsx') {
+              const tables = await readXlsxTables(file);
+              if (!tables.some(table => detectImportFormat(table.headers) === 'swunlimiteddb')) {
+                  if (!tables.length) throw new Error('File is empty or contains no lines.');
+                  setUnmappedTable(tables[0]);
+                  return;
+              }
+              openImportPreview(await parseXlsxData(file, canonicalCatalog));
+          } else {
+              const text = decodeCsvBytes(await file.arrayBuffer());
+              const isJson = text.trimStart().startsWith('{');
+              const table = isJson ? null : parseCsvTable(text);
+              if (table && detectImportFormat(table.headers) === 'unknown') {
+                  setUnmappedTable({ headers: table.headers, rows: table.rows, rowLabels: table.lines.map(line => `line ${line}`) });
+                  return;
+              }
+              openImportPreview(parseCsvData(file.name, text, canonicalCatalog));
+          }
       } catch (e) {
           setError(`Import failed: ${e instanceof Error ? e.message : 'Invalid file format.'}`);
       } finally {
@@ -1920,6 +2672,12 @@ export default function App() {
       }
   };
 
+  const importMappedTable = (table: SourceTable, mapping: ColumnMapping, remember: boolean) => {
+      if (remember) setColumnMappings(prev => rememberColumnMapping(prev, table.headers, mapping));
+      setUnmappedTable(null);
+      openImportPreview(importWithColumnMapping(table, mapping, canonicalCatalog, searchCatalogs));
+  };
+
   useEffect(() => {
     const isTyping = (el: EventTarget | null) => {
       const node = el as HTMLElement | null;
@@ -1948,6 +2706,14 @@ export default function App() {
         return;
       }
 
+      // Undo/redo inventory changes (Ctrl+Z / Ctrl+Shift+Z, Cmd on macOS; Ctrl+Y also redoes)
+      if (!typing && (e.ctrlKey || e.metaKey) && (e.key.toLowerCase() === 'z' || e.key.toLowerCase() === 'y')) {
+        e.preventDefault();
+        if (e.key.toLowerCase() === 'y' || e.shiftKey) redoInventory();
+        else undoInventory();
+        return;
+      }
+
       // Key bindings (selection movement + page flipping)
       if (!typing) {
         if (e.key === 'Escape') {
@@ -2002,10 +2768,10 @@ export default function App() {
             updateActivePosition(0, 1); // Move 1 row down (literal)
           } else if (e.key === '+' || e.key === '=' || e.code === 'NumpadAdd') {
             e.preventDefault();
-            inc(active.card.Number);
+            inc(active.card.Number, 'keyboard');
           } else if (e.key === '-' || e.code === 'NumpadSubtract') {
             e.preventDefault();
-            dec(active.card.Number);
+            dec(active.card.Number, 'keyboard');
           }
         }
       }
@@ -2013,15 +2779,19 @@ export default function App() {
 
     window.addEventListener('keydown', onKey);
     return () => window.removeEventListener('keydown', onKey);
-  }, [active, query, totalSpreads, updateActivePosition, inc, dec, byNumber, totalPages, changeSet]);
+  }, [active, query, totalSpreads, updateActivePosition, inc, dec, byNumber, totalPages, changeSet, undoInventory, redoInventory]);
 
   const fmtUSD = (n: number) =>
     n.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 });
 
+  // Slim set files carry no arenas or costs; the arena filter and the cost sort key are hidden until they do.
+  const setHasArenas = useMemo(() => cardsBase.some(card => card.Arena), [cardsBase]);
+  const setHasCosts = useMemo(() => cardsBase.some(card => typeof card.Cost === 'number'), [cardsBase]);
   const passesAllFilters = useCallback((card: Card) => {
     const activeAspects = filters.aspect;
     const activeRarities = filters.rarity;
     const activeTypes = filters.type;
+    const activeArenas = setHasArenas ? filters.arena : [];
 
     // 1) Aspect — match if any card aspect is selected (multi-aspect cards match any listed aspect)
     if (activeAspects.length > 0) {
@@ -2039,20 +2809,25 @@ export default function App() {
       if (!activeTypes.includes(card.Type || '')) return false;
     }
 
+    // 4) Arena (units only; needs set data that carries it)
+    if (activeArenas.length > 0) {
+      if (!activeArenas.includes(card.Arena || '')) return false;
+    }
+
     return true;
-  }, [filters.aspect, filters.rarity, filters.type]);
+  }, [filters.aspect, filters.rarity, filters.type, filters.arena, setHasArenas]);
 
-  /** True if any card passes aspect/rarity/type filters and is not a complete playset (ignores status pills). */
+  /** True if any card passes aspect/rarity/type/arena filters and is not a complete playset (ignores status pills). */
   const hasIncompleteUnderCardFilters = useMemo(() => {
     for (const baseCard of cardsBase) {
       if (!passesAllFilters(baseCard)) continue;
       const baseNum = baseCard.Number;
-      const have = inventory[baseNum] || 0;
-      const max = quotaForType(baseCard.Type);
+      const have = baseTotals[baseNum] || 0;
+      const max = quotaForCard(baseCard);
       if (have < max) return true;
     }
     return false;
-  }, [cardsBase, inventory, passesAllFilters]);
+  }, [cardsBase, baseTotals, passesAllFilters, quotaForCard]);
 
   // Build ONE list over base cards, then partition.
   // Each row has Qty (across base + alts), Max, Needed, and other fields you already use.
@@ -2067,14 +2842,15 @@ export default function App() {
       Qty: number;      // have across base+alts
       Max: number;
       Needed: number;   // Max - Qty
+      Printings: VariantCounts; // Qty split by finish/printing
     }> = [];
 
     for (const baseCard of cardsBase) {
       if (!passesAllFilters(baseCard)) continue;
 
       const baseNum = baseCard.Number;
-      const have = inventory[baseNum] || 0;
-      const max = quotaForType(baseCard.Type);
+      const have = baseTotals[baseNum] || 0;
+      const max = quotaForCard(baseCard);
       const needed = Math.max(0, max - have);
       const collStatus = collectionStatusFromQty(have, max);
       if (filters.status.length > 0 && !filters.status.includes(collStatus)) continue;
@@ -2089,19 +2865,30 @@ export default function App() {
         Qty: have,
         Max: max,
         Needed: needed,
+        Printings: variantCounts(inventory, baseNum),
       });
     }
 
     return rows.sort((a, b) => a.Number - b.Number);
-  }, [cardsBase, inventory, passesAllFilters, filters.status]);
+  }, [cardsBase, inventory, baseTotals, passesAllFilters, quotaForCard, filters.status]);
 
   // Projections for the two tabs (shape-compatible with your tables)
   const filteredInvRows = useMemo(() => {
     // rows with Qty > 0
     return filteredAllRows
       .filter(r => r.Qty > 0)
-      .map(r => ({ Number: r.Number, Name: r.Name, Type: r.Type, Qty: r.Qty, Max: r.Max }));
-  }, [filteredAllRows]);
+      .map(r => ({
+        Number: r.Number,
+        Name: r.Name,
+        Subtitle: r.Subtitle,
+        Type: r.Type,
+        Qty: r.Qty,
+        Max: r.Max,
+        Printings: r.Printings,
+        Price: r.Price,
+        AvgCost: averageCost(cardPosition(ledgerByCard, setKey, r.Number)),
+      }));
+  }, [filteredAllRows, ledgerByCard, setKey]);
 
   const filteredMissingRows = useMemo(() => {
     return filteredAllRows
@@ -2109,6 +2896,7 @@ export default function App() {
       .map(r => ({
         Number: r.Number,
         Name: r.Name,
+        Subtitle: r.Subtitle,
         Type: r.Type,
         Have: r.Qty,
         Max: r.Max,
@@ -2118,6 +2906,31 @@ export default function App() {
       }));
   }, [filteredAllRows]);
 
+  // Copies above the quota; the playset fills with normal copies first, so extras skew to special printings.
+  const filteredTradeRows = useMemo(() => {
+    return filteredAllRows
+      .filter(r => r.Qty > r.Max)
+      .map(r => {
+        const { surplus } = splitPlayset(r.Qty, r.Max);
+        const extras = surplusPrintings(r.Printings, r.Max);
+        return {
+          Number: r.Number,
+          Name: r.Name,
+          Type: r.Type,
+          Qty: r.Qty,
+          Max: r.Max,
+          Surplus: surplus,
+          Extras: extras,
+          Price: r.Price,
+          // Extras skew to special printings, so each is valued at its own printing's price.
+          RowTotal: (Object.entries(extras) as Array<[VariantKind, number]>).reduce(
+            (sum, [variant, count]) => sum + count * marketPriceOf(setKey, r.Number, variant),
+            0,
+          ),
+        };
+      });
+  }, [filteredAllRows, marketPriceOf, setKey]);
+
   const invRows = filteredInvRows;
 
   // Inventory Status Counts (Complete, Incomplete, Missing) from the single list
@@ -2148,6 +2961,11 @@ export default function App() {
     [filteredMissingRows]
   );
 
+  const tradeValue = useMemo(
+    () => filteredTradeRows.reduce((sum, r) => sum + r.RowTotal, 0),
+    [filteredTradeRows]
+  );
+
   function copyMissingToClipboard() {
     const list = filteredMissingRows.map(r => {
         // r.Number is the base number for this row
@@ -2180,6 +2998,26 @@ export default function App() {
     });
   }
 
+  // CSV of the table on screen (current filters apply). The BOM lets Excel detect UTF-8.
+  function downloadCsv(csv: string, fileName: string) {
+    downloadText('\uFEFF' + csv, fileName, 'text/csv;charset=utf-8');
+  }
+  function downloadText(text: string, fileName: string, type: string) {
+    const blob = new Blob([text], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+  function exportTableCsv() {
+    const csv = listView === 'missing'
+      ? missingTableCsv(setKey, filteredMissingRows)
+      : inventoryTableCsv(setKey, filteredInvRows);
+    downloadCsv(csv, `SWU-${setKey}-${listView === 'missing' ? 'Missing' : 'Inventory'}-${tsStamp()}.csv`);
+  }
+
   return (
     <div 
             className="container"
@@ -2239,7 +3077,7 @@ export default function App() {
             <span className="search-kbd" aria-hidden="true">/</span>
             <input
               ref={searchRef}
-              placeholder="Search name or number (e.g., 'Vader' or '216')"
+              placeholder="Search name, number or query (e.g., 'Vader', '216' or 'type:unit owned<3')"
               value={query}
               onChange={e => { setQuery(e.target.value); setOpenSug(true); setHighlightIdx(0); }}
               onKeyDown={(e) => {
@@ -2386,7 +3224,21 @@ export default function App() {
             <DataMenu
               onImportFile={handleFileChange}
               onExport={exportAllInv}
+              onExportWorkbook={exportCollectionWorkbook}
               onReset={resetInv}
+              onEditQuotas={() => setShowQuotaModal(true)}
+              onShowHistory={() => setShowHistoryModal(true)}
+              onShowSnapshots={() => setShowSnapshotsModal(true)}
+              onShowLedger={() => setShowLedgerModal(true)}
+              onShowLocations={() => setShowLocationsModal(true)}
+              onShowValue={() => setShowValueModal(true)}
+              onShowMarketplace={() => setShowMarketplaceModal(true)}
+              onPrintBinder={() => setShowBinderPrintModal(true)}
+              onStartFiling={() => {
+                setFilingSession({ setKey, entries: [] });
+                setFilingWalk(false);
+                setFilingStep(0);
+              }}
             />
           </div>
 
@@ -2396,6 +3248,17 @@ export default function App() {
 
       {view === 'binder' && (
       <>
+      {reorgPlan?.setKey === setKey && (
+        <ReorgPlanPanel
+          key={reorgPlan.id}
+          plan={reorgPlan}
+          step={reorgStep}
+          onStepChange={setReorgStep}
+          describeCard={number => byNumber.get(number)?.Name ?? `#${number}`}
+          onClose={() => setReorgPlan(null)}
+        />
+      )}
+
       {/* Binder (with spread pager + dropdown) — minimal padding so the grid can use width */}
       <div className="card" ref={binderRef} style={{ padding: 8 }}>
         <Binder
@@ -2407,12 +3270,25 @@ export default function App() {
           presentNumbers={presentNumbers}
           numToAspectSpec={numToAspectSpec}
           byNumber={byNumber}
-          inventory={inventory}
+          inventory={baseTotals}
           inc={inc}
           dec={dec}
           setKey={setKey}
           showHelpModal={showHelpModal}
           setShowHelpModal={setShowHelpModal}
+          filingVariant={filingVariant}
+          onFilingVariantChange={setFilingVariant}
+          activePrintings={active ? variantCounts(inventory, active.card.Number) : undefined}
+          activeLocations={activeLocations}
+          onShowLocations={() => setShowLocationsModal(true)}
+          onShowCardDetail={() => setShowCardDetail(true)}
+          quotaFor={quotaForCard}
+          profile={binderProfile}
+          onEditProfile={() => { startLayoutEdit(); setShowBinderProfileModal(true); }}
+          slots={binderSlots}
+          sorted={binderSortKeys.length > 0}
+          onEditSort={() => { startLayoutEdit(); setShowBinderSortModal(true); }}
+          highlights={reorgHighlights}
         />
       </div>
 
@@ -2470,6 +3346,21 @@ export default function App() {
               >
                 Missing
               </button>
+              <button
+                className="tbtn"
+                role="tab"
+                aria-selected={listView === 'trade'}
+                onClick={() => setListView('trade')}
+                title="Show copies above your quota that you can trade"
+                style={{
+                  fontSize: 16,
+                  fontWeight: 900,
+                  padding: '10px 16px',
+                  ...(listView === 'trade' ? { backgroundColor: '#213c6a', color: '#fff', border: '1px solid #213c6a' } : {})
+                }}
+              >
+                Trade Stock
+              </button>
             </div>
             
             {/* 2. Action Button (Conditional: Copy TCG or Bulk Actions) */}
@@ -2563,6 +3454,18 @@ export default function App() {
                 <span>Bulk Actions</span>
               </button>
             ) : null}
+            {listView !== 'trade' && (
+              <button
+                type="button"
+                className="tbtn"
+                onClick={exportTableCsv}
+                title={`Download the ${listView === 'missing' ? 'Missing' : 'Inventory'} table as CSV (current filters apply)`}
+                aria-label={`Export ${listView === 'missing' ? 'missing' : 'inventory'} table as CSV`}
+              >
+                <span className="icon" aria-hidden="true">download</span>
+                <span>CSV</span>
+              </button>
+            )}
           </div> {/* End LEFT SIDE */}
           
           {/* RIGHT SIDE: Status/Cost Display (Pinned Right) */}
@@ -2614,6 +3517,8 @@ export default function App() {
               <div style={{ fontSize: 14, fontWeight: 600 }}>
                 {listView === 'inventory' ? (
                   <>Collection value: {fmtUSD(collectionValue)}</>
+                ) : listView === 'trade' ? (
+                  <>Trade value: {fmtUSD(tradeValue)}</>
                 ) : (
                   <>Cost to Complete: {fmtUSD(missingCost)}</>
                 )}
@@ -2624,7 +3529,7 @@ export default function App() {
         </div>
 
         {/* Global Filter Controls */}
-        <FilterControls filters={filters} setFilters={setFilters} />
+        <FilterControls filters={filters} setFilters={setFilters} showArenas={setHasArenas} />
 
         {listView === 'inventory' ? (
           filteredInvRows.length ? (
@@ -2638,6 +3543,9 @@ export default function App() {
                     <th>Name</th>
                     <th>Type</th>
                     <th className="mono qtycol">Qty</th>
+                    <th>Printings</th>
+                    <th className="mono moneycol">Market</th>
+                    <th className="mono moneycol" title="Average price paid, from the ledger">Paid</th>
                     <th className="compcol">Status</th>
                     <th className="adjcol">Adjust</th>
                   </tr>
@@ -2667,6 +3575,9 @@ export default function App() {
                           type={r.Type}
                         />
                         <td className="mono qtycol">{r.Qty}</td>
+                        <td className="muted" style={{ fontSize: 13 }}>{formatVariantBreakdown(r.Printings)}</td>
+                        <td className="mono moneycol">{fmtUSD(r.Price)}</td>
+                        <td className="mono moneycol">{r.AvgCost === null ? '—' : fmtUSD(r.AvgCost)}</td>
                         <td className="compcol">
                           <CollectionStatusBadge have={r.Qty} max={r.Max} />
                         </td>
@@ -2690,6 +3601,66 @@ export default function App() {
               }
             </div>
           )
+        ) : listView === 'trade' ? (
+          filteredTradeRows.length ? (
+            <div className="inventory-scroll">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th className="mono numcol">#</th>
+                    <th className="dotcol"></th>
+                    <th className="rarcol"></th>
+                    <th>Name</th>
+                    <th>Type</th>
+                    <th className="mono qtycol">Owned</th>
+                    <th className="mono qtycol">Quota</th>
+                    <th className="mono qtycol">Extras</th>
+                    <th>Printings</th>
+                    <th className="mono moneycol">Value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredTradeRows.map(r => {
+                    const aspectSpec = numToAspectSpec.get(r.Number);
+                    const card = byNumber.get(r.Number) || cardsAll.find(x => x.Number === r.Number);
+                    const isHighlighted = r.Number === highlightedRowNumber;
+                    return (
+                      <tr
+                        key={r.Number}
+                        style={{
+                          cursor: 'pointer',
+                          transition: 'background-color 0.5s ease',
+                          backgroundColor: isHighlighted ? '#424452' : 'transparent',
+                        }}
+                        onClick={() => selectCardByNumber(r.Number)}
+                      >
+                        <CardIdentityCells
+                          number={r.Number}
+                          aspectSpec={aspectSpec}
+                          rarity={card?.Rarity}
+                          name={r.Name}
+                          subtitle={card?.Subtitle}
+                          type={r.Type}
+                        />
+                        <td className="mono qtycol">{r.Qty}</td>
+                        <td className="mono qtycol">{r.Max}</td>
+                        <td className="mono qtycol">{r.Surplus}</td>
+                        <td className="muted" style={{ fontSize: 13 }}>{formatVariantBreakdown(r.Extras)}</td>
+                        <td className="mono moneycol">{fmtUSD(r.RowTotal)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="muted" style={{ marginTop: 20 }}>
+              {invRows.length ?
+                'No copies above quota match current filters.' :
+                'No trade stock yet. Copies above a card’s quota show up here.'
+              }
+            </div>
+          )
         ) : (
           // Check if there are any missing rows BEFORE rendering the inventory-scroll div
           filteredMissingRows.length ? (
@@ -2782,9 +3753,81 @@ export default function App() {
           trackedSetKeys={setKeys}
           buildOwnedLookup={buildOwnedLookup}
           showToast={showToast}
+          onShowPullList={showPullList}
+        />
+      )}
+
+      {pullList && (
+        <PullListModal
+          title={pullList.title}
+          lines={pullList.lines}
+          onPrint={() => printHtml(pullListHtml(pullList.title, pullList.lines), 'pull list')}
+          onStep={startPullWalk}
+          onClose={() => setPullList(null)}
         />
       )}
 
+      {binderWalk && view === 'binder' && (
+        <BinderWalkPanel
+          title={binderWalk.title}
+          stops={binderWalk.stops}
+          step={walkStep}
+          onStepChange={step => goToWalkStep(binderWalk, step)}
+          onClose={() => setBinderWalk(null)}
+        />
+      )}
+
+      {queryResults && (
+        <SearchResultsModal
+          query={queryResults.query}
+          results={queryResults.results}
+          currentSetKey={setKey}
+          ownedOf={result => (result.setKey === setKey ? baseTotals[result.card.Number] ?? 0 : result.owned)}
+          onSelect={chooseQueryResult}
+          onStep={walkQueryResults}
+          onBulkAction={bulkUpdateQueryResults}
+          onClose={() => setQueryResults(null)}
+        />
+      )}
+
+      {filingSession && !filingWalk && (
+        <FilingSessionModal
+          setKey={filingSession.setKey}
+          entries={filingSession.entries}
+          suggest={filingSuggest}
+          blockedReason={filingBlockedReason}
+          onAdd={addFilingEntry}
+          onRemove={removeFilingCopy}
+          onFile={startFilingWalk}
+          onClose={endFilingSession}
+        />
+      )}
+
+      {filingSession && filingWalk && filingSession.setKey === setKey && view === 'binder' && (
+        <BinderWalkPanel
+          title="Filing new cards"
+          stops={filingStops}
+          step={filingStep}
+          onStepChange={goToFilingStep}
+          onClose={endFilingSession}
+        >
+          {filingExtraStops.length > 0 && (
+            <details style={{ marginTop: 8, fontSize: 13 }}>
+              <summary className="muted">
+                Extras pile: {filingExtraStops.reduce((sum, stop) => sum + stop.copies, 0)} copy(ies) over quota
+              </summary>
+              <ul style={{ margin: '4px 0 0', paddingLeft: 18 }}>
+                {filingExtraStops.map(stop => (
+                  <li key={stop.baseNumber}>
+                    {stop.copies} × #{stop.baseNumber} {stop.subtitle ? `${stop.name} - ${stop.subtitle}` : stop.name}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </BinderWalkPanel>
+      )}
+
       {showDeckCheckModal && (
         <DeckCheckModal
           canonicalCatalog={canonicalCatalog}
@@ -2799,6 +3842,121 @@ export default function App() {
         />
       )}
 
+      {showQuotaModal && (
+        <QuotaSettingsModal
+          settings={quotaSettings}
+          setKey={setKey}
+          onChange={setQuotaSettings}
+          onClose={() => setShowQuotaModal(false)}
+        />
+      )}
+
+      {showHistoryModal && (
+        <HistoryPanel
+          setKey={setKey}
+          entries={journalForSet(journal, setKey).past}
+          redoCount={journalForSet(journal, setKey).future.length}
+          describeKey={describePrintingKey}
+          onUndo={undoInventory}
+          onRedo={redoInventory}
+          onRevert={revertInventoryEntry}
+          onClose={() => setShowHistoryModal(false)}
+        />
+      )}
+
+      {showSnapshotsModal && (
+        <SnapshotsModal
+          snapshots={snapshots}
+          live={liveCollection}
+          describeKey={describeSetPrintingKey}
+          priceOf={marketPriceOf}
+          onSave={saveSnapshot}
+          onDelete={id => setSnapshots(prev => prev.filter(snapshot => snapshot.id !== id))}
+          onRestore={restoreSnapshot}
+          onClose={() => setShowSnapshotsModal(false)}
+        />
+      )}
+
+      {showLedgerModal && (
+        <LedgerModal
+          setKey={setKey}
+          cards={cardsBase}
+          entries={ledger}
+          totals={ledgerTotals(ledger, marketPriceOf)}
+          initialNumber={active?.card.Number}
+          describeCard={(k, n) => parsedCacheRef.current.get(k)?.byNumber.get(n)?.Name ?? `#${n}`}
+          onAdd={addLedgerEntry}
+          onDelete={id => setLedger(prev => prev.filter(entry => entry.id !== id))}
+          onClose={() => setShowLedgerModal(false)}
+        />
+      )}
+
+      {showLocationsModal && (
+        <LocationsModal
+          state={locationState}
+          setKey={setKey}
+          cardName={active?.card.Name}
+          printings={activeCardPrintings}
+          onChange={setLocationState}
+          onClose={() => setShowLocationsModal(false)}
+        />
+      )}
+
+      {active && activeCardDetail && (
+        <CardDetailDrawer
+          card={active.card}
+          setKey={setKey}
+          pocket={active}
+          printings={activeCardDetail.printings}
+          ownership={activeCardDetail.ownership}
+          usage={activeCardDetail.usage}
+          onClose={() => setShowCardDetail(false)}
+        />
+      )}
+
+      {showValueModal && (
+        <CollectionValueModal series={valueSeries} onClose={() => setShowValueModal(false)} />
+      )}
+
+      {showBinderProfileModal && (
+        <BinderProfileModal
+          profile={binderProfile}
+          onChange={changeBinderProfile}
+          onClose={() => { setShowBinderProfileModal(false); finishLayoutEdit(); }}
+        />
+      )}
+
+      {showBinderSortModal && (
+        <BinderSortModal
+          setLabel={setLabel}
+          keys={binderSortKeys}
+          showCost={setHasCosts}
+          onChange={changeBinderSort}
+          onClose={() => { setShowBinderSortModal(false); finishLayoutEdit(); }}
+        />
+      )}
+
+      {showBinderPrintModal && (
+        <BinderPrintModal
+          setLabel={setLabel}
+          pages={binderPrintSheets}
+          onPrint={printBinder}
+          onClose={() => setShowBinderPrintModal(false)}
+        />
+      )}
+
+      {showMarketplaceModal && (
+        <MarketplaceExportModal
+          sets={marketplaceSets}
+          inventories={liveCollection}
+          quotaOf={cardQuotaOf}
+          currentSetKey={setKey}
+          onCopy={copyMarketplaceList}
+          onDownload={downloadMarketplaceList}
+          onClose={() => setShowMarketplaceModal(false)}
+        />
+      )}
+
       {migrationPrompt && (
         <CloudMigrationModal
           localSummary={summarize(migrationPrompt.local)}
@@ -2888,93 +4046,43 @@ export default function App() {
           </div>
       )}
 
-      {/* NEW: Import Modal JSX */}
+      {unmappedTable && (
+        <ColumnMappingModal
+          fileName={importingFileName}
+          table={unmappedTable}
+          initialMapping={initialColumnMapping(columnMappings, unmappedTable.headers)}
+          remembered={mappingSignature(unmappedTable.headers) in columnMappings}
+          setKeys={setKeys}
+          onContinue={(mapping, remember) => importMappedTable(unmappedTable, mapping, remember)}
+          onCancel={() => setUnmappedTable(null)}
+        />
+      )}
+
       {showImportModal && (
-          <div 
-              style={{ position: 'fixed', inset: 0, backgroundColor: 'rgba(0,0,0,0.7)', display: 'flex', justifyContent: 'center', alignItems: 'center', zIndex: 1000 }} 
-              onClick={() => setShowImportModal(false)}
-          >
-              <div 
-                  style={{ backgroundColor: '#2b2d3d', padding: 30, borderRadius: 12, maxWidth: 600, width: '90%', boxShadow: '0 10px 25px rgba(0,0,0,0.5)', color: '#e5e7eb' }} 
-                  onClick={(e) => e.stopPropagation()}
-              >
-                  <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Import Options</h2>
-                  <p style={{ opacity: 0.8, marginBottom: 20 }}>
-                      You are importing data from <strong>{importingFileName}</strong>, which contains entries for {Object.keys(importData).length} set(s).
-                  </p>
-                  <p className="muted" style={{ marginTop: -12, marginBottom: 16 }}>
-                    {plural(importStats.recognized, 'recognized entry')} · {plural(importStats.skipped, 'skipped entry')}
-                  </p>
-                  {/* Overview of what will be imported per set */}
-                  {importOverview.length > 0 ? (
-                    <div style={{ 
-                      background: '#1f2333', border: '1px solid #424452', borderRadius: 8,
-                      padding: '10px 12px', marginBottom: 16, fontSize: 14 
-                    }}>
-                      <div style={{ fontWeight: 700, marginBottom: 6 }}>Overview</div>
-                      <ul style={{ margin: 0, paddingLeft: 18, lineHeight: 1.6 }}>
-                        {importOverview.map(({ set, counts }) => {
-                          const parts: string[] = [];
-                          if (counts.Leader)  parts.push(plural(counts.Leader, 'Leader'));
-                          if (counts.Base)    parts.push(plural(counts.Base, 'Base'));
-                          if (counts.Unit)    parts.push(plural(counts.Unit, 'Unit'));
-                          if (counts.Event)   parts.push(plural(counts.Event, 'Event'));
-                          if (counts.Upgrade) parts.push(plural(counts.Upgrade, 'Upgrade'));
-                          if (counts.Other)   parts.push(plural(counts.Other, 'Other'));
-                          return (
-                            <li key={set}>
-                              <strong>{set}:</strong> {parts.join(', ')}
-                            </li>
-                          );
-                        })}
-                      </ul>
-                    </div>
-                  ) : (
-                    <div className="muted" style={{ marginBottom: 16 }}>
-                      No recognizable card entries found in this import.
-                    </div>
-                  )}
-                  <p style={{ fontWeight: 700, marginBottom: 15 }}>
-                      How would you like to process this imported data?
-                  </p>
-                  <div style={{
-                      color: '#ef4444',
-                      fontWeight: 400,
-                      padding: '8px 16px',
-                      marginBottom: 15,
-                      border: '2px solid #ef4444',
-                      borderRadius: 8,
-                      textAlign: 'center',
-                      backgroundColor: 'rgba(239, 68, 68, 0.23)',
-                  }}>
-                      WARNING: Replace deletes all existing inventory data and cannot be undone.
-                  </div>
-                  <div style={{ display: 'flex', gap: 20, justifyContent: 'center' }}>
-                      <button
-                          className="modal-btn"
-                          style={{ padding: '12px 24px', borderRadius: 8, backgroundColor: '#185434', color: '#fff', border: 'none', cursor: 'pointer', fontWeight: 600 }}
-                          onClick={() => applyImport('merge')}
-                      >
-                          Merge into Current Data (Add counts)
-                      </button>
-                      <button
-                          className="modal-btn"
-                          style={{ padding: '12px 24px', borderRadius: 8, backgroundColor: '#63252a', color: '#fff', border: 'none', cursor: 'pointer', fontWeight: 600 }}
-                          onClick={() => applyImport('replace')}
-                      >
-                          Replace Current Data
-                      </button>
-                  </div>
-                  <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 20 }}>
-                      <button 
-                          onClick={() => setShowImportModal(false)} 
-                          style={{ padding: '8px 16px', borderRadius: 6, backgroundColor: '#424452', color: '#e5e7eb', border: 'none', cursor: 'pointer' }}
-                      >
-                          Cancel
-                      </button>
-                  </div>
-              </div>
-          </div>
+        <ImportPreviewModal
+          fileName={importingFileName}
+          setCount={Object.keys(importData).length}
+          stats={importStats}
+          rejected={importRejected}
+          onDownloadRejected={() =>
+            downloadCsv(
+              rejectedRowsCsv(importRejected),
+              `${importingFileName.replace(/\.[^.]+$/, '') || 'import'}-skipped-rows.csv`,
+            )
+          }
+          mode={importMode}
+          previews={importPreviews ?? []}
+          describeCard={(k, n) => {
+            const card = parsedCacheRef.current.get(k)?.byNumber.get(n);
+            return card ? `${card.Name}${card.Subtitle ? ` - ${card.Subtitle}` : ''}` : `#${n}`;
+          }}
+          onModeChange={setImportMode}
+          onApply={applyImport}
+          onCancel={() => {
+            setShowImportModal(false);
+            setImportMode('merge');
+          }}
+        />
       )}
       
       {/* Bulk Actions Modal JSX */}
@@ -3134,6 +4242,19 @@ export function Binder({
   setKey,
   showHelpModal,
   setShowHelpModal,
+  filingVariant = 'normal',
+  onFilingVariantChange,
+  activePrintings,
+  activeLocations,
+  onShowLocations,
+  onShowCardDetail,
+  quotaFor = card => defaultQuota({ setKey: card.Set, type: card.Type }),
+  profile = DEFAULT_BINDER_PROFILE,
+  onEditProfile,
+  slots,
+  sorted = false,
+  onEditSort,
+  highlights,
 }: {
   viewSpread: number;
   setViewSpread: React.Dispatch<React.SetStateAction<number>>;
@@ -3143,41 +4264,60 @@ export function Binder({
   presentNumbers: Set<number>;
   numToAspectSpec: Map<number, AspectFillSpec>;
   byNumber: Map<number, Card>;
-  inventory: Inventory;
+  inventory: BaseTotals;
   inc: (n:number)=>void;
   dec: (n:number)=>void;
   setKey: SetKey;
   showHelpModal: boolean;
   setShowHelpModal: React.Dispatch<React.SetStateAction<boolean>>;
+  /** Printing that +/- adds or removes; the selector is hidden without a change handler. */
+  filingVariant?: VariantKind;
+  onFilingVariantChange?: (variant: VariantKind) => void;
+  /** Per-printing counts for the selected card, shown beside its position. */
+  activePrintings?: VariantCounts;
+  /** Where the selected card's copies are; shown once any are outside the main binder. */
+  activeLocations?: LocationCount[];
+  /** Opens the "where are my copies" view for the selected card. */
+  onShowLocations?: () => void;
+  /** Opens the detail drawer for the selected card. */
+  onShowCardDetail?: () => void;
+  /** Copies wanted per card; defaults to the Premier playset caps. */
+  quotaFor?: (card: Card) => number;
+  /** Pockets per page and how pages pair into spreads; defaults to 12-pocket pages, page 1 alone. */
+  profile?: BinderProfile;
+  /** Opens the binder layout settings; the button is hidden without it. */
+  onEditProfile?: () => void;
+  /** Slot order of the set; without it every card sits in the slot of its collector number. */
+  slots?: BinderSlots;
+  /** Whether the set uses a sort order other than collector number (highlights the sort button). */
+  sorted?: boolean;
+  /** Opens the sort order settings; the button is hidden without it. */
+  onEditSort?: () => void;
+  /** Pockets to outline: where a card comes from (dashed) and where it goes. */
+  highlights?: Array<Pocket & { tone: 'source' | 'target' }>;
 }) {
-  const page = spreadToPrimaryPage(viewSpread);     // 1, 2, 4, 6, ...
-  const leftPage = page % 2 === 0 ? page : page - 1;
-  const rightPage = page % 2 === 1 ? page : page + 1;
-  const showLeft = leftPage >= 2;
+  // Pages on this spread, left to right; null is the blank half beside a page that stands alone.
+  const pagesOnSpread = spreadPages(viewSpread, profile);
 
-  const cols = 8, rows = 3;
+  const cols = profile.columns * profile.pagesPerSpread, rows = profile.rows;
   const cellW = 120, cellH = 170, gap = 12;
   const vbPad = 8;
   const vbW = cols * cellW + (cols - 1) * gap + vbPad * 2;
   const vbH = rows * cellH + (rows - 1) * gap + vbPad * 2;
   const gridBottom = (rows - 1) * (cellH + gap) + cellH;
 
-  const binderLabel = page === 1
-    ? 'Spread: Page 1'
-    : `Spread: Page ${leftPage} (left) | Page ${rightPage} (right)`;
+  const shownPages = pagesOnSpread.filter((p): p is number => p !== null);
+  const binderLabel = shownPages.length === 1
+    ? `Spread: Page ${shownPages[0]}`
+    : `Spread: Page ${shownPages[0]} (left) | Page ${shownPages[1]} (right)`;
 
   const isActive = (p:number, r:number, c:number) =>
     active && p === active.page && r === active.row && c === active.column;
 
   // spread dropdown labels: Page 1, Page 2/3, Page 4/5, ...
   const spreadOptions = useMemo(() => {
-    return Array.from({ length: totalSpreads }, (_, i) => {
-      if (i === 0) return { value: 0, label: 'Page 1' };
-      const left = 2 + (i - 1) * 2;
-      const right = left + 1;
-      return { value: i, label: `Page ${left}/${right}` };
-    });
-  }, [totalSpreads]);
+    return Array.from({ length: totalSpreads }, (_, i) => ({ value: i, label: spreadLabel(i, profile) }));
+  }, [totalSpreads, profile]);
 
   const binderGradientDefs = useMemo(() => {
     const out: { n: number; spec: Extract<AspectFillSpec, { kind: 'gradient' }> }[] = [];
@@ -3227,14 +4367,61 @@ export function Binder({
               <span className="pill">Page {active.page}</span>
               <span className="pill">Column {active.column}</span>
               <span className="pill">Row {active.row}</span>
+              {activePrintings && Object.keys(activePrintings).length > 0 && (
+                <span className="muted" style={{ fontSize: 13 }}>
+                  {formatVariantBreakdown(activePrintings)}
+                </span>
+              )}
+              {activeLocations && activeLocations.some(({ location }) => location.id !== MAIN_BINDER_ID) && (
+                <span className="muted" style={{ fontSize: 13 }}>
+                  {activeLocations.map(({ location, count }) => `${count} in ${location.name}`).join(' · ')}
+                </span>
+              )}
+              {onShowLocations && (
+                <button
+                  type="button"
+                  className="tbtn"
+                  onClick={onShowLocations}
+                  title="Where are my copies?"
+                  aria-label={`Where are my copies of ${active.card.Name}?`}
+                >
+                  <span className="icon" aria-hidden="true">location_on</span>
+                </button>
+              )}
+              {onShowCardDetail && (
+                <button
+                  type="button"
+                  className="tbtn"
+                  onClick={onShowCardDetail}
+                  title="Card details"
+                  aria-label={`Details for ${active.card.Name}`}
+                >
+                  <span className="icon" aria-hidden="true">info</span>
+                </button>
+              )}
             </>
           ) : (
             <div className="muted" style={{ fontSize: 25 }}>No card selected</div>
           )}
         </div>
 
-         {/* right: tip / Help Button */}
-        <div style={{ whiteSpace: 'nowrap' }}>
+         {/* right: filing variant + tip / Help Button */}
+        <div style={{ whiteSpace: 'nowrap', display: 'flex', alignItems: 'center', gap: 10 }}>
+          {onFilingVariantChange && (
+            <label className="spread-jump-label">
+              <span className="spread-jump-hint">Filing as</span>
+              <select
+                className="spread-jump-select"
+                value={filingVariant}
+                onChange={event => onFilingVariantChange(event.target.value as VariantKind)}
+                aria-label="Printing added by +"
+              >
+                {VARIANT_KINDS.map(variant => (
+                  <option key={variant} value={variant}>{VARIANT_LABELS[variant]}</option>
+                ))}
+              </select>
+            </label>
+          )}
           <button
             onClick={() => setShowHelpModal(true)}
             title="Show Keyboard Shortcuts"
@@ -3260,6 +4447,15 @@ export function Binder({
         </div>
       </div>
 
+      {/* Row 1b: selected card's gameplay details, when the set data carries them */}
+      {active && (cardStatsLine(active.card) || active.card.FrontText || active.card.Artist) && (
+        <div className="muted" style={{ fontSize: 13, marginBottom: 6 }} aria-label="Card details">
+          {cardStatsLine(active.card) && <div>{cardStatsLine(active.card)}</div>}
+          {active.card.FrontText && <div style={{ whiteSpace: 'pre-line', color: '#c8ccd9' }}>{active.card.FrontText}</div>}
+          {active.card.Artist && <div style={{ fontStyle: 'italic' }}>Illustrated by {active.card.Artist}</div>}
+        </div>
+      )}
+
       {/* Row 2: binder subtitle + pager */}
       <div
         style={{
@@ -3301,6 +4497,29 @@ export function Binder({
               ))}
             </select>
           </label>
+          {onEditProfile && (
+            <button
+              type="button"
+              className="tbtn"
+              onClick={onEditProfile}
+              title={`Binder layout: ${profile.rows} × ${profile.columns} pockets per page`}
+              aria-label="Binder layout"
+            >
+              <span className="icon" aria-hidden="true">grid_view</span>
+            </button>
+          )}
+          {onEditSort && (
+            <button
+              type="button"
+              className="tbtn"
+              onClick={onEditSort}
+              title={sorted ? 'Binder sort order: custom' : 'Binder sort order: collector number'}
+              aria-label="Binder sort order"
+              style={sorted ? { backgroundColor: '#213c6a', color: '#fff', border: '1px solid #213c6a' } : undefined}
+            >
+              <span className="icon" aria-hidden="true">sort</span>
+            </button>
+          )}
         </div>
       </div>
 
@@ -3344,12 +4563,13 @@ export function Binder({
                 const x = cIdx * (cellW + gap);
                 const y = rIdx * (cellH + gap);
 
-                const isLeftHalf = c <= 4;
-                const pForCell = isLeftHalf ? leftPage : rightPage;
-                const colOnPage = isLeftHalf ? c : c - 4;
-                const hidden = isLeftHalf && !showLeft;
+                const half = Math.floor(cIdx / profile.columns);
+                const pageOfCell = pagesOnSpread[half];
+                const pForCell = pageOfCell ?? 0;
+                const colOnPage = c - half * profile.columns;
+                const hidden = pageOfCell === null;
 
-                const n = numberFromPagePosition(pForCell, r, colOnPage);
+                const n = numberAtSlot(slots, numberFromPagePosition(pForCell, r, colOnPage, profile)) ?? 0;
                 const cardAt = byNumber.get(n);
 
                 let fill = '#0f1017';
@@ -3391,6 +4611,21 @@ export function Binder({
                       fill={fill} opacity={opacity}
                       stroke={stroke} strokeWidth={strokeWidth}
                     />
+                    {(() => {
+                      const tone = hidden
+                        ? undefined
+                        : highlights?.find(h => h.page === pForCell && h.row === r && h.column === colOnPage)?.tone;
+                      if (!tone) return null;
+                      return (
+                        <rect
+                          className={`cell-highlight-${tone}`}
+                          x={x} y={y} width={cellW} height={cellH} rx="16"
+                          fill="none" pointerEvents="none"
+                          stroke={tone === 'source' ? '#f59e0b' : '#22c55e'} strokeWidth={6}
+                          strokeDasharray={tone === 'source' ? '14 8' : undefined}
+                        />
+                      );
+                    })()}
 
                   {(() => {
                     if (hidden || !presentNumbers.has(n)) return null;
@@ -3400,7 +4635,7 @@ export function Binder({
 
                     // data for this slot
                     const qty = inventory[n] || 0;
-                    const max = quotaForType(cardAt?.Type);
+                    const max = cardAt ? quotaFor(cardAt) : defaultQuota({ setKey });
                     const qtyText = `${qty}/${max}`;
 
                     // rarity + outline (will render bottom-right)
@@ -3520,19 +4755,21 @@ export function Binder({
                 );
               })
             )}
-            <line
-              className="binder-divider"
-              x1={(cellW + gap) * 4 - gap / 2}
-              y1={-8}
-              x2={(cellW + gap) * 4 - gap / 2}
-              y2={gridBottom + 8}
-              stroke="#424452ff"
-              strokeOpacity={0.75}
-              strokeWidth={4}
-              strokeDasharray="0 12"
-              strokeLinecap="round"
-              vectorEffect="non-scaling-stroke"
-            />
+            {profile.pagesPerSpread === 2 && (
+              <line
+                className="binder-divider"
+                x1={(cellW + gap) * profile.columns - gap / 2}
+                y1={-8}
+                x2={(cellW + gap) * profile.columns - gap / 2}
+                y2={gridBottom + 8}
+                stroke="#424452ff"
+                strokeOpacity={0.75}
+                strokeWidth={4}
+                strokeDasharray="0 12"
+                strokeLinecap="round"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
           </g>
         </svg>
         {/* NEW: Help Modal JSX */}
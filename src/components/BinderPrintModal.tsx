@@ -0,0 +1,83 @@
+import React from 'react'
+import type { BinderPrintMode, PrintPage } from '../core/binderPrint'
+
+type Props = {
+  setLabel: string
+  pages: PrintPage[]
+  onPrint: (mode: BinderPrintMode) => void
+  onClose: () => void
+}
+
+const activeStyle: React.CSSProperties = { backgroundColor: '#213c6a', color: '#fff', border: '1px solid #213c6a' }
+
+const MODES: Array<[BinderPrintMode, string, string]> = [
+  ['checklist', 'Checklist', 'Every page as a grid of pockets with number, name and owned/quota; empty pockets are hatched.'],
+  ['labels', 'Slot labels', 'A card-sized placeholder for each empty pocket, nine to a sheet, to cut out and file.'],
+]
+
+export function BinderPrintModal({ setLabel, pages, onPrint, onClose }: Props) {
+  const [mode, setMode] = React.useState<BinderPrintMode>('checklist')
+  const emptyPockets = pages.reduce((sum, page) => sum + page.slots.filter(slot => slot.status === 'missing').length, 0)
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Print binder"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 520, width: '92%', padding: 20, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Print binder</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          {setLabel}: {pages.length} page(s), {emptyPockets} empty pocket(s). The sheets open in a new
+          window with the print dialog.
+        </p>
+
+        <div className="toolbar-group" role="radiogroup" aria-label="Print mode" style={{ marginBottom: 8 }}>
+          {MODES.map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              className="tbtn"
+              aria-checked={mode === value}
+              onClick={() => setMode(value)}
+              style={mode === value ? activeStyle : undefined}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <p className="muted" style={{ fontSize: 13 }}>{MODES.find(([value]) => value === mode)?.[2]}</p>
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+          <button type="button" className="tbtn" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="tbtn tbtn-primary"
+            disabled={mode === 'labels' && emptyPockets === 0}
+            onClick={() => onPrint(mode)}
+          >
+            <span className="icon" aria-hidden="true">print</span>
+            <span>Print</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import React from 'react'
+import {
+  BINDER_PRESETS,
+  MAX_BINDER_POCKET_SIDE,
+  pocketsPerPage,
+  type BinderProfile,
+} from '../core/binder'
+
+type Props = {
+  profile: BinderProfile
+  onChange: (profile: BinderProfile) => void
+  onClose: () => void
+}
+
+const inputStyle: React.CSSProperties = {
+  width: 52,
+  padding: '4px 6px',
+  background: '#1a1c25',
+  color: '#e5e7eb',
+  border: '1px solid #424452',
+  borderRadius: 6,
+}
+
+const activeStyle: React.CSSProperties = { backgroundColor: '#213c6a', color: '#fff', border: '1px solid #213c6a' }
+
+export function BinderProfileModal({ profile, onChange, onClose }: Props) {
+  const preset = BINDER_PRESETS.find(p => p.rows === profile.rows && p.columns === profile.columns)
+
+  const sideInput = (label: string, value: number, key: 'rows' | 'columns') => (
+    <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+      <span>{label}</span>
+      <input
+        type="number"
+        min={1}
+        max={MAX_BINDER_POCKET_SIDE}
+        value={value}
+        onChange={event => {
+          const next = Number(event.target.value)
+          if (Number.isInteger(next) && next >= 1 && next <= MAX_BINDER_POCKET_SIDE) onChange({ ...profile, [key]: next })
+        }}
+        style={inputStyle}
+      />
+    </label>
+  )
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Binder layout"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 520, width: '92%', padding: 20, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Binder layout</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          Cards are filed in number order, {pocketsPerPage(profile)} to a page. Changing the layout moves
+          every card’s page, row and column.
+        </p>
+
+        <h3 style={{ margin: '0 0 6px', fontSize: 15, color: '#c8ccd9' }}>Pockets per page</h3>
+        <div className="toolbar-group" role="radiogroup" aria-label="Binder preset" style={{ marginBottom: 8 }}>
+          {BINDER_PRESETS.map(p => (
+            <button
+              key={p.id}
+              type="button"
+              role="radio"
+              className="tbtn"
+              aria-checked={preset?.id === p.id}
+              onClick={() => onChange({ ...profile, rows: p.rows, columns: p.columns })}
+              style={preset?.id === p.id ? activeStyle : undefined}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 12 }}>
+          {sideInput('Rows', profile.rows, 'rows')}
+          {sideInput('Columns', profile.columns, 'columns')}
+          {!preset && <span className="muted">Custom</span>}
+        </div>
+
+        <h3 style={{ margin: '0 0 6px', fontSize: 15, color: '#c8ccd9' }}>Spreads</h3>
+        <div className="toolbar-group" role="radiogroup" aria-label="Pages per spread" style={{ marginBottom: 8 }}>
+          {([2, 1] as const).map(count => (
+            <button
+              key={count}
+              type="button"
+              role="radio"
+              className="tbtn"
+              aria-checked={profile.pagesPerSpread === count}
+              onClick={() => onChange({ ...profile, pagesPerSpread: count })}
+              style={profile.pagesPerSpread === count ? activeStyle : undefined}
+            >
+              {count === 2 ? 'Two pages side by side' : 'One page at a time'}
+            </button>
+          ))}
+        </div>
+        <label style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 16 }}>
+          <input
+            type="checkbox"
+            checked={profile.firstPageAlone}
+            disabled={profile.pagesPerSpread === 1}
+            onChange={event => onChange({ ...profile, firstPageAlone: event.target.checked })}
+          />
+          Page 1 stands alone (opposite the inside cover)
+        </label>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <button type="button" className="tbtn" onClick={onClose}>
+            <span>Done</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
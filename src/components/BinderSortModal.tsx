@@ -0,0 +1,131 @@
+import React from 'react'
+import {
+  BINDER_SORT_KEYS,
+  BINDER_SORT_KEY_LABELS,
+  BINDER_SORT_PRESETS,
+  type BinderSortKey,
+} from '../core/binderSort'
+
+type Props = {
+  setLabel: string
+  keys: BinderSortKey[]
+  /** Whether the set data carries card costs; the cost key is only offered when it does. */
+  showCost: boolean
+  onChange: (keys: BinderSortKey[]) => void
+  onClose: () => void
+}
+
+const fieldStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  background: '#1a1c25',
+  color: '#e5e7eb',
+  border: '1px solid #424452',
+  borderRadius: 6,
+}
+
+const activeStyle: React.CSSProperties = { backgroundColor: '#213c6a', color: '#fff', border: '1px solid #213c6a' }
+
+export function BinderSortModal({ setLabel, keys, showCost, onChange, onClose }: Props) {
+  const preset = BINDER_SORT_PRESETS.find(p => p.keys.join() === keys.join())
+  const unused = BINDER_SORT_KEYS.filter(key => !keys.includes(key) && (showCost || key !== 'cost'))
+
+  const move = (index: number, delta: number) => {
+    const next = [...keys]
+    const [key] = next.splice(index, 1)
+    next.splice(index + delta, 0, key)
+    onChange(next)
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Binder sort order"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 560, width: '92%', padding: 20, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Binder sort order</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          {setLabel}: the order cards are filed into pockets. Collector number breaks any remaining ties.
+          {!showCost && ' Cost is offered once the set data includes card costs.'}
+        </p>
+
+        <div className="toolbar-group" role="radiogroup" aria-label="Sort preset" style={{ marginBottom: 12, flexWrap: 'wrap' }}>
+          {BINDER_SORT_PRESETS.map(p => (
+            <button
+              key={p.id}
+              type="button"
+              role="radio"
+              className="tbtn"
+              aria-checked={preset?.id === p.id}
+              onClick={() => onChange(p.keys)}
+              style={preset?.id === p.id ? activeStyle : undefined}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+
+        <h3 style={{ margin: '0 0 6px', fontSize: 15, color: '#c8ccd9' }}>
+          Sort by{!preset && <span className="muted" style={{ fontWeight: 400 }}> (custom)</span>}
+        </h3>
+        <ol style={{ margin: '0 0 8px', paddingLeft: 22 }}>
+          {keys.map((key, index) => (
+            <li key={key} style={{ marginBottom: 4 }}>
+              <span style={{ display: 'inline-flex', gap: 6, alignItems: 'center' }}>
+                <span style={{ minWidth: 70 }}>{BINDER_SORT_KEY_LABELS[key]}</span>
+                <button type="button" className="tbtn" disabled={index === 0} onClick={() => move(index, -1)} aria-label={`Move ${BINDER_SORT_KEY_LABELS[key]} up`}>
+                  <span className="icon" aria-hidden="true">arrow_upward</span>
+                </button>
+                <button type="button" className="tbtn" disabled={index === keys.length - 1} onClick={() => move(index, 1)} aria-label={`Move ${BINDER_SORT_KEY_LABELS[key]} down`}>
+                  <span className="icon" aria-hidden="true">arrow_downward</span>
+                </button>
+                <button type="button" className="tbtn" onClick={() => onChange(keys.filter(k => k !== key))} aria-label={`Remove ${BINDER_SORT_KEY_LABELS[key]}`}>
+                  <span className="icon" aria-hidden="true">close</span>
+                </button>
+              </span>
+            </li>
+          ))}
+          <li className="muted">Collector number</li>
+        </ol>
+        {unused.length > 0 && (
+          <label style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 16 }}>
+            <span>{keys.length ? 'Then by' : 'Sort by'}</span>
+            <select
+              value=""
+              onChange={event => {
+                if (event.target.value) onChange([...keys, event.target.value as BinderSortKey])
+              }}
+              style={fieldStyle}
+              aria-label="Add sort key"
+            >
+              <option value="">Choose…</option>
+              {unused.map(key => (
+                <option key={key} value={key}>{BINDER_SORT_KEY_LABELS[key]}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <button type="button" className="tbtn" onClick={onClose}>
+            <span>Done</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
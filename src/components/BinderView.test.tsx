@@ -1,6 +1,8 @@
 import { cleanup, fireEvent, render, screen } from '@testing-library/react';
 import { afterEach, describe, expect, it, vi } from 'vitest';
 import { Binder } from '../App';
+import type { BinderProfile } from '../core/binder';
+import { binderSlots, type BinderSlots } from '../core/binderSort';
 import type { Card } from '../core/types';
 
 const card25: Card = {
@@ -12,7 +14,7 @@ const card25: Card = {
 
 afterEach(cleanup);
 
-function renderBinder(viewSpread = 1, totalSpreads = 3) {
+function renderBinder(viewSpread = 1, totalSpreads = 3, profile?: BinderProfile, slots?: BinderSlots) {
   const onActivateCard = vi.fn();
   const setViewSpread = vi.fn();
 
@@ -32,6 +34,8 @@ function renderBinder(viewSpread = 1, totalSpreads = 3) {
       setKey="SOR"
       showHelpModal={false}
       setShowHelpModal={vi.fn()}
+      profile={profile}
+      slots={slots}
     />,
   );
 
@@ -63,4 +67,21 @@ describe('Binder spread view', () => {
     renderBinder(2, 3);
     expect(screen.getByRole('button', { name: /Next spread/ })).toHaveProperty('disabled', true);
   });
+
+  it('lays out a single 9-pocket page per spread from the binder profile', () => {
+    const { container } = renderBinder(2, 28, { rows: 3, columns: 3, firstPageAlone: true, pagesPerSpread: 1 });
+
+    expect(container.querySelectorAll('.cell')).toHaveLength(9);
+    expect(screen.getByText(/Spread: Page 3/)).toBeTruthy();
+    expect(container.querySelector('.binder-divider')).toBeNull();
+  });
+
+  it('files cards into the slots of the set sort order', () => {
+    const { container, onActivateCard } = renderBinder(0, 1, undefined, binderSlots([card25], ['name']));
+
+    const cells = Array.from(container.querySelectorAll('.cell'));
+    fireEvent.click(cells[4]);
+    expect(onActivateCard).toHaveBeenCalledWith(card25);
+    expect(screen.getByText('#25')).toBeTruthy();
+  });
 });
@@ -0,0 +1,80 @@
+import React from 'react'
+import type { Pocket } from '../core/reorgPlan'
+import type { SetKey } from '../core/types'
+
+/** One card to visit: `action` says what to do there, e.g. "pull 2 ×". */
+export type BinderWalkStop = {
+  setKey: SetKey
+  baseNumber: number
+  action: string
+  name: string
+  subtitle?: string
+  pocket?: Pocket
+}
+
+type Props = {
+  title: string
+  /** Cards in binder order. */
+  stops: BinderWalkStop[]
+  step: number
+  onStepChange: (step: number) => void
+  onClose: () => void
+  /** Extra content under the current stop, e.g. a pile that does not go into the binder. */
+  children?: React.ReactNode
+}
+
+/** Walks the binder card by card; the caller selects each stop's card so the spread follows. */
+export function BinderWalkPanel({ title, stops, step, onStepChange, onClose, children }: Props) {
+  const current = stops[step]
+  const last = step === stops.length - 1
+
+  return (
+    <div
+      className="card"
+      role="region"
+      aria-label={title}
+      style={{
+        position: 'fixed',
+        left: '50%',
+        bottom: 16,
+        transform: 'translateX(-50%)',
+        width: 'min(760px, 94%)',
+        zIndex: 50,
+        background: '#2b2d3d',
+        boxShadow: '0 8px 24px rgba(0,0,0,0.5)',
+      }}
+    >
+      <div className="row" style={{ justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 }}>
+        <h3 style={{ margin: 0 }}>{title}</h3>
+        <button type="button" className="tbtn" onClick={onClose} aria-label={`Close ${title}`}>
+          <span className="icon" aria-hidden="true">close</span>
+        </button>
+      </div>
+      {current ? (
+        <div className="row" style={{ gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+          <span className="pill">{current.setKey}</span>
+          <span style={{ fontWeight: 600 }}>
+            Card {step + 1} of {stops.length}: {current.action} #{current.baseNumber}{' '}
+            {current.subtitle ? `${current.name} - ${current.subtitle}` : current.name}
+          </span>
+          {current.pocket && (
+            <span className="mono">
+              page {current.pocket.page} r{current.pocket.row}c{current.pocket.column}
+            </span>
+          )}
+          <span style={{ marginLeft: 'auto', display: 'inline-flex', gap: 6 }}>
+            <button type="button" className="tbtn" disabled={step === 0} onClick={() => onStepChange(step - 1)}>
+              Previous
+            </button>
+            <button type="button" className="tbtn tbtn-primary" onClick={() => (last ? onClose() : onStepChange(step + 1))}>
+              {last ? 'Finish' : 'Next'}
+            </button>
+          </span>
+        </div>
+      ) : (
+        <p className="muted" style={{ margin: 0 }}>No cards go into the binder.</p>
+      )}
+      {children}
+    </div>
+  )
+}
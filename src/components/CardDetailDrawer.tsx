@@ -0,0 +1,136 @@
+import React from 'react'
+import type { DeckUsage, OwnershipSplit, PrintingDetail } from '../core/cardDetail'
+import { cardStatsLine } from '../core/cardStats'
+import { VARIANT_LABELS } from '../core/inventory'
+import type { Pocket } from '../core/reorgPlan'
+import type { Card } from '../core/types'
+
+type Props = {
+  card: Card
+  setKey: string
+  /** The card's pocket; every printing is filed there. */
+  pocket: Pocket
+  printings: PrintingDetail[]
+  ownership: OwnershipSplit
+  usage: DeckUsage[]
+  onClose: () => void
+}
+
+const sectionTitle: React.CSSProperties = { margin: '16px 0 6px', fontSize: 14, color: '#c8ccd9' }
+
+const price = (value?: number) => (value ? `$${value.toFixed(2)}` : '—')
+
+/** Side drawer for the selected card: printings, where the copies are, and the decks that use it. */
+export function CardDetailDrawer({ card, setKey, pocket, printings, ownership, usage, onClose }: Props) {
+  const stats = cardStatsLine(card)
+  const total = ownership.binder + ownership.decks + ownership.precons
+
+  return (
+    <aside
+      className="card"
+      role="complementary"
+      aria-label="Card details"
+      style={{
+        position: 'fixed',
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: 'min(440px, 94%)',
+        overflowY: 'auto',
+        zIndex: 90,
+        padding: 20,
+        borderRadius: 0,
+        background: '#2b2d3d',
+        boxShadow: '-8px 0 24px rgba(0,0,0,0.5)',
+      }}
+    >
+      <div className="row" style={{ justifyContent: 'space-between', alignItems: 'flex-start', gap: 8 }}>
+        <div>
+          <h2 style={{ margin: 0, color: '#e5e7eb' }}>{card.Name}</h2>
+          {card.Subtitle && <div className="muted">{card.Subtitle}</div>}
+          <div className="muted" style={{ fontSize: 13, marginTop: 4 }}>
+            {setKey} #{card.Number}
+            {card.Rarity && ` · ${card.Rarity}`}
+          </div>
+        </div>
+        <button type="button" className="tbtn" onClick={onClose} aria-label="Close card details">
+          <span className="icon" aria-hidden="true">close</span>
+        </button>
+      </div>
+
+      {stats && <p style={{ fontSize: 13, margin: '10px 0 0' }}>{stats}</p>}
+      {card.FrontText && (
+        <p className="muted" style={{ fontSize: 13, margin: '6px 0 0', whiteSpace: 'pre-line' }}>
+          {card.FrontText}
+        </p>
+      )}
+
+      <h3 style={sectionTitle}>Printings</h3>
+      <table className="table" style={{ width: '100%', fontSize: 13 }}>
+        <thead>
+          <tr>
+            <th className="mono">No.</th>
+            <th>Variant</th>
+            <th className="mono">Price</th>
+            <th className="mono">Owned</th>
+            <th className="mono">Page</th>
+            <th className="mono">Row</th>
+            <th className="mono">Col</th>
+          </tr>
+        </thead>
+        <tbody>
+          {printings.map(printing => (
+            <tr key={printing.number ?? printing.variant}>
+              <td className="mono">{printing.number === undefined ? '—' : `#${printing.number}`}</td>
+              <td>{VARIANT_LABELS[printing.variant]}</td>
+              <td className="mono">{price(printing.price)}</td>
+              <td className="mono">{printing.owned}</td>
+              <td className="mono">{pocket.page}</td>
+              <td className="mono">{pocket.row}</td>
+              <td className="mono">{pocket.column}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h3 style={sectionTitle}>Owned</h3>
+      <div className="row" style={{ gap: 8, flexWrap: 'wrap', fontSize: 13 }}>
+        <span className="pill">Binder {ownership.binder}</span>
+        <span className="pill">Decks {ownership.decks}</span>
+        <span className="pill">Precons {ownership.precons}</span>
+        <span className="muted">{total} in total</span>
+      </div>
+
+      <h3 style={sectionTitle}>Used in</h3>
+      {usage.length ? (
+        <table className="table" style={{ width: '100%', fontSize: 13 }}>
+          <thead>
+            <tr>
+              <th>Deck</th>
+              <th className="mono">Needs</th>
+              <th className="mono">Owned</th>
+            </tr>
+          </thead>
+          <tbody>
+            {usage.map(deck => (
+              <tr key={`${deck.kind}:${deck.id}`}>
+                <td>
+                  {deck.name}
+                  {deck.kind === 'precon' && <span className="muted"> (precon)</span>}
+                </td>
+                <td className="mono">{deck.count}</td>
+                <td className="mono" title="Copies of the deck you own">
+                  {deck.owned}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="muted" style={{ fontSize: 13, margin: 0 }}>
+          No saved deck or precon uses this card.
+        </p>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,171 @@
+import React from 'react'
+import type { SetKey } from '../core/types'
+import type { ValuePoint } from '../core/valueHistory'
+
+type Props = {
+  /** Null while the price history files are still loading. */
+  series: ValuePoint[] | null
+  onClose: () => void
+}
+
+type Line = { label: string; color: string; values: number[] }
+
+const SET_COLORS = ['#60a5fa', '#f472b6', '#fbbf24', '#a78bfa', '#2dd4bf', '#fb923c', '#a3e635', '#f87171']
+
+const fmtUSD = (n: number) =>
+  n.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })
+
+const WIDTH = 640
+const HEIGHT = 200
+const PAD = { top: 10, right: 12, bottom: 22, left: 64 }
+
+function LineChart({ title, dates, lines }: { title: string; dates: string[]; lines: Line[] }) {
+  const max = Math.max(1, ...lines.flatMap(line => line.values))
+  const times = dates.map(date => Date.parse(date))
+  const span = Math.max(1, times[times.length - 1] - times[0])
+  const x = (i: number) =>
+    PAD.left + (dates.length > 1 ? ((times[i] - times[0]) / span) * (WIDTH - PAD.left - PAD.right) : 0)
+  const y = (value: number) => PAD.top + (1 - value / max) * (HEIGHT - PAD.top - PAD.bottom)
+
+  return (
+    <figure style={{ margin: '0 0 16px' }}>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" aria-label={title}>
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#424452" />
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(max)} y2={y(max)} stroke="#333" strokeDasharray="4 4" />
+        <text x={PAD.left - 6} y={y(max) + 4} textAnchor="end" fontSize={11} fill="#9ca3af">{fmtUSD(max)}</text>
+        <text x={PAD.left - 6} y={y(0) + 4} textAnchor="end" fontSize={11} fill="#9ca3af">{fmtUSD(0)}</text>
+        <text x={PAD.left} y={HEIGHT - 6} fontSize={11} fill="#9ca3af">{dates[0]}</text>
+        {dates.length > 1 && (
+          <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" fontSize={11} fill="#9ca3af">
+            {dates[dates.length - 1]}
+          </text>
+        )}
+        {lines.map(line =>
+          line.values.length > 1 ? (
+            <polyline
+              key={line.label}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={2}
+              points={line.values.map((value, i) => `${x(i)},${y(value)}`).join(' ')}
+            />
+          ) : (
+            <circle key={line.label} cx={x(0)} cy={y(line.values[0] ?? 0)} r={3} fill={line.color} />
+          ),
+        )}
+      </svg>
+      <figcaption style={{ display: 'flex', flexWrap: 'wrap', gap: 12, fontSize: 12 }}>
+        {lines.map(line => (
+          <span key={line.label} style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+            <span style={{ width: 10, height: 10, borderRadius: 2, background: line.color }} />
+            {line.label}
+          </span>
+        ))}
+      </figcaption>
+    </figure>
+  )
+}
+
+export function CollectionValueModal({ series, onClose }: Props) {
+  const setKeys: SetKey[] = series
+    ? [...new Set(series.flatMap(point => Object.keys(point.bySet)))].sort()
+    : []
+  const dates = series?.map(point => point.date) ?? []
+  const latest = series?.length ? series[series.length - 1] : null
+  const snapshotNames = [...new Set(series?.map(point => point.inventory).filter(name => name !== null))]
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Collection value"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 760, width: '94%', maxHeight: '90vh', overflowY: 'auto', padding: 20, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Collection Value</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          Market value on each day prices were fetched. Past days use the newest inventory snapshot
+          saved on or before them; without snapshots, your current inventory.
+        </p>
+
+        {!series ? (
+          <div className="muted">Loading price history…</div>
+        ) : !latest ? (
+          <div className="muted">
+            No price history yet. Run <code>npm run fetch:prices</code> to record today’s prices.
+          </div>
+        ) : (
+          <>
+            <h3 style={{ margin: '0 0 6px', fontSize: 15, color: '#c8ccd9' }}>Collection</h3>
+            <LineChart
+              title="Collection value over time"
+              dates={dates}
+              lines={[
+                { label: 'Total value', color: '#34d399', values: series.map(point => point.total) },
+                { label: 'Still needed', color: '#f87171', values: series.map(point => point.missing) },
+              ]}
+            />
+            <h3 style={{ margin: '0 0 6px', fontSize: 15, color: '#c8ccd9' }}>By set</h3>
+            <LineChart
+              title="Value per set over time"
+              dates={dates}
+              lines={setKeys.map((setKey, i) => ({
+                label: setKey,
+                color: SET_COLORS[i % SET_COLORS.length],
+                values: series.map(point => point.bySet[setKey] ?? 0),
+              }))}
+            />
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Latest ({latest.date})</th>
+                  <th className="mono moneycol">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {setKeys.map(setKey => (
+                  <tr key={setKey}>
+                    <td>{setKey}</td>
+                    <td className="mono moneycol">{fmtUSD(latest.bySet[setKey] ?? 0)}</td>
+                  </tr>
+                ))}
+                <tr style={{ fontWeight: 700 }}>
+                  <td>Collection</td>
+                  <td className="mono moneycol">{fmtUSD(latest.total)}</td>
+                </tr>
+                <tr>
+                  <td>Still needed</td>
+                  <td className="mono moneycol">{fmtUSD(latest.missing)}</td>
+                </tr>
+              </tbody>
+            </table>
+            {snapshotNames.length > 0 && (
+              <div className="muted" style={{ fontSize: 12, marginTop: 8 }}>
+                Valued with snapshots: {snapshotNames.join(', ')}
+              </div>
+            )}
+          </>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 12 }}>
+          <button type="button" className="tbtn" onClick={onClose}>
+            <span>Done</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+import React from 'react'
+import {
+  MAPPING_FIELDS,
+  MAPPING_FIELD_LABELS,
+  type ColumnMapping,
+  type MappingField,
+  type SourceTable,
+} from '../core/columnMapping'
+import type { SetKey } from '../core/types'
+
+type Props = {
+  fileName: string
+  table: SourceTable
+  /** Saved mapping for these headers, or the guessed one. */
+  initialMapping: ColumnMapping
+  /** Whether `initialMapping` was remembered from an earlier import. */
+  remembered: boolean
+  setKeys: SetKey[]
+  onContinue: (mapping: ColumnMapping, remember: boolean) => void
+  onCancel: () => void
+}
+
+const fieldStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  background: '#1a1c25',
+  color: '#e5e7eb',
+  border: '1px solid #424452',
+  borderRadius: 6,
+}
+
+const PREVIEW_ROWS = 5
+
+export function ColumnMappingModal({
+  fileName,
+  table,
+  initialMapping,
+  remembered,
+  setKeys,
+  onContinue,
+  onCancel,
+}: Props) {
+  const [mapping, setMapping] = React.useState<ColumnMapping>(initialMapping)
+  const [remember, setRemember] = React.useState(true)
+
+  const assign = (field: MappingField, header: string) =>
+    setMapping(prev => {
+      const next: ColumnMapping = { ...prev }
+      // A column feeds one field; picking it again moves it.
+      for (const other of MAPPING_FIELDS) if (next[other] === header) delete next[other]
+      if (header) next[field] = header
+      else delete next[field]
+      return next
+    })
+
+  const fieldOf = (header: string) => MAPPING_FIELDS.find(field => mapping[field] === header)
+  const identifiesCards = !!(mapping.number || mapping.name)
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Map columns"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onCancel}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 760, width: '94%', maxHeight: '90vh', overflowY: 'auto', padding: 24, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Map columns</h2>
+        <p style={{ opacity: 0.8, marginBottom: 4 }}>
+          <strong>{fileName}</strong> isn’t a SWUDB or SW-Unlimited export. Tell us which columns hold what.
+        </p>
+        <p className="muted" style={{ marginTop: 0 }}>
+          {remembered ? 'Using the mapping you saved for these columns.' : 'Columns were guessed from their headers.'}
+          {' '}Without a number column cards are matched by name and subtitle; without a quantity column each row is one copy.
+        </p>
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'max-content 1fr', gap: '8px 12px', alignItems: 'center', marginBottom: 12 }}>
+          {MAPPING_FIELDS.map(field => (
+            <React.Fragment key={field}>
+              <label htmlFor={`mapping-${field}`}>{MAPPING_FIELD_LABELS[field]}</label>
+              <select
+                id={`mapping-${field}`}
+                value={mapping[field] ?? ''}
+                onChange={e => assign(field, e.target.value)}
+                style={fieldStyle}
+              >
+                <option value="">— Not in file —</option>
+                {table.headers.map(header =>
+                  header ? <option key={header} value={header}>{header}</option> : null,
+                )}
+              </select>
+            </React.Fragment>
+          ))}
+          <label htmlFor="mapping-default-set">{mapping.set ? 'Set for blank cells' : 'Set for every row'}</label>
+          <select
+            id="mapping-default-set"
+            value={mapping.defaultSet ?? ''}
+            onChange={e => setMapping(prev => ({ ...prev, defaultSet: e.target.value || undefined }))}
+            style={fieldStyle}
+          >
+            <option value="">Any set (match by name)</option>
+            {setKeys.map(key => (
+              <option key={key} value={key}>{key}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="inventory-scroll" style={{ maxHeight: 220, marginBottom: 12 }}>
+          <table className="table">
+            <thead>
+              <tr>
+                {table.headers.map((header, i) => {
+                  const field = fieldOf(header)
+                  return (
+                    <th key={i} style={field ? { color: '#93c5fd' } : { opacity: 0.5 }}>
+                      {header}
+                      {field && <div style={{ fontSize: 11, fontWeight: 400 }}>{MAPPING_FIELD_LABELS[field]}</div>}
+                    </th>
+                  )
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                <tr key={r}>
+                  {table.headers.map((header, i) => (
+                    <td key={i} style={fieldOf(header) ? undefined : { opacity: 0.5 }}>{row[i]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="muted" style={{ marginTop: 0 }}>
+          {table.rows.length > PREVIEW_ROWS ? `First ${PREVIEW_ROWS} of ${table.rows.length} rows.` : `${table.rows.length} row(s).`}
+        </p>
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', alignItems: 'center' }}>
+          <label style={{ marginRight: 'auto', display: 'flex', gap: 6, alignItems: 'center' }}>
+            <input type="checkbox" checked={remember} onChange={e => setRemember(e.target.checked)} />
+            Remember for files with these columns
+          </label>
+          <button type="button" className="tbtn" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="tbtn tbtn-primary"
+            disabled={!identifiesCards}
+            title={identifiesCards ? undefined : 'Pick a card number or name column'}
+            onClick={() => onContinue(mapping, remember)}
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
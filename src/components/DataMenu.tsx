@@ -4,10 +4,34 @@ import { useClickOutside } from '../hooks/useClickOutside'
 type Props = {
   onImportFile: (e: React.ChangeEvent<HTMLInputElement>) => void
   onExport: () => void
+  onExportWorkbook?: () => void
   onReset: () => void
+  onEditQuotas?: () => void
+  onShowHistory?: () => void
+  onShowSnapshots?: () => void
+  onShowLedger?: () => void
+  onShowLocations?: () => void
+  onShowValue?: () => void
+  onShowMarketplace?: () => void
+  onPrintBinder?: () => void
+  onStartFiling?: () => void
 }
 
-export function DataMenu({ onImportFile, onExport, onReset }: Props) {
+export function DataMenu({
+  onImportFile,
+  onExport,
+  onExportWorkbook,
+  onReset,
+  onEditQuotas,
+  onShowHistory,
+  onShowSnapshots,
+  onShowLedger,
+  onShowLocations,
+  onShowValue,
+  onShowMarketplace,
+  onPrintBinder,
+  onStartFiling,
+}: Props) {
   const [menuOpen, setMenuOpen] = React.useState(false)
   const importRef = React.useRef<HTMLInputElement>(null)
   const containerRef = useClickOutside<HTMLDivElement>(menuOpen, () => setMenuOpen(false))
@@ -77,6 +101,166 @@ export function DataMenu({ onImportFile, onExport, onReset }: Props) {
               <span className="icon" aria-hidden="true">save</span>
               <span>Export</span>
             </button>
+            {onExportWorkbook && (
+              <button
+                type="button"
+                role="menuitem"
+                className="tbtn"
+                style={{ width: '100%', justifyContent: 'flex-start' }}
+                onClick={() => {
+                  setMenuOpen(false)
+                  onExportWorkbook()
+                }}
+                title="Export every set to an Excel workbook, one sheet per set plus a summary"
+              >
+                <span className="icon" aria-hidden="true">table_view</span>
+                <span>Export workbook (.xlsx)</span>
+              </button>
+            )}
+            {onEditQuotas && (
+              <button
+                type="button"
+                role="menuitem"
+                className="tbtn"
+                style={{ width: '100%', justifyContent: 'flex-start' }}
+                onClick={() => {
+                  setMenuOpen(false)
+                  onEditQuotas()
+                }}
+                title="Choose how many copies of each card to collect"
+              >
+                <span className="icon" aria-hidden="true">tune</span>
+                <span>Quotas…</span>
+              </button>
+            )}
+            {onShowHistory && (
+              <button
+                type="button"
+                role="menuitem"
+                className="tbtn"
+                style={{ width: '100%', justifyContent: 'flex-start' }}
+                onClick={() => {
+                  setMenuOpen(false)
+                  onShowHistory()
+                }}
+                title="Review, undo or revert inventory changes"
+              >
+                <span className="icon" aria-hidden="true">history</span>
+                <span>History…</span>
+              </button>
+            )}
+            {onShowSnapshots && (
+              <button
+                type="button"
+                role="menuitem"
+                className="tbtn"
+                style={{ width: '100%', justifyContent: 'flex-start' }}
+                onClick={() => {
+                  setMenuOpen(false)
+                  onShowSnapshots()
+                }}
+                title="Save, compare or restore named copies of your collection"
+              >
+                <span className="icon" aria-hidden="true">photo_camera</span>
+                <span>Snapshots…</span>
+              </button>
+            )}
+            {onShowLedger && (
+              <button
+                type="button"
+                role="menuitem"
+                className="tbtn"
+                style={{ width: '100%', justifyContent: 'flex-start' }}
+                onClick={() => {
+                  setMenuOpen(false)
+                  onShowLedger()
+                }}
+                title="Record purchases and sales and see cost basis and gains"
+              >
+                <span className="icon" aria-hidden="true">receipt_long</span>
+                <span>Ledger…</span>
+              </button>
+            )}
+            {onShowLocations && (
+              <button
+                type="button"
+                role="menuitem"
+                className="tbtn"
+                style={{ width: '100%', justifyContent: 'flex-start' }}
+                onClick={() => {
+                  setMenuOpen(false)
+                  onShowLocations()
+                }}
+                title="Manage binders, deck boxes and bulk boxes"
+              >
+                <span className="icon" aria-hidden="true">location_on</span>
+                <span>Locations…</span>
+              </button>
+            )}
+            {onShowValue && (
+              <button
+                type="button"
+                role="menuitem"
+                className="tbtn"
+                style={{ width: '100%', justifyContent: 'flex-start' }}
+                onClick={() => {
+                  setMenuOpen(false)
+                  onShowValue()
+                }}
+                title="Chart what your collection has been worth over time"
+              >
+                <span className="icon" aria-hidden="true">show_chart</span>
+                <span>Collection value…</span>
+              </button>
+            )}
+            {onShowMarketplace && (
+              <button
+                type="button"
+                role="menuitem"
+                className="tbtn"
+                style={{ width: '100%', justifyContent: 'flex-start' }}
+                onClick={() => {
+                  setMenuOpen(false)
+                  onShowMarketplace()
+                }}
+                title="Export wants and haves for TCGplayer, Cardmarket or as plain text"
+              >
+                <span className="icon" aria-hidden="true">storefront</span>
+                <span>Marketplace export…</span>
+              </button>
+            )}
+            {onPrintBinder && (
+              <button
+                type="button"
+                role="menuitem"
+                className="tbtn"
+                style={{ width: '100%', justifyContent: 'flex-start' }}
+                onClick={() => {
+                  setMenuOpen(false)
+                  onPrintBinder()
+                }}
+                title="Print this set's binder pages or labels for empty pockets"
+              >
+                <span className="icon" aria-hidden="true">print</span>
+                <span>Print binder…</span>
+              </button>
+            )}
+            {onStartFiling && (
+              <button
+                type="button"
+                role="menuitem"
+                className="tbtn"
+                style={{ width: '100%', justifyContent: 'flex-start' }}
+                onClick={() => {
+                  setMenuOpen(false)
+                  onStartFiling()
+                }}
+                title="Enter a stack of new cards, then file them into the binder in page order"
+              >
+                <span className="icon" aria-hidden="true">inventory_2</span>
+                <span>Filing session…</span>
+              </button>
+            )}
             <div style={{ height: 1, background: '#333', margin: '6px 2px' }} />
             <button
               type="button"
@@ -27,6 +27,8 @@ type Props = {
   trackedSetKeys: SetKey[]
   buildOwnedLookup: () => (setKey: SetKey, baseNumber: number) => number
   showToast: (message: string, kind?: 'success' | 'error' | 'warning') => void
+  /** Opens the binder pull list for a deck; the buttons are hidden without it. */
+  onShowPullList?: (title: string, contents: DeckContents) => void
 }
 
 const inputStyle: React.CSSProperties = {
@@ -326,6 +328,7 @@ function SavedDeckRow({
   onDeleteDeck,
   rows,
   showToast,
+  onShowPullList,
 }: {
   deck: SavedDeck
   needed: number
@@ -335,6 +338,7 @@ function SavedDeckRow({
   onDeleteDeck: Props['onDeleteDeck']
   rows: DeckRowWithNeed[]
   showToast: Props['showToast']
+  onShowPullList: Props['onShowPullList']
 }) {
   function handleCopyMissing() {
     const list = formatMissingCardsList(rows, true)
@@ -376,6 +380,12 @@ function SavedDeckRow({
             <span className="icon" aria-hidden="true">content_paste</span>
             <span>Copy missing</span>
           </button>
+          {onShowPullList && (
+            <button type="button" className="tbtn" onClick={() => onShowPullList(deck.name, deck)} aria-label={`Pull list for ${deck.name}`}>
+              <span className="icon" aria-hidden="true">checklist</span>
+              <span>Pull list</span>
+            </button>
+          )}
           <button type="button" className="tbtn" onClick={() => onDeleteDeck(deck.id)} aria-label={`Delete ${deck.name}`}>
             <span className="icon" aria-hidden="true">delete</span>
           </button>
@@ -398,6 +408,7 @@ export function DecksView({
   trackedSetKeys,
   buildOwnedLookup,
   showToast,
+  onShowPullList,
 }: Props) {
   const ownedByBase = React.useMemo(() => buildOwnedLookup(), [buildOwnedLookup])
   const [expandedPrecon, setExpandedPrecon] = React.useState<string | null>(null)
@@ -451,6 +462,17 @@ export function DecksView({
                       >
                         <span>{isExpanded ? 'Hide' : 'View'} contents</span>
                       </button>
+                      {onShowPullList && (
+                        <button
+                          type="button"
+                          className="tbtn"
+                          onClick={() => onShowPullList(entry.label, entry.contents)}
+                          aria-label={`Pull list for ${entry.label}`}
+                        >
+                          <span className="icon" aria-hidden="true">checklist</span>
+                          <span>Pull list</span>
+                        </button>
+                      )}
                     </div>
                     {isExpanded && <DeckRowsTable rows={contentsToRows(entry.contents, parsedSets, ownedByBase)} />}
                   </div>
@@ -504,6 +526,7 @@ export function DecksView({
               onDeleteDeck={onDeleteDeck}
               rows={contentsToRows(deck, parsedSets, ownedByBase)}
               showToast={showToast}
+              onShowPullList={onShowPullList}
             />
           ))
         )}
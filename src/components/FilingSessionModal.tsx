@@ -0,0 +1,168 @@
+import React from 'react'
+import type { FilingEntry } from '../core/filingSession'
+import type { SearchSuggestion } from '../core/search'
+
+type Props = {
+  setKey: string
+  entries: FilingEntry[]
+  suggest: (query: string) => SearchSuggestion[]
+  /** Shown instead of accepting changes, e.g. while another set is open. */
+  blockedReason?: string
+  /** `query` is what was typed, so a collector number can pick out an alternate printing. */
+  onAdd: (suggestion: SearchSuggestion, query: string) => void
+  onRemove: (id: number) => void
+  onFile: () => void
+  onClose: () => void
+}
+
+export function FilingSessionModal({ setKey, entries, suggest, blockedReason, onAdd, onRemove, onFile, onClose }: Props) {
+  const [query, setQuery] = React.useState('')
+  const [highlight, setHighlight] = React.useState(0)
+  const suggestions = React.useMemo(() => (blockedReason ? [] : suggest(query)), [blockedReason, suggest, query])
+  const extras = entries.filter(entry => entry.extra).length
+
+  function add(suggestion: SearchSuggestion | undefined) {
+    if (!suggestion) return
+    onAdd(suggestion, query)
+    setQuery('')
+    setHighlight(0)
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Filing session"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 620, width: '94%', maxHeight: '90vh', overflowY: 'auto', padding: 20, background: '#2b2d3d' }}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Filing session: {setKey}</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          Type a collector number or name and press Enter for each card in the stack. Every copy is added to your
+          inventory straight away; copies over quota go on a separate extras pile.
+        </p>
+        {blockedReason && (
+          <p className="err" role="status" style={{ fontSize: 13 }}>
+            {blockedReason}
+          </p>
+        )}
+
+        <input
+          autoFocus
+          disabled={!!blockedReason}
+          aria-label="Card number or name"
+          placeholder="Number or name"
+          value={query}
+          style={{
+            width: '100%',
+            boxSizing: 'border-box',
+            background: '#0f1017',
+            color: '#eaeaf0',
+            border: '1px solid #2b2d3d',
+            borderRadius: 10,
+            padding: 10,
+            fontSize: 14,
+          }}
+          onChange={event => {
+            setQuery(event.target.value)
+            setHighlight(0)
+          }}
+          onKeyDown={event => {
+            if (event.key === 'Enter') {
+              event.preventDefault()
+              add(suggestions[highlight])
+            } else if (event.key === 'ArrowDown') {
+              event.preventDefault()
+              setHighlight(h => Math.min(h + 1, suggestions.length - 1))
+            } else if (event.key === 'ArrowUp') {
+              event.preventDefault()
+              setHighlight(h => Math.max(h - 1, 0))
+            }
+          }}
+        />
+        {suggestions.length > 0 && (
+          <div role="listbox" aria-label="Matching cards" style={{ marginTop: 4 }}>
+            {suggestions.map((suggestion, index) => (
+              <button
+                key={`${suggestion.setKey}:${suggestion.baseNumber}`}
+                type="button"
+                role="option"
+                aria-selected={index === highlight}
+                className="tbtn"
+                style={{
+                  width: '100%',
+                  justifyContent: 'flex-start',
+                  ...(index === highlight ? { backgroundColor: '#213c6a', color: '#fff' } : {}),
+                }}
+                onMouseEnter={() => setHighlight(index)}
+                onClick={() => add(suggestion)}
+              >
+                {suggestion.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {entries.length > 0 ? (
+          <table className="table" style={{ width: '100%', fontSize: 13, marginTop: 12 }}>
+            <thead>
+              <tr>
+                <th className="mono">No.</th>
+                <th>Card</th>
+                <th>Goes to</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {[...entries].reverse().map(entry => (
+                <tr key={entry.id}>
+                  <td className="mono">#{entry.printingNumber}</td>
+                  <td>{entry.subtitle ? `${entry.name} - ${entry.subtitle}` : entry.name}</td>
+                  <td>{entry.extra ? 'Extras pile' : 'Binder'}</td>
+                  <td style={{ textAlign: 'right' }}>
+                    <button
+                      type="button"
+                      className="tbtn"
+                      disabled={!!blockedReason}
+                      onClick={() => onRemove(entry.id)}
+                      aria-label={`Remove #${entry.printingNumber} ${entry.name}`}
+                      title="Remove this copy and take it back out of the inventory"
+                    >
+                      <span className="icon" aria-hidden="true">remove</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="muted" style={{ fontSize: 13 }}>No cards entered yet.</p>
+        )}
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', alignItems: 'center', marginTop: 12 }}>
+          <span className="muted" style={{ fontSize: 13, marginRight: 'auto' }}>
+            {entries.length} card(s), {extras} extra
+          </span>
+          <button type="button" className="tbtn" onClick={onClose}>
+            {entries.length ? 'Finish without filing' : 'Cancel'}
+          </button>
+          <button type="button" className="tbtn tbtn-primary" disabled={!entries.length} onClick={onFile}>
+            <span className="icon" aria-hidden="true">directions_walk</span>
+            <span>File into binder</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+import React from 'react'
+import type { ChangeSource, InventoryChange, JournalEntry } from '../core/history'
+import type { SetKey } from '../core/types'
+
+type Props = {
+  setKey: SetKey
+  /** Oldest-first, as stored in the journal. */
+  entries: JournalEntry[]
+  redoCount: number
+  /** Display name for a printing key, e.g. "Luke Skywalker (Foil)". */
+  describeKey: (key: string) => string
+  onUndo: () => void
+  onRedo: () => void
+  onRevert: (entry: JournalEntry) => void
+  onClose: () => void
+}
+
+const SOURCE_LABELS: Record<ChangeSource, string> = {
+  click: 'Click',
+  keyboard: 'Keyboard',
+  bulk: 'Bulk action',
+  filing: 'Filing session',
+  import: 'Import',
+  sync: 'Sync',
+  reset: 'Reset',
+  revert: 'Revert',
+  undo: 'Undo',
+  redo: 'Redo',
+}
+
+/** Entries with more changes than this are summarized instead of listed. */
+const LISTED_CHANGES = 3
+
+function formatDelta(change: InventoryChange) {
+  const delta = change.after - change.before
+  return delta > 0 ? `+${delta}` : `−${-delta}`
+}
+
+function summarizeChanges(changes: InventoryChange[], describeKey: Props['describeKey']) {
+  if (changes.length <= LISTED_CHANGES) {
+    return changes.map(change => `${formatDelta(change)} ${describeKey(change.key)}`).join(', ')
+  }
+  let added = 0
+  let removed = 0
+  for (const change of changes) {
+    const delta = change.after - change.before
+    if (delta > 0) added += delta
+    else removed -= delta
+  }
+  const parts = [added ? `+${added}` : '', removed ? `−${removed}` : ''].filter(Boolean)
+  return `${changes.length} printings (${parts.join(' / ')} copies)`
+}
+
+export function HistoryPanel({
+  setKey,
+  entries,
+  redoCount,
+  describeKey,
+  onUndo,
+  onRedo,
+  onRevert,
+  onClose,
+}: Props) {
+  const newestFirst = [...entries].reverse()
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Inventory history"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 640, width: '92%', padding: 20, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>History ({setKey})</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          Ctrl+Z undoes the latest change and Ctrl+Shift+Z redoes it. Revert undoes one past change
+          while keeping everything recorded after it.
+        </p>
+
+        <div style={{ display: 'flex', gap: 8, marginBottom: 12 }}>
+          <button type="button" className="tbtn" onClick={onUndo} disabled={!entries.length}>
+            <span className="icon" aria-hidden="true">undo</span>
+            <span>Undo</span>
+          </button>
+          <button type="button" className="tbtn" onClick={onRedo} disabled={!redoCount}>
+            <span className="icon" aria-hidden="true">redo</span>
+            <span>Redo</span>
+          </button>
+        </div>
+
+        {newestFirst.length ? (
+          <div className="inventory-scroll" style={{ maxHeight: 360 }}>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th>Source</th>
+                  <th>Changes</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {newestFirst.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="muted" style={{ fontSize: 13, whiteSpace: 'nowrap' }}>
+                      {new Date(entry.at).toLocaleString()}
+                    </td>
+                    <td style={{ fontSize: 13 }}>
+                      {entry.label ? `${SOURCE_LABELS[entry.source]}: ${entry.label}` : SOURCE_LABELS[entry.source]}
+                    </td>
+                    <td style={{ fontSize: 13 }}>{summarizeChanges(entry.changes, describeKey)}</td>
+                    <td>
+                      <button
+                        type="button"
+                        className="tbtn"
+                        onClick={() => onRevert(entry)}
+                        aria-label={`Revert change from ${new Date(entry.at).toLocaleString()}`}
+                      >
+                        <span className="icon" aria-hidden="true">history</span>
+                        <span>Revert</span>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="muted">No changes recorded for this set yet.</div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 12 }}>
+          <button type="button" className="tbtn" onClick={onClose}>
+            <span>Done</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
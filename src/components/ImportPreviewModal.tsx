@@ -0,0 +1,264 @@
+import React from 'react'
+import {
+  IMPORT_REJECT_REASONS,
+  IMPORT_REJECT_REASON_LABELS,
+  VARIANT_LABELS,
+  type ImportMode,
+  type ImportRejection,
+} from '../core/inventory'
+import {
+  importChangeId,
+  type ImportExclusions,
+  type ImportSetPreview,
+} from '../core/importPreview'
+import type { SetKey } from '../core/types'
+
+type Props = {
+  fileName: string
+  /** Sets named in the imported file, including ones without changes. */
+  setCount: number
+  stats: { recognized: number; skipped: number }
+  /** Source rows behind the skipped entries. */
+  rejected: ImportRejection[]
+  mode: ImportMode
+  previews: ImportSetPreview[]
+  describeCard: (setKey: SetKey, baseNumber: number) => string
+  onModeChange: (mode: ImportMode) => void
+  onApply: (exclusions: ImportExclusions) => void
+  onDownloadRejected: () => void
+  onCancel: () => void
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`
+
+/** Rows shown in the dialog; the CSV download always has all of them. */
+const MAX_REJECTED_ROWS = 200
+
+function RejectedRows({ rejected, onDownload }: { rejected: ImportRejection[]; onDownload: () => void }) {
+  // Real problems first; "no copies" rows are routine in exports that list every card.
+  const ordered = IMPORT_REJECT_REASONS.flatMap(reason => rejected.filter(r => r.reason === reason))
+  const summary = IMPORT_REJECT_REASONS.map(reason => [reason, rejected.filter(r => r.reason === reason).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([reason, count]) => `${count} ${IMPORT_REJECT_REASON_LABELS[reason].toLowerCase()}`)
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary style={{ cursor: 'pointer', color: '#c8ccd9' }}>
+        Skipped rows ({rejected.length}): {summary.join(' · ')}
+      </summary>
+      <div className="inventory-scroll" style={{ maxHeight: 220, marginTop: 6 }}>
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Row</th>
+              <th>Set</th>
+              <th>Number</th>
+              <th className="mono qtycol">Qty</th>
+              <th>Reason</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ordered.slice(0, MAX_REJECTED_ROWS).map((r, i) => (
+              <tr key={i}>
+                <td className="mono">{r.row}</td>
+                <td>{r.set || '—'}</td>
+                <td className="mono">{r.number || '—'}</td>
+                <td className="mono qtycol">{r.quantity || '—'}</td>
+                <td>{IMPORT_REJECT_REASON_LABELS[r.reason]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: 6 }}>
+        <span className="muted" style={{ fontSize: 12 }}>
+          {ordered.length > MAX_REJECTED_ROWS ? `Showing the first ${MAX_REJECTED_ROWS}.` : ''}
+        </span>
+        <button type="button" className="tbtn" onClick={onDownload}>
+          <span className="icon" aria-hidden="true">download</span>
+          <span>Download CSV</span>
+        </button>
+      </div>
+    </details>
+  )
+}
+
+function toggled<T>(values: ReadonlySet<T>, value: T): Set<T> {
+  const next = new Set(values)
+  if (next.has(value)) next.delete(value)
+  else next.add(value)
+  return next
+}
+
+export function ImportPreviewModal({
+  fileName,
+  setCount,
+  stats,
+  rejected,
+  mode,
+  previews,
+  describeCard,
+  onModeChange,
+  onApply,
+  onDownloadRejected,
+  onCancel,
+}: Props) {
+  const [excludedSets, setExcludedSets] = React.useState<ReadonlySet<SetKey>>(new Set())
+  const [excludedCards, setExcludedCards] = React.useState<ReadonlySet<string>>(new Set())
+
+  const selectedChanges = previews
+    .filter(preview => !excludedSets.has(preview.setKey))
+    .reduce(
+      (sum, preview) =>
+        sum + preview.changes.filter(change => !excludedCards.has(importChangeId(preview.setKey, change.key))).length,
+      0,
+    )
+  const zeroedCount = previews.reduce((sum, preview) => sum + preview.changes.filter(change => change.zeroed).length, 0)
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Import preview"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onCancel}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 760, width: '94%', maxHeight: '90vh', overflowY: 'auto', padding: 24, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Import Options</h2>
+        <p style={{ opacity: 0.8, marginBottom: 4 }}>
+          You are importing data from <strong>{fileName}</strong>, which contains entries for {setCount} set(s).
+        </p>
+        <p className="muted" style={{ marginTop: 0 }}>
+          {plural(stats.recognized, 'recognized entry')} · {plural(stats.skipped, 'skipped entry')}
+        </p>
+        {rejected.length > 0 && <RejectedRows rejected={rejected} onDownload={onDownloadRejected} />}
+
+        <div className="toolbar-group" role="radiogroup" aria-label="Import mode" style={{ marginBottom: 12 }}>
+          {(['merge', 'replace'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              className="tbtn"
+              aria-checked={mode === option}
+              onClick={() => onModeChange(option)}
+              style={mode === option ? { backgroundColor: '#213c6a', color: '#fff', border: '1px solid #213c6a' } : undefined}
+            >
+              {option === 'merge' ? 'Merge (add counts)' : 'Replace imported sets'}
+            </button>
+          ))}
+        </div>
+
+        {previews.length ? (
+          <div className="inventory-scroll" style={{ maxHeight: 360, marginBottom: 12 }}>
+            {previews.map(preview => {
+              const setExcluded = excludedSets.has(preview.setKey)
+              return (
+                <section key={preview.setKey} style={{ marginBottom: 12 }}>
+                  <label style={{ display: 'flex', gap: 8, alignItems: 'center', fontWeight: 700, color: '#c8ccd9' }}>
+                    <input
+                      type="checkbox"
+                      checked={!setExcluded}
+                      onChange={() => setExcludedSets(prev => toggled(prev, preview.setKey))}
+                    />
+                    {preview.setKey} · {plural(preview.changes.length, 'change')}
+                  </label>
+                  {!setExcluded && (
+                    <table className="table">
+                      <thead>
+                        <tr>
+                          <th></th>
+                          <th>Card</th>
+                          <th>Printing</th>
+                          <th className="mono qtycol">Now</th>
+                          <th className="mono qtycol">After</th>
+                          <th></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.changes.map(change => {
+                          const id = importChangeId(preview.setKey, change.key)
+                          const included = !excludedCards.has(id)
+                          return (
+                            <tr key={change.key} style={included ? undefined : { opacity: 0.5 }}>
+                              <td>
+                                <input
+                                  type="checkbox"
+                                  checked={included}
+                                  onChange={() => setExcludedCards(prev => toggled(prev, id))}
+                                  aria-label={`Include ${describeCard(preview.setKey, change.baseNumber)} (${VARIANT_LABELS[change.variant]})`}
+                                />
+                              </td>
+                              <td>{describeCard(preview.setKey, change.baseNumber)}</td>
+                              <td className="muted">{VARIANT_LABELS[change.variant]}</td>
+                              <td className="mono qtycol">{change.before}</td>
+                              <td className="mono qtycol">{change.after}</td>
+                              <td>
+                                {change.zeroed && <span style={{ color: '#f87171' }}>Removed</span>}
+                                {change.overQuota && (
+                                  <span style={{ color: '#fcd34d' }} title="Copies above the quota are kept as trade stock">
+                                    Above quota
+                                  </span>
+                                )}
+                              </td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                </section>
+              )
+            })}
+          </div>
+        ) : (
+          <div className="muted" style={{ marginBottom: 16 }}>
+            This import would not change any counts.
+          </div>
+        )}
+
+        {mode === 'replace' && zeroedCount > 0 && (
+          <div
+            style={{
+              color: '#ef4444',
+              padding: '8px 16px',
+              marginBottom: 12,
+              border: '2px solid #ef4444',
+              borderRadius: 8,
+              textAlign: 'center',
+              backgroundColor: 'rgba(239, 68, 68, 0.23)',
+            }}
+          >
+            WARNING: Replace removes {plural(zeroedCount, 'printing')} the file doesn’t list from the imported sets.
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+          <button type="button" className="tbtn" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className={mode === 'replace' ? 'tbtn tbtn-danger' : 'tbtn tbtn-primary'}
+            disabled={!selectedChanges}
+            onClick={() => onApply({ sets: excludedSets, cards: excludedCards })}
+          >
+            {mode === 'merge' ? 'Merge' : 'Replace'} {plural(selectedChanges, 'change')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
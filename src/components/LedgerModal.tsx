@@ -0,0 +1,269 @@
+import React from 'react'
+import { VARIANT_KINDS, VARIANT_LABELS, type VariantKind } from '../core/inventory'
+import {
+  LEDGER_SOURCES,
+  LEDGER_SOURCE_LABELS,
+  type LedgerEntry,
+  type LedgerKind,
+  type LedgerSource,
+  type LedgerSummary,
+  type LedgerTotals,
+  type NewLedgerEntryInput,
+} from '../core/ledger'
+import type { Card, SetKey } from '../core/types'
+
+type Props = {
+  setKey: SetKey
+  /** Base cards of the current set, offered in the card picker. */
+  cards: Card[]
+  entries: LedgerEntry[]
+  totals: LedgerTotals
+  /** Card preselected in the form, e.g. the active binder selection. */
+  initialNumber?: number
+  describeCard: (setKey: SetKey, baseNumber: number) => string
+  /** Returns false when the input is rejected. */
+  onAdd: (input: NewLedgerEntryInput) => boolean
+  onDelete: (id: string) => void
+  onClose: () => void
+}
+
+const fieldStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  background: '#1a1c25',
+  color: '#e5e7eb',
+  border: '1px solid #424452',
+  borderRadius: 6,
+}
+
+const fmtUSD = (n: number) =>
+  n.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 })
+
+const gainColor = (n: number) => (n > 0 ? '#34d399' : n < 0 ? '#f87171' : undefined)
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+function SummaryCells({ summary }: { summary: LedgerSummary }) {
+  return (
+    <>
+      <td className="mono moneycol">{fmtUSD(summary.spend)}</td>
+      <td className="mono moneycol">{fmtUSD(summary.proceeds)}</td>
+      <td className="mono moneycol">{fmtUSD(summary.costBasis)}</td>
+      <td className="mono moneycol">{fmtUSD(summary.currentValue)}</td>
+      <td className="mono moneycol" style={{ color: gainColor(summary.unrealizedGain) }}>
+        {fmtUSD(summary.unrealizedGain)}
+      </td>
+      <td className="mono moneycol" style={{ color: gainColor(summary.realizedGain) }}>
+        {fmtUSD(summary.realizedGain)}
+      </td>
+    </>
+  )
+}
+
+export function LedgerModal({
+  setKey,
+  cards,
+  entries,
+  totals,
+  initialNumber,
+  describeCard,
+  onAdd,
+  onDelete,
+  onClose,
+}: Props) {
+  const [kind, setKind] = React.useState<LedgerKind>('purchase')
+  const [date, setDate] = React.useState(today)
+  const [baseNumber, setBaseNumber] = React.useState(() => initialNumber ?? cards[0]?.Number ?? 0)
+  const [variant, setVariant] = React.useState<VariantKind>('normal')
+  const [quantity, setQuantity] = React.useState('1')
+  const [unitPrice, setUnitPrice] = React.useState('')
+  const [source, setSource] = React.useState<LedgerSource>('single')
+  const [note, setNote] = React.useState('')
+
+  const setEntries = entries
+    .filter(entry => entry.setKey === setKey)
+    .sort((a, b) => b.date.localeCompare(a.date))
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault()
+    const added = onAdd({
+      kind,
+      date,
+      setKey,
+      baseNumber,
+      variant,
+      quantity: Number(quantity),
+      unitPrice: Number(unitPrice || 0),
+      source,
+      note,
+    })
+    if (added) {
+      setQuantity('1')
+      setUnitPrice('')
+      setNote('')
+    }
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Purchase ledger"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 860, width: '94%', maxHeight: '90vh', overflowY: 'auto', padding: 20, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Ledger</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          Record what you paid for cards and what you sold them for. Cost basis uses the average
+          price paid; current value uses today’s market price for the copies the ledger still holds.
+        </p>
+
+        <form onSubmit={submit} style={{ display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'flex-end' }}>
+          <select value={kind} onChange={e => setKind(e.target.value as LedgerKind)} aria-label="Entry kind" style={fieldStyle}>
+            <option value="purchase">Bought</option>
+            <option value="sale">Sold</option>
+          </select>
+          <input type="date" value={date} onChange={e => setDate(e.target.value)} aria-label="Date" style={fieldStyle} />
+          <select
+            value={baseNumber}
+            onChange={e => setBaseNumber(Number(e.target.value))}
+            aria-label="Card"
+            style={{ ...fieldStyle, maxWidth: 220 }}
+          >
+            {cards.map(card => (
+              <option key={card.Number} value={card.Number}>
+                {card.Number} · {card.Name}{card.Subtitle ? ` - ${card.Subtitle}` : ''}
+              </option>
+            ))}
+          </select>
+          <select value={variant} onChange={e => setVariant(e.target.value as VariantKind)} aria-label="Printing" style={fieldStyle}>
+            {VARIANT_KINDS.map(kindOption => (
+              <option key={kindOption} value={kindOption}>{VARIANT_LABELS[kindOption]}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={quantity}
+            onChange={e => setQuantity(e.target.value)}
+            aria-label="Quantity"
+            style={{ ...fieldStyle, width: 56 }}
+          />
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={unitPrice}
+            onChange={e => setUnitPrice(e.target.value)}
+            placeholder="Price each"
+            aria-label="Price per copy"
+            style={{ ...fieldStyle, width: 96 }}
+          />
+          <select value={source} onChange={e => setSource(e.target.value as LedgerSource)} aria-label="Source" style={fieldStyle}>
+            {LEDGER_SOURCES.map(option => (
+              <option key={option} value={option}>{LEDGER_SOURCE_LABELS[option]}</option>
+            ))}
+          </select>
+          <input value={note} onChange={e => setNote(e.target.value)} placeholder="Note" aria-label="Note" style={{ ...fieldStyle, flex: 1, minWidth: 120 }} />
+          <button type="submit" className="tbtn tbtn-primary" disabled={!cards.length}>
+            <span className="icon" aria-hidden="true">add</span>
+            <span>Add</span>
+          </button>
+        </form>
+
+        <h3 style={{ margin: '16px 0 6px', fontSize: 15, color: '#c8ccd9' }}>Totals</h3>
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Set</th>
+              <th className="mono moneycol">Spend</th>
+              <th className="mono moneycol">Sales</th>
+              <th className="mono moneycol">Cost basis</th>
+              <th className="mono moneycol">Value</th>
+              <th className="mono moneycol">Unrealized</th>
+              <th className="mono moneycol">Realized</th>
+            </tr>
+          </thead>
+          <tbody>
+            {totals.bySet.map(summary => (
+              <tr key={summary.setKey}>
+                <td>{summary.setKey}</td>
+                <SummaryCells summary={summary} />
+              </tr>
+            ))}
+            <tr style={{ fontWeight: 700 }}>
+              <td>Collection</td>
+              <SummaryCells summary={totals.collection} />
+            </tr>
+          </tbody>
+        </table>
+
+        <h3 style={{ margin: '16px 0 6px', fontSize: 15, color: '#c8ccd9' }}>Entries ({setKey})</h3>
+        {setEntries.length ? (
+          <div className="inventory-scroll" style={{ maxHeight: 280 }}>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th></th>
+                  <th>Card</th>
+                  <th className="mono qtycol">Qty</th>
+                  <th className="mono moneycol">Each</th>
+                  <th className="mono moneycol">Total</th>
+                  <th>Source</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {setEntries.map(entry => (
+                  <tr key={entry.id} title={entry.note}>
+                    <td className="mono">{entry.date}</td>
+                    <td>{entry.kind === 'purchase' ? 'Bought' : 'Sold'}</td>
+                    <td>
+                      {describeCard(entry.setKey, entry.baseNumber)}
+                      {entry.variant !== 'normal' && <span className="muted"> ({VARIANT_LABELS[entry.variant]})</span>}
+                    </td>
+                    <td className="mono qtycol">{entry.quantity}</td>
+                    <td className="mono moneycol">{fmtUSD(entry.unitPrice)}</td>
+                    <td className="mono moneycol">{fmtUSD(entry.quantity * entry.unitPrice)}</td>
+                    <td className="muted">{LEDGER_SOURCE_LABELS[entry.source]}</td>
+                    <td>
+                      <button
+                        type="button"
+                        className="tbtn tbtn-danger"
+                        onClick={() => onDelete(entry.id)}
+                        aria-label={`Delete ledger entry from ${entry.date}`}
+                      >
+                        <span className="icon" aria-hidden="true">delete</span>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="muted">No ledger entries for this set yet.</div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 12 }}>
+          <button type="button" className="tbtn" onClick={onClose}>
+            <span>Done</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+import React from 'react'
+import {
+  LOCATION_KINDS,
+  LOCATION_KIND_LABELS,
+  MAIN_BINDER_ID,
+  addLocation,
+  locationBreakdown,
+  moveCopies,
+  removeLocation,
+  renameLocation,
+  type LocationKind,
+  type LocationState,
+} from '../core/locations'
+import type { SetKey } from '../core/types'
+
+type Printing = { key: string; label: string; owned: number }
+
+type Props = {
+  state: LocationState
+  setKey: SetKey
+  /** Selected card, if any; without one only the location list is shown. */
+  cardName?: string
+  printings: Printing[]
+  onChange: (state: LocationState) => void
+  onClose: () => void
+}
+
+const fieldStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  background: '#1a1c25',
+  color: '#e5e7eb',
+  border: '1px solid #424452',
+  borderRadius: 6,
+}
+
+function MoveForm({ state, setKey, printings, onChange }: Omit<Props, 'cardName' | 'onClose'>) {
+  const [printingKey, setPrintingKey] = React.useState(printings[0]?.key ?? '')
+  const [fromId, setFromId] = React.useState(MAIN_BINDER_ID)
+  const [toId, setToId] = React.useState(
+    () => state.locations.find(location => location.id !== MAIN_BINDER_ID)?.id ?? MAIN_BINDER_ID,
+  )
+  const [count, setCount] = React.useState('1')
+
+  const printing = printings.find(p => p.key === printingKey) ?? printings[0]
+  if (!printing) return null
+  const available =
+    locationBreakdown(state, setKey, printing.key, printing.owned).find(entry => entry.location.id === fromId)
+      ?.count ?? 0
+
+  const locationSelect = (value: string, onSelect: (id: string) => void, label: string) => (
+    <select value={value} onChange={e => onSelect(e.target.value)} aria-label={label} style={fieldStyle}>
+      {state.locations.map(location => (
+        <option key={location.id} value={location.id}>{location.name}</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <form
+      style={{ display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'center', marginTop: 10 }}
+      onSubmit={event => {
+        event.preventDefault()
+        onChange(moveCopies(state, setKey, printing.key, printing.owned, fromId, toId, Number(count)))
+      }}
+    >
+      <span className="muted">Move</span>
+      <input
+        type="number"
+        min={1}
+        max={available || 1}
+        value={count}
+        onChange={e => setCount(e.target.value)}
+        aria-label="Copies to move"
+        style={{ ...fieldStyle, width: 56 }}
+      />
+      <select value={printing.key} onChange={e => setPrintingKey(e.target.value)} aria-label="Printing to move" style={fieldStyle}>
+        {printings.map(p => (
+          <option key={p.key} value={p.key}>{p.label}</option>
+        ))}
+      </select>
+      <span className="muted">from</span>
+      {locationSelect(fromId, setFromId, 'Move from')}
+      <span className="muted">to</span>
+      {locationSelect(toId, setToId, 'Move to')}
+      <button type="submit" className="tbtn tbtn-primary" disabled={!available || fromId === toId}>
+        <span className="icon" aria-hidden="true">move_item</span>
+        <span>Move</span>
+      </button>
+    </form>
+  )
+}
+
+export function LocationsModal({ state, setKey, cardName, printings, onChange, onClose }: Props) {
+  const [newName, setNewName] = React.useState('')
+  const [newKind, setNewKind] = React.useState<LocationKind>('binder')
+  const owned = printings.filter(p => p.owned > 0)
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Storage locations"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 680, width: '92%', maxHeight: '90vh', overflowY: 'auto', padding: 20, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Locations</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          Copies live in the main binder unless you move them. Moving copies never changes how
+          many you own.
+        </p>
+
+        {cardName && (
+          <section style={{ marginBottom: 16 }}>
+            <h3 style={{ margin: '0 0 6px', fontSize: 15, color: '#c8ccd9' }}>Where are my copies? — {cardName}</h3>
+            {owned.length ? (
+              <>
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Printing</th>
+                      {state.locations.map(location => (
+                        <th key={location.id} className="mono qtycol">{location.name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {owned.map(printing => (
+                      <tr key={printing.key}>
+                        <td>{printing.label}</td>
+                        {locationBreakdown(state, setKey, printing.key, printing.owned).map(({ location, count }) => (
+                          <td key={location.id} className="mono qtycol">{count || '—'}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {state.locations.length > 1 && (
+                  <MoveForm state={state} setKey={setKey} printings={owned} onChange={onChange} />
+                )}
+              </>
+            ) : (
+              <div className="muted">You don’t own any copies of this card yet.</div>
+            )}
+          </section>
+        )}
+
+        <h3 style={{ margin: '0 0 6px', fontSize: 15, color: '#c8ccd9' }}>Your locations</h3>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+          {state.locations.map(location => (
+            <div key={location.id} style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+              <input
+                defaultValue={location.name}
+                onBlur={e => onChange(renameLocation(state, location.id, e.target.value))}
+                aria-label={`Name of ${location.name}`}
+                style={{ ...fieldStyle, flex: 1 }}
+              />
+              <span className="muted" style={{ width: 80 }}>{LOCATION_KIND_LABELS[location.kind]}</span>
+              <button
+                type="button"
+                className="tbtn tbtn-danger"
+                onClick={() => onChange(removeLocation(state, location.id))}
+                disabled={location.id === MAIN_BINDER_ID}
+                title={location.id === MAIN_BINDER_ID ? 'The main binder holds every unmoved copy' : 'Remove; its copies return to the main binder'}
+                aria-label={`Remove ${location.name}`}
+              >
+                <span className="icon" aria-hidden="true">delete</span>
+              </button>
+            </div>
+          ))}
+        </div>
+        <form
+          style={{ display: 'flex', gap: 8, marginTop: 10 }}
+          onSubmit={event => {
+            event.preventDefault()
+            onChange(addLocation(state, newName, newKind))
+            setNewName('')
+          }}
+        >
+          <input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder="e.g. Trade binder"
+            aria-label="New location name"
+            style={{ ...fieldStyle, flex: 1 }}
+          />
+          <select value={newKind} onChange={e => setNewKind(e.target.value as LocationKind)} aria-label="New location kind" style={fieldStyle}>
+            {LOCATION_KINDS.map(kind => (
+              <option key={kind} value={kind}>{LOCATION_KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+          <button type="submit" className="tbtn" disabled={!newName.trim()}>
+            <span className="icon" aria-hidden="true">add</span>
+            <span>Add</span>
+          </button>
+        </form>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 12 }}>
+          <button type="button" className="tbtn" onClick={onClose}>
+            <span>Done</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
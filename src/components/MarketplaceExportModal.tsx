@@ -0,0 +1,151 @@
+import React from 'react'
+import {
+  MARKETPLACE_FORMATS,
+  marketplaceLines,
+  type MarketplaceFormat,
+  type MarketplaceListKind,
+  type MarketplaceSet,
+} from '../core/marketplace'
+import type { Card, Inventory, SetKey } from '../core/types'
+
+type Props = {
+  sets: MarketplaceSet[]
+  /** The live collection across every set. */
+  inventories: Record<SetKey, Inventory>
+  quotaOf: (setKey: SetKey, card: Card) => number
+  currentSetKey: SetKey
+  onCopy: (text: string) => void
+  onDownload: (text: string, format: MarketplaceFormat, kind: MarketplaceListKind) => void
+  onClose: () => void
+}
+
+const activeStyle: React.CSSProperties = { backgroundColor: '#213c6a', color: '#fff', border: '1px solid #213c6a' }
+
+const fieldStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  background: '#1a1c25',
+  color: '#e5e7eb',
+  border: '1px solid #424452',
+  borderRadius: 6,
+}
+
+export function MarketplaceExportModal({
+  sets,
+  inventories,
+  quotaOf,
+  currentSetKey,
+  onCopy,
+  onDownload,
+  onClose,
+}: Props) {
+  const [kind, setKind] = React.useState<MarketplaceListKind>('wants')
+  const [formatId, setFormatId] = React.useState(MARKETPLACE_FORMATS[0].id)
+  const [allSets, setAllSets] = React.useState(true)
+  const [oneEach, setOneEach] = React.useState(false)
+
+  const format = MARKETPLACE_FORMATS.find(f => f.id === formatId) ?? MARKETPLACE_FORMATS[0]
+  const lines = React.useMemo(
+    () =>
+      marketplaceLines(
+        kind,
+        allSets ? sets : sets.filter(set => set.setKey === currentSetKey),
+        inventories,
+        quotaOf,
+        { oneEach },
+      ),
+    [kind, allSets, sets, currentSetKey, inventories, quotaOf, oneEach],
+  )
+  const text = lines.length ? format.format(lines) : ''
+  const copies = lines.reduce((sum, line) => sum + line.quantity, 0)
+
+  const toggle = <T,>(label: string, options: Array<[T, string]>, value: T, onChange: (value: T) => void) => (
+    <div className="toolbar-group" role="radiogroup" aria-label={label}>
+      {options.map(([option, caption]) => (
+        <button
+          key={String(option)}
+          type="button"
+          role="radio"
+          className="tbtn"
+          aria-checked={value === option}
+          onClick={() => onChange(option)}
+          style={value === option ? activeStyle : undefined}
+        >
+          {caption}
+        </button>
+      ))}
+    </div>
+  )
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Marketplace export"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 680, width: '92%', maxHeight: '90vh', overflowY: 'auto', padding: 20, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Marketplace export</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          Wants are the copies still missing from each card’s quota; haves are the copies above it
+          (your Trade Stock), listed by printing.
+        </p>
+
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'center', marginBottom: 10 }}>
+          {toggle<MarketplaceListKind>('List', [['wants', 'Wants'], ['haves', 'Haves']], kind, setKind)}
+          {toggle<boolean>('Sets', [[true, 'All sets'], [false, `${currentSetKey} only`]], allSets, setAllSets)}
+          {kind === 'wants' &&
+            toggle<boolean>('Quantity', [[false, 'Full need'], [true, '1 each']], oneEach, setOneEach)}
+        </div>
+
+        <label style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 4 }}>
+          <span>Format</span>
+          <select value={format.id} onChange={e => setFormatId(e.target.value)} style={fieldStyle}>
+            {MARKETPLACE_FORMATS.map(f => (
+              <option key={f.id} value={f.id}>{f.label}</option>
+            ))}
+          </select>
+        </label>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>{format.hint}</p>
+
+        <textarea
+          readOnly
+          value={text}
+          placeholder={kind === 'wants' ? 'Nothing missing.' : 'No copies above quota.'}
+          aria-label="Export preview"
+          rows={12}
+          style={{ ...fieldStyle, width: '100%', boxSizing: 'border-box', fontFamily: 'monospace', fontSize: 12 }}
+        />
+        <div className="muted" style={{ fontSize: 13, margin: '4px 0 12px' }}>
+          {lines.length} line(s) · {copies} cop{copies === 1 ? 'y' : 'ies'}
+        </div>
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+          <button type="button" className="tbtn" disabled={!text} onClick={() => onCopy(text)}>
+            <span className="icon" aria-hidden="true">content_paste</span>
+            <span>Copy</span>
+          </button>
+          <button type="button" className="tbtn" disabled={!text} onClick={() => onDownload(text, format, kind)}>
+            <span className="icon" aria-hidden="true">download</span>
+            <span>Download .{format.extension}</span>
+          </button>
+          <button type="button" className="tbtn tbtn-primary" onClick={onClose}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import React from 'react'
+import type { PullListLine } from '../core/pullList'
+
+type Props = {
+  title: string
+  lines: PullListLine[]
+  onPrint: () => void
+  onStep: () => void
+  onClose: () => void
+}
+
+export function PullListModal({ title, lines, onPrint, onStep, onClose }: Props) {
+  const toPull = lines.reduce((sum, line) => sum + line.pull, 0)
+  const short = lines.reduce((sum, line) => sum + line.count - line.pull, 0)
+  const steppable = lines.some(line => line.pull > 0 && line.pocket)
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Pull list"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 720, width: '94%', maxHeight: '90vh', overflowY: 'auto', padding: 20, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Pull list: {title}</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          {toPull} card(s) to pull from your binders, in binder order.
+          {short > 0 && ` ${short} copy(ies) are not in your binders.`}
+        </p>
+
+        <table className="table" style={{ width: '100%', fontSize: 13 }}>
+          <thead>
+            <tr>
+              <th>Set</th>
+              <th className="mono">Pull</th>
+              <th className="mono">No.</th>
+              <th>Card</th>
+              <th className="mono">Page</th>
+              <th className="mono">Row</th>
+              <th className="mono">Col</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map(line => (
+              <tr key={`${line.setKey}:${line.baseNumber}`} style={line.pull === 0 ? { opacity: 0.55 } : undefined}>
+                <td>{line.setKey}</td>
+                <td className="mono">
+                  {line.pull}
+                  {line.pull < line.count && <span className="muted">/{line.count}</span>}
+                </td>
+                <td className="mono">#{line.baseNumber}</td>
+                <td>{line.subtitle ? `${line.name} - ${line.subtitle}` : line.name}</td>
+                <td className="mono">{line.pocket?.page ?? '—'}</td>
+                <td className="mono">{line.pocket?.row ?? '—'}</td>
+                <td className="mono">{line.pocket?.column ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 12 }}>
+          <button type="button" className="tbtn" onClick={onClose}>
+            Close
+          </button>
+          <button type="button" className="tbtn" onClick={onPrint}>
+            <span className="icon" aria-hidden="true">print</span>
+            <span>Print</span>
+          </button>
+          <button type="button" className="tbtn tbtn-primary" disabled={!steppable} onClick={onStep}>
+            <span className="icon" aria-hidden="true">directions_walk</span>
+            <span>Step through binder</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,247 @@
+import React from 'react'
+import {
+  activeQuotaProfile,
+  PRESET_QUOTA_PROFILES,
+  QUOTA_RARITIES,
+  QUOTA_TYPES,
+  MAX_QUOTA,
+  quotaOverride,
+  resolveQuota,
+  setQuotaOverride,
+  type QuotaField,
+  type QuotaProfile,
+  type QuotaScope,
+  type QuotaSettings,
+} from '../core/quotas'
+import type { SetKey } from '../core/types'
+
+type Props = {
+  settings: QuotaSettings
+  setKey: SetKey
+  onChange: (settings: QuotaSettings) => void
+  onClose: () => void
+}
+
+const inputStyle: React.CSSProperties = {
+  width: 52,
+  padding: '4px 6px',
+  background: '#1a1c25',
+  color: '#e5e7eb',
+  border: '1px solid #424452',
+  borderRadius: 6,
+}
+
+/** Value the field would resolve to without its own override, shown as a placeholder. */
+function inheritedQuota(profile: QuotaProfile, scope: QuotaScope, field: QuotaField, setKey: SetKey) {
+  const withoutOverride = setQuotaOverride(profile, scope, field, undefined)
+  // All-sets fields ignore per-set overrides, which only apply further down.
+  const base = scope.kind === 'global' ? { ...withoutOverride, bySet: {} } : withoutOverride
+  if (field.kind === 'default') return base.defaultQuota
+  return resolveQuota(base, {
+    setKey,
+    type: field.kind === 'type' ? field.key : undefined,
+    rarity: field.kind === 'rarity' ? field.key : undefined,
+  })
+}
+
+function QuotaInput({
+  profile,
+  scope,
+  field,
+  label,
+  setKey,
+  onProfileChange,
+}: {
+  profile: QuotaProfile
+  scope: QuotaScope
+  field: QuotaField
+  label: string
+  setKey: SetKey
+  onProfileChange: (profile: QuotaProfile) => void
+}) {
+  const value = quotaOverride(profile, scope, field)
+  const required = scope.kind === 'global' && field.kind === 'default'
+  return (
+    <label style={{ display: 'flex', flexDirection: 'column', gap: 2, fontSize: 12 }}>
+      <span className="muted">{label}</span>
+      <input
+        type="number"
+        min={0}
+        max={MAX_QUOTA}
+        value={value ?? ''}
+        placeholder={String(inheritedQuota(profile, scope, field, setKey))}
+        aria-label={`${scope.kind === 'set' ? `${scope.setKey} ` : ''}${label} quota`}
+        onChange={event => {
+          const raw = event.target.value.trim()
+          if (raw === '' && required) return
+          const next = raw === '' ? undefined : Math.floor(Number(raw))
+          onProfileChange(setQuotaOverride(profile, scope, field, next))
+        }}
+        style={inputStyle}
+      />
+    </label>
+  )
+}
+
+function QuotaRuleEditor({
+  title,
+  profile,
+  scope,
+  setKey,
+  onProfileChange,
+}: {
+  title: string
+  profile: QuotaProfile
+  scope: QuotaScope
+  setKey: SetKey
+  onProfileChange: (profile: QuotaProfile) => void
+}) {
+  const shared = { profile, scope, setKey, onProfileChange }
+  return (
+    <section style={{ marginTop: 14 }}>
+      <h3 style={{ margin: '0 0 6px', fontSize: 15, color: '#c8ccd9' }}>{title}</h3>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 10, alignItems: 'flex-end' }}>
+        <QuotaInput {...shared} field={{ kind: 'default' }} label="Default" />
+        {QUOTA_TYPES.map(type => (
+          <QuotaInput key={type} {...shared} field={{ kind: 'type', key: type }} label={type} />
+        ))}
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 10, marginTop: 8 }}>
+        {QUOTA_RARITIES.map(rarity => (
+          <QuotaInput key={rarity} {...shared} field={{ kind: 'rarity', key: rarity }} label={rarity} />
+        ))}
+      </div>
+    </section>
+  )
+}
+
+export function QuotaSettingsModal({ settings, setKey, onChange, onClose }: Props) {
+  const profile = activeQuotaProfile(settings)
+  const isPreset = PRESET_QUOTA_PROFILES.some(preset => preset.id === profile.id)
+
+  const replaceProfile = (next: QuotaProfile) => {
+    onChange({
+      ...settings,
+      profiles: settings.profiles.map(p => (p.id === next.id ? next : p)),
+    })
+  }
+
+  const duplicateProfile = () => {
+    const copy: QuotaProfile = {
+      ...profile,
+      id: crypto.randomUUID(),
+      name: `${profile.name} (copy)`,
+    }
+    onChange({ activeProfileId: copy.id, profiles: [...settings.profiles, copy] })
+  }
+
+  const deleteProfile = () => {
+    const profiles = settings.profiles.filter(p => p.id !== profile.id)
+    if (!profiles.length) return
+    onChange({ activeProfileId: profiles[0]!.id, profiles })
+  }
+
+  const resetPreset = () => {
+    const preset = PRESET_QUOTA_PROFILES.find(p => p.id === profile.id)
+    if (preset) replaceProfile(preset)
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Collection quotas"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 640, width: '92%', padding: 20, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Collection Quotas</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          Quotas set how many copies of each card count as complete. Leave a field blank to inherit
+          the value shown in grey. Set overrides win over the all-sets values, and type overrides
+          win over rarity overrides.
+        </p>
+
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'center' }}>
+          <label className="spread-jump-label">
+            <span className="spread-jump-hint">Profile</span>
+            <select
+              className="spread-jump-select"
+              value={profile.id}
+              onChange={event => onChange({ ...settings, activeProfileId: event.target.value })}
+              aria-label="Quota profile"
+            >
+              {settings.profiles.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          </label>
+          {!isPreset && (
+            <input
+              value={profile.name}
+              onChange={event => replaceProfile({ ...profile, name: event.target.value })}
+              aria-label="Profile name"
+              style={{ ...inputStyle, width: 160 }}
+            />
+          )}
+          <button type="button" className="tbtn" onClick={duplicateProfile}>
+            <span className="icon" aria-hidden="true">content_copy</span>
+            <span>Duplicate</span>
+          </button>
+          {isPreset ? (
+            <button type="button" className="tbtn" onClick={resetPreset}>
+              <span className="icon" aria-hidden="true">restart_alt</span>
+              <span>Reset preset</span>
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="tbtn tbtn-danger"
+              onClick={deleteProfile}
+              disabled={settings.profiles.length <= 1}
+            >
+              <span className="icon" aria-hidden="true">delete</span>
+              <span>Delete</span>
+            </button>
+          )}
+        </div>
+
+        <QuotaRuleEditor
+          title="All sets"
+          profile={profile}
+          scope={{ kind: 'global' }}
+          setKey={setKey}
+          onProfileChange={replaceProfile}
+        />
+        <QuotaRuleEditor
+          title={`This set (${setKey})`}
+          profile={profile}
+          scope={{ kind: 'set', setKey }}
+          setKey={setKey}
+          onProfileChange={replaceProfile}
+        />
+
+        <p className="muted" style={{ fontSize: 12, marginBottom: 0 }}>
+          Copies above a quota are kept and listed under Trade Stock.
+        </p>
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 12 }}>
+          <button type="button" className="tbtn" onClick={onClose}>
+            <span>Done</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
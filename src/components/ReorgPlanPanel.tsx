@@ -0,0 +1,86 @@
+import React from 'react'
+import { reorgStepLabel, type ReorgPlan } from '../core/reorgPlan'
+
+type Props = {
+  plan: ReorgPlan
+  step: number
+  onStepChange: (step: number) => void
+  /** Card name for a collector number of the open set. */
+  describeCard: (number: number) => string
+  onClose: () => void
+}
+
+export function ReorgPlanPanel({ plan, step, onStepChange, describeCard, onClose }: Props) {
+  const [done, setDone] = React.useState<Set<number>>(() => new Set())
+  const current = plan.steps[step]
+  const last = step === plan.steps.length - 1
+
+  const toggle = (index: number) =>
+    setDone(prev => {
+      const next = new Set(prev)
+      if (!next.delete(index)) next.add(index)
+      return next
+    })
+
+  const advance = () => {
+    setDone(prev => new Set(prev).add(step))
+    if (last) onClose()
+    else onStepChange(step + 1)
+  }
+
+  return (
+    <div className="card" role="region" aria-label="Binder reorganisation" style={{ marginBottom: 16 }}>
+      <div className="row" style={{ justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 }}>
+        <h3 style={{ margin: 0 }}>Reorganise binder</h3>
+        <button type="button" className="tbtn" onClick={onClose} aria-label="Close reorganisation plan">
+          <span className="icon" aria-hidden="true">close</span>
+        </button>
+      </div>
+      <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+        {plan.moved} owned card(s) change pocket in {plan.steps.length} step(s); {done.size} done.
+        {plan.newBinder
+          ? ' The page size changed, so the cards go into a new binder in page order.'
+          : ' Cards already in place are left alone; move the cards in this order so every pocket is free when you reach it.'}
+      </p>
+
+      {current && (
+        <div className="row" style={{ gap: 8, alignItems: 'center', flexWrap: 'wrap', marginBottom: 8 }}>
+          <span style={{ fontWeight: 600 }}>
+            Step {step + 1} of {plan.steps.length}: #{current.number} {describeCard(current.number)}
+          </span>
+          <span className="mono">{reorgStepLabel(current)}</span>
+          <span style={{ marginLeft: 'auto', display: 'inline-flex', gap: 6 }}>
+            <button type="button" className="tbtn" disabled={step === 0} onClick={() => onStepChange(step - 1)}>
+              Previous
+            </button>
+            <button type="button" className="tbtn tbtn-primary" onClick={advance}>
+              {last ? 'Finish' : 'Done, next'}
+            </button>
+          </span>
+        </div>
+      )}
+
+      <ol style={{ margin: 0, paddingLeft: 22, maxHeight: 180, overflowY: 'auto', fontSize: 13 }}>
+        {plan.steps.map((entry, index) => (
+          <li key={index} style={{ fontWeight: index === step ? 600 : undefined }}>
+            <label style={{ display: 'inline-flex', gap: 6, alignItems: 'center' }}>
+              <input
+                type="checkbox"
+                checked={done.has(index)}
+                onChange={() => toggle(index)}
+                aria-label={`Step ${index + 1} done`}
+              />
+              <button
+                type="button"
+                onClick={() => onStepChange(index)}
+                style={{ background: 'none', border: 'none', color: 'inherit', padding: 0, cursor: 'pointer', textAlign: 'left' }}
+              >
+                #{entry.number} {describeCard(entry.number)}: {reorgStepLabel(entry)}
+              </button>
+            </label>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
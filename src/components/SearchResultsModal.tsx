@@ -0,0 +1,116 @@
+import React from 'react'
+import type { QueryResult } from '../core/searchQuery'
+
+const SHOWN_ROWS = 200
+
+type Props = {
+  query: string
+  results: QueryResult[]
+  currentSetKey: string
+  /** Live binder copies; the query's own counts go stale once a bulk action runs. */
+  ownedOf: (result: QueryResult) => number
+  onSelect: (result: QueryResult) => void
+  onStep: () => void
+  onBulkAction: (action: 'add' | 'add_max' | 'remove' | 'remove_all') => void
+  onClose: () => void
+}
+
+export function SearchResultsModal({ query, results, currentSetKey, ownedOf, onSelect, onStep, onBulkAction, onClose }: Props) {
+  const inCurrentSet = results.filter(result => result.setKey === currentSetKey).length
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Search results"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 820, width: '94%', maxHeight: '90vh', overflowY: 'auto', padding: 20, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Search results</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          <span className="mono">{query}</span> matches {results.length} card(s) across your sets. Click a card to
+          select it in the binder.
+          {results.length > SHOWN_ROWS && ` Showing the first ${SHOWN_ROWS}.`}
+        </p>
+
+        {results.length > 0 && (
+          <table className="table" style={{ width: '100%', fontSize: 13 }}>
+            <thead>
+              <tr>
+                <th>Set</th>
+                <th className="mono">No.</th>
+                <th>Card</th>
+                <th>Type</th>
+                <th>Rarity</th>
+                <th className="mono">Cost</th>
+                <th className="mono">Owned</th>
+                <th className="mono">Price</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.slice(0, SHOWN_ROWS).map(result => (
+                <tr
+                  key={`${result.setKey}:${result.card.Number}`}
+                  onClick={() => onSelect(result)}
+                  style={{ cursor: 'pointer' }}
+                  title="Select in the binder"
+                >
+                  <td>{result.setKey}</td>
+                  <td className="mono">#{result.card.Number}</td>
+                  <td>{result.card.Subtitle ? `${result.card.Name} - ${result.card.Subtitle}` : result.card.Name}</td>
+                  <td>{result.card.Type ?? ''}</td>
+                  <td>{result.card.Rarity ?? ''}</td>
+                  <td className="mono">{result.card.Cost ?? '—'}</td>
+                  <td className="mono">{ownedOf(result)}</td>
+                  <td className="mono">{result.card.MarketPrice ? `$${result.card.MarketPrice.toFixed(2)}` : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="row" style={{ gap: 8, alignItems: 'center', flexWrap: 'wrap', marginTop: 12 }}>
+          <span className="muted" style={{ fontSize: 13 }}>
+            {inCurrentSet} in {currentSetKey}:
+          </span>
+          <div className="toolbar-group" role="group" aria-label={`Bulk actions for the matches in ${currentSetKey}`}>
+            <button type="button" className="tbtn" disabled={!inCurrentSet} onClick={() => onBulkAction('add')} title="Add one copy of each, up to quota">
+              +1
+            </button>
+            <button type="button" className="tbtn" disabled={!inCurrentSet} onClick={() => onBulkAction('add_max')} title="Fill each up to quota">
+              Max
+            </button>
+            <button type="button" className="tbtn" disabled={!inCurrentSet} onClick={() => onBulkAction('remove')} title="Remove one copy of each">
+              −1
+            </button>
+            <button type="button" className="tbtn" disabled={!inCurrentSet} onClick={() => onBulkAction('remove_all')} title="Remove every copy of each">
+              Clear
+            </button>
+          </div>
+          <span style={{ marginLeft: 'auto', display: 'inline-flex', gap: 8 }}>
+            <button type="button" className="tbtn" onClick={onClose}>
+              Close
+            </button>
+            <button type="button" className="tbtn tbtn-primary" disabled={!results.length} onClick={onStep}>
+              <span className="icon" aria-hidden="true">directions_walk</span>
+              <span>Step through binder</span>
+            </button>
+          </span>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+import React from 'react'
+import {
+  diffSnapshots,
+  type InventorySnapshot,
+  type SnapshotCardDelta,
+} from '../core/snapshots'
+import type { VariantKind } from '../core/inventory'
+import type { Inventory, SetKey } from '../core/types'
+
+type Props = {
+  snapshots: InventorySnapshot[]
+  /** The live collection across every set. */
+  live: Record<SetKey, Inventory>
+  /** Display name for a printing key within a set, e.g. "Luke Skywalker (Foil)". */
+  describeKey: (setKey: SetKey, key: string) => string
+  priceOf: (setKey: SetKey, baseNumber: number, variant: VariantKind) => number
+  onSave: (name: string) => void
+  onDelete: (id: string) => void
+  /** Hands the snapshot to the import flow, which asks whether to merge or replace. */
+  onRestore: (snapshot: InventorySnapshot) => void
+  onClose: () => void
+}
+
+const LIVE = 'live'
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '6px 8px',
+  background: '#1a1c25',
+  color: '#e5e7eb',
+  border: '1px solid #424452',
+  borderRadius: 6,
+}
+
+const fmtUSD = (n: number) =>
+  n.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 })
+
+function formatValueChange(n: number) {
+  return n > 0 ? `+${fmtUSD(n)}` : n < 0 ? `−${fmtUSD(-n)}` : fmtUSD(0)
+}
+
+function DeltaList({
+  setKey,
+  deltas,
+  describeKey,
+}: {
+  setKey: SetKey
+  deltas: SnapshotCardDelta[]
+  describeKey: Props['describeKey']
+}) {
+  return (
+    <ul style={{ margin: '2px 0 6px', paddingLeft: 18, lineHeight: 1.5 }}>
+      {deltas.map(d => (
+        <li key={d.key}>
+          {d.delta > 0 ? `+${d.delta}` : `−${-d.delta}`} {describeKey(setKey, d.key)}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function SnapshotsModal({
+  snapshots,
+  live,
+  describeKey,
+  priceOf,
+  onSave,
+  onDelete,
+  onRestore,
+  onClose,
+}: Props) {
+  const [name, setName] = React.useState('')
+  const [fromId, setFromId] = React.useState(() => snapshots[snapshots.length - 1]?.id ?? LIVE)
+  const [toId, setToId] = React.useState(LIVE)
+
+  const setsFor = (id: string) =>
+    id === LIVE ? live : snapshots.find(snapshot => snapshot.id === id)?.sets ?? {}
+  const diff = diffSnapshots(setsFor(fromId), setsFor(toId), priceOf)
+  const totalChange = diff.reduce((sum, set) => sum + set.valueChange, 0)
+
+  const save = () => {
+    onSave(name)
+    setName('')
+  }
+
+  const compareSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <label className="spread-jump-label">
+      <span className="spread-jump-hint">{label}</span>
+      <select
+        className="spread-jump-select"
+        value={value}
+        onChange={event => onChange(event.target.value)}
+        aria-label={`Compare ${label.toLowerCase()}`}
+      >
+        <option value={LIVE}>Live collection</option>
+        {snapshots.map(snapshot => (
+          <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>
+        ))}
+      </select>
+    </label>
+  )
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Inventory snapshots"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: 680, width: '92%', maxHeight: '90vh', overflowY: 'auto', padding: 20, background: '#2b2d3d' }}
+        onClick={event => event.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0, color: '#e5e7eb' }}>Snapshots</h2>
+        <p className="muted" style={{ fontSize: 13, marginTop: 0 }}>
+          A snapshot saves every set’s counts on this device. Compare two snapshots, or one against
+          the live collection, and restore one with the same merge or replace choice as an import.
+        </p>
+
+        <form
+          style={{ display: 'flex', gap: 8, marginBottom: 12 }}
+          onSubmit={event => {
+            event.preventDefault()
+            save()
+          }}
+        >
+          <input
+            value={name}
+            onChange={event => setName(event.target.value)}
+            placeholder="e.g. Before prerelease"
+            aria-label="Snapshot name"
+            style={inputStyle}
+          />
+          <button type="submit" className="tbtn tbtn-primary">
+            <span className="icon" aria-hidden="true">photo_camera</span>
+            <span>Save snapshot</span>
+          </button>
+        </form>
+
+        {snapshots.length ? (
+          <table className="table" style={{ marginBottom: 12 }}>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Saved</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...snapshots].reverse().map(snapshot => (
+                <tr key={snapshot.id}>
+                  <td>{snapshot.name}</td>
+                  <td className="muted" style={{ fontSize: 13 }}>
+                    {new Date(snapshot.createdAt).toLocaleString()}
+                  </td>
+                  <td style={{ display: 'flex', gap: 6, justifyContent: 'flex-end' }}>
+                    <button type="button" className="tbtn" onClick={() => onRestore(snapshot)}>
+                      <span className="icon" aria-hidden="true">restore</span>
+                      <span>Restore…</span>
+                    </button>
+                    <button
+                      type="button"
+                      className="tbtn tbtn-danger"
+                      onClick={() => onDelete(snapshot.id)}
+                      aria-label={`Delete snapshot ${snapshot.name}`}
+                    >
+                      <span className="icon" aria-hidden="true">delete</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="muted" style={{ marginBottom: 12 }}>No snapshots saved yet.</div>
+        )}
+
+        <h3 style={{ margin: '0 0 6px', fontSize: 15, color: '#c8ccd9' }}>Compare</h3>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+          {compareSelect('From', fromId, setFromId)}
+          {compareSelect('To', toId, setToId)}
+        </div>
+        {diff.length ? (
+          <div style={{ fontSize: 14 }}>
+            {diff.map(set => (
+              <div key={set.setKey} style={{ marginBottom: 8 }}>
+                <strong>{set.setKey}</strong>{' '}
+                <span className="muted">({formatValueChange(set.valueChange)})</span>
+                {set.gained.length > 0 && (
+                  <>
+                    <div style={{ color: '#34d399' }}>Gained</div>
+                    <DeltaList setKey={set.setKey} deltas={set.gained} describeKey={describeKey} />
+                  </>
+                )}
+                {set.lost.length > 0 && (
+                  <>
+                    <div style={{ color: '#f87171' }}>Lost</div>
+                    <DeltaList setKey={set.setKey} deltas={set.lost} describeKey={describeKey} />
+                  </>
+                )}
+              </div>
+            ))}
+            <div style={{ fontWeight: 600 }}>Market value change: {formatValueChange(totalChange)}</div>
+          </div>
+        ) : (
+          <div className="muted">No differences.</div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 12 }}>
+          <button type="button" className="tbtn" onClick={onClose}>
+            <span>Done</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,18 @@
 import { describe, expect, it } from 'vitest'
 import {
+  BINDER_PROFILE_STORAGE_KEY,
+  DEFAULT_BINDER_PROFILE,
   binderLayout,
   getSpreadCoords,
+  loadBinderProfile,
   moveBinderSelection,
   pageToSpread,
+  parseBinderProfile,
+  persistBinderProfile,
+  spreadLabel,
+  spreadPages,
+  totalBinderPages,
+  type BinderProfile,
 } from './binder'
 
 describe('binder geometry', () => {
@@ -47,3 +56,53 @@ describe('binder geometry', () => {
     expect(pageToSpread(1)).toBe(0)
   })
 })
+
+describe('binder profiles', () => {
+  const nine: BinderProfile = { ...DEFAULT_BINDER_PROFILE, rows: 3, columns: 3 }
+
+  it.each([
+    [9, { page: 1, row: 3, column: 3 }],
+    [10, { page: 2, row: 1, column: 1 }],
+    [14, { page: 2, row: 2, column: 2 }],
+  ])('maps card %i onto a 9-pocket page', (number, expected) => {
+    expect(binderLayout(number, nine)).toEqual(expected)
+  })
+
+  it('counts pages from the pockets per page', () => {
+    expect(totalBinderPages(252, nine)).toBe(28)
+    expect(totalBinderPages(252, { ...DEFAULT_BINDER_PROFILE, rows: 4, columns: 4 })).toBe(16)
+  })
+
+  it('pairs pages from page 1 when the first page does not stand alone', () => {
+    const paired = { ...DEFAULT_BINDER_PROFILE, firstPageAlone: false }
+    expect(spreadPages(0, paired)).toEqual([1, 2])
+    expect(spreadPages(1, paired)).toEqual([3, 4])
+    expect(pageToSpread(4, paired)).toBe(1)
+    expect(getSpreadCoords(2, 1, 1, paired)).toEqual({ spreadCol: 5, spreadRow: 1 })
+    expect(spreadLabel(0)).toBe('Page 1')
+    expect(spreadLabel(1, paired)).toBe('Page 3/4')
+  })
+
+  it('pages through one page at a time', () => {
+    const single = { ...nine, pagesPerSpread: 1 as const }
+    const last = { ...binderLayout(3, single), number: 3 }
+    expect(moveBinderSelection(last, 'right', 5, single)).toMatchObject({ number: 10, page: 2, column: 1 })
+    const bottom = { ...binderLayout(8, single), number: 8 }
+    expect(moveBinderSelection(bottom, 'down', 5, single)).toMatchObject({ number: 11, page: 2, row: 1 })
+  })
+
+  it('round-trips through storage and falls back on invalid values', () => {
+    const stored = new Map<string, string>()
+    const storage = {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => void stored.set(key, value),
+    }
+    expect(loadBinderProfile(storage)).toEqual(DEFAULT_BINDER_PROFILE)
+    expect(persistBinderProfile(storage, nine)).toBe(true)
+    expect(loadBinderProfile(storage)).toEqual(nine)
+
+    stored.set(BINDER_PROFILE_STORAGE_KEY, JSON.stringify({ rows: 0, columns: 40, pagesPerSpread: 3 }))
+    expect(loadBinderProfile(storage)).toEqual(DEFAULT_BINDER_PROFILE)
+    expect(parseBinderProfile('not json')).toEqual(DEFAULT_BINDER_PROFILE)
+  })
+})
@@ -2,94 +2,199 @@ import type { BinderPosition } from './types'
 
 export type MoveDirection = 'left' | 'right' | 'up' | 'down'
 
-export function binderLayout(number: number): Omit<BinderPosition, 'number'> {
-  const page = Math.floor((number - 1) / 12) + 1
-  const row = Math.floor(((number - 1) % 12) / 4) + 1
-  const column = ((number - 1) % 4) + 1
-  return { page, row, column }
+/** Physical binder geometry: pockets per page and how pages pair up into spreads. */
+export type BinderProfile = {
+  rows: number
+  columns: number
+  /** Page 1 sits alone on the right of the first spread, as on the inside cover of a binder. */
+  firstPageAlone: boolean
+  /** Pages shown side by side: 2 for an open binder, 1 to page through one page at a time. */
+  pagesPerSpread: 1 | 2
 }
 
-export function getSpreadCoords(page: number, row: number, column: number) {
-  const isOddPage = page % 2 !== 0
-  return {
-    spreadCol: isOddPage ? column + 4 : column,
-    spreadRow: row,
-  }
+export const DEFAULT_BINDER_PROFILE: BinderProfile = {
+  rows: 3,
+  columns: 4,
+  firstPageAlone: true,
+  pagesPerSpread: 2,
+}
+
+export const BINDER_PRESETS: Array<{ id: string; label: string; rows: number; columns: number }> = [
+  { id: '9', label: '9-pocket (3 × 3)', rows: 3, columns: 3 },
+  { id: '12', label: '12-pocket (3 × 4)', rows: 3, columns: 4 },
+  { id: '16', label: '16-pocket (4 × 4)', rows: 4, columns: 4 },
+]
+
+export const MAX_BINDER_POCKET_SIDE = 6
+
+export const pocketsPerPage = (profile: BinderProfile) => profile.rows * profile.columns
+
+export function binderLayout(
+  number: number,
+  profile: BinderProfile = DEFAULT_BINDER_PROFILE,
+): Omit<BinderPosition, 'number'> {
+  const perPage = pocketsPerPage(profile)
+  const page = Math.floor((number - 1) / perPage) + 1
+  const row = Math.floor(((number - 1) % perPage) / profile.columns) + 1
+  const column = ((number - 1) % profile.columns) + 1
+  return { page, row, column }
 }
 
 export function numberFromPagePosition(
   page: number,
   row: number,
   column: number,
+  profile: BinderProfile = DEFAULT_BINDER_PROFILE,
 ): number {
-  return (page - 1) * 12 + (row - 1) * 4 + column
+  return (page - 1) * pocketsPerPage(profile) + (row - 1) * profile.columns + column
 }
 
-export function pageToSpread(page: number): number {
-  return page <= 1 ? 0 : Math.floor((page - 2) / 2) + 1
+export function totalBinderPages(maxNumber: number, profile: BinderProfile = DEFAULT_BINDER_PROFILE): number {
+  return Math.max(1, Math.ceil(maxNumber / pocketsPerPage(profile)))
 }
 
-export function spreadToPrimaryPage(spread: number): number {
-  return spread <= 0 ? 1 : 2 + (spread - 1) * 2
+/**
+ * Pages of a spread from left to right; `null` marks the empty half beside a page that stands
+ * alone. With two pages per spread and page 1 alone: [null, 1], [2, 3], [4, 5], ...
+ */
+export function spreadPages(spread: number, profile: BinderProfile = DEFAULT_BINDER_PROFILE): Array<number | null> {
+  if (profile.pagesPerSpread === 1) return [spread + 1]
+  if (profile.firstPageAlone) return spread <= 0 ? [null, 1] : [spread * 2, spread * 2 + 1]
+  return [spread * 2 + 1, spread * 2 + 2]
+}
+
+export function pageToSpread(page: number, profile: BinderProfile = DEFAULT_BINDER_PROFILE): number {
+  if (profile.pagesPerSpread === 1) return Math.max(0, page - 1)
+  if (profile.firstPageAlone) return page <= 1 ? 0 : Math.floor((page - 2) / 2) + 1
+  return Math.max(0, Math.floor((page - 1) / 2))
+}
+
+/** The first page shown on a spread (its left page, or page 1 on a lone first spread). */
+export function spreadToPrimaryPage(spread: number, profile: BinderProfile = DEFAULT_BINDER_PROFILE): number {
+  return spreadPages(Math.max(0, spread), profile).find((page): page is number => page !== null)!
+}
+
+export function totalBinderSpreads(totalPages: number, profile: BinderProfile = DEFAULT_BINDER_PROFILE): number {
+  return pageToSpread(totalPages, profile) + 1
+}
+
+/** Spread view label: "Page 1", "Page 2/3". */
+export function spreadLabel(spread: number, profile: BinderProfile = DEFAULT_BINDER_PROFILE): string {
+  return `Page ${spreadPages(spread, profile).filter(page => page !== null).join('/')}`
+}
+
+export function getSpreadCoords(
+  page: number,
+  row: number,
+  column: number,
+  profile: BinderProfile = DEFAULT_BINDER_PROFILE,
+) {
+  const half = spreadPages(pageToSpread(page, profile), profile).indexOf(page)
+  return {
+    spreadCol: Math.max(half, 0) * profile.columns + column,
+    spreadRow: row,
+  }
 }
 
+/**
+ * Arrow-key movement across the open spread. Moving off a side edge turns to the neighbouring
+ * spread; moving off the top or bottom wraps to the previous or next spread in the same column.
+ */
 export function moveBinderSelection(
   selection: BinderPosition,
   direction: MoveDirection,
   totalPages: number,
+  profile: BinderProfile = DEFAULT_BINDER_PROFILE,
 ): BinderPosition {
   const { spreadCol, spreadRow } = getSpreadCoords(
     selection.page,
     selection.row,
     selection.column,
+    profile,
   )
+  const spreadWidth = profile.columns * profile.pagesPerSpread
   let nextSpreadCol = spreadCol
   let nextSpreadRow = spreadRow
-  let targetSpread = pageToSpread(selection.page)
+  let targetSpread = pageToSpread(selection.page, profile)
 
   if (direction === 'left') nextSpreadCol -= 1
   if (direction === 'right') nextSpreadCol += 1
   if (direction === 'up') nextSpreadRow -= 1
   if (direction === 'down') nextSpreadRow += 1
 
-  if (nextSpreadCol > 8) {
+  if (nextSpreadCol > spreadWidth) {
     nextSpreadCol = 1
     targetSpread += 1
   } else if (nextSpreadCol < 1) {
-    nextSpreadCol = 8
+    nextSpreadCol = spreadWidth
     targetSpread -= 1
   }
 
-  if (nextSpreadRow > 3) {
+  if (nextSpreadRow > profile.rows) {
     nextSpreadRow = 1
     targetSpread += 1
   } else if (nextSpreadRow < 1) {
-    nextSpreadRow = 3
+    nextSpreadRow = profile.rows
     targetSpread -= 1
   }
 
-  const finalSpread = pageToSpread(totalPages)
+  const finalSpread = pageToSpread(totalPages, profile)
   if (targetSpread < 0 || targetSpread > finalSpread) return selection
 
-  let targetPage = spreadToPrimaryPage(targetSpread)
-  let targetColumn: number
-
-  if (nextSpreadCol <= 4) {
-    targetColumn = nextSpreadCol
-    if (targetPage % 2 !== 0 && targetPage > 1) targetPage -= 1
-    if (targetPage === 1) return selection
-  } else {
-    targetColumn = nextSpreadCol - 4
-    if (targetPage % 2 === 0) targetPage += 1
-  }
-
-  const number = numberFromPagePosition(targetPage, nextSpreadRow, targetColumn)
-  if (number > totalPages * 12) return selection
+  const half = Math.floor((nextSpreadCol - 1) / profile.columns)
+  const targetPage = spreadPages(targetSpread, profile)[half]
+  if (targetPage === null || targetPage === undefined || targetPage > totalPages) return selection
+  const targetColumn = nextSpreadCol - half * profile.columns
 
   return {
-    number,
+    number: numberFromPagePosition(targetPage, nextSpreadRow, targetColumn, profile),
     page: targetPage,
     row: nextSpreadRow,
     column: targetColumn,
   }
 }
+
+export const BINDER_PROFILE_STORAGE_KEY = 'binderProfile:v1'
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+const pocketSide = (value: unknown, fallback: number) =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_BINDER_POCKET_SIDE
+    ? (value as number)
+    : fallback
+
+export function parseBinderProfile(raw: string | null): BinderProfile {
+  if (!raw) return DEFAULT_BINDER_PROFILE
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!isRecord(parsed)) return DEFAULT_BINDER_PROFILE
+    return {
+      rows: pocketSide(parsed.rows, DEFAULT_BINDER_PROFILE.rows),
+      columns: pocketSide(parsed.columns, DEFAULT_BINDER_PROFILE.columns),
+      firstPageAlone:
+        typeof parsed.firstPageAlone === 'boolean' ? parsed.firstPageAlone : DEFAULT_BINDER_PROFILE.firstPageAlone,
+      pagesPerSpread: parsed.pagesPerSpread === 1 ? 1 : 2,
+    }
+  } catch {
+    return DEFAULT_BINDER_PROFILE
+  }
+}
+
+export function loadBinderProfile(storage: Pick<Storage, 'getItem'>): BinderProfile {
+  try {
+    return parseBinderProfile(storage.getItem(BINDER_PROFILE_STORAGE_KEY))
+  } catch {
+    return DEFAULT_BINDER_PROFILE
+  }
+}
+
+export function persistBinderProfile(storage: Pick<Storage, 'setItem'>, profile: BinderProfile): boolean {
+  try {
+    storage.setItem(BINDER_PROFILE_STORAGE_KEY, JSON.stringify(profile))
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { binderPrintHtml, binderPrintPages } from './binderPrint'
+import { binderSlots } from './binderSort'
+
+const cards = [
+  { Name: 'Darth Vader', Subtitle: 'Dark Lord of the Sith', Number: 1, Type: 'Leader', Set: 'SOR' },
+  { Name: 'Battlefield Marine', Number: 2, Type: 'Unit', Set: 'SOR' },
+  { Name: 'R2-D2 <Astromech>', Number: 3, Type: 'Unit', Set: 'SOR' },
+  { Name: 'Bounty Hunter Crew', Number: 14, Type: 'Unit', Set: 'SOR' },
+]
+const quotaOf = (card: { Type?: string }) => (card.Type === 'Leader' ? 1 : 3)
+
+describe('binderPrintPages', () => {
+  const pages = binderPrintPages(cards, { 1: 1, 2: 1 }, quotaOf)
+
+  it('fills every page with twelve pockets in filing order', () => {
+    expect(pages.map(page => page.page)).toEqual([1, 2])
+    expect(pages[1].slots.map(slot => slot.number)).toEqual([13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24])
+    expect(pages[1].slots[1]).toMatchObject({ number: 14, page: 2, row: 1, column: 2 })
+  })
+
+  it('follows the pockets per page of the binder profile', () => {
+    const nine = binderPrintPages(cards, {}, quotaOf, { rows: 3, columns: 3, firstPageAlone: true, pagesPerSpread: 2 })
+    expect(nine.map(page => page.slots.length)).toEqual([9, 9])
+    expect(nine[1]).toMatchObject({ columns: 3 })
+    expect(nine[1].slots[4]).toMatchObject({ number: 14, page: 2, row: 2, column: 2 })
+    expect(binderPrintHtml('checklist', 'SOR', nine)).toContain('grid-template-columns: repeat(3, 1fr); grid-template-rows: repeat(3, 1fr)')
+  })
+
+  it('fills pockets in the set\'s sort order', () => {
+    const sorted = binderPrintPages(cards, {}, quotaOf, undefined, binderSlots(cards, ['name']))
+    expect(sorted).toHaveLength(1)
+    expect(sorted[0].slots.slice(0, 5).map(slot => [slot.number, slot.status])).toEqual([
+      [2, 'missing'],
+      [14, 'missing'],
+      [1, 'missing'],
+      [3, 'missing'],
+      [5, 'unused'],
+    ])
+  })
+
+  it('marks complete, partial, missing and unused pockets', () => {
+    expect(pages[0].slots.slice(0, 4).map(slot => [slot.status, slot.owned, slot.quota])).toEqual([
+      ['complete', 1, 1],
+      ['partial', 1, 3],
+      ['missing', 0, 3],
+      ['unused', 0, 0],
+    ])
+  })
+})
+
+describe('binderPrintHtml', () => {
+  const pages = binderPrintPages(cards, { 1: 1, 2: 1 }, quotaOf)
+
+  it('prints one grid per page with hatched missing pockets and escaped names', () => {
+    const html = binderPrintHtml('checklist', 'Spark of Rebellion (SOR)', pages)
+    expect(html.match(/class="sheet"/g)).toHaveLength(2)
+    expect(html).toContain('<div class="slot missing"><span class="num">#3</span><span>R2-D2 &#60;Astromech&#62;</span>')
+    expect(html).toContain('<span class="qty">1/3</span>')
+  })
+
+  it('prints a label only for empty pockets that hold a card', () => {
+    const html = binderPrintHtml('labels', 'SOR', pages)
+    expect(html.match(/class="label"/g)).toHaveLength(2)
+    expect(html).toContain('Page 2, row 1, column 2')
+  })
+})
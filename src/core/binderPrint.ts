@@ -0,0 +1,152 @@
+import {
+  DEFAULT_BINDER_PROFILE,
+  binderLayout,
+  numberFromPagePosition,
+  pocketsPerPage,
+  totalBinderPages,
+  type BinderProfile,
+} from './binder'
+import { numberAtSlot, type BinderSlots } from './binderSort'
+import type { BaseTotals, Card } from './types'
+
+/** Checklist prints every binder page as a grid; labels prints a placeholder for each empty pocket. */
+export type BinderPrintMode = 'checklist' | 'labels'
+
+export type PrintSlotStatus = 'complete' | 'partial' | 'missing' | 'unused'
+
+export type PrintSlot = {
+  /** The card's collector number, or the slot ordinal of an empty pocket. */
+  number: number
+  page: number
+  row: number
+  column: number
+  /** Absent when no card in the set has this number. */
+  card?: Pick<Card, 'Name' | 'Subtitle' | 'Type'>
+  owned: number
+  quota: number
+  status: PrintSlotStatus
+}
+
+/** Pockets in row order; `columns` sets the printed grid width. */
+export type PrintPage = { page: number; columns: number; slots: PrintSlot[] }
+
+/** Every pocket of the set's binder, page by page, in filing order (`slots` for a sorted binder). */
+export function binderPrintPages(
+  cards: Card[],
+  totals: BaseTotals,
+  quotaOf: (card: Card) => number,
+  profile: BinderProfile = DEFAULT_BINDER_PROFILE,
+  slots?: BinderSlots,
+): PrintPage[] {
+  const byNumber = new Map(cards.map(card => [card.Number, card]))
+  const lastSlot = slots?.lastSlot ?? cards.reduce((max, card) => Math.max(max, card.Number), 0)
+  const totalPages = totalBinderPages(lastSlot, profile)
+  const pages: PrintPage[] = []
+
+  for (let page = 1; page <= totalPages; page++) {
+    const pockets: PrintSlot[] = []
+    for (let index = 0; index < pocketsPerPage(profile); index++) {
+      const row = Math.floor(index / profile.columns) + 1
+      const slot = numberFromPagePosition(page, row, (index % profile.columns) + 1, profile)
+      const filed = numberAtSlot(slots, slot)
+      const number = filed ?? slot
+      const card = filed === undefined ? undefined : byNumber.get(filed)
+      const owned = card ? totals[number] ?? 0 : 0
+      const quota = card ? quotaOf(card) : 0
+      const status: PrintSlotStatus = !card
+        ? 'unused'
+        : owned === 0
+          ? 'missing'
+          : owned < quota
+            ? 'partial'
+            : 'complete'
+      pockets.push({ number, ...binderLayout(slot, profile), card, owned, quota, status })
+    }
+    pages.push({ page, columns: profile.columns, slots: pockets })
+  }
+  return pages
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+const cardName = (card: PrintSlot['card']) =>
+  card ? escapeHtml(card.Subtitle ? `${card.Name} - ${card.Subtitle}` : card.Name) : ''
+
+const PRINT_CSS = `
+  * { box-sizing: border-box; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  body { font-family: system-ui, sans-serif; color: #111; margin: 0; }
+  h1 { font-size: 14pt; margin: 0 0 4mm; }
+  .sheet { page-break-after: always; break-after: page; padding: 8mm; }
+  .sheet:last-child { page-break-after: auto; break-after: auto; }
+  .grid { display: grid; gap: 2mm; height: 240mm; }
+  .slot { border: 0.4mm solid #333; border-radius: 2mm; padding: 2mm; font-size: 9pt; display: flex; flex-direction: column; }
+  .slot .num { font-weight: 700; font-size: 12pt; }
+  .slot .qty { margin-top: auto; font-family: monospace; font-size: 11pt; }
+  .missing { background: repeating-linear-gradient(45deg, #fff 0 2mm, #d4d4d4 2mm 3mm); }
+  .partial .qty { font-weight: 700; }
+  .unused { border-style: dashed; color: #999; }
+  .labels { display: grid; grid-template-columns: repeat(3, 63mm); grid-auto-rows: 88mm; gap: 2mm; }
+  .label { border: 0.3mm dashed #666; padding: 4mm; display: flex; flex-direction: column; gap: 2mm; page-break-inside: avoid; break-inside: avoid; }
+  .label .num { font-size: 28pt; font-weight: 700; }
+  .label .name { font-size: 12pt; }
+  .label .where { margin-top: auto; font-size: 9pt; color: #555; }
+  @page { margin: 6mm; }
+`
+
+function checklistBody(title: string, pages: PrintPage[]): string {
+  return pages
+    .map(({ page, columns, slots }) => {
+      const cells = slots
+        .map(slot => {
+          if (slot.status === 'unused') return `<div class="slot unused"><span class="num">#${slot.number}</span></div>`
+          return (
+            `<div class="slot ${slot.status}">` +
+            `<span class="num">#${slot.number}</span>` +
+            `<span>${cardName(slot.card)}</span>` +
+            `<span class="qty">${slot.owned}/${slot.quota}</span>` +
+            `</div>`
+          )
+        })
+        .join('')
+      const rows = Math.ceil(slots.length / columns)
+      const grid = `grid-template-columns: repeat(${columns}, 1fr); grid-template-rows: repeat(${rows}, 1fr)`
+      return `<section class="sheet"><h1>${escapeHtml(title)} · Page ${page}</h1><div class="grid" style="${grid}">${cells}</div></section>`
+    })
+    .join('')
+}
+
+const LABELS_PER_SHEET = 9
+
+function labelsBody(title: string, pages: PrintPage[]): string {
+  const empty = pages.flatMap(page => page.slots.filter(slot => slot.status === 'missing'))
+  if (!empty.length) return `<section class="sheet"><h1>${escapeHtml(title)}</h1><p>No empty pockets.</p></section>`
+  const sheets: string[] = []
+  for (let i = 0; i < empty.length; i += LABELS_PER_SHEET) {
+    const labels = empty
+      .slice(i, i + LABELS_PER_SHEET)
+      .map(
+        slot =>
+          `<div class="label">` +
+          `<span class="num">#${slot.number}</span>` +
+          `<span class="name">${cardName(slot.card)}</span>` +
+          (slot.card?.Type ? `<span>${escapeHtml(slot.card.Type)}</span>` : '') +
+          `<span class="where">${escapeHtml(title)} · Page ${slot.page}, row ${slot.row}, column ${slot.column}</span>` +
+          `</div>`,
+      )
+      .join('')
+    sheets.push(`<section class="sheet"><div class="labels">${labels}</div></section>`)
+  }
+  return sheets.join('')
+}
+
+/** A standalone printable document; `title` is usually the set label. */
+export function binderPrintHtml(mode: BinderPrintMode, title: string, pages: PrintPage[]): string {
+  const heading = mode === 'checklist' ? `${title} binder checklist` : `${title} slot labels`
+  const body = mode === 'checklist' ? checklistBody(title, pages) : labelsBody(title, pages)
+  return (
+    `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(heading)}</title>` +
+    `<style>${PRINT_CSS}</style></head><body>${body}</body></html>`
+  )
+}
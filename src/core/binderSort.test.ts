@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { binderLayout } from './binder'
+import {
+  BINDER_SORT_STORAGE_KEY,
+  binderSlots,
+  loadBinderSorts,
+  numberAtSlot,
+  parseBinderSorts,
+  persistBinderSorts,
+  slotOfNumber,
+} from './binderSort'
+import type { Card } from './types'
+
+const cards: Card[] = [
+  { Name: 'Vanguard Ace', Number: 1, Type: 'Unit', Rarity: 'Common', Aspects: ['Aggression', 'Heroism'], Cost: 3, Set: 'SOR' },
+  { Name: 'Darth Vader', Subtitle: 'Dark Lord of the Sith', Number: 3, Type: 'Leader', Rarity: 'Common', Aspects: ['Aggression', 'Villainy'], Set: 'SOR' },
+  { Name: 'Chopper Base', Number: 4, Type: 'Base', Rarity: 'Common', Aspects: ['Command'], Set: 'SOR' },
+  { Name: 'Alliance X-Wing', Number: 7, Type: 'Unit', Rarity: 'Legendary', Aspects: ['Command'], Cost: 2, Set: 'SOR' },
+  { Name: 'Bold Resistance', Number: 9, Type: 'Event', Rarity: 'Uncommon', Aspects: [], Cost: 1, Set: 'SOR' },
+  { Name: 'Admiral Ackbar', Number: 12, Type: 'Unit', Rarity: 'Rare', Aspects: ['Aggression'], Cost: 3, Set: 'SOR' },
+]
+
+const order = (keys: Parameters<typeof binderSlots>[1]) => {
+  const slots = binderSlots(cards, keys)
+  return Array.from({ length: slots.lastSlot }, (_, i) => numberAtSlot(slots, i + 1))
+}
+
+describe('binderSlots', () => {
+  it('files cards by collector number by default, keeping unused numbers as empty pockets', () => {
+    const slots = binderSlots(cards)
+    expect(slots.lastSlot).toBe(12)
+    expect(slotOfNumber(slots, 7)).toBe(7)
+    expect(numberAtSlot(slots, 5)).toBeUndefined()
+    expect(numberAtSlot(undefined, 5)).toBe(5)
+  })
+
+  it('packs sorted cards into consecutive slots', () => {
+    expect(order(['type'])).toEqual([3, 4, 1, 7, 12, 9])
+    expect(order(['rarity'])).toEqual([1, 3, 4, 9, 12, 7])
+    expect(order(['name'])).toEqual([12, 7, 9, 4, 3, 1])
+  })
+
+  it('sorts by aspect with mono-aspect cards first and neutral cards last', () => {
+    expect(order(['aspect'])).toEqual([4, 7, 12, 3, 1, 9])
+  })
+
+  it('breaks ties with later keys, then collector number; unknown costs go last', () => {
+    expect(order(['aspect', 'cost'])).toEqual([7, 4, 12, 3, 1, 9])
+    expect(order(['cost'])).toEqual([9, 7, 1, 12, 3, 4])
+  })
+
+  it('drives binderLayout through the sorted slot', () => {
+    const slots = binderSlots(cards, ['type'])
+    expect(binderLayout(slotOfNumber(slots, 12))).toEqual({ page: 1, row: 2, column: 1 })
+  })
+})
+
+describe('binder sort storage', () => {
+  it('round-trips per-set keys and drops unknown or repeated keys', () => {
+    const stored = new Map<string, string>()
+    const storage = {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => void stored.set(key, value),
+    }
+    expect(loadBinderSorts(storage)).toEqual({})
+    expect(persistBinderSorts(storage, { SOR: ['aspect', 'cost'] })).toBe(true)
+    expect(loadBinderSorts(storage)).toEqual({ SOR: ['aspect', 'cost'] })
+
+    stored.set(BINDER_SORT_STORAGE_KEY, JSON.stringify({ SOR: ['type', 'power', 'type'], SHD: 'name', TWI: [] }))
+    expect(loadBinderSorts(storage)).toEqual({ SOR: ['type'] })
+    expect(parseBinderSorts('[')).toEqual({})
+  })
+})
@@ -0,0 +1,142 @@
+import { QUOTA_RARITIES, QUOTA_TYPES } from './quotas'
+import type { Card, SetKey } from './types'
+
+/** Card attributes a binder can be sorted by; collector number always breaks the remaining ties. */
+export type BinderSortKey = 'aspect' | 'rarity' | 'type' | 'cost' | 'name'
+
+/** Sort keys per set, most significant first. A set without keys is filed by collector number. */
+export type BinderSortSettings = Record<SetKey, BinderSortKey[]>
+
+/** Slot ordinals of one set's binder; `binderLayout` turns a slot into page, row and column. */
+export type BinderSlots = {
+  slotByNumber: Map<number, number>
+  numberBySlot: Map<number, number>
+  lastSlot: number
+}
+
+export const BINDER_SORT_KEYS: BinderSortKey[] = ['aspect', 'rarity', 'type', 'cost', 'name']
+
+export const BINDER_SORT_KEY_LABELS: Record<BinderSortKey, string> = {
+  aspect: 'Aspect',
+  rarity: 'Rarity',
+  type: 'Type',
+  cost: 'Cost',
+  name: 'Name',
+}
+
+export const BINDER_SORT_PRESETS: Array<{ id: string; label: string; keys: BinderSortKey[] }> = [
+  { id: 'number', label: 'Collector number', keys: [] },
+  { id: 'type', label: 'Leaders and bases first', keys: ['type'] },
+  { id: 'rarity', label: 'Rarity', keys: ['rarity'] },
+  { id: 'name', label: 'Name', keys: ['name'] },
+]
+
+/** Aspect order printed on the cards: the four colours, then Villainy and Heroism. */
+const ASPECT_ORDER = ['Vigilance', 'Command', 'Aggression', 'Cunning', 'Villainy', 'Heroism']
+
+const rank = (order: readonly string[], value?: string) => {
+  const index = order.findIndex(entry => entry.toLowerCase() === (value ?? '').trim().toLowerCase())
+  return index === -1 ? order.length : index
+}
+
+// Mono-aspect cards come before dual-aspect ones of the same primary aspect; neutral cards go last.
+function compareAspects(a: Card, b: Card): number {
+  const ranks = (card: Card) => (card.Aspects ?? []).map(aspect => rank(ASPECT_ORDER, aspect)).sort((x, y) => x - y)
+  const left = ranks(a)
+  const right = ranks(b)
+  if (!left.length || !right.length) return Number(!left.length) - Number(!right.length)
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) return left[i] - right[i]
+  }
+  return left.length - right.length
+}
+
+const costOf = (card: Card) => (typeof card.Cost === 'number' ? card.Cost : Number.POSITIVE_INFINITY)
+
+const COMPARATORS: Record<BinderSortKey, (a: Card, b: Card) => number> = {
+  aspect: compareAspects,
+  rarity: (a, b) => rank(QUOTA_RARITIES, a.Rarity) - rank(QUOTA_RARITIES, b.Rarity),
+  type: (a, b) => rank(QUOTA_TYPES, a.Type) - rank(QUOTA_TYPES, b.Type),
+  cost: (a, b) => {
+    const left = costOf(a)
+    const right = costOf(b)
+    return left === right ? 0 : left < right ? -1 : 1
+  },
+  name: (a, b) => a.Name.localeCompare(b.Name) || (a.Subtitle ?? '').localeCompare(b.Subtitle ?? ''),
+}
+
+/**
+ * Binder slots for a set's base cards. Without sort keys a card's slot is its collector number, so
+ * unused numbers stay as empty pockets; with keys the cards fill slots 1, 2, 3, ... in sorted order.
+ */
+export function binderSlots(cards: Card[], keys: BinderSortKey[] = []): BinderSlots {
+  const slotByNumber = new Map<number, number>()
+  const numberBySlot = new Map<number, number>()
+  const sorted = [...cards].sort((a, b) => {
+    for (const key of keys) {
+      const result = COMPARATORS[key](a, b)
+      if (result !== 0) return result
+    }
+    return a.Number - b.Number
+  })
+
+  sorted.forEach((card, index) => {
+    const slot = keys.length ? index + 1 : card.Number
+    slotByNumber.set(card.Number, slot)
+    numberBySlot.set(slot, card.Number)
+  })
+
+  const lastSlot = keys.length ? sorted.length : sorted.reduce((max, card) => Math.max(max, card.Number), 0)
+  return { slotByNumber, numberBySlot, lastSlot }
+}
+
+/** The slot a card is filed in; numbers outside the set fall back to themselves. */
+export const slotOfNumber = (slots: BinderSlots | undefined, number: number) =>
+  slots?.slotByNumber.get(number) ?? number
+
+/** The card number filed in a slot, or `undefined` for an empty pocket. */
+export const numberAtSlot = (slots: BinderSlots | undefined, slot: number) =>
+  slots ? slots.numberBySlot.get(slot) : slot
+
+export const BINDER_SORT_STORAGE_KEY = 'binderSort:v1'
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+const isSortKey = (value: unknown): value is BinderSortKey =>
+  typeof value === 'string' && (BINDER_SORT_KEYS as string[]).includes(value)
+
+export function parseBinderSorts(raw: string | null): BinderSortSettings {
+  if (!raw) return {}
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!isRecord(parsed)) return {}
+    const settings: BinderSortSettings = {}
+    for (const [setKey, keys] of Object.entries(parsed)) {
+      if (!Array.isArray(keys)) continue
+      const valid = keys.filter(isSortKey).filter((key, index, all) => all.indexOf(key) === index)
+      if (valid.length) settings[setKey] = valid
+    }
+    return settings
+  } catch {
+    return {}
+  }
+}
+
+export function loadBinderSorts(storage: Pick<Storage, 'getItem'>): BinderSortSettings {
+  try {
+    return parseBinderSorts(storage.getItem(BINDER_SORT_STORAGE_KEY))
+  } catch {
+    return {}
+  }
+}
+
+export function persistBinderSorts(storage: Pick<Storage, 'setItem'>, settings: BinderSortSettings): boolean {
+  try {
+    storage.setItem(BINDER_SORT_STORAGE_KEY, JSON.stringify(settings))
+    return true
+  } catch {
+    return false
+  }
+}
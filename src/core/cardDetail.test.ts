@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import { cardDeckUsage, cardOwnershipSplit, cardPrintings } from './cardDetail'
+import type { DeckLibrary, SavedDeck } from './decks'
+import type { CanonicalCatalog } from './inventory'
+import type { PreconCatalogEntry } from './precons'
+import type { Card } from './types'
+
+const deck = (partial: Partial<SavedDeck> & Pick<SavedDeck, 'id' | 'name'>): SavedDeck => ({
+  createdAt: '2026-10-01T00:00:00.000Z',
+  updatedAt: '2026-10-01T00:00:00.000Z',
+  physical: false,
+  copies: 1,
+  sourceText: '',
+  leader: { setKey: 'SOR', baseNumber: 10, count: 1 },
+  base: { setKey: 'SOR', baseNumber: 25, count: 1 },
+  mainDeck: [],
+  sideboard: [],
+  ...partial,
+})
+
+const library: DeckLibrary = {
+  customDecks: [
+    deck({
+      id: 'aggro',
+      name: 'Vader Aggro',
+      physical: true,
+      copies: 2,
+      mainDeck: [{ setKey: 'SOR', baseNumber: 87, count: 2 }],
+      sideboard: [{ setKey: 'SOR', baseNumber: 87, count: 1 }],
+    }),
+    deck({ id: 'control', name: 'Control', mainDeck: [{ setKey: 'SOR', baseNumber: 87, count: 1 }] }),
+    deck({ id: 'other', name: 'No Vader', mainDeck: [{ setKey: 'SHD', baseNumber: 87, count: 3 }] }),
+  ],
+  preconOwnership: { 'SOR-Vader': 1 },
+}
+
+const precons: PreconCatalogEntry[] = [
+  {
+    key: 'SOR-Vader',
+    label: 'Vader starter',
+    setKey: 'SOR',
+    aspect: 'Villainy',
+    file: 'SOR-Vader.json',
+    contents: {
+      leader: { setKey: 'SOR', baseNumber: 10, count: 1 },
+      base: { setKey: 'SOR', baseNumber: 25, count: 1 },
+      mainDeck: [{ setKey: 'SOR', baseNumber: 87, count: 1 }],
+      sideboard: [],
+    },
+  },
+  {
+    key: 'SOR-Luke',
+    label: 'Luke starter',
+    setKey: 'SOR',
+    aspect: 'Heroism',
+    file: 'SOR-Luke.json',
+    contents: {
+      leader: { setKey: 'SOR', baseNumber: 5, count: 1 },
+      base: { setKey: 'SOR', baseNumber: 26, count: 1 },
+      mainDeck: [{ setKey: 'SOR', baseNumber: 87, count: 2 }],
+      sideboard: [],
+    },
+  },
+]
+
+describe('cardPrintings', () => {
+  const catalog: CanonicalCatalog = new Map([
+    ['SOR:87', { setKey: 'SOR', printingNumber: 87, baseNumber: 87 }],
+    ['SOR:351', { setKey: 'SOR', printingNumber: 351, baseNumber: 87 }],
+    ['SOR:521', { setKey: 'SOR', printingNumber: 521, baseNumber: 87, variant: 'showcase' }],
+  ])
+  const prices: Record<number, number> = { 87: 4.25, 351: 9, 521: 120 }
+  const cardOf = (number: number) => ({ Name: 'Darth Vader', Number: number, Set: 'SOR', MarketPrice: prices[number] }) as Card
+
+  it('lists each printing with its variant, price and binder copies', () => {
+    expect(cardPrintings('SOR', [351, 87, 521], cardOf, catalog, { normal: 2, hyperspace: 1 })).toEqual([
+      { number: 87, variant: 'normal', price: 4.25, owned: 2 },
+      { number: 351, variant: 'hyperspace', price: 9, owned: 1 },
+      { number: 521, variant: 'showcase', price: 120, owned: 0 },
+    ])
+  })
+
+  it('counts copies of a variant once when two printing numbers share it', () => {
+    const untyped: CanonicalCatalog = new Map([...catalog, ['SOR:521', { setKey: 'SOR', printingNumber: 521, baseNumber: 87 }]])
+
+    expect(cardPrintings('SOR', [87, 351, 521], cardOf, untyped, { normal: 1, hyperspace: 2 })).toEqual([
+      { number: 87, variant: 'normal', price: 4.25, owned: 1 },
+      { number: 351, variant: 'hyperspace', price: 9, owned: 2 },
+      { number: 521, variant: 'hyperspace', price: 120, owned: 0 },
+    ])
+  })
+
+  it('adds owned variants that have no printing number', () => {
+    expect(cardPrintings('SOR', [87], cardOf, catalog, { normal: 1, foil: 2 })).toEqual([
+      { number: 87, variant: 'normal', price: 4.25, owned: 1 },
+      { variant: 'foil', owned: 2 },
+    ])
+  })
+})
+
+describe('cardOwnershipSplit', () => {
+  it('splits owned copies between the binder, physical decks and owned precons', () => {
+    expect(cardOwnershipSplit('SOR', 87, 3, library, precons)).toEqual({ binder: 3, decks: 6, precons: 1 })
+    expect(cardOwnershipSplit('SHD', 87, 0, library, precons)).toEqual({ binder: 0, decks: 0, precons: 0 })
+  })
+})
+
+describe('cardDeckUsage', () => {
+  it('lists every saved deck and precon using the card with the copies each needs', () => {
+    expect(cardDeckUsage('SOR', 87, library, precons)).toEqual([
+      { kind: 'deck', id: 'aggro', name: 'Vader Aggro', count: 3, owned: 2 },
+      { kind: 'deck', id: 'control', name: 'Control', count: 1, owned: 0 },
+      { kind: 'precon', id: 'SOR-Vader', name: 'Vader starter', count: 1, owned: 1 },
+      { kind: 'precon', id: 'SOR-Luke', name: 'Luke starter', count: 2, owned: 0 },
+    ])
+  })
+})
@@ -0,0 +1,108 @@
+import { allCardRefs, type DeckContents } from './deckContents'
+import { deriveOwnedTotals, emptyDeckLibrary, type DeckLibrary } from './decks'
+import { printingVariant, VARIANT_KINDS, type CanonicalCatalog, type VariantCounts, type VariantKind } from './inventory'
+import type { PreconCatalogEntry } from './precons'
+import type { Card, SetKey } from './types'
+
+/** One way of owning the card: a printing number, or a variant such as foil that has none. */
+export type PrintingDetail = {
+  /** Absent for variants without a printing number of their own. */
+  number?: number
+  variant: VariantKind
+  price?: number
+  owned: number
+}
+
+export type OwnershipSplit = {
+  binder: number
+  /** Physical copies of saved decks. */
+  decks: number
+  /** Owned precons. */
+  precons: number
+}
+
+export type DeckUsage = {
+  kind: 'deck' | 'precon'
+  /** Saved deck id or precon key. */
+  id: string
+  name: string
+  /** Copies the deck needs, main deck and sideboard together. */
+  count: number
+  /** Copies of the deck owned: physical copies of a saved deck, or the precon. */
+  owned: number
+}
+
+/**
+ * Every printing of a card with its price and binder copies, in collector number order, then any
+ * owned variant (foil, say) that has no printing number of its own. Copies are counted per variant,
+ * so when several numbers share one they are shown on the lowest, the number the variant is priced by.
+ */
+export function cardPrintings(
+  setKey: SetKey,
+  printingNumbers: number[],
+  cardOf: (number: number) => Card | undefined,
+  catalog: CanonicalCatalog,
+  counts: VariantCounts,
+): PrintingDetail[] {
+  const listed = new Set<VariantKind>()
+  const printings: PrintingDetail[] = [...printingNumbers]
+    .sort((a, b) => a - b)
+    .map(number => {
+      const ref = catalog.get(`${setKey}:${number}`)
+      const variant = ref ? printingVariant(ref) : 'normal'
+      const owned = listed.has(variant) ? 0 : counts[variant] ?? 0
+      listed.add(variant)
+      return { number, variant, price: cardOf(number)?.MarketPrice, owned }
+    })
+  for (const variant of VARIANT_KINDS) {
+    const owned = counts[variant] ?? 0
+    if (owned > 0 && !listed.has(variant)) printings.push({ variant, owned })
+  }
+  return printings
+}
+
+/** Copies of a card in the binder, in physical saved decks and in owned precons. */
+export function cardOwnershipSplit(
+  setKey: SetKey,
+  baseNumber: number,
+  binder: number,
+  library: DeckLibrary,
+  preconCatalog: PreconCatalogEntry[],
+): OwnershipSplit {
+  const decks = deriveOwnedTotals({ ...emptyDeckLibrary, customDecks: library.customDecks }, [])
+  const precons = deriveOwnedTotals({ ...emptyDeckLibrary, preconOwnership: library.preconOwnership }, preconCatalog)
+  return {
+    binder,
+    decks: decks[setKey]?.[baseNumber] ?? 0,
+    precons: precons[setKey]?.[baseNumber] ?? 0,
+  }
+}
+
+const copiesIn = (contents: DeckContents, setKey: SetKey, baseNumber: number) =>
+  allCardRefs(contents)
+    .filter(ref => ref.setKey === setKey && ref.baseNumber === baseNumber)
+    .reduce((sum, ref) => sum + ref.count, 0)
+
+/** Saved decks, then precons, that use the card, with the copies each needs. */
+export function cardDeckUsage(
+  setKey: SetKey,
+  baseNumber: number,
+  library: DeckLibrary,
+  preconCatalog: PreconCatalogEntry[],
+): DeckUsage[] {
+  const decks: DeckUsage[] = library.customDecks.map(deck => ({
+    kind: 'deck',
+    id: deck.id,
+    name: deck.name,
+    count: copiesIn(deck, setKey, baseNumber),
+    owned: deck.physical ? deck.copies : 0,
+  }))
+  const precons: DeckUsage[] = preconCatalog.map(entry => ({
+    kind: 'precon',
+    id: entry.key,
+    name: entry.label,
+    count: copiesIn(entry.contents, setKey, baseNumber),
+    owned: library.preconOwnership[entry.key] ?? 0,
+  }))
+  return [...decks, ...precons].filter(usage => usage.count > 0)
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { cardStatsLine } from './cardStats'
+
+describe('cardStatsLine', () => {
+  it('summarises the gameplay fields the card has', () => {
+    expect(
+      cardStatsLine({
+        Name: 'Darth Vader',
+        Number: 87,
+        Set: 'SOR',
+        Type: 'Unit',
+        Arena: 'Ground',
+        Cost: 7,
+        Power: 5,
+        HP: 7,
+        Traits: ['FORCE', 'IMPERIAL', 'SITH'],
+        Keywords: ['Shielded'],
+      }),
+    ).toBe('Unit · Ground · Cost 7 · 5 power / 7 HP · Force, Imperial, Sith · Shielded')
+  })
+
+  it('leaves out what the set data does not carry', () => {
+    expect(cardStatsLine({ Name: 'Vanquish', Number: 999, Set: 'JTL', Type: 'Event', Cost: 5 })).toBe('Event · Cost 5')
+    expect(cardStatsLine({ Name: 'Base', Number: 19, Set: 'JTL', HP: 28 })).toBe('28 HP')
+    expect(cardStatsLine({ Name: 'Unknown', Number: 1, Set: 'JTL' })).toBe('')
+  })
+})
@@ -0,0 +1,23 @@
+import type { Card } from './types'
+
+/**
+ * The card's gameplay summary, e.g. "Unit · Ground · Cost 7 · 5 power / 7 HP · Force, Imperial ·
+ * Shielded". Parts the set data does not carry are left out, so an empty string means none.
+ */
+export function cardStatsLine(card: Card): string {
+  const traits = card.Traits?.map(trait => trait.charAt(0) + trait.slice(1).toLowerCase())
+  const stats =
+    card.Power !== undefined || card.HP !== undefined
+      ? [card.Power !== undefined && `${card.Power} power`, card.HP !== undefined && `${card.HP} HP`].filter(Boolean).join(' / ')
+      : undefined
+  return [
+    card.Type,
+    card.Arena,
+    card.Cost !== undefined ? `Cost ${card.Cost}` : undefined,
+    stats,
+    traits?.join(', '),
+    card.Keywords?.join(', '),
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
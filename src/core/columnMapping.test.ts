@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import {
+  COLUMN_MAPPINGS_STORAGE_KEY,
+  guessColumnMapping,
+  importWithColumnMapping,
+  initialColumnMapping,
+  loadColumnMappings,
+  lookupCardByName,
+  persistColumnMappings,
+  rememberColumnMapping,
+  type SourceTable,
+} from './columnMapping'
+import type { CanonicalCatalog } from './inventory'
+import type { SearchCatalog } from './search'
+
+const catalog: CanonicalCatalog = new Map([
+  ['SOR:10', { setKey: 'SOR', printingNumber: 10, baseNumber: 10, type: 'Leader' }],
+  ['SOR:87', { setKey: 'SOR', printingNumber: 87, baseNumber: 87, type: 'Unit' }],
+  ['SHD:5', { setKey: 'SHD', printingNumber: 5, baseNumber: 5, type: 'Unit' }],
+])
+
+const catalogs: SearchCatalog[] = [
+  {
+    setKey: 'SOR',
+    cards: [
+      { Name: 'Darth Vader', Subtitle: 'Dark Lord of the Sith', Number: 10, Type: 'Leader', Set: 'SOR' },
+      { Name: 'Darth Vader', Subtitle: 'Commanding the First Legion', Number: 87, Type: 'Unit', Set: 'SOR' },
+    ],
+    printingNumbersByBase: new Map([[10, [10]], [87, [87]]]),
+    baseByPrintingNumber: new Map([[10, 10], [87, 87]]),
+  },
+  {
+    setKey: 'SHD',
+    cards: [{ Name: 'Bounty Hunter Crew', Number: 5, Type: 'Unit', Set: 'SHD' }],
+    printingNumbersByBase: new Map([[5, [5]]]),
+    baseByPrintingNumber: new Map([[5, 5]]),
+  },
+]
+
+const memoryStorage = () => {
+  const values = new Map<string, string>()
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => void values.set(key, value),
+  }
+}
+
+describe('guessColumnMapping', () => {
+  it('matches headers by alias and similarity, one field per column', () => {
+    expect(guessColumnMapping(['Expansion', 'Card #', 'Card Name', 'Sub-title', 'Qty Owned', 'Notes'])).toEqual({
+      set: 'Expansion',
+      number: 'Card #',
+      name: 'Card Name',
+      subtitle: 'Sub-title',
+      quantity: 'Qty Owned',
+    })
+    expect(guessColumnMapping(['Title', 'Copies'])).toEqual({ name: 'Title', quantity: 'Copies' })
+  })
+
+  it('prefers a mapping remembered for the same headers in any order', () => {
+    const saved = rememberColumnMapping({}, ['A', 'B'], { number: 'B', quantity: 'A', defaultSet: 'SOR' })
+    expect(initialColumnMapping(saved, ['b', 'a'])).toEqual({ number: 'B', quantity: 'A', defaultSet: 'SOR' })
+    expect(initialColumnMapping(saved, ['Name'])).toEqual({ name: 'Name' })
+  })
+})
+
+describe('lookupCardByName', () => {
+  it('needs the subtitle when a name has several cards', () => {
+    expect(lookupCardByName(catalogs, undefined, 'darth vader', 'Dark Lord of the Sith')).toEqual({
+      kind: 'found',
+      setKey: 'SOR',
+      number: 10,
+    })
+    expect(lookupCardByName(catalogs, undefined, 'Darth Vader', '')).toEqual({ kind: 'ambiguous' })
+    expect(lookupCardByName(catalogs, 'SHD', 'Darth Vader', '')).toEqual({ kind: 'unknown' })
+  })
+})
+
+describe('importWithColumnMapping', () => {
+  it('imports numbered rows, falls back to names and reports what it cannot match', () => {
+    const table: SourceTable = {
+      headers: ['Set', 'No.', 'Name', 'Subtitle', 'Qty'],
+      rows: [
+        ['', 'SOR-087', '', '', '2'],
+        ['SHD', '005', '', '', 'x'],
+        ['', '', 'Bounty Hunter Crew', '', '3'],
+        ['SOR', '', 'Darth Vader', '', '1'],
+        ['', '', 'Yoda', '', '1'],
+      ],
+      rowLabels: ['line 2', 'line 3', 'line 4', 'line 5', 'line 6'],
+    }
+    const result = importWithColumnMapping(
+      table,
+      { set: 'Set', number: 'No.', name: 'Name', subtitle: 'Subtitle', quantity: 'Qty' },
+      catalog,
+      catalogs,
+    )
+
+    expect(result.inventories).toEqual({ SOR: { 87: 2 }, SHD: { 5: 3 } })
+    expect(result.rejected.map(r => [r.row, r.number, r.reason])).toEqual([
+      ['line 3', '005', 'bad-quantity'],
+      ['line 5', 'Darth Vader', 'ambiguous-card'],
+      ['line 6', 'Yoda', 'unknown-card'],
+    ])
+    expect(result.skipped).toBe(3)
+  })
+
+  it('counts one copy per row without a quantity column and uses the default set', () => {
+    const table: SourceTable = { headers: ['Number'], rows: [['10'], ['10'], ['87']], rowLabels: ['a', 'b', 'c'] }
+    expect(importWithColumnMapping(table, { number: 'Number', defaultSet: 'SOR' }, catalog, catalogs).inventories).toEqual({
+      SOR: { 10: 2, 87: 1 },
+    })
+  })
+})
+
+describe('column mapping persistence', () => {
+  it('round-trips saved mappings and ignores malformed entries', () => {
+    const storage = memoryStorage()
+    const saved = rememberColumnMapping({}, ['Card', 'Qty'], { name: 'Card', quantity: 'Qty' })
+    expect(persistColumnMappings(storage, saved)).toBe(true)
+    expect(loadColumnMappings(storage)).toEqual(saved)
+
+    storage.setItem(COLUMN_MAPPINGS_STORAGE_KEY, JSON.stringify({ good: { number: 'No', set: 4 }, bad: 'x' }))
+    expect(loadColumnMappings(storage)).toEqual({ good: { number: 'No' } })
+  })
+})
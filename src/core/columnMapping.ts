@@ -0,0 +1,262 @@
+import {
+  collectRawImportEntry,
+  createImportLog,
+  finishImport,
+  type CanonicalCatalog,
+  type ImportResult,
+} from './inventory'
+import { buildSearchSuggestions, normalize, type SearchCatalog } from './search'
+import type { SetKey } from './types'
+
+export const MAPPING_FIELDS = ['set', 'number', 'name', 'subtitle', 'quantity'] as const
+export type MappingField = (typeof MAPPING_FIELDS)[number]
+
+export const MAPPING_FIELD_LABELS: Record<MappingField, string> = {
+  set: 'Set',
+  number: 'Card number',
+  name: 'Name',
+  subtitle: 'Subtitle',
+  quantity: 'Quantity',
+}
+
+/**
+ * Which header feeds each field. Headers are stored by name rather than position so a saved
+ * mapping still fits when a friend reorders their columns.
+ */
+export type ColumnMapping = Partial<Record<MappingField, string>> & {
+  /** Set for rows without a set column or with an empty set cell. */
+  defaultSet?: SetKey
+}
+
+/** Saved mappings keyed by `mappingSignature` of the file's headers. */
+export type SavedColumnMappings = Record<string, ColumnMapping>
+
+/** A sheet or CSV file as rows of text, with a label per row for the skipped-row report. */
+export type SourceTable = { headers: string[]; rows: string[][]; rowLabels: string[] }
+
+export const COLUMN_MAPPINGS_STORAGE_KEY = 'mapping:v1'
+
+const FIELD_ALIASES: Record<MappingField, string[]> = {
+  set: ['set', 'setcode', 'setkey', 'expansion', 'edition'],
+  number: ['number', 'cardnumber', 'no', 'num', 'collectornumber', 'basecardid', 'cardid', 'id'],
+  name: ['name', 'cardname', 'card', 'title'],
+  subtitle: ['subtitle', 'subname', 'cardsubtitle', 'epithet'],
+  quantity: ['quantity', 'qty', 'count', 'copies', 'owned', 'amount', 'have', 'normal'],
+}
+
+function bigrams(value: string): string[] {
+  const grams: string[] = []
+  for (let i = 0; i < value.length - 1; i++) grams.push(value.slice(i, i + 2))
+  return grams
+}
+
+/** Dice coefficient over character bigrams: 1 for identical strings, 0 for nothing shared. */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1
+  const left = bigrams(a)
+  const right = bigrams(b)
+  if (!left.length || !right.length) return 0
+  const pool = [...right]
+  let shared = 0
+  for (const gram of left) {
+    const index = pool.indexOf(gram)
+    if (index !== -1) {
+      shared++
+      pool.splice(index, 1)
+    }
+  }
+  return (2 * shared) / (left.length + right.length)
+}
+
+function headerScore(field: MappingField, header: string): number {
+  // "Card #" and "#" mean a number; `normalize` would otherwise drop the sign.
+  const key = normalize(header.replace(/#/g, 'number'))
+  if (!key) return 0
+  return Math.max(
+    ...FIELD_ALIASES[field].map(alias => {
+      if (key === alias) return 1
+      // Short aliases ("no", "id") only count as the whole header, not inside "Notes" or "Rapid"
+      if (alias.length > 2 && (key.includes(alias) || alias.includes(key))) return 0.7
+      return similarity(key, alias)
+    }),
+  )
+}
+
+/**
+ * Assigns each field the header that looks most like it. Best matches are taken first and a
+ * header feeds at most one field; weak matches (below 0.6) are left unmapped.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const candidates = MAPPING_FIELDS.flatMap(field =>
+    headers.map(header => ({ field, header, score: headerScore(field, header) })),
+  )
+    .filter(candidate => candidate.score >= 0.6)
+    .sort((a, b) => b.score - a.score)
+
+  const mapping: ColumnMapping = {}
+  const used = new Set<string>()
+  for (const { field, header } of candidates) {
+    if (mapping[field] || used.has(header)) continue
+    mapping[field] = header
+    used.add(header)
+  }
+  return mapping
+}
+
+export function mappingSignature(headers: string[]): string {
+  return headers.map(normalize).filter(Boolean).sort().join('|')
+}
+
+/** The saved mapping for these headers, or a fresh guess. */
+export function initialColumnMapping(saved: SavedColumnMappings, headers: string[]): ColumnMapping {
+  return saved[mappingSignature(headers)] ?? guessColumnMapping(headers)
+}
+
+export function rememberColumnMapping(
+  saved: SavedColumnMappings,
+  headers: string[],
+  mapping: ColumnMapping,
+): SavedColumnMappings {
+  return { ...saved, [mappingSignature(headers)]: mapping }
+}
+
+/** "87", "087", "SOR-087", "SOR 87" or "87/252"; a set prefix is returned when present. */
+function parseCardNumber(value: string): { setKey?: SetKey; number: number } | null {
+  const match = /^\s*([A-Za-z]{2,4})?[\s#-]*0*(\d+)\s*(?:\/\s*\d+)?\s*$/.exec(value)
+  if (!match) return null
+  return { setKey: match[1]?.toUpperCase(), number: Number(match[2]) }
+}
+
+export type NameLookup =
+  | { kind: 'found'; setKey: SetKey; number: number }
+  | { kind: 'unknown' }
+  | { kind: 'ambiguous' }
+
+/**
+ * Finds a base card by exact name (and subtitle, when given) through the search index,
+ * restricted to `setKey` when the row names one.
+ */
+export function lookupCardByName(
+  catalogs: SearchCatalog[],
+  setKey: SetKey | undefined,
+  name: string,
+  subtitle: string,
+): NameLookup {
+  const wantedName = normalize(name)
+  if (!wantedName) return { kind: 'unknown' }
+  const wantedSubtitle = normalize(subtitle)
+  const scoped = setKey ? catalogs.filter(catalog => catalog.setKey === setKey) : catalogs
+  const cardCount = scoped.reduce((sum, catalog) => sum + catalog.cards.length, 0)
+  const matches = buildSearchSuggestions(name, scoped, setKey ?? '', cardCount).filter(
+    suggestion =>
+      normalize(suggestion.name) === wantedName &&
+      (!wantedSubtitle || normalize(suggestion.subtitle ?? '') === wantedSubtitle),
+  )
+  if (matches.length === 1) return { kind: 'found', setKey: matches[0].setKey, number: matches[0].baseNumber }
+  return matches.length ? { kind: 'ambiguous' } : { kind: 'unknown' }
+}
+
+/**
+ * Reads a table through a column mapping into the same import result as the built-in formats.
+ * Rows without a usable number are matched by name; without a quantity column each row is one copy.
+ */
+export function importWithColumnMapping(
+  table: SourceTable,
+  mapping: ColumnMapping,
+  catalog: CanonicalCatalog,
+  catalogs: SearchCatalog[],
+): ImportResult {
+  const imported = {}
+  const log = createImportLog()
+  const column = (field: MappingField) => (mapping[field] ? table.headers.indexOf(mapping[field]!) : -1)
+  const columns = Object.fromEntries(MAPPING_FIELDS.map(field => [field, column(field)])) as Record<
+    MappingField,
+    number
+  >
+  const cell = (row: string[], field: MappingField) => (columns[field] === -1 ? '' : (row[columns[field]] ?? '').trim())
+
+  table.rows.forEach((row, index) => {
+    const ref = { row: table.rowLabels[index] ?? `row ${index + 2}`, log }
+    const rawNumber = cell(row, 'number')
+    const parsedNumber = rawNumber ? parseCardNumber(rawNumber) : null
+    const setKey = (cell(row, 'set') || parsedNumber?.setKey || mapping.defaultSet || '').toUpperCase()
+    const quantity = columns.quantity === -1 ? 1 : cell(row, 'quantity')
+
+    if (parsedNumber) {
+      // Plain numbers go through as written so the skipped-row report shows them
+      const number = /^\d+$/.test(rawNumber) ? rawNumber : parsedNumber.number
+      collectRawImportEntry(imported, setKey, number, quantity, 'normal', ref)
+      return
+    }
+    const name = cell(row, 'name')
+    if (!name) {
+      collectRawImportEntry(imported, setKey, rawNumber, quantity, 'normal', ref)
+      return
+    }
+    const found = lookupCardByName(catalogs, setKey || undefined, name, cell(row, 'subtitle'))
+    if (found.kind === 'found') {
+      collectRawImportEntry(imported, found.setKey, found.number, quantity, 'normal', ref)
+    } else {
+      const label = cell(row, 'subtitle') ? `${name} - ${cell(row, 'subtitle')}` : name
+      log.rejected.push({
+        row: ref.row,
+        set: setKey,
+        number: label,
+        quantity: String(quantity),
+        reason: found.kind === 'ambiguous' ? 'ambiguous-card' : 'unknown-card',
+      })
+    }
+  })
+
+  return finishImport(imported, catalog, log)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function parseColumnMapping(value: unknown): ColumnMapping | null {
+  if (!isRecord(value)) return null
+  const mapping: ColumnMapping = {}
+  for (const field of MAPPING_FIELDS) {
+    if (typeof value[field] === 'string' && value[field]) mapping[field] = value[field] as string
+  }
+  if (typeof value.defaultSet === 'string' && value.defaultSet) mapping.defaultSet = value.defaultSet
+  return mapping
+}
+
+export function parseColumnMappings(raw: string | null): SavedColumnMappings {
+  if (!raw) return {}
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!isRecord(parsed)) return {}
+    const mappings: SavedColumnMappings = {}
+    for (const [signature, value] of Object.entries(parsed)) {
+      const mapping = parseColumnMapping(value)
+      if (mapping) mappings[signature] = mapping
+    }
+    return mappings
+  } catch {
+    return {}
+  }
+}
+
+export function loadColumnMappings(storage: Pick<Storage, 'getItem'>): SavedColumnMappings {
+  try {
+    return parseColumnMappings(storage.getItem(COLUMN_MAPPINGS_STORAGE_KEY))
+  } catch {
+    return {}
+  }
+}
+
+export function persistColumnMappings(
+  storage: Pick<Storage, 'setItem'>,
+  mappings: SavedColumnMappings,
+): boolean {
+  try {
+    storage.setItem(COLUMN_MAPPINGS_STORAGE_KEY, JSON.stringify(mappings))
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import {
+  decodeCsvBytes,
+  formatCsv,
+  inventoryTableCsv,
+  missingTableCsv,
+  parseCsv,
+  parseCsvTable,
+  rejectedRowsCsv,
+  sniffDelimiter,
+} from './csv'
+
+describe('parseCsv', () => {
+  it('follows RFC 4180 quoting, escapes and line breaks', () => {
+    const text = [
+      'Name,Note,Count',
+      '"Luke Skywalker, Faithful Friend","He said ""hi""",1',
+      '"Multi',
+      'line",,2',
+      'plain,"",3',
+    ].join('\r\n')
+
+    expect(parseCsv(text)).toEqual([
+      ['Name', 'Note', 'Count'],
+      ['Luke Skywalker, Faithful Friend', 'He said "hi"', '1'],
+      ['Multi\r\nline', '', '2'],
+      ['plain', '', '3'],
+    ])
+  })
+
+  it('drops blank lines, keeps trailing empty fields and tolerates stray quotes', () => {
+    expect(parseCsv('a,b,c\n\n1,,\r2,x"y,3\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '', ''],
+      ['2', 'x"y', '3'],
+    ])
+  })
+
+  it('sniffs semicolon and tab delimiters and honours an Excel sep= line', () => {
+    expect(sniffDelimiter('Set;CardNumber;Count\nSOR;1,5;2')).toBe(';')
+    expect(sniffDelimiter('Set\tCardNumber\tCount')).toBe('\t')
+    expect(sniffDelimiter('"a;b",c')).toBe(',')
+    expect(parseCsv('Set;Name\nSOR;"Han Solo; Scoundrel"')).toEqual([
+      ['Set', 'Name'],
+      ['SOR', 'Han Solo; Scoundrel'],
+    ])
+    expect(parseCsv('sep=;\nSet;Count\nSOR;1')).toEqual([
+      ['Set', 'Count'],
+      ['SOR', '1'],
+    ])
+  })
+})
+
+describe('parseCsvTable', () => {
+  it('strips a BOM, trims cells and pads short rows', () => {
+    expect(parseCsvTable('\uFEFFSet, Count ,Foil\nSOR,1')).toEqual({
+      headers: ['Set', 'Count', 'Foil'],
+      rows: [['SOR', '1', '']],
+      lines: [2],
+    })
+    expect(() => parseCsvTable('\n\n')).toThrow('File is empty')
+  })
+
+  it('reports the file line each row starts on', () => {
+    expect(parseCsvTable('sep=,\r\nSet,Note\r\nSOR,"two\r\nlines"\r\n\r\nSHD,x').lines).toEqual([3, 6])
+  })
+})
+
+describe('decodeCsvBytes', () => {
+  it('reads UTF-8 with or without a BOM, UTF-16 with a BOM and falls back to Windows-1252', () => {
+    const utf8 = new TextEncoder().encode('\uFEFFName\nPadmé')
+    expect(parseCsv(decodeCsvBytes(utf8))).toEqual([['Name'], ['Padmé']])
+
+    const utf16 = new Uint8Array([0xff, 0xfe, ...Array.from('Né', char => [char.charCodeAt(0), 0]).flat()])
+    expect(decodeCsvBytes(utf16)).toBe('Né')
+
+    expect(decodeCsvBytes(new Uint8Array([0x50, 0x61, 0x64, 0x6d, 0xe9]))).toBe('Padmé')
+  })
+})
+
+describe('CSV export', () => {
+  it('quotes only fields that need it and parses back to the same rows', () => {
+    const rows = [
+      ['Name', 'Note'],
+      ['Boba Fett, Daimyo', 'says "no"'],
+      [' padded ', 'two\nlines'],
+    ]
+    const csv = formatCsv(rows)
+
+    expect(csv).toBe('Name,Note\r\n"Boba Fett, Daimyo","says ""no"""\r\n" padded ","two\nlines"\r\n')
+    expect(parseCsv(csv)).toEqual(rows)
+    expect(formatCsv([['a;b', 'c']], ';')).toBe('"a;b";c\r\n')
+  })
+
+  it('writes the skipped-row report with readable reasons', () => {
+    expect(rejectedRowsCsv([{ row: 'line 4', set: 'SOR', number: '9999', quantity: '2', reason: 'unknown-printing' }])).toBe(
+      'Row,Set,Number,Quantity,Reason\r\nline 4,SOR,9999,2,Unknown printing\r\n',
+    )
+  })
+
+  it('writes the inventory and missing tables with one column per printing', () => {
+    const inventory = parseCsvTable(
+      inventoryTableCsv('SOR', [
+        { Number: 87, Name: 'Darth Vader', Subtitle: 'Dark Lord of the Sith', Type: 'Leader', Price: 1.5, Printings: { normal: 1, foil: 2 } },
+      ]),
+    )
+    expect(inventory.headers.slice(0, 8)).toEqual(['Set', 'Base card id', 'Name', 'Subtitle', 'Type', 'Market price', 'Normal', 'Foil'])
+    expect(inventory.rows[0].slice(0, 8)).toEqual(['SOR', '87', 'Darth Vader', 'Dark Lord of the Sith', 'Leader', '1.50', '1', '2'])
+
+    expect(
+      parseCsv(missingTableCsv('SOR', [{ Number: 10, Name: 'Battlefield Marine', Type: 'Unit', Have: 1, Max: 3, Needed: 2, Price: 0.25 }])),
+    ).toEqual([
+      ['Set', 'Number', 'Name', 'Subtitle', 'Type', 'Have', 'Quota', 'Needed', 'Market price', 'Cost'],
+      ['SOR', '10', 'Battlefield Marine', '', 'Unit', '1', '3', '2', '0.25', '0.50'],
+    ])
+  })
+})
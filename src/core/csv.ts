@@ -0,0 +1,216 @@
+import {
+  IMPORT_REJECT_REASON_LABELS,
+  VARIANT_KINDS,
+  VARIANT_LABELS,
+  type ImportRejection,
+  type VariantCounts,
+} from './inventory'
+import type { SetKey } from './types'
+
+export type CsvDelimiter = ',' | ';' | '\t'
+export type CsvTable = {
+  headers: string[]
+  rows: string[][]
+  /** 1-based line in the file where each row starts, for error reports. */
+  lines: number[]
+}
+
+type CsvRecord = { fields: string[]; line: number }
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t']
+
+/**
+ * Decodes an uploaded file. Byte order marks pick UTF-8 or UTF-16; without one, bytes that are
+ * not valid UTF-8 are read as Windows-1252, which is what older Excel versions save.
+ */
+export function decodeCsvBytes(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2))
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2))
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes)
+  }
+}
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+}
+
+/** Excel writes a `sep=;` line ahead of the header when asked to keep a non-default delimiter. */
+function separatorHint(text: string): { delimiter: CsvDelimiter; rest: string } | null {
+  const match = /^sep=(.)\r?\n/i.exec(text)
+  if (!match) return null
+  const delimiter = DELIMITERS.find(d => d === match[1])
+  return delimiter ? { delimiter, rest: text.slice(match[0].length) } : null
+}
+
+/**
+ * Picks the delimiter that splits the header line into the most fields, ignoring quoted text.
+ * Commas win ties, so single-column files keep the RFC 4180 default.
+ */
+export function sniffDelimiter(text: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>(DELIMITERS.map(d => [d, 0]))
+  let quoted = false
+  for (const char of stripBom(text)) {
+    if (char === '"') quoted = !quoted
+    else if (!quoted && (char === '\n' || char === '\r')) break
+    else if (!quoted && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1)
+    }
+  }
+  return DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), DELIMITERS[0])
+}
+
+/**
+ * RFC 4180 tokenizer: quoted fields may hold delimiters, line breaks and `""` escapes; records
+ * end at CRLF, LF or CR. Quotes inside an unquoted field are kept literally rather than rejected,
+ * and rows with no content are dropped.
+ */
+export function parseCsv(text: string, delimiter?: CsvDelimiter): string[][] {
+  return tokenize(text, delimiter).map(record => record.fields)
+}
+
+function tokenize(text: string, delimiter?: CsvDelimiter): CsvRecord[] {
+  let input = stripBom(text)
+  const hint = delimiter ? null : separatorHint(input)
+  if (hint) input = hint.rest
+  const sep = delimiter ?? hint?.delimiter ?? sniffDelimiter(input)
+
+  const records: CsvRecord[] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+  let fieldStarted = false
+  let line = hint ? 2 : 1
+  let recordLine = line
+
+  const endField = () => {
+    record.push(field)
+    field = ''
+    fieldStarted = false
+  }
+  const endRecord = () => {
+    endField()
+    if (record.some(value => value.trim() !== '')) records.push({ fields: record, line: recordLine })
+    record = []
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++
+      if (char !== '"') field += char
+      else if (input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else quoted = false
+    } else if (char === '"' && !fieldStarted) {
+      quoted = true
+      fieldStarted = true
+    } else if (char === sep) {
+      endField()
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRecord()
+      recordLine = ++line
+    } else {
+      field += char
+      fieldStarted = true
+    }
+  }
+  if (fieldStarted || field || record.length) endRecord()
+  return records
+}
+
+/** Header row plus data rows, each padded to the header width and trimmed. */
+export function parseCsvTable(text: string): CsvTable {
+  const [headerRecord, ...dataRecords] = tokenize(text)
+  if (!headerRecord) throw new Error('File is empty or contains no lines.')
+  const headers = headerRecord.fields.map(header => header.trim())
+  const rows = dataRecords.map(({ fields }) => {
+    const cells = fields.map(cell => cell.trim())
+    while (cells.length < headers.length) cells.push('')
+    return cells
+  })
+  return { headers, rows, lines: dataRecords.map(record => record.line) }
+}
+
+type CsvValue = string | number | null | undefined
+
+function formatField(value: CsvValue, delimiter: CsvDelimiter): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text
+}
+
+/** Serializes rows with CRLF record breaks, quoting only the fields that need it. */
+export function formatCsv(rows: CsvValue[][], delimiter: CsvDelimiter = ','): string {
+  return rows.map(row => row.map(value => formatField(value, delimiter)).join(delimiter)).join('\r\n') + '\r\n'
+}
+
+export type InventoryCsvRow = {
+  Number: number
+  Name: string
+  Subtitle?: string
+  Type?: string
+  Price: number
+  Printings: VariantCounts
+}
+
+/**
+ * The Inventory table in SW-Unlimited's column layout (`Set`, `Base card id`, then one column
+ * per printing from `Normal` on), so the file can be imported back.
+ */
+export function inventoryTableCsv(setKey: SetKey, rows: InventoryCsvRow[]): string {
+  return formatCsv([
+    ['Set', 'Base card id', 'Name', 'Subtitle', 'Type', 'Market price', ...VARIANT_KINDS.map(kind => VARIANT_LABELS[kind])],
+    ...rows.map(row => [
+      setKey,
+      row.Number,
+      row.Name,
+      row.Subtitle,
+      row.Type,
+      row.Price.toFixed(2),
+      ...VARIANT_KINDS.map(kind => row.Printings[kind] ?? 0),
+    ]),
+  ])
+}
+
+export type MissingCsvRow = {
+  Number: number
+  Name: string
+  Subtitle?: string
+  Type?: string
+  Have: number
+  Max: number
+  Needed: number
+  Price: number
+}
+
+export function missingTableCsv(setKey: SetKey, rows: MissingCsvRow[]): string {
+  return formatCsv([
+    ['Set', 'Number', 'Name', 'Subtitle', 'Type', 'Have', 'Quota', 'Needed', 'Market price', 'Cost'],
+    ...rows.map(row => [
+      setKey,
+      row.Number,
+      row.Name,
+      row.Subtitle,
+      row.Type,
+      row.Have,
+      row.Max,
+      row.Needed,
+      row.Price.toFixed(2),
+      (row.Needed * row.Price).toFixed(2),
+    ]),
+  ])
+}
+
+export function rejectedRowsCsv(rejected: ImportRejection[]): string {
+  return formatCsv([
+    ['Row', 'Set', 'Number', 'Quantity', 'Reason'],
+    ...rejected.map(r => [r.row, r.set, r.number, r.quantity, IMPORT_REJECT_REASON_LABELS[r.reason]]),
+  ])
+}
@@ -517,6 +517,39 @@ describe('resolveDeckList', () => {
     expect(resolution.unresolved).toEqual([{ role: 'deck', name: 'Nonexistent Card', subtitle: undefined, count: 1, reason: 'no-name-match' }])
   })
 
+  it('resolves names and subtitles with typos to the closest card', () => {
+    const resolution = resolveDeckList(
+      {
+        format: 'melee',
+        entries: [
+          { role: 'leader', name: 'Bo Katan Kryse', subtitle: 'Reclaming Mandalore', count: 1 },
+          { role: 'deck', name: 'Koska Reves', subtitle: 'Warrior of Mandalore', count: 2 },
+        ],
+        malformed: [],
+      },
+      CATALOG,
+      PARSED_SETS,
+      TRACKED_SET_KEYS,
+      NO_OWNERSHIP,
+    )
+    expect(resolution.unresolved).toEqual([])
+    expect(resolution.rows.map(row => [row.setKey, row.baseNumber, row.count])).toEqual([
+      ['ASH', 10, 1],
+      ['ASH', 79, 2],
+    ])
+  })
+
+  it('keeps a subtitle that is too far off unresolved', () => {
+    const resolution = resolveDeckList(
+      { format: 'melee', entries: [{ role: 'deck', name: 'Koska Reeves', subtitle: 'Bad Batch', count: 1 }], malformed: [] },
+      CATALOG,
+      PARSED_SETS,
+      TRACKED_SET_KEYS,
+      NO_OWNERSHIP,
+    )
+    expect(resolution.unresolved[0].reason).toBe('no-name-match')
+  })
+
   it('marks an exact identity referencing an unknown printing as unresolved', () => {
     const resolution = resolveDeckList(
       { format: 'json', entries: [{ role: 'deck', name: 'ASH_9999', count: 1, exact: { setKey: 'ASH', printingNumber: 9999 } }], malformed: [] },
@@ -1,6 +1,6 @@
 import type { Card, SetKey } from './types'
 import type { CanonicalCatalog } from './inventory'
-import { normalize } from './search'
+import { aliasNames, normalize, typoDistance } from './search'
 
 export type DeckRole = 'leader' | 'base' | 'deck' | 'sideboard'
 /** Picklist format doesn't label its first two entries; the resolver splits this into leader/base. */
@@ -412,6 +412,36 @@ function cardMatchKey(name: string, subtitle?: string): string {
 
 type ResolvedIdentity = { setKey: SetKey; baseNumber: number; card: Card }
 
+type NameCandidate = { setKey: SetKey; card: Card }
+
+/**
+ * Cards an entry probably meant when its name and subtitle match nothing exactly: the name may be
+ * a nickname from the alias table or carry typos, and so may the subtitle. Keeps the candidates
+ * with the fewest edits, using the search box's typo allowance.
+ */
+function fuzzyNameCandidates(entry: RawDeckEntry, nameIndex: Map<string, NameCandidate[]>): NameCandidate[] {
+  const name = normalize(entry.name)
+  const subtitle = normalize(entry.subtitle ?? '')
+  const aliases = aliasNames(entry.name)
+  let best: NameCandidate[] = []
+  let bestDistance = Infinity
+  for (const candidates of nameIndex.values()) {
+    const { card } = candidates[0]
+    const nameDistance = aliases.includes(card.Name) ? 0 : typoDistance(name, normalize(card.Name))
+    const cardSubtitle = normalize(card.Subtitle ?? '')
+    const subtitleDistance = subtitle === cardSubtitle ? 0 : subtitle && cardSubtitle ? typoDistance(subtitle, cardSubtitle) : null
+    if (nameDistance === null || subtitleDistance === null) continue
+    const distance = nameDistance + subtitleDistance
+    if (distance < bestDistance) {
+      best = candidates
+      bestDistance = distance
+    } else if (distance === bestDistance) {
+      best = [...best, ...candidates]
+    }
+  }
+  return best
+}
+
 function resolveExact(
   candidate: DeckEntryCandidate,
   catalog: CanonicalCatalog,
@@ -496,7 +526,7 @@ export function resolveDeckList(
       }
     } else {
       const key = cardMatchKey(entry.name, entry.subtitle)
-      const candidates = nameIndex.get(key) ?? []
+      const candidates = nameIndex.get(key) ?? fuzzyNameCandidates(entry, nameIndex)
       if (candidates.length === 0) {
         unresolved.push({
           role: normalizeRoleForDisplay(entry.role),
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { binderLayout } from './binder'
+import { filingExtras, filingQueue, removeFilingEntry, type FilingEntry } from './filingSession'
+
+const entry = (id: number, baseNumber: number, extra = false, printingNumber = baseNumber): FilingEntry => ({
+  id,
+  baseNumber,
+  printingNumber,
+  variant: printingNumber === baseNumber ? 'normal' : 'hyperspace',
+  name: `Card ${baseNumber}`,
+  extra,
+})
+
+const entries = [entry(1, 40), entry(2, 3), entry(3, 12), entry(4, 3, false, 270), entry(5, 40, true), entry(6, 12, true)]
+
+describe('filingQueue', () => {
+  it('groups the binder copies per card in page and pocket order', () => {
+    const queue = filingQueue(entries, n => binderLayout(n))
+    expect(queue.map(stop => [stop.baseNumber, stop.copies])).toEqual([
+      [3, 2],
+      [12, 1],
+      [40, 1],
+    ])
+    expect(queue[2].pocket).toEqual({ page: 4, row: 1, column: 4 })
+  })
+
+  it('follows the pockets rather than the collector numbers', () => {
+    const reversed = filingQueue(entries, n => binderLayout(100 - n))
+    expect(reversed.map(stop => stop.baseNumber)).toEqual([40, 12, 3])
+  })
+})
+
+describe('filingExtras', () => {
+  it('keeps copies over quota apart, by collector number', () => {
+    expect(filingExtras(entries).map(stop => [stop.baseNumber, stop.copies])).toEqual([
+      [12, 1],
+      [40, 1],
+    ])
+  })
+})
+
+describe('removeFilingEntry', () => {
+  it('moves the latest extra copy into the binder when a binder copy is removed', () => {
+    const next = removeFilingEntry(entries, 1)
+    expect(next.map(e => e.id)).toEqual([2, 3, 4, 5, 6])
+    expect(next.find(e => e.id === 5)?.extra).toBe(false)
+  })
+
+  it('just drops an extra copy', () => {
+    expect(removeFilingEntry(entries, 6).filter(e => e.extra).map(e => e.id)).toEqual([5])
+  })
+
+  it('ignores unknown ids', () => {
+    expect(removeFilingEntry(entries, 99)).toBe(entries)
+  })
+})
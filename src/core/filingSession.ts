@@ -0,0 +1,68 @@
+import type { VariantKind } from './inventory'
+import { comparePockets, type Pocket } from './reorgPlan'
+import type { SetKey } from './types'
+
+/** One copy entered during a filing session, already added to the inventory. */
+export type FilingEntry = {
+  id: number
+  baseNumber: number
+  /** Printing number the copy was counted under; alternate printings count as their variant. */
+  printingNumber: number
+  /** Printing the copy was added as, so removing it takes back exactly that copy. */
+  variant: VariantKind
+  name: string
+  subtitle?: string
+  /** The binder already held the card's quota, so this copy goes on the extras pile. */
+  extra: boolean
+}
+
+export type FilingSession = {
+  setKey: SetKey
+  entries: FilingEntry[]
+}
+
+/** A card and how many of the session's copies go into its pocket (or onto the extras pile). */
+export type FilingStop = {
+  baseNumber: number
+  name: string
+  subtitle?: string
+  copies: number
+}
+
+function groupEntries(entries: FilingEntry[]): FilingStop[] {
+  const byNumber = new Map<number, FilingStop>()
+  for (const entry of entries) {
+    const stop = byNumber.get(entry.baseNumber)
+    if (stop) stop.copies++
+    else byNumber.set(entry.baseNumber, { baseNumber: entry.baseNumber, name: entry.name, subtitle: entry.subtitle, copies: 1 })
+  }
+  return [...byNumber.values()]
+}
+
+/** Copies that go into the binder, one stop per card, in page then pocket order. */
+export function filingQueue(
+  entries: FilingEntry[],
+  pocketOf: (baseNumber: number) => Pocket,
+): Array<FilingStop & { pocket: Pocket }> {
+  return groupEntries(entries.filter(entry => !entry.extra))
+    .map(stop => ({ ...stop, pocket: pocketOf(stop.baseNumber) }))
+    .sort((a, b) => comparePockets(a.pocket, b.pocket) || a.baseNumber - b.baseNumber)
+}
+
+/** Copies above quota, grouped by card in collector number order. */
+export function filingExtras(entries: FilingEntry[]): FilingStop[] {
+  return groupEntries(entries.filter(entry => entry.extra)).sort((a, b) => a.baseNumber - b.baseNumber)
+}
+
+/**
+ * Drops an entry. When it was headed for the binder, the card's latest extra copy takes its
+ * place so the binder still gets filled up to quota.
+ */
+export function removeFilingEntry(entries: FilingEntry[], id: number): FilingEntry[] {
+  const removed = entries.find(entry => entry.id === id)
+  if (!removed) return entries
+  const rest = entries.filter(entry => entry.id !== id)
+  if (removed.extra) return rest
+  const promoted = [...rest].reverse().find(entry => entry.extra && entry.baseNumber === removed.baseNumber)
+  return promoted ? rest.map(entry => (entry === promoted ? { ...entry, extra: false } : entry)) : rest
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import {
+  HISTORY_STORAGE_KEY,
+  MAX_HISTORY_ENTRIES,
+  applyChanges,
+  createJournalEntry,
+  diffInventories,
+  journalForSet,
+  loadInventoryJournal,
+  parseInventoryJournal,
+  persistInventoryJournal,
+  recordEntry,
+  redoEntry,
+  undoEntry,
+  type InventoryJournal,
+} from './history'
+
+let nextId = 0
+const entry = (changes: Parameters<typeof createJournalEntry>[1], source: 'click' | 'bulk' = 'click') =>
+  createJournalEntry(source, changes, undefined, { now: () => 1000, makeId: () => `e${++nextId}` })
+
+function fakeStorage(initial: Record<string, string> = {}) {
+  const store = new Map(Object.entries(initial))
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      store.set(key, value)
+    },
+  }
+}
+
+describe('diffInventories', () => {
+  it('lists added, changed and removed printings in key order', () => {
+    expect(diffInventories({ 10: 1, 87: 2, '87:foil': 1 }, { 87: 3, '87:foil': 1, 2: 1 })).toEqual([
+      { key: '2', before: 0, after: 1 },
+      { key: '10', before: 1, after: 0 },
+      { key: '87', before: 2, after: 3 },
+    ])
+  })
+})
+
+describe('applyChanges', () => {
+  it('reverses and replays a change set', () => {
+    const before = { 87: 2, 10: 1 }
+    const after = { 87: 3 }
+    const changes = diffInventories(before, after)
+
+    expect(applyChanges(after, changes, 'backward')).toEqual(before)
+    expect(applyChanges(before, changes, 'forward')).toEqual(after)
+  })
+
+  it('keeps later edits when reverting an older change', () => {
+    const changes = diffInventories({}, { 87: 1 })
+    expect(applyChanges({ 87: 3, 10: 1 }, changes, 'backward')).toEqual({ 87: 2, 10: 1 })
+    expect(applyChanges({}, changes, 'backward')).toEqual({})
+  })
+})
+
+describe('journal undo/redo', () => {
+  it('moves entries between the undo and redo stacks per set', () => {
+    const first = entry(diffInventories({}, { 87: 1 }))
+    const second = entry(diffInventories({ 87: 1 }, { 87: 2 }))
+    let journal: InventoryJournal = recordEntry(recordEntry({}, 'SOR', first), 'SOR', second)
+    journal = recordEntry(journal, 'SHD', entry(diffInventories({}, { 1: 1 })))
+
+    const undone = undoEntry(journal, 'SOR')!
+    expect(undone.entry).toBe(second)
+    expect(journalForSet(undone.journal, 'SOR')).toEqual({ past: [first], future: [second] })
+    expect(journalForSet(undone.journal, 'SHD').past).toHaveLength(1)
+
+    const redone = redoEntry(undone.journal, 'SOR')!
+    expect(redone.entry).toBe(second)
+    expect(journalForSet(redone.journal, 'SOR')).toEqual({ past: [first, second], future: [] })
+    expect(redoEntry(redone.journal, 'SOR')).toBeNull()
+    expect(undoEntry({}, 'SOR')).toBeNull()
+  })
+
+  it('clears the redo stack on a new change and drops the oldest entries', () => {
+    let journal = recordEntry({}, 'SOR', entry(diffInventories({}, { 87: 1 })))
+    journal = undoEntry(journal, 'SOR')!.journal
+    journal = recordEntry(journal, 'SOR', entry(diffInventories({}, { 10: 1 })))
+    expect(journalForSet(journal, 'SOR').future).toEqual([])
+
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) {
+      journal = recordEntry(journal, 'SOR', entry(diffInventories({}, { [i + 1]: 1 }), 'bulk'))
+    }
+    expect(journalForSet(journal, 'SOR').past).toHaveLength(MAX_HISTORY_ENTRIES)
+    expect(recordEntry(journal, 'SOR', entry([]))).toBe(journal)
+  })
+})
+
+describe('journal persistence', () => {
+  it('round-trips through storage', () => {
+    const storage = fakeStorage()
+    const journal = recordEntry({}, 'SOR', entry(diffInventories({}, { 87: 1 })))
+
+    expect(persistInventoryJournal(storage, journal)).toBe(true)
+    expect(storage.getItem(HISTORY_STORAGE_KEY)).not.toBeNull()
+    expect(loadInventoryJournal(storage)).toEqual(journal)
+  })
+
+  it('drops malformed entries and changes', () => {
+    expect(parseInventoryJournal('{nope')).toEqual({})
+    expect(
+      parseInventoryJournal(
+        JSON.stringify({
+          SOR: {
+            past: [
+              { id: 'a', at: 1, source: 'click', changes: [{ key: '87', before: 0, after: 1 }, { key: 87 }] },
+              { id: 'b', at: 2, source: 'teleport', changes: [{ key: '87', before: 1, after: 2 }] },
+              { id: 'c', at: 3, source: 'click', changes: [] },
+            ],
+          },
+          SHD: 'broken',
+        }),
+      ),
+    ).toEqual({
+      SOR: {
+        past: [{ id: 'a', at: 1, source: 'click', changes: [{ key: '87', before: 0, after: 1 }] }],
+        future: [],
+      },
+    })
+  })
+})
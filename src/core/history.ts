@@ -0,0 +1,200 @@
+import type { Inventory, SetKey } from './types'
+
+/** What produced an inventory change; `undo`/`redo` move existing entries instead of adding one. */
+export type ChangeSource =
+  | 'click'
+  | 'keyboard'
+  | 'bulk'
+  | 'filing'
+  | 'import'
+  | 'sync'
+  | 'reset'
+  | 'revert'
+  | 'undo'
+  | 'redo'
+
+/** One printing key's count before and after a change. */
+export type InventoryChange = { key: string; before: number; after: number }
+
+export type JournalEntry = {
+  id: string
+  /** Epoch milliseconds. */
+  at: number
+  source: ChangeSource
+  /** Short human description, e.g. the bulk action that ran. */
+  label?: string
+  changes: InventoryChange[]
+}
+
+/** `past` is oldest-first; `future` holds undone entries, most recently undone last. */
+export type SetJournal = { past: JournalEntry[]; future: JournalEntry[] }
+export type InventoryJournal = Record<SetKey, SetJournal>
+
+export const HISTORY_STORAGE_KEY = 'inv-history:v1'
+/** Oldest entries are dropped past this many per set. */
+export const MAX_HISTORY_ENTRIES = 100
+
+const emptySetJournal: SetJournal = { past: [], future: [] }
+
+export function journalForSet(journal: InventoryJournal, setKey: SetKey): SetJournal {
+  return journal[setKey] ?? emptySetJournal
+}
+
+/** Per-printing differences between two inventories, in key order. */
+export function diffInventories(before: Inventory, after: Inventory): InventoryChange[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  return [...keys]
+    .map(key => ({ key, before: before[key] ?? 0, after: after[key] ?? 0 }))
+    .filter(change => change.before !== change.after)
+    .sort((a, b) => a.key.localeCompare(b.key, undefined, { numeric: true }))
+}
+
+/**
+ * Replays (`forward`) or reverses (`backward`) a change set as deltas, so reverting an old entry
+ * keeps later edits to the same printings. Counts never drop below zero.
+ */
+export function applyChanges(
+  inventory: Inventory,
+  changes: InventoryChange[],
+  direction: 'forward' | 'backward',
+): Inventory {
+  const next: Inventory = { ...inventory }
+  for (const change of changes) {
+    const delta = (change.after - change.before) * (direction === 'forward' ? 1 : -1)
+    const count = Math.max(0, (next[change.key] ?? 0) + delta)
+    if (count > 0) next[change.key] = count
+    else delete next[change.key]
+  }
+  return next
+}
+
+export function createJournalEntry(
+  source: ChangeSource,
+  changes: InventoryChange[],
+  label?: string,
+  deps: { now?: () => number; makeId?: () => string } = {},
+): JournalEntry {
+  const now = deps.now ?? (() => Date.now())
+  const makeId = deps.makeId ?? (() => crypto.randomUUID())
+  return { id: makeId(), at: now(), source, ...(label ? { label } : {}), changes }
+}
+
+/** Appends a new entry, which discards the redo stack like any editor would. */
+export function recordEntry(
+  journal: InventoryJournal,
+  setKey: SetKey,
+  entry: JournalEntry,
+): InventoryJournal {
+  if (!entry.changes.length) return journal
+  const past = [...journalForSet(journal, setKey).past, entry].slice(-MAX_HISTORY_ENTRIES)
+  return { ...journal, [setKey]: { past, future: [] } }
+}
+
+export type JournalStep = { journal: InventoryJournal; entry: JournalEntry }
+
+export function undoEntry(journal: InventoryJournal, setKey: SetKey): JournalStep | null {
+  const { past, future } = journalForSet(journal, setKey)
+  const entry = past[past.length - 1]
+  if (!entry) return null
+  return {
+    journal: { ...journal, [setKey]: { past: past.slice(0, -1), future: [...future, entry] } },
+    entry,
+  }
+}
+
+export function redoEntry(journal: InventoryJournal, setKey: SetKey): JournalStep | null {
+  const { past, future } = journalForSet(journal, setKey)
+  const entry = future[future.length - 1]
+  if (!entry) return null
+  return {
+    journal: { ...journal, [setKey]: { past: [...past, entry], future: future.slice(0, -1) } },
+    entry,
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+const SOURCES = new Set<ChangeSource>([
+  'click',
+  'keyboard',
+  'bulk',
+  'filing',
+  'import',
+  'sync',
+  'reset',
+  'revert',
+  'undo',
+  'redo',
+])
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+function parseEntry(value: unknown): JournalEntry | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.at !== 'number') return null
+  if (!SOURCES.has(value.source as ChangeSource) || !Array.isArray(value.changes)) return null
+  const changes = value.changes.filter(
+    (change): change is InventoryChange =>
+      isRecord(change) &&
+      typeof change.key === 'string' &&
+      isCount(change.before) &&
+      isCount(change.after),
+  )
+  if (!changes.length) return null
+  return {
+    id: value.id,
+    at: value.at,
+    source: value.source as ChangeSource,
+    ...(typeof value.label === 'string' && value.label ? { label: value.label } : {}),
+    changes,
+  }
+}
+
+function parseEntries(value: unknown): JournalEntry[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .map(parseEntry)
+    .filter((entry): entry is JournalEntry => entry !== null)
+    .slice(-MAX_HISTORY_ENTRIES)
+}
+
+export function parseInventoryJournal(raw: string | null): InventoryJournal {
+  if (!raw) return {}
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!isRecord(parsed)) return {}
+    return Object.fromEntries(
+      Object.entries(parsed)
+        .filter(([, value]) => isRecord(value))
+        .map(([setKey, value]) => {
+          const record = value as Record<string, unknown>
+          return [setKey, { past: parseEntries(record.past), future: parseEntries(record.future) }]
+        }),
+    )
+  } catch {
+    return {}
+  }
+}
+
+export function loadInventoryJournal(storage: Pick<Storage, 'getItem'>): InventoryJournal {
+  try {
+    return parseInventoryJournal(storage.getItem(HISTORY_STORAGE_KEY))
+  } catch {
+    return {}
+  }
+}
+
+export function persistInventoryJournal(
+  storage: Pick<Storage, 'setItem'>,
+  journal: InventoryJournal,
+): boolean {
+  try {
+    storage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(journal))
+    return true
+  } catch {
+    return false
+  }
+}
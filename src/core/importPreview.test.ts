@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { importChangeId, previewImport, selectedImportInventories } from './importPreview'
+import type { CanonicalCatalog } from './inventory'
+
+const catalog: CanonicalCatalog = new Map([
+  ['SOR:10', { setKey: 'SOR', printingNumber: 10, baseNumber: 10, type: 'Unit' }],
+  ['SOR:87', { setKey: 'SOR', printingNumber: 87, baseNumber: 87, type: 'Leader' }],
+  ['SHD:5', { setKey: 'SHD', printingNumber: 5, baseNumber: 5, type: 'Unit' }],
+])
+
+const quotaOf = (_setKey: string, baseNumber: number) => (baseNumber === 87 ? 1 : 3)
+const current = { SOR: { 10: 2, 87: 1 }, SHD: { 5: 1 } }
+const none = { sets: new Set<string>(), cards: new Set<string>() }
+
+describe('previewImport', () => {
+  it('lists per-printing changes and flags cards pushed above their quota', () => {
+    const previews = previewImport(current, { SOR: { 87: 1, '10:foil': 1 } }, 'merge', catalog, quotaOf)
+
+    expect(previews).toEqual([
+      {
+        setKey: 'SOR',
+        before: { 10: 2, 87: 1 },
+        changes: [
+          { key: '10:foil', baseNumber: 10, variant: 'foil', before: 0, after: 1, zeroed: false, overQuota: false },
+          { key: '87', baseNumber: 87, variant: 'normal', before: 1, after: 2, zeroed: false, overQuota: true },
+        ],
+      },
+    ])
+  })
+
+  it('marks printings that replace would remove and skips sets without changes', () => {
+    const previews = previewImport(current, { SOR: { 87: 1 }, SHD: { 5: 1 } }, 'replace', catalog, quotaOf)
+
+    expect(previews.map(preview => preview.setKey)).toEqual(['SOR'])
+    expect(previews[0].changes).toEqual([
+      { key: '10', baseNumber: 10, variant: 'normal', before: 2, after: 0, zeroed: true, overQuota: false },
+    ])
+  })
+})
+
+describe('selectedImportInventories', () => {
+  it('keeps current counts for unticked cards and leaves unticked sets out', () => {
+    const previews = previewImport(
+      current,
+      { SOR: { 10: 1, 87: 1 }, SHD: { 5: 2 } },
+      'merge',
+      catalog,
+      quotaOf,
+    )
+
+    expect(selectedImportInventories(previews, none)).toEqual({ SOR: { 10: 3, 87: 2 }, SHD: { 5: 3 } })
+    expect(
+      selectedImportInventories(previews, { sets: new Set(['SHD']), cards: new Set([importChangeId('SOR', '87')]) }),
+    ).toEqual({ SOR: { 10: 3, 87: 1 } })
+  })
+
+  it('drops zeroed printings from replaced sets', () => {
+    const previews = previewImport(current, { SOR: { 87: 1 } }, 'replace', catalog, quotaOf)
+    expect(selectedImportInventories(previews, none)).toEqual({ SOR: { 87: 1 } })
+  })
+})
@@ -0,0 +1,94 @@
+import { diffInventories } from './history'
+import {
+  applyImportedInventories,
+  canonicalizeInventory,
+  parsePrintingKey,
+  rollupInventory,
+  type CanonicalCatalog,
+  type ImportMode,
+  type VariantKind,
+} from './inventory'
+import type { Inventory, SetKey } from './types'
+
+/** One printing whose count the import would change. */
+export type ImportCardChange = {
+  key: string
+  baseNumber: number
+  variant: VariantKind
+  before: number
+  after: number
+  /** Replace drops a printing the import doesn't mention. */
+  zeroed: boolean
+  /** The base card would end up above its quota; the extra copies become trade stock. */
+  overQuota: boolean
+}
+
+export type ImportSetPreview = {
+  setKey: SetKey
+  /** Canonical inventory before the import. */
+  before: Inventory
+  changes: ImportCardChange[]
+}
+
+/** Sets and printings the user unticked in the preview; card ids come from `importChangeId`. */
+export type ImportExclusions = { sets: ReadonlySet<SetKey>; cards: ReadonlySet<string> }
+
+export const importChangeId = (setKey: SetKey, key: string) => `${setKey}|${key}`
+
+/**
+ * Per-set changes the import would make under `mode`, computed with the same merge/replace rules
+ * that apply it. Sets whose counts would not change are left out.
+ */
+export function previewImport(
+  current: Record<SetKey, Inventory>,
+  imported: Record<SetKey, Inventory>,
+  mode: ImportMode,
+  catalog: CanonicalCatalog,
+  quotaOf: (setKey: SetKey, baseNumber: number) => number,
+): ImportSetPreview[] {
+  const result = applyImportedInventories(current, imported, mode, catalog)
+  const previews: ImportSetPreview[] = []
+  for (const setKey of Object.keys(imported).sort()) {
+    const after = result.inventories[setKey]
+    if (!after) continue
+    const before = canonicalizeInventory(setKey, current[setKey] ?? {}, catalog)
+    const totalsAfter = rollupInventory(after)
+    const changes: ImportCardChange[] = []
+    for (const change of diffInventories(before, after)) {
+      const parsed = parsePrintingKey(change.key)
+      if (!parsed) continue
+      changes.push({
+        ...change,
+        baseNumber: parsed.number,
+        variant: parsed.variant,
+        zeroed: change.after === 0,
+        overQuota: (totalsAfter[parsed.number] ?? 0) > quotaOf(setKey, parsed.number),
+      })
+    }
+    if (changes.length) previews.push({ setKey, before, changes })
+  }
+  return previews
+}
+
+/**
+ * Inventories to write for the sets still selected. Unticked printings keep their current count;
+ * unticked sets are left out entirely.
+ */
+export function selectedImportInventories(
+  previews: ImportSetPreview[],
+  exclusions: ImportExclusions,
+): Record<SetKey, Inventory> {
+  const selected: Record<SetKey, Inventory> = {}
+  for (const { setKey, before, changes } of previews) {
+    if (exclusions.sets.has(setKey)) continue
+    const applied = changes.filter(change => !exclusions.cards.has(importChangeId(setKey, change.key)))
+    if (!applied.length) continue
+    const inventory: Inventory = { ...before }
+    for (const change of applied) {
+      if (change.after > 0) inventory[change.key] = change.after
+      else delete inventory[change.key]
+    }
+    selected[setKey] = inventory
+  }
+  return selected
+}
@@ -1,7 +1,9 @@
 import { describe, expect, it } from 'vitest'
 import * as XLSX from 'xlsx'
 import { parseCsvData, parseXlsxData } from '../App'
+import { decodeCsvBytes, inventoryTableCsv } from './csv'
 import type { CanonicalCatalog } from './inventory'
+import { collectionWorkbookSheets } from './workbook'
 
 const catalog: CanonicalCatalog = new Map([
   ['SOR:87', { setKey: 'SOR', printingNumber: 87, baseNumber: 87, type: 'Unit' }],
@@ -27,6 +29,41 @@ describe('inventory import parser statistics', () => {
     expect(parsed.skipped).toBe(3)
   })
 
+  it('keeps the SWUDB foil flag as a separate printing', () => {
+    const parsed = parseCsvData(
+      'inventory.csv',
+      ['Set,CardNumber,Count,IsFoil', 'SOR,87,1,false', 'SOR,87,1,true', 'SOR,351,1,true'].join('\n'),
+      catalog,
+    )
+
+    expect(parsed.inventories).toEqual({
+      SOR: { 87: 1, '87:foil': 1, '87:hyperspace-foil': 1 },
+    })
+  })
+
+  it('keeps SW-Unlimited variant columns as separate printings', () => {
+    const parsed = parseCsvData(
+      'inventory.csv',
+      ['Set,Base card id,Normal,Foil,Hyperspace', 'SOR,87,1,0,2', 'SOR,10,0,0,0'].join('\n'),
+      catalog,
+    )
+
+    expect(parsed.inventories).toEqual({ SOR: { 87: 1, '87:hyperspace': 2 } })
+    expect(parsed.recognized).toBe(2)
+    expect(parsed.skipped).toBe(1)
+  })
+
+  it('reads printing keys from version 2 JSON exports', () => {
+    const parsed = parseCsvData(
+      'inventory.json',
+      JSON.stringify({ version: 2, sets: { SOR: { 87: 1, '87:showcase': 1, '87:bogus': 1 } } }),
+      catalog,
+    )
+
+    expect(parsed.inventories).toEqual({ SOR: { 87: 1, '87:showcase': 1 } })
+    expect(parsed.skipped).toBe(1)
+  })
+
   it('counts malformed and reserved JSON entries as skipped', () => {
     const parsed = parseCsvData(
       'inventory.json',
@@ -77,4 +114,130 @@ describe('inventory import parser statistics', () => {
     expect(parsed.recognized).toBe(1)
     expect(parsed.skipped).toBe(2)
   })
+
+  it('keeps XLSX variant columns as separate printings', async () => {
+    const sheet = XLSX.utils.json_to_sheet([
+      { Set: 'SOR', 'Base card id': 87, Normal: 1, 'Foil & Hyperspace': 1 },
+    ])
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Inventory')
+    const bytes = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })
+
+    const parsed = await parseXlsxData(new File([bytes], 'inventory.xlsx'), catalog)
+
+    expect(parsed.inventories).toEqual({ SOR: { 87: 1, '87:hyperspace-foil': 1 } })
+  })
+})
+
+// Exports as each source writes them, including the quirks the old regex splitter broke on.
+const SWUDB_FIXTURE = [
+  'Set,CardNumber,Count,IsFoil,CardName',
+  'SOR,087,2,false,"Darth Vader, Dark Lord of the Sith"',
+  'SOR,087,1,true,"Darth Vader, Dark Lord of the Sith"',
+  'SOR,351,1,false,"The ""Chosen"" One',
+  'of many lines"',
+].join('\r\n')
+
+const SW_UNLIMITED_FIXTURE = [
+  'Set;Base card id;Name;Normal;Foil;Hyperspace;Foil Hyperspace',
+  'SOR;87;"Darth Vader; Dark Lord";1;0;2;1',
+  'SOR;10;Battlefield Marine;0;0;0;0',
+].join('\n')
+
+describe('inventory import source fixtures', () => {
+  it('reads SWUDB exports with quoted names, escaped quotes and multi-line fields', () => {
+    const parsed = parseCsvData('swudb.csv', `\uFEFF${SWUDB_FIXTURE}`, catalog)
+
+    expect(parsed.inventories).toEqual({ SOR: { 87: 2, '87:foil': 1, '87:hyperspace': 1 } })
+    expect(parsed.skipped).toBe(0)
+  })
+
+  it('reads semicolon-delimited SW-Unlimited exports saved by European Excel', () => {
+    const bytes = new Uint8Array([0xff, 0xfe, ...Array.from(SW_UNLIMITED_FIXTURE, char => [char.charCodeAt(0), 0]).flat()])
+    const parsed = parseCsvData('sw-unlimited.csv', decodeCsvBytes(bytes), catalog)
+
+    expect(parsed.inventories).toEqual({ SOR: { 87: 1, '87:hyperspace': 2, '87:hyperspace-foil': 1 } })
+    expect(parsed.skipped).toBe(1)
+  })
+
+  it('reads every set sheet of the app’s workbook export back, skipping the summary', async () => {
+    const workbook = XLSX.utils.book_new()
+    const sheets = collectionWorkbookSheets(
+      [{ setKey: 'SOR', setName: 'Spark of Rebellion', cards: [{ Name: 'Darth Vader', Number: 87, Set: 'SOR', MarketPrice: 2 }] }],
+      { SOR: { 87: 1, '87:foil': 2, '87:hyperspace': 1 } },
+      () => 3,
+      () => 2,
+    )
+    for (const sheet of sheets) XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheet.rows), sheet.name)
+    const bytes = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })
+
+    const parsed = await parseXlsxData(new File([bytes], 'collection.xlsx'), catalog)
+
+    expect(parsed.inventories).toEqual({ SOR: { 87: 1, '87:foil': 2, '87:hyperspace': 1 } })
+    expect(parsed.skipped).toBe(0)
+  })
+
+  it('imports the app’s own inventory CSV export', () => {
+    const csv = inventoryTableCsv('SOR', [
+      {
+        Number: 87,
+        Name: 'Darth Vader',
+        Subtitle: 'Dark Lord of the Sith, "Lord Vader"',
+        Type: 'Leader',
+        Price: 12,
+        Printings: { normal: 1, foil: 1, showcase: 1 },
+      },
+    ])
+    const parsed = parseCsvData('SWU-SOR-Inventory.csv', csv, catalog)
+
+    expect(parsed.inventories).toEqual({ SOR: { 87: 1, '87:foil': 1, '87:showcase': 1 } })
+    expect(parsed.skipped).toBe(0)
+  })
+})
+
+describe('skipped-row report', () => {
+  it('names the source line and reason of every rejected CSV row', () => {
+    const parsed = parseCsvData(
+      'inventory.csv',
+      [
+        'Set,CardNumber,Count,CardName',
+        'SOR,87,1,"Darth Vader',
+        'Dark Lord"',
+        '',
+        'SOR,9999,2,Unknown',
+        'XYZ,1,1,Unknown set',
+        'SOR,87,lots,Vader',
+        'SOR,,1,No number',
+      ].join('\n'),
+      catalog,
+    )
+
+    expect(parsed.skipped).toBe(4)
+    expect(parsed.rejected).toEqual([
+      { row: 'line 7', set: 'SOR', number: '87', quantity: 'lots', reason: 'bad-quantity' },
+      { row: 'line 8', set: 'SOR', number: '', quantity: '1', reason: 'malformed-row' },
+      { row: 'line 5', set: 'SOR', number: '9999', quantity: '2', reason: 'unknown-printing' },
+      { row: 'line 6', set: 'XYZ', number: '1', quantity: '1', reason: 'unknown-set' },
+    ])
+  })
+
+  it('traces every row that fed a rejected printing and labels XLSX sheet rows', async () => {
+    const sheet = XLSX.utils.json_to_sheet([
+      { Set: 'SOR', 'Base card id': 9999, Normal: 1 },
+      { Set: 'SOR', 'Base card id': 87, Normal: 1 },
+      { Set: 'SOR', 'Base card id': 9999, Normal: 0, Foil: 2 },
+      { Set: 'SOR', 'Base card id': 10, Normal: 0, Foil: 0 },
+    ])
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Collection')
+    const bytes = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })
+
+    const parsed = await parseXlsxData(new File([bytes], 'inventory.xlsx'), catalog)
+
+    expect(parsed.rejected.map(r => [r.row, r.number, r.quantity, r.reason])).toEqual([
+      ['Collection row 5', '10', '0', 'no-copies'],
+      ['Collection row 2', '9999', '1', 'unknown-printing'],
+      ['Collection row 4', '9999', '2', 'unknown-printing'],
+    ])
+  })
 })
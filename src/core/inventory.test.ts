@@ -5,11 +5,23 @@ import {
   applyImportedInventories,
   canonicalizeInventory,
   collectRawImportEntry,
+  collectRawImportRow,
+  createImportLog,
+  finishImport,
   createInventoryExportSnapshot,
+  decrementPrinting,
+  incrementPrinting,
+  labelAlternatePrintings,
   loadInventoriesForPersistence,
+  mergeHigherCounts,
   migrateLegacyInventories,
   persistCanonicalInventory,
+  printingNumberLookup,
   removePersistedInventory,
+  rollupInventory,
+  splitPlayset,
+  surplusPrintings,
+  variantFromLabel,
   type CanonicalCatalog,
 } from './inventory'
 
@@ -53,11 +65,99 @@ const catalog: CanonicalCatalog = new Map([
 ])
 
 describe('canonical inventory', () => {
-  it('combines printings at the base card and caps after aggregation', () => {
-    expect(canonicalizeInventory('SOR', { 87: 2, 351: 2 }, catalog)).toEqual({ 87: 3 })
+  it('keeps alternate printings as variants of the base card without capping them', () => {
+    expect(canonicalizeInventory('SOR', { 87: 2, 351: 2 }, catalog)).toEqual({
+      87: 2,
+      '87:hyperspace': 2,
+    })
+  })
+
+  it('combines a reported finish with the printing variant', () => {
+    expect(
+      canonicalizeInventory('SOR', { '87:foil': 1, '351:foil': 1, '87:showcase': 1 }, catalog),
+    ).toEqual({
+      '87:foil': 1,
+      '87:hyperspace-foil': 1,
+      '87:showcase': 1,
+    })
+  })
+
+  it('uses catalog variants for printings that are not hyperspace', () => {
+    const showcaseCatalog: CanonicalCatalog = new Map([
+      ...catalog,
+      ['SOR:270', { setKey: 'SOR', printingNumber: 270, baseNumber: 87, type: 'Unit', variant: 'showcase' }],
+    ])
+
+    expect(canonicalizeInventory('SOR', { 270: 1 }, showcaseCatalog)).toEqual({ '87:showcase': 1 })
+  })
+
+  it('tells the showcase leader from the hyperspace one when set data names neither', () => {
+    // SOR Boba Fett: leader #15, hyperspace and showcase printings #265 and #281.
+    const leaderCatalog = labelAlternatePrintings(
+      new Map([
+        ...catalog,
+        ['SOR:15', { setKey: 'SOR', printingNumber: 15, baseNumber: 15, type: 'Leader' }],
+        ['SOR:265', { setKey: 'SOR', printingNumber: 265, baseNumber: 15, type: 'Leader' }],
+        ['SOR:281', { setKey: 'SOR', printingNumber: 281, baseNumber: 15, type: 'Leader' }],
+      ]),
+    )
+
+    expect(canonicalizeInventory('SOR', { 15: 1, 265: 2, 281: 1, 351: 1 }, leaderCatalog)).toEqual({
+      15: 1,
+      '15:hyperspace': 2,
+      '15:showcase': 1,
+      '87:hyperspace': 1,
+    })
+    const numberOf = printingNumberLookup(leaderCatalog)
+    expect(numberOf('SOR', 15, 'hyperspace')).toBe(265)
+    expect(numberOf('SOR', 15, 'showcase')).toBe(281)
+  })
+
+  it('looks up the collector number each printing is priced by', () => {
+    const numberOf = printingNumberLookup(catalog)
+
+    expect(numberOf('SOR', 87, 'hyperspace')).toBe(351)
+    expect(numberOf('SOR', 87, 'normal')).toBe(87)
+    expect(numberOf('SOR', 87, 'foil')).toBe(87)
+  })
+
+  it('rolls printings up to base card totals', () => {
+    expect(rollupInventory({ 87: 1, '87:foil': 2, 10: 1, 'bogus:foil': 4 })).toEqual({ 87: 3, 10: 1 })
+  })
+
+  it('adds copies of the filing variant past the quota', () => {
+    let inventory = incrementPrinting({ 87: 3 }, 87, 'foil')
+    expect(inventory).toEqual({ 87: 3, '87:foil': 1 })
+    inventory = incrementPrinting(inventory, 87, 'foil', 2)
+    expect(inventory).toEqual({ 87: 3, '87:foil': 3 })
+  })
+
+  it('removes the requested variant first and falls back to another owned variant', () => {
+    expect(decrementPrinting({ 87: 1, '87:foil': 1 }, 87, 'foil')).toEqual({ 87: 1 })
+    expect(decrementPrinting({ 87: 1, '87:foil': 1 }, 87, 'showcase')).toEqual({ 87: 1 })
+    expect(decrementPrinting({ 87: 2 }, 87, 'foil')).toEqual({ 87: 1 })
+    expect(decrementPrinting({}, 87, 'normal')).toEqual({})
+  })
+
+  it('matches export column headers to variant kinds', () => {
+    expect(variantFromLabel('Foil & Hyperspace')).toBe('hyperspace-foil')
+    expect(variantFromLabel('organized play foil')).toBe('organized-play-foil')
+    expect(variantFromLabel('Normal')).toBe('normal')
+    expect(variantFromLabel('Notes')).toBeUndefined()
+  })
+
+  it('splits owned copies into the playset and trade surplus', () => {
+    expect(splitPlayset(7, 3)).toEqual({ owned: 7, playset: 3, surplus: 4 })
+    expect(splitPlayset(2, 3)).toEqual({ owned: 2, playset: 2, surplus: 0 })
+  })
+
+  it('fills the playset with normal copies before special printings', () => {
+    expect(surplusPrintings({ normal: 2, foil: 1, hyperspace: 2 }, 3)).toEqual({ hyperspace: 2 })
+    expect(surplusPrintings({ foil: 1 }, 0)).toEqual({ foil: 1 })
+    expect(surplusPrintings({ normal: 1 }, 3)).toEqual({})
   })
 
-  it('uses the destination set quota during cross-set merge', () => {
+  it('keeps every imported copy during merge, including copies above the quota', () => {
     const result = applyImportedInventories(
       { SHD: { 1: 1 } },
       { SHD: { 1: 2 } },
@@ -65,7 +165,20 @@ describe('canonical inventory', () => {
       catalog,
     )
 
-    expect(result.inventories.SHD).toEqual({ 1: 1 })
+    expect(result.inventories.SHD).toEqual({ 1: 3 })
+  })
+
+  it('merges two collections by keeping the higher count of each printing', () => {
+    expect(
+      mergeHigherCounts(
+        { SOR: { 87: 2, '87:foil': 1 }, ARBITRARY: { 87: 1 } },
+        { SOR: { 87: 1, 351: 1 }, SHD: { 1: 1 } },
+        catalog,
+      ),
+    ).toEqual({
+      SOR: { 87: 2, '87:foil': 1, '87:hyperspace': 1 },
+      SHD: { 1: 1 },
+    })
   })
 
   it('canonicalizes retained current sets even when another set is imported', () => {
@@ -76,7 +189,7 @@ describe('canonical inventory', () => {
       catalog,
     )
 
-    expect(result.inventories.SOR).toEqual({ 87: 2 })
+    expect(result.inventories.SOR).toEqual({ '87:hyperspace': 2 })
   })
 
   it('skips unknown and malformed entries', () => {
@@ -93,7 +206,7 @@ describe('canonical inventory', () => {
       catalog,
     )
 
-    expect(result.inventories.SOR).toEqual({ 87: 2 })
+    expect(result.inventories.SOR).toEqual({ 87: 1, '87:hyperspace': 1 })
     expect(result.recognized).toBe(2)
     expect(result.skipped).toBe(1)
   })
@@ -128,20 +241,63 @@ describe('canonical inventory', () => {
     expect(normalized.skipped + skipped).toBe(2)
   })
 
+  it('collects every variant column of a row and skips rows that own nothing', () => {
+    const raw: Record<string, Record<string, number>> = {}
+
+    expect(collectRawImportRow(raw, 'SOR', 87, { normal: 1, foil: '2', showcase: '' })).toBe(true)
+    expect(collectRawImportRow(raw, 'SOR', 10, { normal: 0, foil: 0 })).toBe(false)
+
+    expect(raw).toEqual({ SOR: { 87: 1, '87:foil': 2 } })
+  })
+
+  it('logs why rows were rejected and traces catalog rejections back to their rows', () => {
+    const raw: Record<string, Record<string, number>> = {}
+    const log = createImportLog()
+
+    collectRawImportRow(raw, 'SOR', 10, { normal: 0, foil: '' }, { row: 'line 2', log })
+    collectRawImportRow(raw, 'SOR', 87, { normal: 'two' }, { row: 'line 3', log })
+    collectRawImportEntry(raw, 'sor', 9999, 1, 'foil', { row: 'line 4', log })
+    collectRawImportEntry(raw, 'SOR', 87, 1, 'normal', { row: 'line 5', log })
+    const result = finishImport(raw, catalog, log)
+
+    expect(result.inventories).toEqual({ SOR: { 87: 1 } })
+    expect(result.skipped).toBe(3)
+    expect(result.rejected).toEqual([
+      { row: 'line 2', set: 'SOR', number: '10', quantity: '0', reason: 'no-copies' },
+      { row: 'line 3', set: 'SOR', number: '87', quantity: 'two', reason: 'bad-quantity' },
+      { row: 'line 4', set: 'sor', number: '9999', quantity: '1', reason: 'unknown-printing' },
+    ])
+  })
+
   it('backs up and migrates legacy data only once', () => {
     const storage = new MemoryStorage({
       'inv:SOR': JSON.stringify({ 87: 2, 351: 2 }),
     })
 
     const first = migrateLegacyInventories(storage, ['SOR'], catalog)
-    expect(first.SOR).toEqual({ 87: 3 })
+    expect(first.SOR).toEqual({ 87: 2, '87:hyperspace': 2 })
     expect(storage.getItem(INVENTORY_BACKUP_KEY)).toContain('351')
-    expect(storage.getItem(INVENTORY_SCHEMA_KEY)).toBe('2')
+    expect(storage.getItem(INVENTORY_SCHEMA_KEY)).toBe('3')
 
     storage.setItem('inv:SOR', JSON.stringify({ 87: 1 }))
     expect(migrateLegacyInventories(storage, ['SOR'], catalog).SOR).toEqual({ 87: 1 })
   })
 
+  it('keeps v2 base-card counts as normal copies', () => {
+    const storage = new MemoryStorage({
+      'inv:SOR': JSON.stringify({ 87: 2, 10: 1 }),
+      'inv:migration:v2:backup': JSON.stringify({ SOR: '{"351":2}' }),
+      [INVENTORY_SCHEMA_KEY]: '2',
+    })
+
+    expect(migrateLegacyInventories(storage, ['SOR'], catalog).SOR).toEqual({ 87: 2, 10: 1 })
+    expect(JSON.parse(storage.getItem(INVENTORY_BACKUP_KEY) ?? '{}')).toEqual({
+      SOR: JSON.stringify({ 87: 2, 10: 1 }),
+    })
+    expect(storage.getItem('inv:migration:v2:backup')).toContain('351')
+    expect(storage.getItem(INVENTORY_SCHEMA_KEY)).toBe('3')
+  })
+
   it('writes the backup before normalized inventories and marks the schema last', () => {
     const storage = new MemoryStorage({ 'inv:SOR': JSON.stringify({ 351: 2 }) })
     const writes: string[] = []
@@ -214,15 +370,26 @@ describe('canonical inventory', () => {
   it('persists successful imports and authorized removals after schema migration', () => {
     const storage = new MemoryStorage({
       'inv:SOR': JSON.stringify({ 87: 1 }),
-      [INVENTORY_SCHEMA_KEY]: '2',
+      [INVENTORY_SCHEMA_KEY]: '3',
     })
 
     expect(persistCanonicalInventory(storage, 'SOR', { 351: 2 }, catalog)).toBe(true)
-    expect(storage.getItem('inv:SOR')).toBe(JSON.stringify({ 87: 2 }))
+    expect(storage.getItem('inv:SOR')).toBe(JSON.stringify({ '87:hyperspace': 2 }))
     expect(removePersistedInventory(storage, 'SOR', catalog)).toBe(true)
     expect(storage.getItem('inv:SOR')).toBeNull()
   })
 
+  it('saves and reloads copies above every quota unchanged', () => {
+    const storage = new MemoryStorage({ [INVENTORY_SCHEMA_KEY]: '3' })
+
+    expect(persistCanonicalInventory(storage, 'SOR', { 10: 3, 87: 8, 351: 5 }, catalog)).toBe(true)
+    expect(loadInventoriesForPersistence(storage, ['SOR'], catalog).inventories.SOR).toEqual({
+      10: 3,
+      87: 8,
+      '87:hyperspace': 5,
+    })
+  })
+
   it('exports the current set from memory even when its saved record is stale', () => {
     const storage = new MemoryStorage({
       'inv:SOR': JSON.stringify({ 87: 1 }),
@@ -1,10 +1,51 @@
-import type { Inventory, SetKey } from './types'
+import type { QuotaResolver } from './quotas'
+import type { BaseTotals, Inventory, SetKey } from './types'
+
+/** Printing kinds tracked separately, in the column order used by SW-Unlimited exports. */
+export const VARIANT_KINDS = [
+  'normal',
+  'foil',
+  'hyperspace',
+  'hyperspace-foil',
+  'showcase',
+  'organized-play',
+  'event-exclusive',
+  'prerelease-promo',
+  'organized-play-foil',
+  'standard-prestige',
+  'foil-prestige',
+  'serialized-prestige',
+] as const
+
+export type VariantKind = (typeof VARIANT_KINDS)[number]
+export type VariantCounts = Partial<Record<VariantKind, number>>
+
+export const VARIANT_LABELS: Record<VariantKind, string> = {
+  normal: 'Normal',
+  foil: 'Foil',
+  hyperspace: 'Hyperspace',
+  'hyperspace-foil': 'Foil & Hyperspace',
+  showcase: 'Showcase',
+  'organized-play': 'Organized Play',
+  'event-exclusive': 'Event Exclusive',
+  'prerelease-promo': 'Prerelease Promo',
+  'organized-play-foil': 'Organized Play Foil',
+  'standard-prestige': 'Standard Prestige',
+  'foil-prestige': 'Foil Prestige',
+  'serialized-prestige': 'Serialized Prestige',
+}
 
 export type CanonicalCardRef = {
   setKey: SetKey
   printingNumber: number
   baseNumber: number
   type?: string
+  rarity?: string
+  /**
+   * Variant a printing number represents on its own; alternate numbers default to hyperspace (see
+   * `labelAlternatePrintings`).
+   */
+  variant?: VariantKind
 }
 
 export type CanonicalCatalog = Map<string, CanonicalCardRef>
@@ -13,8 +54,54 @@ export type ImportResult = {
   inventories: Record<SetKey, Inventory>
   recognized: number
   skipped: number
+  /** Every source row behind the skipped entries, in file order. */
+  rejected: ImportRejection[]
+}
+
+export const IMPORT_REJECT_REASONS = [
+  'unknown-set',
+  'unknown-printing',
+  'bad-quantity',
+  'malformed-row',
+  'unknown-card',
+  'ambiguous-card',
+  'no-copies',
+] as const
+export type ImportRejectReason = (typeof IMPORT_REJECT_REASONS)[number]
+
+export const IMPORT_REJECT_REASON_LABELS: Record<ImportRejectReason, string> = {
+  'unknown-set': 'Unknown set',
+  'unknown-printing': 'Unknown printing',
+  'bad-quantity': 'Bad quantity',
+  'malformed-row': 'Malformed row',
+  'unknown-card': 'No card with this name',
+  'ambiguous-card': 'Name matches several cards',
+  'no-copies': 'No copies',
+}
+
+/** Raw values of one source row as they appeared in the file. */
+export type ImportRowSource = {
+  /** Where the row is in the file, e.g. "line 12", "Inventory row 4" or "sets.SOR.87". */
+  row: string
+  set: string
+  number: string
+  quantity: string
+}
+
+export type ImportRejection = ImportRowSource & { reason: ImportRejectReason }
+
+/**
+ * Collects rejected rows while a file is parsed, and remembers which rows fed each collected
+ * printing so entries the catalog rejects later can still be traced back to the file.
+ */
+export type ImportLog = {
+  rejected: ImportRejection[]
+  /** Source rows per `set|raw printing key`. */
+  origins: Map<string, ImportRowSource[]>
 }
 
+export const createImportLog = (): ImportLog => ({ rejected: [], origins: new Map() })
+
 export type InventoryLoadResult = {
   inventories: Record<SetKey, Inventory>
   migrationSucceeded: boolean
@@ -22,15 +109,150 @@ export type InventoryLoadResult = {
   persistenceAllowed: boolean
 }
 
-export const INVENTORY_SCHEMA_VERSION = '2'
+export const INVENTORY_SCHEMA_VERSION = '3'
 export const INVENTORY_SCHEMA_KEY = 'inv:schema-version'
-export const INVENTORY_BACKUP_KEY = 'inv:migration:v2:backup'
+export const INVENTORY_BACKUP_KEY = 'inv:migration:v3:backup'
 
 export function quotaForType(type?: string): number {
   const normalized = (type ?? '').trim().toLowerCase()
   return normalized === 'leader' || normalized === 'base' ? 1 : 3
 }
 
+/** Premier playset caps, used wherever no quota profile is supplied. */
+export const defaultQuota: QuotaResolver = card => quotaForType(card.type)
+
+const labelKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '')
+
+const VARIANT_ALIASES: Record<string, VariantKind> = {
+  hyperspacefoil: 'hyperspace-foil',
+  foilhyperspace: 'hyperspace-foil',
+  standard: 'normal',
+  nonfoil: 'normal',
+  ...Object.fromEntries(VARIANT_KINDS.flatMap(kind => [
+    [labelKey(kind), kind],
+    [labelKey(VARIANT_LABELS[kind]), kind],
+  ])),
+}
+
+/** Match an export column header or a card's `VariantType` to a tracked variant kind. */
+export function variantFromLabel(label: unknown): VariantKind | undefined {
+  if (typeof label !== 'string') return undefined
+  return VARIANT_ALIASES[labelKey(label)]
+}
+
+export function printingKey(baseNumber: number, variant: VariantKind = 'normal'): string {
+  return variant === 'normal' ? String(baseNumber) : `${baseNumber}:${variant}`
+}
+
+export function parsePrintingKey(key: string): { number: number; variant: VariantKind } | null {
+  const [rawNumber, rawVariant, ...rest] = key.split(':')
+  const number = Number(rawNumber)
+  if (rest.length > 0 || !rawNumber || !Number.isInteger(number) || number <= 0) return null
+  if (rawVariant === undefined) return { number, variant: 'normal' }
+  const variant = VARIANT_KINDS.find(kind => kind === rawVariant)
+  return variant && variant !== 'normal' ? { number, variant } : null
+}
+
+/** Combine a printing's own variant with a finish reported separately, e.g. a foil hyperspace copy. */
+export function resolveVariant(printing: VariantKind, requested?: VariantKind): VariantKind {
+  if (!requested || requested === 'normal') return printing
+  if (requested === 'foil') {
+    if (printing === 'normal') return 'foil'
+    if (printing === 'hyperspace') return 'hyperspace-foil'
+    return printing
+  }
+  return requested
+}
+
+export function rollupInventory(inventory: Inventory): BaseTotals {
+  const totals: BaseTotals = {}
+  for (const [key, rawQuantity] of Object.entries(inventory)) {
+    const parsed = parsePrintingKey(key)
+    const quantity = Number(rawQuantity)
+    if (!parsed || !Number.isFinite(quantity) || quantity <= 0) continue
+    totals[parsed.number] = (totals[parsed.number] ?? 0) + quantity
+  }
+  return totals
+}
+
+export function variantCounts(inventory: Inventory, baseNumber: number): VariantCounts {
+  const counts: VariantCounts = {}
+  for (const variant of VARIANT_KINDS) {
+    const quantity = inventory[printingKey(baseNumber, variant)] ?? 0
+    if (quantity > 0) counts[variant] = quantity
+  }
+  return counts
+}
+
+/** Add copies of the given variant. Copies above the card's quota are kept as trade stock. */
+export function incrementPrinting(
+  inventory: Inventory,
+  baseNumber: number,
+  variant: VariantKind,
+  count = 1,
+): Inventory {
+  if (count <= 0) return inventory
+  const key = printingKey(baseNumber, variant)
+  return { ...inventory, [key]: (inventory[key] ?? 0) + count }
+}
+
+/**
+ * Remove one copy of the given variant. When none of that variant is owned the last owned
+ * variant goes instead, so `-` always lowers the base card's total.
+ */
+export function decrementPrinting(
+  inventory: Inventory,
+  baseNumber: number,
+  variant: VariantKind,
+): Inventory {
+  const owned = variantCounts(inventory, baseNumber)
+  const target = owned[variant]
+    ? variant
+    : [...VARIANT_KINDS].reverse().find(kind => owned[kind])
+  if (!target) return inventory
+
+  const key = printingKey(baseNumber, target)
+  const next = { ...inventory }
+  if ((next[key] ?? 0) <= 1) delete next[key]
+  else next[key] -= 1
+  return next
+}
+
+export type PlaysetSplit = {
+  owned: number
+  /** Copies that count toward the quota. */
+  playset: number
+  /** Copies above the quota, available to trade. */
+  surplus: number
+}
+
+export function splitPlayset(owned: number, quota: number): PlaysetSplit {
+  const playset = Math.min(owned, quota)
+  return { owned, playset, surplus: owned - playset }
+}
+
+/**
+ * Printings left over once the playset is filled. The playset takes copies in `VARIANT_KINDS`
+ * order, so normal copies stay in the binder and special finishes become surplus first.
+ */
+export function surplusPrintings(counts: VariantCounts, quota: number): VariantCounts {
+  const surplus: VariantCounts = {}
+  let remaining = quota
+  for (const variant of VARIANT_KINDS) {
+    const owned = counts[variant] ?? 0
+    const kept = Math.min(owned, Math.max(remaining, 0))
+    remaining -= kept
+    if (owned > kept) surplus[variant] = owned - kept
+  }
+  return surplus
+}
+
+export function removeCardPrintings(inventory: Inventory, baseNumber: number): Inventory {
+  const next = { ...inventory }
+  for (const variant of VARIANT_KINDS) delete next[printingKey(baseNumber, variant)]
+  return next
+}
+
 function asInventory(value: unknown): Inventory {
   if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
   return value as Inventory
@@ -55,55 +277,165 @@ function canonicalRef(
   return catalog.get(`${setKey}:${printing.baseNumber}`) ?? printing
 }
 
+export function printingVariant(printing: CanonicalCardRef): VariantKind {
+  if (printing.variant) return printing.variant
+  return printing.printingNumber === printing.baseNumber ? 'normal' : 'hyperspace'
+}
+
+/**
+ * Labels the alternate printings set data leaves untyped. A leader with two unlabelled alternates
+ * has a hyperspace and a showcase printing, and the showcase carries the higher number; any other
+ * unlabelled alternate stays hyperspace.
+ */
+export function labelAlternatePrintings(catalog: CanonicalCatalog): CanonicalCatalog {
+  const leaderAlternates = new Map<string, CanonicalCardRef[]>()
+  for (const ref of catalog.values()) {
+    if (ref.variant || ref.type !== 'Leader' || ref.printingNumber === ref.baseNumber) continue
+    const key = `${ref.setKey}:${ref.baseNumber}`
+    leaderAlternates.set(key, [...(leaderAlternates.get(key) ?? []), ref])
+  }
+  for (const alternates of leaderAlternates.values()) {
+    if (alternates.length < 2) continue
+    const showcase = alternates.reduce((a, b) => (b.printingNumber > a.printingNumber ? b : a))
+    catalog.set(`${showcase.setKey}:${showcase.printingNumber}`, { ...showcase, variant: 'showcase' })
+  }
+  return catalog
+}
+
+/** Collector number a printing is priced by. */
+export type PrintingNumberOf = (setKey: SetKey, baseNumber: number, variant: VariantKind) => number
+
+/**
+ * Looks up the collector number of each printing: a variant with a number of its own (hyperspace,
+ * showcase, …) uses it, and the rest, such as foils, use the base card's.
+ */
+export function printingNumberLookup(catalog: CanonicalCatalog): PrintingNumberOf {
+  const numbers = new Map<string, number>()
+  for (const ref of catalog.values()) {
+    const key = `${ref.setKey}:${ref.baseNumber}:${printingVariant(ref)}`
+    const known = numbers.get(key)
+    if (known === undefined || ref.printingNumber < known) numbers.set(key, ref.printingNumber)
+  }
+  return (setKey, baseNumber, variant) => numbers.get(`${setKey}:${baseNumber}:${variant}`) ?? baseNumber
+}
+
+/** Resolve a raw `"<printing>"` or `"<printing>:<variant>"` key to its base card and variant. */
+function resolveEntryKey(
+  catalog: CanonicalCatalog,
+  setKey: SetKey,
+  rawKey: string,
+): { ref: CanonicalCardRef; variant: VariantKind } | undefined {
+  const parsed = parsePrintingKey(rawKey)
+  if (!parsed) return undefined
+  const printing = catalog.get(`${setKey}:${parsed.number}`)
+  const ref = canonicalRef(catalog, setKey, parsed.number)
+  if (!printing || !ref) return undefined
+  return {
+    ref,
+    variant: parsed.variant === 'normal'
+      ? printingVariant(printing)
+      : resolveVariant(printingVariant(printing), parsed.variant),
+  }
+}
+
 function knownSetKeys(catalog: CanonicalCatalog): Set<SetKey> {
   return new Set([...catalog.values()].map(ref => ref.setKey))
 }
 
+/** Where a row comes from, for the rejected-row report; omit it when no report is needed. */
+export type ImportRowRef = { row: string; log: ImportLog }
+
 export function collectRawImportEntry(
   imported: Record<SetKey, Inventory>,
   rawSetKey: unknown,
   rawPrintingNumber: unknown,
   rawQuantity: unknown,
+  variant: VariantKind = 'normal',
+  ref?: ImportRowRef,
+): boolean {
+  return collectRawImportRow(imported, rawSetKey, rawPrintingNumber, { [variant]: rawQuantity }, ref)
+}
+
+const rawText = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim())
+
+/**
+ * Collect one source row that reports several variant columns for the same printing.
+ * The row counts as a single skipped entry when it is malformed or owns nothing.
+ */
+export function collectRawImportRow(
+  imported: Record<SetKey, Inventory>,
+  rawSetKey: unknown,
+  rawPrintingNumber: unknown,
+  rawQuantities: Partial<Record<VariantKind, unknown>>,
+  ref?: ImportRowRef,
 ): boolean {
+  const rawValues = Object.values(rawQuantities).map(rawText)
+  const source: ImportRowSource = {
+    row: ref?.row ?? '',
+    set: rawText(rawSetKey),
+    number: rawText(rawPrintingNumber),
+    quantity: rawValues.filter(value => value !== '' && value !== '0').join(' + ') || rawValues[0] || '',
+  }
+  const reject = (reason: ImportRejectReason) => {
+    ref?.log.rejected.push({ ...source, reason })
+    return false
+  }
+
   const setKey = typeof rawSetKey === 'string' ? rawSetKey.trim().toUpperCase() : ''
   const printingNumber = Number(rawPrintingNumber)
-  const quantity = Number(rawQuantity)
-  if (
-    !setKey ||
-    !Number.isInteger(printingNumber) ||
-    printingNumber <= 0 ||
-    !Number.isFinite(quantity) ||
-    quantity <= 0
-  ) {
-    return false
+  if (!setKey || !Number.isInteger(printingNumber) || printingNumber <= 0) return reject('malformed-row')
+
+  const parsed = rawValues.filter(value => value !== '').map(Number)
+  const quantities = Object.entries(rawQuantities)
+    .map(([variant, rawQuantity]) => [variant as VariantKind, Number(rawQuantity)] as const)
+    .filter(([, quantity]) => Number.isFinite(quantity) && quantity > 0)
+  if (quantities.length === 0) {
+    return reject(parsed.every(quantity => quantity === 0) ? 'no-copies' : 'bad-quantity')
   }
 
   const inventory = imported[setKey] ?? (imported[setKey] = {})
-  inventory[printingNumber] = (inventory[printingNumber] ?? 0) + quantity
+  for (const [variant, quantity] of quantities) {
+    const key = printingKey(printingNumber, variant)
+    inventory[key] = (inventory[key] ?? 0) + quantity
+    if (ref) {
+      const originKey = `${setKey}|${key}`
+      ref.log.origins.set(originKey, [...(ref.log.origins.get(originKey) ?? []), source])
+    }
+  }
   return true
 }
 
+/**
+ * Final result of parsing a file: the collected rows normalized against the catalog, with the
+ * entries the catalog rejected traced back to their source rows.
+ */
+export function finishImport(
+  imported: Record<SetKey, Inventory>,
+  catalog: CanonicalCatalog,
+  log: ImportLog,
+): ImportResult {
+  const result = applyImportedInventories({}, imported, 'replace', catalog)
+  const traced = result.rejected.flatMap(rejection => {
+    const origins = log.origins.get(`${rejection.set}|${rejection.number}`)
+    return origins ? origins.map(origin => ({ ...origin, reason: rejection.reason })) : [rejection]
+  })
+  const rejected = [...log.rejected, ...traced]
+  return { ...result, skipped: result.skipped + log.rejected.length, rejected }
+}
+
 function normalizedEntries(
   setKey: SetKey,
   inventory: Inventory,
   catalog: CanonicalCatalog,
-): Array<{ ref: CanonicalCardRef; quantity: number }> {
-  const result: Array<{ ref: CanonicalCardRef; quantity: number }> = []
+): Array<{ ref: CanonicalCardRef; variant: VariantKind; quantity: number }> {
+  const result: Array<{ ref: CanonicalCardRef; variant: VariantKind; quantity: number }> = []
 
-  for (const [rawNumber, rawQuantity] of Object.entries(inventory)) {
-    const printingNumber = Number(rawNumber)
+  for (const [rawKey, rawQuantity] of Object.entries(inventory)) {
     const quantity = Number(rawQuantity)
-    if (
-      !Number.isInteger(printingNumber) ||
-      printingNumber <= 0 ||
-      !Number.isFinite(quantity) ||
-      quantity <= 0
-    ) {
-      continue
-    }
+    if (!Number.isFinite(quantity) || quantity <= 0) continue
 
-    const ref = canonicalRef(catalog, setKey, printingNumber)
-    if (ref) result.push({ ref, quantity })
+    const resolved = resolveEntryKey(catalog, setKey, rawKey)
+    if (resolved) result.push({ ...resolved, quantity })
   }
 
   return result
@@ -116,11 +448,9 @@ export function canonicalizeInventory(
 ): Inventory {
   const canonical: Inventory = {}
 
-  for (const { ref, quantity } of normalizedEntries(setKey, inventory, catalog)) {
-    canonical[ref.baseNumber] = Math.min(
-      (canonical[ref.baseNumber] ?? 0) + quantity,
-      quotaForType(ref.type),
-    )
+  for (const { ref, variant, quantity } of normalizedEntries(setKey, inventory, catalog)) {
+    const key = printingKey(ref.baseNumber, variant)
+    canonical[key] = (canonical[key] ?? 0) + quantity
   }
 
   return canonical
@@ -138,15 +468,12 @@ function parseTrustedStoredInventory(
     throw new Error(`Inventory for ${setKey} is not an object.`)
   }
 
-  for (const [rawNumber, rawQuantity] of Object.entries(parsed)) {
-    const printingNumber = Number(rawNumber)
+  for (const [rawKey, rawQuantity] of Object.entries(parsed)) {
     const quantity = Number(rawQuantity)
     if (
-      !Number.isInteger(printingNumber) ||
-      printingNumber <= 0 ||
       !Number.isFinite(quantity) ||
       quantity <= 0 ||
-      !canonicalRef(catalog, setKey, printingNumber)
+      !resolveEntryKey(catalog, setKey, rawKey)
     ) {
       throw new Error(`Inventory for ${setKey} contains an invalid entry.`)
     }
@@ -193,38 +520,62 @@ export function applyImportedInventories(
   ) as Record<SetKey, Inventory>
   let recognized = 0
   let skipped = 0
+  const rejected: ImportRejection[] = []
+  const reject = (setKey: SetKey, rawKey: string, quantity: unknown, reason: ImportRejectReason) => {
+    skipped += 1
+    rejected.push({ row: `${setKey} ${rawKey}`, set: setKey, number: rawKey, quantity: rawText(quantity), reason })
+  }
 
   for (const [setKey, rawImported] of Object.entries(imported)) {
     if (!allowedSets.has(setKey)) {
-      skipped += Object.keys(asInventory(rawImported)).length
+      for (const [rawKey, rawQuantity] of Object.entries(asInventory(rawImported))) {
+        reject(setKey, rawKey, rawQuantity, 'unknown-set')
+      }
       continue
     }
     const currentCanonical = canonicalizeInventory(setKey, current[setKey] ?? {}, catalog)
     const destination: Inventory = mode === 'merge' ? { ...currentCanonical } : {}
 
-    for (const [rawNumber, rawQuantity] of Object.entries(asInventory(rawImported))) {
-      const printingNumber = Number(rawNumber)
+    for (const [rawKey, rawQuantity] of Object.entries(asInventory(rawImported))) {
       const quantity = Number(rawQuantity)
-      const validNumber = Number.isInteger(printingNumber) && printingNumber > 0
       const validQuantity = Number.isFinite(quantity) && quantity > 0
-      const ref = validNumber ? canonicalRef(catalog, setKey, printingNumber) : undefined
+      const resolved = resolveEntryKey(catalog, setKey, rawKey)
 
-      if (!validNumber || !validQuantity || !ref) {
-        skipped += 1
+      if (!validQuantity || !resolved) {
+        reject(setKey, rawKey, rawQuantity, validQuantity ? 'unknown-printing' : 'bad-quantity')
         continue
       }
 
       recognized += 1
-      destination[ref.baseNumber] = Math.min(
-        (destination[ref.baseNumber] ?? 0) + quantity,
-        quotaForType(ref.type),
-      )
+      const key = printingKey(resolved.ref.baseNumber, resolved.variant)
+      destination[key] = (destination[key] ?? 0) + quantity
     }
 
     inventories[setKey] = destination
   }
 
-  return { inventories, recognized, skipped }
+  return { inventories, recognized, skipped, rejected }
+}
+
+/** Combine two copies of a collection, keeping the higher count of each printing. */
+export function mergeHigherCounts(
+  first: Record<SetKey, Inventory>,
+  second: Record<SetKey, Inventory>,
+  catalog: CanonicalCatalog,
+): Record<SetKey, Inventory> {
+  const allowedSets = knownSetKeys(catalog)
+  const merged: Record<SetKey, Inventory> = {}
+  for (const setKey of new Set([...Object.keys(first), ...Object.keys(second)])) {
+    if (!allowedSets.has(setKey)) continue
+    const a = canonicalizeInventory(setKey, first[setKey] ?? {}, catalog)
+    const b = canonicalizeInventory(setKey, second[setKey] ?? {}, catalog)
+    const inventory: Inventory = { ...a }
+    for (const [key, quantity] of Object.entries(b)) {
+      inventory[key] = Math.max(inventory[key] ?? 0, quantity)
+    }
+    merged[setKey] = inventory
+  }
+  return merged
 }
 
 export function migrateLegacyInventories(
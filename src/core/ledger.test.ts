@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import {
+  LEDGER_STORAGE_KEY,
+  averageCost,
+  cardPosition,
+  createLedgerEntry,
+  ledgerPositions,
+  ledgerTotals,
+  loadLedger,
+  parseLedger,
+  persistLedger,
+  type LedgerEntry,
+  type NewLedgerEntryInput,
+} from './ledger'
+
+let nextId = 0
+function entry(input: Partial<NewLedgerEntryInput>): LedgerEntry {
+  const created = createLedgerEntry(
+    {
+      kind: 'purchase',
+      date: '2025-01-01',
+      setKey: 'SOR',
+      baseNumber: 87,
+      variant: 'normal',
+      quantity: 1,
+      unitPrice: 1,
+      source: 'single',
+      ...input,
+    },
+    { makeId: () => `l${++nextId}` },
+  )
+  if (!created) throw new Error('invalid fixture')
+  return created
+}
+
+function fakeStorage(initial: Record<string, string> = {}) {
+  const store = new Map(Object.entries(initial))
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      store.set(key, value)
+    },
+  }
+}
+
+describe('createLedgerEntry', () => {
+  it('rejects entries without a positive quantity or a valid price and date', () => {
+    const base: NewLedgerEntryInput = {
+      kind: 'purchase',
+      date: '2025-01-01',
+      setKey: 'SOR',
+      baseNumber: 87,
+      variant: 'foil',
+      quantity: 2,
+      unitPrice: 0.5,
+      source: 'booster',
+      note: '  ',
+    }
+
+    expect(createLedgerEntry(base, { makeId: () => 'x' })).toEqual({ ...base, id: 'x', note: undefined })
+    expect(createLedgerEntry({ ...base, quantity: 0 })).toBeNull()
+    expect(createLedgerEntry({ ...base, unitPrice: Number.NaN })).toBeNull()
+    expect(createLedgerEntry({ ...base, date: '' })).toBeNull()
+  })
+})
+
+describe('ledgerPositions', () => {
+  it('tracks cost basis at the average price and realizes gains on sales in date order', () => {
+    const positions = ledgerPositions([
+      entry({ kind: 'sale', date: '2025-03-01', quantity: 2, unitPrice: 5 }),
+      entry({ date: '2025-01-01', quantity: 2, unitPrice: 1 }),
+      entry({ date: '2025-02-01', quantity: 2, unitPrice: 3 }),
+    ])
+
+    expect(positions.get('SOR:87:normal')).toEqual({
+      held: 2,
+      spend: 8,
+      proceeds: 10,
+      costBasis: 4,
+      realizedGain: 6,
+    })
+    expect(averageCost(positions.get('SOR:87:normal'))).toBe(2)
+    expect(averageCost(positions.get('SOR:1:normal'))).toBeNull()
+  })
+
+  it('counts only recorded copies against sales of untracked cards', () => {
+    const position = ledgerPositions([
+      entry({ quantity: 1, unitPrice: 2 }),
+      entry({ kind: 'sale', date: '2025-02-01', quantity: 3, unitPrice: 4 }),
+    ]).get('SOR:87:normal')
+
+    expect(position).toEqual({ held: -2, spend: 2, proceeds: 12, costBasis: 0, realizedGain: 10 })
+  })
+
+  it('keeps a separate average cost per printing and folds them together per card', () => {
+    const positions = ledgerPositions([
+      entry({ quantity: 2, unitPrice: 1 }),
+      entry({ variant: 'foil', quantity: 1, unitPrice: 10 }),
+    ])
+
+    expect(averageCost(positions.get('SOR:87:normal'))).toBe(1)
+    expect(averageCost(positions.get('SOR:87:foil'))).toBe(10)
+    expect(averageCost(cardPosition(positions, 'SOR', 87))).toBe(4)
+    expect(cardPosition(positions, 'SOR', 1)).toBeUndefined()
+  })
+})
+
+describe('ledgerTotals', () => {
+  it('sums spend, value and gains per set and for the collection', () => {
+    const prices: Record<string, number> = { 'SOR:87:normal': 4, 'SHD:1:normal': 10 }
+    const totals = ledgerTotals(
+      [
+        entry({ quantity: 3, unitPrice: 2 }),
+        entry({ setKey: 'SHD', baseNumber: 1, quantity: 1, unitPrice: 12, source: 'trade' }),
+      ],
+      (setKey, baseNumber, variant) => prices[`${setKey}:${baseNumber}:${variant}`] ?? 0,
+    )
+
+    expect(totals.bySet.map(set => [set.setKey, set.spend, set.currentValue, set.unrealizedGain])).toEqual([
+      ['SHD', 12, 10, -2],
+      ['SOR', 6, 12, 6],
+    ])
+    expect(totals.collection).toMatchObject({ held: 4, spend: 18, currentValue: 22, unrealizedGain: 4 })
+  })
+
+  it('values a hyperspace purchase at the hyperspace printing price', () => {
+    const prices: Record<string, number> = { 'SOR:87:normal': 1, 'SOR:87:hyperspace': 40 }
+    const totals = ledgerTotals(
+      [entry({ variant: 'hyperspace', quantity: 1, unitPrice: 35 })],
+      (setKey, baseNumber, variant) => prices[`${setKey}:${baseNumber}:${variant}`] ?? 0,
+    )
+
+    expect(totals.collection).toMatchObject({ held: 1, costBasis: 35, currentValue: 40, unrealizedGain: 5 })
+  })
+})
+
+describe('ledger persistence', () => {
+  it('round-trips through storage and drops malformed entries', () => {
+    const storage = fakeStorage()
+    const entries = [entry({ note: 'Prerelease kit' })]
+
+    expect(persistLedger(storage, entries)).toBe(true)
+    expect(loadLedger(storage)).toEqual(entries)
+    expect(storage.getItem(LEDGER_STORAGE_KEY)).not.toBeNull()
+    expect(parseLedger(JSON.stringify([...entries, { id: 'bad', kind: 'gift' }]))).toEqual(entries)
+    expect(parseLedger('{nope')).toEqual([])
+  })
+})
@@ -0,0 +1,226 @@
+import { VARIANT_KINDS, type VariantKind } from './inventory'
+import type { SetKey } from './types'
+
+export type LedgerKind = 'purchase' | 'sale'
+export const LEDGER_SOURCES = ['booster', 'single', 'trade', 'gift', 'other'] as const
+export type LedgerSource = (typeof LEDGER_SOURCES)[number]
+
+export const LEDGER_SOURCE_LABELS: Record<LedgerSource, string> = {
+  booster: 'Booster',
+  single: 'Single purchase',
+  trade: 'Trade',
+  gift: 'Gift',
+  other: 'Other',
+}
+
+/** One acquisition or sale of copies of a card. Prices are per copy, in USD. */
+export type LedgerEntry = {
+  id: string
+  kind: LedgerKind
+  /** ISO date, `YYYY-MM-DD`. */
+  date: string
+  setKey: SetKey
+  baseNumber: number
+  variant: VariantKind
+  quantity: number
+  unitPrice: number
+  source: LedgerSource
+  note?: string
+}
+
+export type NewLedgerEntryInput = Omit<LedgerEntry, 'id'>
+
+export const LEDGER_STORAGE_KEY = 'ledger:v1'
+
+export function createLedgerEntry(
+  input: NewLedgerEntryInput,
+  deps: { makeId?: () => string } = {},
+): LedgerEntry | null {
+  const makeId = deps.makeId ?? (() => crypto.randomUUID())
+  const entry = { ...input, id: makeId(), note: input.note?.trim() || undefined }
+  if (!entry.note) delete entry.note
+  return isLedgerEntry(entry) ? entry : null
+}
+
+/** Totals for one card (or a whole set) under the average-cost method. */
+export type LedgerPosition = {
+  /** Copies bought minus copies sold. */
+  held: number
+  /** Total paid for purchases. */
+  spend: number
+  /** Total received from sales. */
+  proceeds: number
+  /** Cost of the copies still held. */
+  costBasis: number
+  /** Sale proceeds minus the average cost of the copies sold. */
+  realizedGain: number
+}
+
+const emptyPosition = (): LedgerPosition => ({
+  held: 0,
+  spend: 0,
+  proceeds: 0,
+  costBasis: 0,
+  realizedGain: 0,
+})
+
+/** Positions are kept per printing, so foil and hyperspace copies carry their own average cost. */
+export const ledgerCardKey = (setKey: SetKey, baseNumber: number, variant: VariantKind) =>
+  `${setKey}:${baseNumber}:${variant}`
+
+const byDate = (a: LedgerEntry, b: LedgerEntry) => a.date.localeCompare(b.date)
+
+/**
+ * Replays the ledger in date order. Each sale removes copies at the running average cost; selling
+ * more than was recorded as bought only counts the recorded copies toward the realized gain.
+ */
+export function ledgerPositions(entries: LedgerEntry[]): Map<string, LedgerPosition> {
+  const positions = new Map<string, LedgerPosition>()
+  for (const entry of [...entries].sort(byDate)) {
+    const key = ledgerCardKey(entry.setKey, entry.baseNumber, entry.variant)
+    const position = positions.get(key) ?? emptyPosition()
+    const total = entry.quantity * entry.unitPrice
+    if (entry.kind === 'purchase') {
+      position.held += entry.quantity
+      position.spend += total
+      position.costBasis += total
+    } else {
+      const averageCost = position.held > 0 ? position.costBasis / position.held : 0
+      const sold = Math.min(entry.quantity, Math.max(position.held, 0))
+      position.proceeds += total
+      position.realizedGain += total - sold * averageCost
+      position.costBasis -= sold * averageCost
+      position.held -= entry.quantity
+    }
+    positions.set(key, position)
+  }
+  return positions
+}
+
+/** Every printing of one card folded into a single position, for per-card views. */
+export function cardPosition(
+  positions: Map<string, LedgerPosition>,
+  setKey: SetKey,
+  baseNumber: number,
+): LedgerPosition | undefined {
+  let combined: LedgerPosition | undefined
+  for (const variant of VARIANT_KINDS) {
+    const position = positions.get(ledgerCardKey(setKey, baseNumber, variant))
+    if (!position) continue
+    combined ??= emptyPosition()
+    combined.held += position.held
+    combined.spend += position.spend
+    combined.proceeds += position.proceeds
+    combined.costBasis += position.costBasis
+    combined.realizedGain += position.realizedGain
+  }
+  return combined
+}
+
+/** Average price paid per copy still held, or null when the ledger holds none. */
+export function averageCost(position: LedgerPosition | undefined): number | null {
+  if (!position || position.held <= 0) return null
+  return position.costBasis / position.held
+}
+
+export type LedgerSummary = LedgerPosition & {
+  /** Market value of the copies still held. */
+  currentValue: number
+  /** Current value minus cost basis. */
+  unrealizedGain: number
+}
+
+export type LedgerTotals = {
+  bySet: Array<LedgerSummary & { setKey: SetKey }>
+  collection: LedgerSummary
+}
+
+function addPosition(into: LedgerSummary, position: LedgerPosition, price: number) {
+  const held = Math.max(position.held, 0)
+  into.held += held
+  into.spend += position.spend
+  into.proceeds += position.proceeds
+  into.costBasis += position.costBasis
+  into.realizedGain += position.realizedGain
+  into.currentValue += held * price
+  into.unrealizedGain = into.currentValue - into.costBasis
+}
+
+/** Per-set and whole-collection spend, value and gains, priced at each printing's market price. */
+export function ledgerTotals(
+  entries: LedgerEntry[],
+  priceOf: (setKey: SetKey, baseNumber: number, variant: VariantKind) => number,
+): LedgerTotals {
+  const emptySummary = (): LedgerSummary => ({ ...emptyPosition(), currentValue: 0, unrealizedGain: 0 })
+  const bySet = new Map<SetKey, LedgerSummary>()
+  const collection = emptySummary()
+  for (const [key, position] of ledgerPositions(entries)) {
+    const variantAt = key.lastIndexOf(':')
+    const numberAt = key.lastIndexOf(':', variantAt - 1)
+    const setKey = key.slice(0, numberAt)
+    const baseNumber = Number(key.slice(numberAt + 1, variantAt))
+    const price = priceOf(setKey, baseNumber, key.slice(variantAt + 1) as VariantKind)
+    const summary = bySet.get(setKey) ?? emptySummary()
+    addPosition(summary, position, price)
+    addPosition(collection, position, price)
+    bySet.set(setKey, summary)
+  }
+  return {
+    bySet: [...bySet.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([setKey, summary]) => ({ setKey, ...summary })),
+    collection,
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isLedgerEntry(value: unknown): value is LedgerEntry {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    (value.kind === 'purchase' || value.kind === 'sale') &&
+    typeof value.date === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value.date) &&
+    typeof value.setKey === 'string' &&
+    Number.isInteger(value.baseNumber) &&
+    (value.baseNumber as number) > 0 &&
+    VARIANT_KINDS.includes(value.variant as VariantKind) &&
+    Number.isInteger(value.quantity) &&
+    (value.quantity as number) > 0 &&
+    typeof value.unitPrice === 'number' &&
+    Number.isFinite(value.unitPrice) &&
+    value.unitPrice >= 0 &&
+    LEDGER_SOURCES.includes(value.source as LedgerSource) &&
+    (value.note === undefined || typeof value.note === 'string')
+  )
+}
+
+export function parseLedger(raw: string | null): LedgerEntry[] {
+  if (!raw) return []
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter(isLedgerEntry) : []
+  } catch {
+    return []
+  }
+}
+
+export function loadLedger(storage: Pick<Storage, 'getItem'>): LedgerEntry[] {
+  try {
+    return parseLedger(storage.getItem(LEDGER_STORAGE_KEY))
+  } catch {
+    return []
+  }
+}
+
+export function persistLedger(storage: Pick<Storage, 'setItem'>, entries: LedgerEntry[]): boolean {
+  try {
+    storage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(entries))
+    return true
+  } catch {
+    return false
+  }
+}
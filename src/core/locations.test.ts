@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import {
+  LOCATIONS_STORAGE_KEY,
+  MAIN_BINDER_ID,
+  addLocation,
+  cardLocationTotals,
+  defaultLocationState,
+  loadLocationState,
+  locationBreakdown,
+  moveCopies,
+  parseLocationState,
+  persistLocationState,
+  removeLocation,
+  renameLocation,
+  type LocationState,
+} from './locations'
+
+function fakeStorage(initial: Record<string, string> = {}) {
+  const store = new Map(Object.entries(initial))
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      store.set(key, value)
+    },
+  }
+}
+
+function withLocations(): LocationState {
+  let state = addLocation(defaultLocationState, 'Trade binder', 'binder', { makeId: () => 'trade' })
+  state = addLocation(state, 'Aggro deck', 'deckbox', { makeId: () => 'deck' })
+  return state
+}
+
+const counts = (state: LocationState, key: string, owned: number) =>
+  locationBreakdown(state, 'SOR', key, owned).map(({ location, count }) => [location.id, count])
+
+describe('moveCopies', () => {
+  it('moves copies between locations without changing the total', () => {
+    let state = moveCopies(withLocations(), 'SOR', '87', 3, MAIN_BINDER_ID, 'trade', 2)
+    state = moveCopies(state, 'SOR', '87', 3, 'trade', 'deck', 1)
+
+    expect(counts(state, '87', 3)).toEqual([
+      [MAIN_BINDER_ID, 1],
+      ['trade', 1],
+      ['deck', 1],
+    ])
+    expect(state.placements.SOR).toEqual({ 87: { trade: 1, deck: 1 } })
+
+    state = moveCopies(state, 'SOR', '87', 3, 'trade', MAIN_BINDER_ID, 5)
+    expect(state.placements.SOR).toEqual({ 87: { deck: 1 } })
+  })
+
+  it('never moves more copies than the source location holds', () => {
+    const state = withLocations()
+    expect(moveCopies(state, 'SOR', '87', 1, 'trade', 'deck', 1)).toBe(state)
+    expect(moveCopies(state, 'SOR', '87', 2, MAIN_BINDER_ID, 'trade', 9).placements.SOR).toEqual({
+      87: { trade: 2 },
+    })
+  })
+})
+
+describe('locationBreakdown', () => {
+  it('takes copies back from later locations when the inventory shrinks', () => {
+    let state = moveCopies(withLocations(), 'SOR', '87', 3, MAIN_BINDER_ID, 'trade', 1)
+    state = moveCopies(state, 'SOR', '87', 3, MAIN_BINDER_ID, 'deck', 2)
+
+    expect(counts(state, '87', 2)).toEqual([
+      [MAIN_BINDER_ID, 0],
+      ['trade', 1],
+      ['deck', 1],
+    ])
+  })
+
+  it('sums every printing of a card per location', () => {
+    let state = moveCopies(withLocations(), 'SOR', '87:foil', 1, MAIN_BINDER_ID, 'deck', 1)
+    state = moveCopies(state, 'SOR', '87', 2, MAIN_BINDER_ID, 'deck', 1)
+
+    expect(
+      cardLocationTotals(state, 'SOR', { 87: 2, '87:foil': 1 }, ['87', '87:foil']).map(({ location, count }) => [
+        location.name,
+        count,
+      ]),
+    ).toEqual([
+      ['Main binder', 1],
+      ['Aggro deck', 2],
+    ])
+  })
+})
+
+describe('managing locations', () => {
+  it('renames locations and returns copies to the main binder on removal', () => {
+    let state = moveCopies(withLocations(), 'SOR', '87', 3, MAIN_BINDER_ID, 'trade', 2)
+    state = renameLocation(state, 'trade', '  For trade  ')
+    expect(state.locations.find(location => location.id === 'trade')?.name).toBe('For trade')
+
+    state = removeLocation(state, 'trade')
+    expect(state.locations.map(location => location.id)).toEqual([MAIN_BINDER_ID, 'deck'])
+    expect(state.placements.SOR).toEqual({})
+    expect(removeLocation(state, MAIN_BINDER_ID)).toBe(state)
+    expect(addLocation(state, '   ', 'bulk')).toBe(state)
+  })
+})
+
+describe('location persistence', () => {
+  it('round-trips through storage', () => {
+    const storage = fakeStorage()
+    const state = moveCopies(withLocations(), 'SOR', '87', 3, MAIN_BINDER_ID, 'deck', 1)
+
+    expect(persistLocationState(storage, state)).toBe(true)
+    expect(storage.getItem(LOCATIONS_STORAGE_KEY)).not.toBeNull()
+    expect(loadLocationState(storage)).toEqual(state)
+  })
+
+  it('restores the main binder and drops placements in unknown locations', () => {
+    expect(parseLocationState('{nope')).toEqual(defaultLocationState)
+    expect(
+      parseLocationState(
+        JSON.stringify({
+          locations: [{ id: 'bulk', name: 'Bulk', kind: 'bulk' }],
+          placements: { SOR: { 87: { bulk: 2, gone: 1, main: 1 }, 10: { bulk: -1 } } },
+        }),
+      ),
+    ).toEqual({
+      locations: [...defaultLocationState.locations, { id: 'bulk', name: 'Bulk', kind: 'bulk' }],
+      placements: { SOR: { 87: { bulk: 2 } } },
+    })
+  })
+})
@@ -0,0 +1,217 @@
+import type { Inventory, SetKey } from './types'
+
+export const LOCATION_KINDS = ['binder', 'deckbox', 'bulk', 'other'] as const
+export type LocationKind = (typeof LOCATION_KINDS)[number]
+
+export const LOCATION_KIND_LABELS: Record<LocationKind, string> = {
+  binder: 'Binder',
+  deckbox: 'Deck box',
+  bulk: 'Bulk box',
+  other: 'Other',
+}
+
+export type StorageLocation = { id: string; name: string; kind: LocationKind }
+
+/** Copies per location id for one printing. */
+export type PlacementCounts = Record<string, number>
+
+/**
+ * Where copies physically live. Only copies outside the main binder are stored: whatever the
+ * inventory holds beyond them is in the main binder, so +/- and imports never need to pick a
+ * location and moves can't change the inventory total.
+ */
+export type LocationState = {
+  locations: StorageLocation[]
+  /** Set key -> printing key -> location id -> copies. */
+  placements: Record<SetKey, Record<string, PlacementCounts>>
+}
+
+export const MAIN_BINDER_ID = 'main'
+export const LOCATIONS_STORAGE_KEY = 'locations:v1'
+
+export const defaultLocationState: LocationState = {
+  locations: [{ id: MAIN_BINDER_ID, name: 'Main binder', kind: 'binder' }],
+  placements: {},
+}
+
+export type LocationCount = { location: StorageLocation; count: number }
+
+/**
+ * Copies of one printing per location, main binder first. If the inventory dropped below what
+ * was placed elsewhere, the later locations give up copies first.
+ */
+export function locationBreakdown(
+  state: LocationState,
+  setKey: SetKey,
+  printingKey: string,
+  owned: number,
+): LocationCount[] {
+  const placed = state.placements[setKey]?.[printingKey] ?? {}
+  let remaining = owned
+  const elsewhere = state.locations
+    .filter(location => location.id !== MAIN_BINDER_ID)
+    .map(location => {
+      const count = Math.min(placed[location.id] ?? 0, remaining)
+      remaining -= count
+      return { location, count }
+    })
+  const main = state.locations.find(location => location.id === MAIN_BINDER_ID)!
+  return [{ location: main, count: remaining }, ...elsewhere]
+}
+
+/** Copies of every printing of a base card per location, leaving out empty locations. */
+export function cardLocationTotals(
+  state: LocationState,
+  setKey: SetKey,
+  inventory: Inventory,
+  printingKeys: string[],
+): LocationCount[] {
+  const totals = new Map<string, LocationCount>()
+  for (const key of printingKeys) {
+    for (const { location, count } of locationBreakdown(state, setKey, key, inventory[key] ?? 0)) {
+      const entry = totals.get(location.id) ?? { location, count: 0 }
+      entry.count += count
+      totals.set(location.id, entry)
+    }
+  }
+  return [...totals.values()].filter(entry => entry.count > 0)
+}
+
+/**
+ * Moves up to `count` copies of one printing between locations. Only the split changes; the
+ * inventory count does not.
+ */
+export function moveCopies(
+  state: LocationState,
+  setKey: SetKey,
+  printingKey: string,
+  owned: number,
+  fromId: string,
+  toId: string,
+  count: number,
+): LocationState {
+  if (fromId === toId || count <= 0) return state
+  const breakdown = locationBreakdown(state, setKey, printingKey, owned)
+  const available = breakdown.find(entry => entry.location.id === fromId)?.count ?? 0
+  const target = breakdown.find(entry => entry.location.id === toId)
+  const moved = Math.min(Math.floor(count), available)
+  if (!moved || !target) return state
+
+  const placed: PlacementCounts = Object.fromEntries(
+    breakdown
+      .filter(entry => entry.location.id !== MAIN_BINDER_ID)
+      .map(entry => [entry.location.id, entry.count]),
+  )
+  if (fromId !== MAIN_BINDER_ID) placed[fromId] = (placed[fromId] ?? 0) - moved
+  if (toId !== MAIN_BINDER_ID) placed[toId] = (placed[toId] ?? 0) + moved
+  const nonZero = Object.fromEntries(Object.entries(placed).filter(([, n]) => n > 0))
+
+  const { [printingKey]: _previous, ...otherPrintings } = state.placements[setKey] ?? {}
+  const setPlacements = Object.keys(nonZero).length
+    ? { ...otherPrintings, [printingKey]: nonZero }
+    : otherPrintings
+  return { ...state, placements: { ...state.placements, [setKey]: setPlacements } }
+}
+
+export function addLocation(
+  state: LocationState,
+  name: string,
+  kind: LocationKind,
+  deps: { makeId?: () => string } = {},
+): LocationState {
+  const trimmed = name.trim()
+  if (!trimmed) return state
+  const makeId = deps.makeId ?? (() => crypto.randomUUID())
+  return { ...state, locations: [...state.locations, { id: makeId(), name: trimmed, kind }] }
+}
+
+export function renameLocation(state: LocationState, id: string, name: string): LocationState {
+  const trimmed = name.trim()
+  if (!trimmed) return state
+  return {
+    ...state,
+    locations: state.locations.map(location => (location.id === id ? { ...location, name: trimmed } : location)),
+  }
+}
+
+/** Removes a location; its copies fall back to the main binder, which itself can't be removed. */
+export function removeLocation(state: LocationState, id: string): LocationState {
+  if (id === MAIN_BINDER_ID) return state
+  const placements = Object.fromEntries(
+    Object.entries(state.placements).map(([setKey, printings]) => [
+      setKey,
+      Object.fromEntries(
+        Object.entries(printings)
+          .map(([key, counts]) => {
+            const { [id]: _removed, ...rest } = counts
+            return [key, rest] as const
+          })
+          .filter(([, counts]) => Object.keys(counts).length > 0),
+      ),
+    ]),
+  )
+  return { locations: state.locations.filter(location => location.id !== id), placements }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function parseLocation(value: unknown): StorageLocation | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) return null
+  if (typeof value.name !== 'string' || !value.name.trim()) return null
+  const kind = LOCATION_KINDS.includes(value.kind as LocationKind) ? (value.kind as LocationKind) : 'other'
+  return { id: value.id, name: value.name.trim(), kind }
+}
+
+export function parseLocationState(raw: string | null): LocationState {
+  if (!raw) return defaultLocationState
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!isRecord(parsed) || !Array.isArray(parsed.locations)) return defaultLocationState
+    const parsedLocations = parsed.locations
+      .map(parseLocation)
+      .filter((location): location is StorageLocation => location !== null)
+    const locations = parsedLocations.some(location => location.id === MAIN_BINDER_ID)
+      ? parsedLocations
+      : [...defaultLocationState.locations, ...parsedLocations]
+    const knownIds = new Set(locations.map(location => location.id))
+
+    const placements: LocationState['placements'] = {}
+    for (const [setKey, printings] of Object.entries(isRecord(parsed.placements) ? parsed.placements : {})) {
+      if (!isRecord(printings)) continue
+      const setPlacements: Record<string, PlacementCounts> = {}
+      for (const [key, counts] of Object.entries(printings)) {
+        if (!isRecord(counts)) continue
+        const valid = Object.entries(counts).filter(
+          ([id, n]) => id !== MAIN_BINDER_ID && knownIds.has(id) && Number.isInteger(n) && (n as number) > 0,
+        )
+        if (valid.length) setPlacements[key] = Object.fromEntries(valid) as PlacementCounts
+      }
+      placements[setKey] = setPlacements
+    }
+    return { locations, placements }
+  } catch {
+    return defaultLocationState
+  }
+}
+
+export function loadLocationState(storage: Pick<Storage, 'getItem'>): LocationState {
+  try {
+    return parseLocationState(storage.getItem(LOCATIONS_STORAGE_KEY))
+  } catch {
+    return defaultLocationState
+  }
+}
+
+export function persistLocationState(
+  storage: Pick<Storage, 'setItem'>,
+  state: LocationState,
+): boolean {
+  try {
+    storage.setItem(LOCATIONS_STORAGE_KEY, JSON.stringify(state))
+    return true
+  } catch {
+    return false
+  }
+}
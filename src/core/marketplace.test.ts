@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsv } from './csv'
+import {
+  CARDMARKET_CSV,
+  GENERIC_TEXT,
+  TCGPLAYER_MASS_ENTRY,
+  marketplaceLines,
+  setNameFromLabel,
+  type MarketplaceSet,
+} from './marketplace'
+
+const sets: MarketplaceSet[] = [
+  {
+    setKey: 'SOR',
+    setName: 'Spark of Rebellion',
+    cards: [
+      { Name: 'Darth Vader', Subtitle: 'Dark Lord of the Sith', Number: 10, Type: 'Leader', Set: 'SOR' },
+      { Name: 'Battlefield Marine', Number: 5, Type: 'Unit', Set: 'SOR' },
+    ],
+  },
+  {
+    setKey: 'SHD',
+    setName: 'Shadows of the Galaxy',
+    cards: [{ Name: 'Bounty Hunter Crew', Number: 7, Type: 'Unit', Set: 'SHD' }],
+  },
+]
+
+const inventories = { SOR: { 5: 1, 10: 1, '10:foil': 1 }, SHD: { 7: 2, '7:hyperspace': 2 } }
+const quotaOf = (_setKey: string, card: { Type?: string }) => (card.Type === 'Leader' ? 1 : 3)
+
+describe('marketplaceLines', () => {
+  it('lists wants across every set in card order', () => {
+    expect(marketplaceLines('wants', sets, { ...inventories, SHD: {} }, quotaOf)).toEqual([
+      { setKey: 'SOR', setName: 'Spark of Rebellion', number: 5, name: 'Battlefield Marine', subtitle: undefined, variant: 'normal', quantity: 2 },
+      { setKey: 'SHD', setName: 'Shadows of the Galaxy', number: 7, name: 'Bounty Hunter Crew', subtitle: undefined, variant: 'normal', quantity: 3 },
+    ])
+    expect(marketplaceLines('wants', sets, inventories, quotaOf, { oneEach: true }).map(line => line.quantity)).toEqual([1])
+  })
+
+  it('lists haves by surplus printing', () => {
+    expect(marketplaceLines('haves', sets, inventories, quotaOf).map(line => [line.setKey, line.number, line.variant, line.quantity])).toEqual([
+      ['SOR', 10, 'foil', 1],
+      ['SHD', 7, 'hyperspace', 1],
+    ])
+  })
+})
+
+describe('marketplace formats', () => {
+  const lines = marketplaceLines('haves', sets, { SOR: { 10: 1, '10:foil': 2, '10:hyperspace': 1 } }, quotaOf)
+
+  it('sums printings per card for TCGplayer mass entry', () => {
+    expect(TCGPLAYER_MASS_ENTRY.format(lines)).toBe('3 Darth Vader - Dark Lord of the Sith [SOR]')
+  })
+
+  it('writes one Cardmarket row per printing with the expansion name', () => {
+    expect(parseCsv(CARDMARKET_CSV.format(lines))).toEqual([
+      ['Amount', 'Name', 'Expansion', 'Number', 'Foil', 'Version'],
+      ['2', 'Darth Vader - Dark Lord of the Sith', 'Spark of Rebellion', '10', 'Y', ''],
+      ['1', 'Darth Vader - Dark Lord of the Sith', 'Spark of Rebellion', '10', '', 'Hyperspace'],
+    ])
+  })
+
+  it('names non-normal printings in the generic text format', () => {
+    expect(GENERIC_TEXT.format(lines)).toBe(
+      '2 Darth Vader - Dark Lord of the Sith (SOR) 10 [Foil]\n1 Darth Vader - Dark Lord of the Sith (SOR) 10 [Hyperspace]',
+    )
+  })
+})
+
+describe('setNameFromLabel', () => {
+  it('drops the set code from manifest labels', () => {
+    expect(setNameFromLabel('Spark of Rebellion (SOR)', 'SOR')).toBe('Spark of Rebellion')
+    expect(setNameFromLabel('SOR', 'SOR')).toBe('SOR')
+  })
+})
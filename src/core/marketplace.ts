@@ -0,0 +1,139 @@
+import { formatCsv } from './csv'
+import { formatMissingLine } from './decklist'
+import {
+  VARIANT_KINDS,
+  VARIANT_LABELS,
+  rollupInventory,
+  surplusPrintings,
+  variantCounts,
+  type VariantKind,
+} from './inventory'
+import type { Card, Inventory, SetKey } from './types'
+
+/** Missing copies (wants) or copies above the quota (haves). */
+export type MarketplaceListKind = 'wants' | 'haves'
+
+export type MarketplaceLine = {
+  setKey: SetKey
+  /** Expansion name without the set code, e.g. "Spark of Rebellion". */
+  setName: string
+  number: number
+  name: string
+  subtitle?: string
+  /** Wants are per card and always 'normal'; haves keep the surplus printing. */
+  variant: VariantKind
+  quantity: number
+}
+
+export type MarketplaceSet = { setKey: SetKey; setName: string; cards: Card[] }
+
+export type MarketplaceListOptions = {
+  /** Ask for one copy of each wanted card instead of the full shortfall. */
+  oneEach?: boolean
+}
+
+/**
+ * Wants or haves across every given set, in set order then card number. Quotas are per base card,
+ * as elsewhere; haves are split by printing the same way the Trade Stock view does.
+ */
+export function marketplaceLines(
+  kind: MarketplaceListKind,
+  sets: MarketplaceSet[],
+  inventories: Record<SetKey, Inventory>,
+  quotaOf: (setKey: SetKey, card: Card) => number,
+  options: MarketplaceListOptions = {},
+): MarketplaceLine[] {
+  const lines: MarketplaceLine[] = []
+  for (const { setKey, setName, cards } of sets) {
+    const inventory = inventories[setKey] ?? {}
+    const totals = rollupInventory(inventory)
+    for (const card of [...cards].sort((a, b) => a.Number - b.Number)) {
+      const quota = quotaOf(setKey, card)
+      const line = { setKey, setName, number: card.Number, name: card.Name, subtitle: card.Subtitle }
+      if (kind === 'wants') {
+        const needed = quota - (totals[card.Number] ?? 0)
+        if (needed > 0) lines.push({ ...line, variant: 'normal', quantity: options.oneEach ? 1 : needed })
+        continue
+      }
+      const extras = surplusPrintings(variantCounts(inventory, card.Number), quota)
+      for (const variant of VARIANT_KINDS) {
+        if (extras[variant]) lines.push({ ...line, variant, quantity: extras[variant]! })
+      }
+    }
+  }
+  return lines
+}
+
+const fullName = (line: MarketplaceLine) => (line.subtitle ? `${line.name} - ${line.subtitle}` : line.name)
+const isFoil = (variant: VariantKind) => variant.includes('foil')
+
+export type MarketplaceFormat = {
+  id: string
+  label: string
+  extension: 'txt' | 'csv'
+  /** What the output is for, shown under the format picker. */
+  hint: string
+  format: (lines: MarketplaceLine[]) => string
+}
+
+/** TCGplayer mass entry: `QTY Name - Subtitle [SET]`, one line per card with printings summed. */
+export const TCGPLAYER_MASS_ENTRY: MarketplaceFormat = {
+  id: 'tcgplayer',
+  label: 'TCGplayer mass entry',
+  extension: 'txt',
+  hint: 'Paste into TCGplayer’s Mass Entry box.',
+  format: lines => {
+    const byCard = new Map<string, MarketplaceLine>()
+    for (const line of lines) {
+      const id = `${line.setKey}:${line.number}`
+      const existing = byCard.get(id)
+      byCard.set(id, existing ? { ...existing, quantity: existing.quantity + line.quantity } : line)
+    }
+    return [...byCard.values()]
+      .map(line => formatMissingLine(line.name, line.subtitle, line.setKey, line.quantity))
+      .join('\n')
+  },
+}
+
+/** Cardmarket wants-list CSV, one row per printing with the expansion spelled out. */
+export const CARDMARKET_CSV: MarketplaceFormat = {
+  id: 'cardmarket',
+  label: 'Cardmarket CSV',
+  extension: 'csv',
+  hint: 'Upload on Cardmarket under Wants › Import, or as a stock file for haves.',
+  format: lines =>
+    formatCsv([
+      ['Amount', 'Name', 'Expansion', 'Number', 'Foil', 'Version'],
+      ...lines.map(line => [
+        line.quantity,
+        fullName(line),
+        line.setName,
+        line.number,
+        isFoil(line.variant) ? 'Y' : '',
+        line.variant === 'normal' || line.variant === 'foil' ? '' : VARIANT_LABELS[line.variant],
+      ]),
+    ]),
+}
+
+/** `QTY Name - Subtitle (SET) NUMBER`, with non-normal printings named in brackets at the end. */
+export const GENERIC_TEXT: MarketplaceFormat = {
+  id: 'generic',
+  label: 'Text (qty name (set) number)',
+  extension: 'txt',
+  hint: 'Plain list most deck builders and trade sites can read.',
+  format: lines =>
+    lines
+      .map(line => {
+        const printing = line.variant === 'normal' ? '' : ` [${VARIANT_LABELS[line.variant]}]`
+        return `${line.quantity} ${fullName(line)} (${line.setKey}) ${line.number}${printing}`
+      })
+      .join('\n'),
+}
+
+/** Formats offered in the export dialog; add a `MarketplaceFormat` here to support another site. */
+export const MARKETPLACE_FORMATS: MarketplaceFormat[] = [TCGPLAYER_MASS_ENTRY, CARDMARKET_CSV, GENERIC_TEXT]
+
+/** "Spark of Rebellion (SOR)" → "Spark of Rebellion". */
+export function setNameFromLabel(label: string, setKey: SetKey): string {
+  return label.replace(new RegExp(`\\s*\\(${setKey}\\)\\s*$`, 'i'), '').trim() || setKey
+}
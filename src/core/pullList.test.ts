@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { binderLayout } from './binder'
+import type { DeckContents } from './deckContents'
+import { deckPullList, pullListHtml, type PullListLookups } from './pullList'
+import type { Card } from './types'
+
+const names: Record<string, string> = {
+  'SOR:10': 'Darth Vader',
+  'SOR:25': 'Command Center',
+  'SOR:40': 'TIE Fighter',
+  'SOR:3': 'Admiral Piett',
+  'SHD:5': 'Bounty Hunter <Crew>',
+}
+
+const owned: Record<string, number> = { 'SOR:40': 2, 'SOR:3': 5, 'SHD:5': 1, 'SOR:10': 1 }
+
+const lookups: PullListLookups = {
+  cardOf: (setKey, baseNumber) => {
+    const Name = names[`${setKey}:${baseNumber}`]
+    return Name ? ({ Name, Number: baseNumber, Set: setKey } as Card) : undefined
+  },
+  pocketOf: (setKey, baseNumber) => (names[`${setKey}:${baseNumber}`] ? binderLayout(baseNumber) : undefined),
+  ownedOf: (setKey, baseNumber) => owned[`${setKey}:${baseNumber}`] ?? 0,
+}
+
+const deck: DeckContents = {
+  leader: { setKey: 'SOR', baseNumber: 10, count: 1 },
+  base: { setKey: 'SOR', baseNumber: 25, count: 1 },
+  mainDeck: [
+    { setKey: 'SHD', baseNumber: 5, count: 3 },
+    { setKey: 'SOR', baseNumber: 40, count: 3 },
+    { setKey: 'SOR', baseNumber: 3, count: 2 },
+    { setKey: 'TWI', baseNumber: 77, count: 1 },
+  ],
+  sideboard: [{ setKey: 'SOR', baseNumber: 3, count: 1 }],
+}
+
+describe('deckPullList', () => {
+  const lines = deckPullList(deck, lookups, ['SOR', 'SHD'])
+
+  it('orders the cards by set, then binder page and pocket', () => {
+    expect(lines.map(line => `${line.setKey}:${line.baseNumber}`)).toEqual([
+      'SOR:3',
+      'SOR:10',
+      'SOR:25',
+      'SOR:40',
+      'SHD:5',
+      'TWI:77',
+    ])
+    expect(lines[3].pocket).toEqual({ page: 4, row: 1, column: 4 })
+  })
+
+  it('merges repeated cards and caps each pull by the copies in the binder', () => {
+    expect(lines.map(line => [line.count, line.pull])).toEqual([
+      [3, 3],
+      [1, 1],
+      [1, 0],
+      [3, 2],
+      [3, 1],
+      [1, 0],
+    ])
+  })
+
+  it('keeps cards from sets that are not loaded, without a pocket', () => {
+    expect(lines[5]).toMatchObject({ name: '#77', pocket: undefined })
+  })
+})
+
+describe('pullListHtml', () => {
+  it('prints one table per set with escaped names and shortfalls', () => {
+    const html = pullListHtml('Vader Aggro', deckPullList(deck, lookups, ['SOR', 'SHD']))
+    expect(html.match(/<table>/g)).toHaveLength(3)
+    expect(html).toContain('<h1>Vader Aggro pull list</h1>')
+    expect(html).toContain('Bounty Hunter &#60;Crew&#62; <span class="short">(2 short)</span>')
+    expect(html).toContain('<td>4</td><td>1</td><td>4</td>')
+  })
+})
@@ -0,0 +1,113 @@
+import { escapeHtml } from './binderPrint'
+import { allCardRefs, type DeckContents } from './deckContents'
+import { comparePockets, type Pocket } from './reorgPlan'
+import type { Card, SetKey } from './types'
+
+export type PullListLine = {
+  setKey: SetKey
+  baseNumber: number
+  name: string
+  subtitle?: string
+  /** Copies the deck uses. */
+  count: number
+  /** Copies to pull: the deck count, capped by the copies in the binder. */
+  pull: number
+  /** Where the card is filed; absent when the set's data is not loaded. */
+  pocket?: Pocket
+}
+
+export type PullListLookups = {
+  cardOf: (setKey: SetKey, baseNumber: number) => Card | undefined
+  pocketOf: (setKey: SetKey, baseNumber: number) => Pocket | undefined
+  ownedOf: (setKey: SetKey, baseNumber: number) => number
+}
+
+// Cards without a known pocket go after the rest of their set.
+const compareLines = (a?: Pocket, b?: Pocket) => (!a || !b ? Number(!a) - Number(!b) : comparePockets(a, b))
+
+/**
+ * The deck's cards in the order you meet them walking the binders: by set (in `setOrder`, then
+ * alphabetically), then page, row and column. A card listed more than once (main deck and
+ * sideboard) becomes one line.
+ */
+export function deckPullList(
+  contents: DeckContents,
+  { cardOf, pocketOf, ownedOf }: PullListLookups,
+  setOrder: SetKey[] = [],
+): PullListLine[] {
+  const counts = new Map<string, { setKey: SetKey; baseNumber: number; count: number }>()
+  for (const ref of allCardRefs(contents)) {
+    const key = `${ref.setKey}:${ref.baseNumber}`
+    const entry = counts.get(key) ?? { setKey: ref.setKey, baseNumber: ref.baseNumber, count: 0 }
+    entry.count += ref.count
+    counts.set(key, entry)
+  }
+
+  const lines: PullListLine[] = [...counts.values()].map(({ setKey, baseNumber, count }) => {
+    const card = cardOf(setKey, baseNumber)
+    return {
+      setKey,
+      baseNumber,
+      name: card?.Name ?? `#${baseNumber}`,
+      subtitle: card?.Subtitle,
+      count,
+      pull: Math.min(count, Math.max(ownedOf(setKey, baseNumber), 0)),
+      pocket: pocketOf(setKey, baseNumber),
+    }
+  })
+
+  const setRank = (setKey: SetKey) => {
+    const index = setOrder.indexOf(setKey)
+    return index === -1 ? setOrder.length : index
+  }
+  return lines.sort(
+    (a, b) =>
+      setRank(a.setKey) - setRank(b.setKey) ||
+      a.setKey.localeCompare(b.setKey) ||
+      compareLines(a.pocket, b.pocket) ||
+      a.baseNumber - b.baseNumber,
+  )
+}
+
+const PULL_LIST_CSS = `
+  body { font-family: system-ui, sans-serif; color: #111; margin: 8mm; }
+  h1 { font-size: 16pt; margin: 0 0 4mm; }
+  h2 { font-size: 12pt; margin: 6mm 0 2mm; }
+  table { border-collapse: collapse; width: 100%; font-size: 10pt; }
+  th, td { border-bottom: 0.3mm solid #999; padding: 1.5mm 2mm; text-align: left; }
+  td.num { font-family: monospace; }
+  .box { display: inline-block; width: 4mm; height: 4mm; border: 0.3mm solid #333; }
+  .short { color: #b91c1c; }
+  @page { margin: 6mm; }
+`
+
+/** A standalone printable pull list, one table per set with a tick box per line. */
+export function pullListHtml(title: string, lines: PullListLine[]): string {
+  const bySet = new Map<SetKey, PullListLine[]>()
+  for (const line of lines) bySet.set(line.setKey, [...(bySet.get(line.setKey) ?? []), line])
+
+  const sections = [...bySet.entries()].map(([setKey, setLines]) => {
+    const rows = setLines
+      .map(line => {
+        const name = line.subtitle ? `${line.name} - ${line.subtitle}` : line.name
+        const where = line.pocket ? `<td>${line.pocket.page}</td><td>${line.pocket.row}</td><td>${line.pocket.column}</td>` : '<td colspan="3">—</td>'
+        const short = line.count - line.pull
+        return (
+          `<tr><td><span class="box"></span></td><td class="num">${line.pull}</td>` +
+          `<td class="num">#${line.baseNumber}</td><td>${escapeHtml(name)}` +
+          (short > 0 ? ` <span class="short">(${short} short)</span>` : '') +
+          `</td>${where}</tr>`
+        )
+      })
+      .join('')
+    return (
+      `<h2>${escapeHtml(setKey)}</h2><table><thead><tr><th></th><th>Pull</th><th>No.</th><th>Card</th>` +
+      `<th>Page</th><th>Row</th><th>Column</th></tr></thead><tbody>${rows}</tbody></table>`
+    )
+  })
+
+  return (
+    `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)} pull list</title>` +
+    `<style>${PULL_LIST_CSS}</style></head><body><h1>${escapeHtml(title)} pull list</h1>${sections.join('')}</body></html>`
+  )
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PRESET_QUOTA_PROFILES,
+  QUOTA_STORAGE_KEY,
+  defaultQuotaSettings,
+  loadQuotaSettings,
+  parseQuotaSettings,
+  persistQuotaSettings,
+  quotaOverride,
+  quotaResolver,
+  resolveQuota,
+  setQuotaOverride,
+  type QuotaProfile,
+} from './quotas'
+
+const premier = PRESET_QUOTA_PROFILES.find(profile => profile.id === 'premier')!
+
+function fakeStorage(initial: Record<string, string> = {}) {
+  const store = new Map(Object.entries(initial))
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      store.set(key, value)
+    },
+  }
+}
+
+describe('resolveQuota', () => {
+  it('matches the historical Premier caps', () => {
+    expect(resolveQuota(premier, { setKey: 'SOR', type: 'Leader' })).toBe(1)
+    expect(resolveQuota(premier, { setKey: 'SOR', type: 'Base' })).toBe(1)
+    expect(resolveQuota(premier, { setKey: 'SOR', type: 'Unit', rarity: 'Common' })).toBe(3)
+  })
+
+  it('keeps two leaders and one of everything else for Twin Suns', () => {
+    const resolve = quotaResolver({ ...defaultQuotaSettings, activeProfileId: 'twin-suns' })
+    expect(resolve({ setKey: 'SHD', type: 'leader' })).toBe(2)
+    expect(resolve({ setKey: 'SHD', type: 'Unit' })).toBe(1)
+  })
+
+  it('prefers set overrides, then type, then rarity, then the default', () => {
+    const profile: QuotaProfile = {
+      ...premier,
+      byRarity: { common: 4 },
+      bySet: { SHD: { defaultQuota: 1 }, TWI: { byRarity: { common: 6 } } },
+    }
+
+    expect(resolveQuota(profile, { setKey: 'SOR', type: 'Unit', rarity: 'Common' })).toBe(4)
+    expect(resolveQuota(profile, { setKey: 'SOR', type: 'Leader', rarity: 'Common' })).toBe(1)
+    expect(resolveQuota(profile, { setKey: 'SHD', type: 'Unit', rarity: 'Common' })).toBe(1)
+    expect(resolveQuota(profile, { setKey: 'TWI', type: 'Unit', rarity: 'Common' })).toBe(6)
+    expect(resolveQuota(profile, { setKey: 'TWI', type: 'Leader', rarity: 'Common' })).toBe(6)
+  })
+})
+
+describe('setQuotaOverride', () => {
+  it('sets and clears overrides at each scope', () => {
+    let profile = setQuotaOverride(premier, { kind: 'global' }, { kind: 'rarity', key: 'Common' }, 4)
+    profile = setQuotaOverride(profile, { kind: 'set', setKey: 'SOR' }, { kind: 'default' }, 1)
+
+    expect(quotaOverride(profile, { kind: 'global' }, { kind: 'rarity', key: 'common' })).toBe(4)
+    expect(quotaOverride(profile, { kind: 'set', setKey: 'SOR' }, { kind: 'default' })).toBe(1)
+
+    profile = setQuotaOverride(profile, { kind: 'set', setKey: 'SOR' }, { kind: 'default' }, undefined)
+    expect(quotaOverride(profile, { kind: 'set', setKey: 'SOR' }, { kind: 'default' })).toBeUndefined()
+  })
+
+  it('never clears the global default or accepts invalid values', () => {
+    expect(setQuotaOverride(premier, { kind: 'global' }, { kind: 'default' }, undefined)).toBe(premier)
+    expect(setQuotaOverride(premier, { kind: 'global' }, { kind: 'default' }, -1)).toBe(premier)
+    expect(setQuotaOverride(premier, { kind: 'global' }, { kind: 'default' }, 1.5)).toBe(premier)
+  })
+})
+
+describe('quota settings persistence', () => {
+  it('falls back to the presets for missing or malformed data', () => {
+    expect(parseQuotaSettings(null)).toEqual(defaultQuotaSettings)
+    expect(parseQuotaSettings('{nope')).toEqual(defaultQuotaSettings)
+    expect(parseQuotaSettings(JSON.stringify({ profiles: [{ id: 'x' }] }))).toEqual(
+      defaultQuotaSettings,
+    )
+  })
+
+  it('drops invalid quota values and repairs an unknown active profile', () => {
+    const parsed = parseQuotaSettings(
+      JSON.stringify({
+        activeProfileId: 'gone',
+        profiles: [
+          {
+            id: 'mine',
+            name: 'Mine',
+            defaultQuota: 2,
+            byType: { Leader: 1, Unit: -3 },
+            byRarity: { common: 'lots' },
+            bySet: { SOR: { defaultQuota: 1, byType: { Base: 200 } } },
+          },
+        ],
+      }),
+    )
+
+    expect(parsed).toEqual({
+      activeProfileId: 'mine',
+      profiles: [
+        {
+          id: 'mine',
+          name: 'Mine',
+          defaultQuota: 2,
+          byType: { leader: 1 },
+          byRarity: {},
+          bySet: { SOR: { defaultQuota: 1 } },
+        },
+      ],
+    })
+  })
+
+  it('round-trips through storage', () => {
+    const storage = fakeStorage()
+    const settings = { ...defaultQuotaSettings, activeProfileId: 'limited' }
+
+    expect(persistQuotaSettings(storage, settings)).toBe(true)
+    expect(storage.getItem(QUOTA_STORAGE_KEY)).not.toBeNull()
+    expect(loadQuotaSettings(storage)).toEqual(settings)
+  })
+})
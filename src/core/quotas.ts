@@ -0,0 +1,228 @@
+import type { SetKey } from './types'
+
+/** Quota overrides at one level of a profile; anything left out inherits from the level above. */
+export type QuotaRule = {
+  defaultQuota?: number
+  /** Lowercased card type -> copies wanted. */
+  byType?: Record<string, number>
+  /** Lowercased rarity -> copies wanted. */
+  byRarity?: Record<string, number>
+}
+
+export type QuotaProfile = {
+  id: string
+  name: string
+  defaultQuota: number
+  byType: Record<string, number>
+  byRarity: Record<string, number>
+  bySet: Record<SetKey, QuotaRule>
+}
+
+export type QuotaSettings = {
+  activeProfileId: string
+  profiles: QuotaProfile[]
+}
+
+export type QuotaCard = { setKey: SetKey; type?: string; rarity?: string }
+export type QuotaResolver = (card: QuotaCard) => number
+
+export const QUOTA_STORAGE_KEY = 'quota:v1'
+export const QUOTA_TYPES = ['Leader', 'Base', 'Unit', 'Event', 'Upgrade'] as const
+export const QUOTA_RARITIES = ['Common', 'Uncommon', 'Rare', 'Legendary', 'Special'] as const
+export const MAX_QUOTA = 99
+
+export const PRESET_QUOTA_PROFILES: QuotaProfile[] = [
+  {
+    id: 'premier',
+    name: 'Premier',
+    defaultQuota: 3,
+    byType: { leader: 1, base: 1 },
+    byRarity: {},
+    bySet: {},
+  },
+  {
+    id: 'twin-suns',
+    name: 'Twin Suns',
+    defaultQuota: 1,
+    byType: { leader: 2, base: 1 },
+    byRarity: {},
+    bySet: {},
+  },
+  {
+    id: 'limited',
+    name: 'Sealed / Draft',
+    defaultQuota: 3,
+    byType: { leader: 1, base: 1 },
+    byRarity: { common: 4, uncommon: 3 },
+    bySet: {},
+  },
+]
+
+export const defaultQuotaSettings: QuotaSettings = {
+  activeProfileId: 'premier',
+  profiles: PRESET_QUOTA_PROFILES,
+}
+
+const ruleKey = (value?: string) => (value ?? '').trim().toLowerCase()
+
+function ruleQuota(rule: QuotaRule | undefined, card: QuotaCard): number | undefined {
+  if (!rule) return undefined
+  return rule.byType?.[ruleKey(card.type)] ?? rule.byRarity?.[ruleKey(card.rarity)] ?? rule.defaultQuota
+}
+
+/**
+ * Copies wanted of one card. Set overrides beat global ones; within a level the type rule
+ * beats the rarity rule, which beats the default.
+ */
+export function resolveQuota(profile: QuotaProfile, card: QuotaCard): number {
+  return ruleQuota(profile.bySet[card.setKey], card) ?? ruleQuota(profile, card) ?? profile.defaultQuota
+}
+
+export function activeQuotaProfile(settings: QuotaSettings): QuotaProfile {
+  return (
+    settings.profiles.find(profile => profile.id === settings.activeProfileId) ??
+    settings.profiles[0] ??
+    PRESET_QUOTA_PROFILES[0]!
+  )
+}
+
+export function quotaResolver(settings: QuotaSettings): QuotaResolver {
+  const profile = activeQuotaProfile(settings)
+  return card => resolveQuota(profile, card)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isQuota(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_QUOTA
+}
+
+function parseQuotaMap(value: unknown): Record<string, number> {
+  if (!isRecord(value)) return {}
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, quota]) => isQuota(quota))
+      .map(([key, quota]) => [ruleKey(key), quota as number]),
+  )
+}
+
+function parseQuotaRule(value: unknown): QuotaRule {
+  if (!isRecord(value)) return {}
+  const rule: QuotaRule = {}
+  if (isQuota(value.defaultQuota)) rule.defaultQuota = value.defaultQuota
+  const byType = parseQuotaMap(value.byType)
+  const byRarity = parseQuotaMap(value.byRarity)
+  if (Object.keys(byType).length) rule.byType = byType
+  if (Object.keys(byRarity).length) rule.byRarity = byRarity
+  return rule
+}
+
+function parseQuotaProfile(value: unknown): QuotaProfile | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) return null
+  if (!isQuota(value.defaultQuota)) return null
+  return {
+    id: value.id,
+    name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : value.id,
+    defaultQuota: value.defaultQuota,
+    byType: parseQuotaMap(value.byType),
+    byRarity: parseQuotaMap(value.byRarity),
+    bySet: isRecord(value.bySet)
+      ? Object.fromEntries(
+          Object.entries(value.bySet).map(([setKey, rule]) => [setKey, parseQuotaRule(rule)]),
+        )
+      : {},
+  }
+}
+
+export function parseQuotaSettings(raw: string | null): QuotaSettings {
+  if (!raw) return { ...defaultQuotaSettings }
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!isRecord(parsed) || !Array.isArray(parsed.profiles)) return { ...defaultQuotaSettings }
+    const profiles = parsed.profiles
+      .map(parseQuotaProfile)
+      .filter((profile): profile is QuotaProfile => profile !== null)
+    if (!profiles.length) return { ...defaultQuotaSettings }
+    const activeProfileId =
+      typeof parsed.activeProfileId === 'string' &&
+      profiles.some(profile => profile.id === parsed.activeProfileId)
+        ? parsed.activeProfileId
+        : profiles[0]!.id
+    return { activeProfileId, profiles }
+  } catch {
+    return { ...defaultQuotaSettings }
+  }
+}
+
+export function loadQuotaSettings(storage: Pick<Storage, 'getItem'>): QuotaSettings {
+  try {
+    return parseQuotaSettings(storage.getItem(QUOTA_STORAGE_KEY))
+  } catch {
+    return { ...defaultQuotaSettings }
+  }
+}
+
+export function persistQuotaSettings(
+  storage: Pick<Storage, 'setItem'>,
+  settings: QuotaSettings,
+): boolean {
+  try {
+    storage.setItem(QUOTA_STORAGE_KEY, JSON.stringify(settings))
+    return true
+  } catch {
+    return false
+  }
+}
+
+export type QuotaScope = { kind: 'global' } | { kind: 'set'; setKey: SetKey }
+export type QuotaField = { kind: 'default' } | { kind: 'type' | 'rarity'; key: string }
+
+function withRuleValue(
+  rule: QuotaRule,
+  field: QuotaField,
+  value: number | undefined,
+): QuotaRule {
+  if (field.kind === 'default') {
+    const { defaultQuota: _previous, ...rest } = rule
+    return value === undefined ? rest : { ...rest, defaultQuota: value }
+  }
+  const mapKey = field.kind === 'type' ? 'byType' : 'byRarity'
+  const { [ruleKey(field.key)]: _previous, ...others } = rule[mapKey] ?? {}
+  const next = value === undefined ? others : { ...others, [ruleKey(field.key)]: value }
+  return { ...rule, [mapKey]: next }
+}
+
+/**
+ * Set or clear (`undefined`) one quota override. The global default cannot be cleared, so
+ * clearing it leaves the profile unchanged.
+ */
+export function setQuotaOverride(
+  profile: QuotaProfile,
+  scope: QuotaScope,
+  field: QuotaField,
+  value: number | undefined,
+): QuotaProfile {
+  if (value !== undefined && !isQuota(value)) return profile
+  if (scope.kind === 'global') {
+    if (field.kind === 'default') {
+      return value === undefined ? profile : { ...profile, defaultQuota: value }
+    }
+    const rule = withRuleValue(profile, field, value)
+    return { ...profile, byType: rule.byType ?? {}, byRarity: rule.byRarity ?? {} }
+  }
+  const rule = withRuleValue(profile.bySet[scope.setKey] ?? {}, field, value)
+  return { ...profile, bySet: { ...profile.bySet, [scope.setKey]: rule } }
+}
+
+/** Override stored at exactly this scope and field, without inheritance. */
+export function quotaOverride(
+  profile: QuotaProfile,
+  scope: QuotaScope,
+  field: QuotaField,
+): number | undefined {
+  const rule: QuotaRule = scope.kind === 'global' ? profile : profile.bySet[scope.setKey] ?? {}
+  if (field.kind === 'default') return rule.defaultQuota
+  return (field.kind === 'type' ? rule.byType : rule.byRarity)?.[ruleKey(field.key)]
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_BINDER_PROFILE } from './binder'
+import { binderSlots } from './binderSort'
+import { planBinderReorg, pocketOf, reorgStepLabel, type BinderArrangement, type ReorgStep } from './reorgPlan'
+import type { Card } from './types'
+
+const card = (Number: number, Name: string, Type = 'Unit'): Card => ({ Name, Number, Type, Set: 'SOR' })
+
+const cards = [card(1, 'Echo'), card(2, 'Delta'), card(3, 'Charlie'), card(4, 'Bravo'), card(5, 'Alpha')]
+
+const arrangement = (keys: Parameters<typeof binderSlots>[1] = [], profile = DEFAULT_BINDER_PROFILE): BinderArrangement => ({
+  profile,
+  slots: binderSlots(cards, keys),
+})
+
+// Replays the plan on a pocket -> card map and checks every move lands in an empty pocket.
+function replay(steps: ReorgStep[], start: Map<string, number>) {
+  const pockets = new Map(start)
+  const aside = new Set<number>()
+  for (const step of steps) {
+    if (step.from === 'aside') expect(aside.delete(step.number)).toBe(true)
+    else {
+      const key = `${step.from.page}:${step.from.row}:${step.from.column}`
+      expect(pockets.get(key)).toBe(step.number)
+      pockets.delete(key)
+    }
+    if (step.to === 'aside') aside.add(step.number)
+    else {
+      const key = `${step.to.page}:${step.to.row}:${step.to.column}`
+      expect(pockets.has(key)).toBe(false)
+      pockets.set(key, step.number)
+    }
+  }
+  return pockets
+}
+
+const pocketsOf = (arr: BinderArrangement, numbers: number[]) =>
+  new Map(numbers.map(number => {
+    const { page, row, column } = pocketOf(arr, number)
+    return [`${page}:${row}:${column}`, number] as const
+  }))
+
+describe('planBinderReorg', () => {
+  it('leaves cards that stay put alone and handles every other card once', () => {
+    const before = arrangement()
+    const after = arrangement(['name'])
+    const plan = planBinderReorg([1, 2, 3, 4, 5], before, after)
+
+    // Name order reverses the five cards; Charlie keeps pocket 3, the rest swap in pairs.
+    expect(plan.moved).toBe(4)
+    expect(plan.steps.map(step => step.number)).toEqual([5, 1, 5, 4, 2, 4])
+    expect(plan.steps[0]).toMatchObject({ to: 'aside' })
+    expect(replay(plan.steps, pocketsOf(before, [1, 2, 3, 4, 5]))).toEqual(pocketsOf(after, [1, 2, 3, 4, 5]))
+  })
+
+  it('moves the end of a chain first so each pocket is free when its card arrives', () => {
+    const before = arrangement()
+    // Every card shifts one pocket along, as when a card is filed in front of them.
+    const after = { ...before, slots: { ...before.slots, slotByNumber: new Map([[1, 2], [2, 3], [3, 4], [4, 5], [5, 6]]) } }
+    const plan = planBinderReorg([1, 2, 3, 4, 5], before, after)
+
+    expect(plan.steps.map(step => step.number)).toEqual([5, 4, 3, 2, 1])
+    expect(reorgStepLabel(plan.steps[0])).toBe('page 1 r2c1 → page 1 r2c2')
+  })
+
+  it('only plans the cards it is given', () => {
+    // Without Alpha in the binder, Echo's new pocket is already empty.
+    const plan = planBinderReorg([1, 3], arrangement(), arrangement(['name']))
+    expect(plan.steps).toEqual([
+      { number: 1, from: { page: 1, row: 1, column: 1 }, to: { page: 1, row: 2, column: 1 } },
+    ])
+  })
+
+  it('fills a binder with a different page size in page order', () => {
+    const fourPocket = { ...DEFAULT_BINDER_PROFILE, rows: 2, columns: 2 }
+    const plan = planBinderReorg([5, 1, 3], arrangement(), arrangement([], fourPocket))
+
+    expect(plan.newBinder).toBe(true)
+    expect(plan.steps.map(step => [step.number, step.to])).toEqual([
+      [1, { page: 1, row: 1, column: 1 }],
+      [3, { page: 1, row: 2, column: 1 }],
+      [5, { page: 2, row: 1, column: 1 }],
+    ])
+  })
+
+  it('has nothing to do when only the page pairing changes', () => {
+    const plan = planBinderReorg([1, 2, 3], arrangement(), arrangement([], { ...DEFAULT_BINDER_PROFILE, firstPageAlone: false }))
+    expect(plan.steps).toEqual([])
+  })
+})
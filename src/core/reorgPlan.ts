@@ -0,0 +1,95 @@
+import { binderLayout, type BinderProfile } from './binder'
+import { slotOfNumber, type BinderSlots } from './binderSort'
+import type { BinderPosition } from './types'
+
+/** How one set is filed: the binder geometry plus the slot order of its cards. */
+export type BinderArrangement = { profile: BinderProfile; slots: BinderSlots }
+
+export type Pocket = Omit<BinderPosition, 'number'>
+
+/** One physical handling of a card; `'aside'` is the pile a card waits on while its pocket frees up. */
+export type ReorgStep = { number: number; from: Pocket | 'aside'; to: Pocket | 'aside' }
+
+export type ReorgPlan = {
+  steps: ReorgStep[]
+  /** Cards that change pocket (a card set aside counts once). */
+  moved: number
+  /** Whether the cards go into a binder with different pages, so every card moves. */
+  newBinder: boolean
+}
+
+export const pocketOf = (arrangement: BinderArrangement, number: number): Pocket =>
+  binderLayout(slotOfNumber(arrangement.slots, number), arrangement.profile)
+
+const pocketKey = ({ page, row, column }: Pocket) => `${page}:${row}:${column}`
+
+const samePocket = (a: Pocket, b: Pocket) => pocketKey(a) === pocketKey(b)
+
+/** Binder order: page, then row, then column. */
+export const comparePockets = (a: Pocket, b: Pocket) => a.page - b.page || a.row - b.row || a.column - b.column
+
+/** "page 4 r2c3", or "set-aside pile". */
+export function pocketLabel(pocket: Pocket | 'aside'): string {
+  return pocket === 'aside' ? 'set-aside pile' : `page ${pocket.page} r${pocket.row}c${pocket.column}`
+}
+
+/** "page 4 r2c3 → page 6 r1c1" */
+export const reorgStepLabel = (step: ReorgStep) => `${pocketLabel(step.from)} → ${pocketLabel(step.to)}`
+
+/**
+ * Physical moves that turn the `before` arrangement into `after` for the cards in `numbers`
+ * (usually the owned cards). Cards already in the right pocket are not touched, and every other
+ * card is handled once: a chain of moves starts with the card whose new pocket is already empty,
+ * and a closed loop of cards costs one extra handling through the set-aside pile. When the page
+ * geometry changes the cards go into a fresh binder, filled in page order.
+ */
+export function planBinderReorg(numbers: number[], before: BinderArrangement, after: BinderArrangement): ReorgPlan {
+  const newBinder = before.profile.rows !== after.profile.rows || before.profile.columns !== after.profile.columns
+  const pending = new Map<number, { from: Pocket; to: Pocket }>()
+  for (const number of new Set(numbers)) {
+    const from = pocketOf(before, number)
+    const to = pocketOf(after, number)
+    if (newBinder || !samePocket(from, to)) pending.set(number, { from, to })
+  }
+
+  const order = [...pending.entries()].sort(([, a], [, b]) => comparePockets(a.to, b.to))
+  if (newBinder) {
+    return {
+      steps: order.map(([number, { from, to }]) => ({ number, from, to })),
+      moved: order.length,
+      newBinder,
+    }
+  }
+
+  // Which pending card still sits in each pocket.
+  const occupant = new Map<string, number>()
+  for (const [number, { from }] of pending) occupant.set(pocketKey(from), number)
+
+  const steps: ReorgStep[] = []
+  const done = new Set<number>()
+  for (const [start] of order) {
+    if (done.has(start)) continue
+
+    // Follow the cards blocking each destination until a free pocket or back to the start.
+    const chain = [start]
+    let blocker = occupant.get(pocketKey(pending.get(start)!.to))
+    while (blocker !== undefined && blocker !== start && !done.has(blocker)) {
+      chain.push(blocker)
+      blocker = occupant.get(pocketKey(pending.get(blocker)!.to))
+    }
+    const loop = blocker === start
+
+    if (loop) steps.push({ number: start, from: pending.get(start)!.from, to: 'aside' })
+    for (const number of chain.slice(loop ? 1 : 0).reverse()) {
+      steps.push({ number, ...pending.get(number)! })
+    }
+    if (loop) steps.push({ number: start, from: 'aside', to: pending.get(start)!.to })
+
+    for (const number of chain) {
+      occupant.delete(pocketKey(pending.get(number)!.from))
+      done.add(number)
+    }
+  }
+
+  return { steps, moved: pending.size, newBinder }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { buildSearchSuggestions, submittedSuggestion } from './search'
+import { aliasNames, buildSearchSuggestions, submittedSuggestion, typoDistance } from './search'
 
 const catalogs = [
   {
@@ -32,9 +32,21 @@ const catalogs = [
   },
   {
     setKey: 'TWI',
-    cards: [{ Name: 'Brain Invaders', Number: 255, Type: 'Unit', Set: 'TWI' }],
-    printingNumbersByBase: new Map([[255, [255]]]),
-    baseByPrintingNumber: new Map([[255, 255]]),
+    cards: [
+      { Name: 'Brain Invaders', Number: 255, Type: 'Unit', Set: 'TWI' },
+      { Name: 'Darth Maul', Subtitle: 'Revenge At Last', Number: 135, Type: 'Unit', Set: 'TWI' },
+      { Name: 'Ben Solo', Subtitle: 'Redeemed', Number: 50, Type: 'Unit', Set: 'TWI' },
+    ],
+    printingNumbersByBase: new Map([
+      [255, [255]],
+      [135, [135]],
+      [50, [50]],
+    ]),
+    baseByPrintingNumber: new Map([
+      [255, 255],
+      [135, 135],
+      [50, 50],
+    ]),
   },
 ]
 
@@ -63,3 +75,30 @@ describe('search suggestions', () => {
     expect(submittedSuggestion(results, 99)?.baseNumber).toBe(87)
   })
 })
+
+describe('typo-tolerant search', () => {
+  it('allows more edits as the query gets longer', () => {
+    expect(typoDistance('vadr', 'vader')).toBe(1)
+    expect(typoDistance('vdr', 'vader')).toBeNull()
+    expect(typoDistance('darthvdaer', 'darthvader')).toBe(1)
+    expect(typoDistance('lukeskywlaker', 'lukeskywalker')).toBe(1)
+    expect(typoDistance('mual', 'maul')).toBe(1)
+    expect(typoDistance('rey', 'ray')).toBeNull()
+  })
+
+  it('finds misspelt names after every exact match', () => {
+    const results = buildSearchSuggestions('Darth Vadr', catalogs, 'SOR')
+    expect(results.map(result => result.baseNumber)).toEqual([87, 10])
+    expect(buildSearchSuggestions('Vadr', catalogs, 'SOR')[0]).toMatchObject({ name: 'Darth Vader' })
+  })
+
+  it('matches nicknames from the alias table', () => {
+    expect(aliasNames('Kylo')).toContain('Ben Solo')
+    expect(buildSearchSuggestions('kylo', catalogs, 'SOR').map(result => result.name)).toEqual(['Ben Solo'])
+  })
+
+  it('keeps name matches in the current set first', () => {
+    const results = buildSearchSuggestions('Dath', catalogs, 'TWI')
+    expect(results.map(result => `${result.setKey}:${result.baseNumber}`)).toEqual(['TWI:135', 'SOR:87', 'SOR:10'])
+  })
+})
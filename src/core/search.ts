@@ -1,3 +1,4 @@
+import cardAliases from './cardAliases.json'
 import type { Card, SetKey } from './types'
 
 export type SearchCatalog = {
@@ -24,6 +25,55 @@ export function normalize(value: string): string {
   return value.toLowerCase().replace(/[^a-z0-9]/g, '')
 }
 
+// Nicknames, keyed by normalized alias, for the card names they stand for.
+const ALIASES = new Map(
+  Object.entries(cardAliases as Record<string, string[]>).map(([alias, names]) => [normalize(alias), names]),
+)
+
+/** Card names a nickname stands for, from the curated alias table (`cardAliases.json`). */
+export function aliasNames(query: string): string[] {
+  return ALIASES.get(normalize(query)) ?? []
+}
+
+/** Typos tolerated in a normalized query: none below 4 characters, then one more per few letters. */
+function typoAllowance(length: number): number {
+  return length < 4 ? 0 : length < 8 ? 1 : length < 16 ? 2 : 3
+}
+
+/**
+ * Edits (insertions, deletions, substitutions and swapped neighbours) that turn the normalized
+ * `query` into `target`, or null when that is more than the query's typo allowance.
+ */
+export function typoDistance(query: string, target: string): number | null {
+  const limit = typoAllowance(query.length)
+  if (Math.abs(query.length - target.length) > limit) return null
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: target.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= query.length; i++) {
+    const row = [i]
+    let rowMin = i
+    for (let j = 1; j <= target.length; j++) {
+      const cost = query[i - 1] === target[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && query[i - 1] === target[j - 2] && query[i - 2] === target[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1)
+      }
+      row.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > limit) return null
+    beforePrevious = previous
+    previous = row
+  }
+  const distance = previous[target.length]
+  return distance <= limit ? distance : null
+}
+
+/**
+ * How well a card's name answers a search, lower is better, or null for no match. Exact, alias,
+ * word-start and substring matches come first; typo matches against the whole name, a word of it
+ * or (for longer queries) its start follow, ranked by the number of edits.
+ */
 function nameMatchScore(card: Card, rawQuery: string, normalizedQuery: string): number | null {
   const normalizedName = normalize(card.Name)
   const normalizedSubtitle = normalize(card.Subtitle ?? '')
@@ -32,13 +82,23 @@ function nameMatchScore(card: Card, rawQuery: string, normalizedQuery: string):
   const words = lowerName.split(/[^a-z0-9]+/).filter(Boolean)
 
   if (normalizedName === normalizedQuery) return 0
+  if (aliasNames(normalizedQuery).includes(card.Name)) return 5
   if (words.some(word => word.startsWith(lowerQuery))) return 10
   if (lowerName.includes(lowerQuery)) return 20
   if (normalizedSubtitle.includes(normalizedQuery)) return 30
   if (normalizedName.includes(normalizedQuery)) return 40
-  return null
+
+  const targets = [normalizedName, normalize(`${card.Name} ${card.Subtitle ?? ''}`), ...words.map(normalize)]
+  if (normalizedQuery.length >= 5) targets.push(normalizedName.slice(0, normalizedQuery.length))
+  const distances = targets
+    .map(target => typoDistance(normalizedQuery, target))
+    .filter((distance): distance is number => distance !== null)
+  return distances.length ? 50 + 10 * Math.min(...distances) : null
 }
 
+// Larger than any name match score, so name matches in the open set always rank first.
+const OTHER_SET_PENALTY = 100
+
 export function buildSearchSuggestions(
   query: string,
   catalogs: SearchCatalog[],
@@ -66,8 +126,10 @@ export function buildSearchSuggestions(
       if (matchScore === null) continue
 
       const kind = exactPrinting ? 'number' : 'name'
-      const setScore = catalog.setKey === currentSetKey ? 0 : 50
-      const score = exactPrinting ? setScore : 100 + setScore + matchScore
+      const currentSet = catalog.setKey === currentSetKey
+      const score = exactPrinting
+        ? (currentSet ? 0 : 50)
+        : 100 + (currentSet ? 0 : OTHER_SET_PENALTY) + matchScore
       const suggestion: RankedSuggestion = {
         kind,
         setKey: catalog.setKey,
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import { looksLikeQuery, parseSearchQuery, runSearchQuery, type QueryContext } from './searchQuery'
+import type { SearchCatalog } from './search'
+import type { Card } from './types'
+
+const card = (card: Partial<Card> & Pick<Card, 'Name' | 'Number' | 'Set'>): Card => card
+
+const catalog = (setKey: string, cards: Card[]): SearchCatalog => ({
+  setKey,
+  cards,
+  printingNumbersByBase: new Map(cards.map(c => [c.Number, [c.Number]])),
+  baseByPrintingNumber: new Map(cards.map(c => [c.Number, c.Number])),
+})
+
+const catalogs = [
+  catalog('SOR', [
+    card({ Name: 'Darth Vader', Subtitle: 'Dark Lord of the Sith', Number: 10, Type: 'Leader', Rarity: 'Common', Aspects: ['Aggression', 'Villainy'], MarketPrice: 0.5, Set: 'SOR' }),
+    card({ Name: 'Darth Vader', Subtitle: 'Commanding the First Legion', Number: 87, Type: 'Unit', Rarity: 'Legendary', Aspects: ['Aggression', 'Villainy'], Cost: 7, MarketPrice: 4.25, Set: 'SOR', Arena: 'Ground', Power: 5, HP: 7, Traits: ['FORCE', 'IMPERIAL', 'SITH'], FrontText: 'When Played: Search the top 10 cards of your deck.', Artist: 'Borja Pindado' }),
+    card({ Name: 'Luke Skywalker', Subtitle: 'Jedi Knight', Number: 51, Type: 'Unit', Rarity: 'Legendary', Aspects: ['Vigilance', 'Heroism'], Cost: 6, MarketPrice: 3, Set: 'SOR', Arena: 'Ground', Power: 6, HP: 7, Traits: ['FORCE', 'JEDI', 'REBEL'], Keywords: ['Restore'] }),
+    card({ Name: 'Battlefield Marine', Number: 95, Type: 'Unit', Rarity: 'Common', Aspects: ['Command', 'Heroism'], Cost: 2, MarketPrice: 0.1, Set: 'SOR' }),
+  ]),
+  catalog('SHD', [
+    card({ Name: 'Darth Vader', Subtitle: 'Unstoppable', Number: 191, Type: 'Unit', Rarity: 'Legendary', Aspects: ['Vigilance', 'Villainy'], Cost: 7, MarketPrice: 2.5, Set: 'SHD' }),
+    card({ Name: 'Bounty Hunter Crew', Number: 12, Type: 'Unit', Rarity: 'Uncommon', Aspects: ['Cunning'], Cost: 5, Set: 'SHD' }),
+  ]),
+]
+
+const owned: Record<string, number> = { 'SOR:87': 1, 'SOR:51': 3, 'SHD:191': 2 }
+const context: QueryContext = { ownedOf: (setKey, n) => owned[`${setKey}:${n}`] ?? 0 }
+
+const search = (text: string) => {
+  const { node, errors } = parseSearchQuery(text)
+  expect(errors).toEqual([])
+  return runSearchQuery(node!, catalogs, context).map(r => `${r.setKey}:${r.card.Number}`)
+}
+
+describe('parseSearchQuery', () => {
+  it('builds a typed tree of filters, phrases, negation and alternatives', () => {
+    expect(parseSearchQuery('type:unit -aspect:vig (owned<3 OR price>=2) "darth vader"').node).toEqual({
+      kind: 'and',
+      nodes: [
+        { kind: 'field', field: 'type', value: 'unit' },
+        { kind: 'not', node: { kind: 'field', field: 'aspect', value: 'vig' } },
+        {
+          kind: 'or',
+          nodes: [
+            { kind: 'compare', field: 'owned', op: '<', value: 3 },
+            { kind: 'compare', field: 'price', op: '>=', value: 2 },
+          ],
+        },
+        { kind: 'text', value: 'darth vader' },
+      ],
+    })
+  })
+
+  it('reads field aliases, quoted values and a ":" on numbers as equality', () => {
+    expect(parseSearchQuery('t:leader name:"darth vader" cost:7 p>$1.5').node).toEqual({
+      kind: 'and',
+      nodes: [
+        { kind: 'field', field: 'type', value: 'leader' },
+        { kind: 'field', field: 'name', value: 'darth vader' },
+        { kind: 'compare', field: 'cost', op: '=', value: 7 },
+        { kind: 'compare', field: 'price', op: '>', value: 1.5 },
+      ],
+    })
+  })
+
+  it('reports unknown filters, bad numbers and unbalanced parentheses', () => {
+    expect(parseSearchQuery('colour:red').errors[0]).toMatch(/^Unknown filter "colour". Try name, type, .*, owned or price\.$/)
+    expect(parseSearchQuery('owned<few').errors).toEqual(['"owned" needs a number, not "few".'])
+    expect(parseSearchQuery('rarity>rare').errors[0]).toMatch(/cannot be compared/)
+    expect(parseSearchQuery('(type:unit').errors).toEqual(['Missing ")".'])
+    expect(parseSearchQuery('type:unit)').node).toBeNull()
+  })
+
+  it('returns no tree for an empty query', () => {
+    expect(parseSearchQuery('   ')).toEqual({ node: null, errors: [] })
+  })
+})
+
+describe('runSearchQuery', () => {
+  it('searches every catalog with the example query', () => {
+    expect(search('type:unit aspect:vigilance rarity:legendary owned<3 price>2 set:SHD "darth vader"')).toEqual(['SHD:191'])
+  })
+
+  it('matches type, aspect and rarity by prefix and names by phrase', () => {
+    expect(search('t:unit r:leg')).toEqual(['SOR:51', 'SOR:87', 'SHD:191'])
+    expect(search('aspect:hero')).toEqual(['SOR:51', 'SOR:95'])
+    expect(search('"lord vader"')).toEqual([])
+    expect(search('"dark lord"')).toEqual(['SOR:10'])
+  })
+
+  it('compares owned copies, prices and costs, skipping cards without the value', () => {
+    expect(search('owned>=2')).toEqual(['SOR:51', 'SHD:191'])
+    expect(search('price<1')).toEqual(['SOR:10', 'SOR:95'])
+    expect(search('cost>=7')).toEqual(['SOR:87', 'SHD:191'])
+  })
+
+  it('filters on arena, traits, keywords, rules text, artist and stats', () => {
+    expect(search('arena:ground trait:force')).toEqual(['SOR:51', 'SOR:87'])
+    expect(search('traits:jedi OR kw:restore')).toEqual(['SOR:51'])
+    expect(search('text:"top 10 cards"')).toEqual(['SOR:87'])
+    expect(search('artist:pindado')).toEqual(['SOR:87'])
+    expect(search('power>5 hp:7')).toEqual(['SOR:51'])
+  })
+
+  it('combines negation and alternatives', () => {
+    expect(search('vader -set:sor')).toEqual(['SHD:191'])
+    expect(search('luke OR marine')).toEqual(['SOR:51', 'SOR:95'])
+    expect(search('-(type:unit OR type:leader)')).toEqual([])
+  })
+})
+
+describe('looksLikeQuery', () => {
+  it('tells queries from plain names and numbers', () => {
+    expect(looksLikeQuery('type:unit')).toBe(true)
+    expect(looksLikeQuery('owned<3')).toBe(true)
+    expect(looksLikeQuery('"darth vader"')).toBe(true)
+    expect(looksLikeQuery('vader -leader')).toBe(true)
+    expect(looksLikeQuery('Darth Vader')).toBe(false)
+    expect(looksLikeQuery('216')).toBe(false)
+  })
+})
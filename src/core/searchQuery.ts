@@ -0,0 +1,302 @@
+import { normalize, type SearchCatalog } from './search'
+import type { Card, SetKey } from './types'
+
+/** Filters that match words: `type:unit`, `aspect:vig`, `set:SHD`, `trait:sith`. */
+export type TextField =
+  | 'name'
+  | 'type'
+  | 'aspect'
+  | 'rarity'
+  | 'set'
+  | 'arena'
+  | 'trait'
+  | 'keyword'
+  | 'text'
+  | 'artist'
+  | 'variant'
+/** Filters that compare numbers: `owned<3`, `price>=2`, `cost:4`, `power>=5`. */
+export type NumericField = 'number' | 'cost' | 'power' | 'hp' | 'owned' | 'price'
+export type Comparison = '<' | '<=' | '>' | '>=' | '='
+
+export type QueryNode =
+  /** Bare words and quoted phrases, matched against name and subtitle. */
+  | { kind: 'text'; value: string }
+  | { kind: 'field'; field: TextField; value: string }
+  | { kind: 'compare'; field: NumericField; op: Comparison; value: number }
+  | { kind: 'not'; node: QueryNode }
+  | { kind: 'and'; nodes: QueryNode[] }
+  | { kind: 'or'; nodes: QueryNode[] }
+
+export type ParsedQuery = {
+  /** null when the query is empty or could not be parsed. */
+  node: QueryNode | null
+  errors: string[]
+}
+
+export type QueryContext = {
+  /** Copies in the binder, across printings. */
+  ownedOf: (setKey: SetKey, baseNumber: number) => number
+}
+
+export type QueryResult = { setKey: SetKey; card: Card; owned: number }
+
+const FIELD_ALIASES: Record<string, TextField | NumericField> = {
+  name: 'name',
+  n: 'name',
+  type: 'type',
+  t: 'type',
+  aspect: 'aspect',
+  a: 'aspect',
+  rarity: 'rarity',
+  r: 'rarity',
+  set: 'set',
+  s: 'set',
+  arena: 'arena',
+  trait: 'trait',
+  traits: 'trait',
+  keyword: 'keyword',
+  kw: 'keyword',
+  text: 'text',
+  o: 'text',
+  artist: 'artist',
+  variant: 'variant',
+  number: 'number',
+  no: 'number',
+  cost: 'cost',
+  c: 'cost',
+  power: 'power',
+  pow: 'power',
+  hp: 'hp',
+  owned: 'owned',
+  have: 'owned',
+  price: 'price',
+  p: 'price',
+}
+
+const NUMERIC_FIELDS: NumericField[] = ['number', 'cost', 'power', 'hp', 'owned', 'price']
+
+// "name, type, …, owned or price" for error messages.
+const FILTER_NAMES = [...new Set(Object.values(FIELD_ALIASES))].join(', ').replace(/, (\w+)$/, ' or $1')
+
+const isNumericField = (field: TextField | NumericField): field is NumericField =>
+  (NUMERIC_FIELDS as string[]).includes(field)
+
+type Token =
+  | { type: '(' | ')' | 'or' | 'not' }
+  /** A word that opens with a quote is a phrase, never a filter or operator. */
+  | { type: 'word'; text: string; quoted: boolean }
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < text.length) {
+    const char = text[i]
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char })
+      i++
+    } else if (char === '-' && i + 1 < text.length && !/[\s)]/.test(text[i + 1])) {
+      tokens.push({ type: 'not' })
+      i++
+    } else {
+      // A word runs to the next space or parenthesis; quotes may wrap spaces, as in name:"darth vader".
+      let word = ''
+      const quoted = char === '"'
+      while (i < text.length && !/[\s()]/.test(text[i])) {
+        if (text[i] === '"') {
+          const end = text.indexOf('"', i + 1)
+          const stop = end === -1 ? text.length : end
+          word += text.slice(i + 1, stop)
+          i = stop + 1
+        } else {
+          word += text[i++]
+        }
+      }
+      if (!quoted && word.toLowerCase() === 'or') tokens.push({ type: 'or' })
+      else tokens.push({ type: 'word', text: word, quoted })
+    }
+  }
+  return tokens
+}
+
+const FILTER_PATTERN = /^([a-z]+)(<=|>=|:|=|<|>)(.*)$/i
+
+function parseWord(text: string, quoted: boolean, errors: string[]): QueryNode | null {
+  const match = FILTER_PATTERN.exec(text)
+  if (quoted || !match) {
+    return normalize(text) ? { kind: 'text', value: text } : null
+  }
+  const [, name, op, value] = match
+  const field = FIELD_ALIASES[name.toLowerCase()]
+  if (!field) {
+    errors.push(`Unknown filter "${name}". Try ${FILTER_NAMES}.`)
+    return null
+  }
+  if (!value.trim()) {
+    errors.push(`"${name}${op}" needs a value.`)
+    return null
+  }
+  if (isNumericField(field)) {
+    const number = Number(value.replace(/^\$/, ''))
+    if (!Number.isFinite(number)) {
+      errors.push(`"${name}" needs a number, not "${value}".`)
+      return null
+    }
+    return { kind: 'compare', field, op: op === ':' ? '=' : (op as Comparison), value: number }
+  }
+  if (op !== ':' && op !== '=') {
+    errors.push(`"${name}" cannot be compared with ${op}; use ${name}:${value}.`)
+    return null
+  }
+  return { kind: 'field', field, value }
+}
+
+/**
+ * Parses a search query. Terms are ANDed; `OR` joins alternatives, `-` negates a term and
+ * parentheses group. Words are `field:value` / `field<number>` filters or free text, and double
+ * quotes keep a phrase together.
+ */
+export function parseSearchQuery(text: string): ParsedQuery {
+  const tokens = tokenize(text)
+  const errors: string[] = []
+  let pos = 0
+
+  const collapse = (kind: 'and' | 'or', nodes: QueryNode[]): QueryNode | null =>
+    nodes.length === 0 ? null : nodes.length === 1 ? nodes[0] : { kind, nodes }
+
+  function parseUnary(): QueryNode | null {
+    const token = tokens[pos++]
+    if (token.type === 'not') {
+      const node = pos < tokens.length ? parseUnary() : null
+      return node ? { kind: 'not', node } : null
+    }
+    if (token.type === '(') {
+      const node = parseOr()
+      if (tokens[pos]?.type === ')') pos++
+      else errors.push('Missing ")".')
+      return node
+    }
+    if (token.type === 'word') return parseWord(token.text, token.quoted, errors)
+    return null
+  }
+
+  function parseAnd(): QueryNode | null {
+    const nodes: QueryNode[] = []
+    while (pos < tokens.length && tokens[pos].type !== 'or' && tokens[pos].type !== ')') {
+      const node = parseUnary()
+      if (node) nodes.push(node)
+    }
+    return collapse('and', nodes)
+  }
+
+  function parseOr(): QueryNode | null {
+    const nodes: QueryNode[] = []
+    for (;;) {
+      const node = parseAnd()
+      if (node) nodes.push(node)
+      if (tokens[pos]?.type !== 'or') break
+      pos++
+    }
+    return collapse('or', nodes)
+  }
+
+  let node = parseOr()
+  while (pos < tokens.length) {
+    // Only a stray ")" stops the top level; report it and keep the rest of the query.
+    errors.push('Unexpected ")".')
+    pos++
+    const rest = parseOr()
+    node = node && rest ? { kind: 'and', nodes: [node, rest] } : node ?? rest
+  }
+  return { node: errors.length ? null : node, errors }
+}
+
+/** Whether the text uses query syntax, so it should be run as a query rather than suggested. */
+export function looksLikeQuery(text: string): boolean {
+  return /(^|[\s(])-?[a-z]+(<=|>=|:|=|<|>)/i.test(text) || /["()]|(^|\s)-\S|\sor\s/i.test(text)
+}
+
+function compare(actual: number | undefined, op: Comparison, expected: number): boolean {
+  if (actual === undefined || !Number.isFinite(actual)) return false
+  switch (op) {
+    case '<':
+      return actual < expected
+    case '<=':
+      return actual <= expected
+    case '>':
+      return actual > expected
+    case '>=':
+      return actual >= expected
+    case '=':
+      return actual === expected
+  }
+}
+
+function matchesField(field: TextField, value: string, card: Card, setKey: SetKey): boolean {
+  switch (field) {
+    case 'name':
+      return normalize(card.Name).includes(value)
+    case 'type':
+      return normalize(card.Type ?? '').startsWith(value)
+    case 'aspect':
+      return (card.Aspects ?? []).some(aspect => normalize(aspect).startsWith(value))
+    case 'rarity':
+      return normalize(card.Rarity ?? '').startsWith(value)
+    case 'set':
+      return normalize(setKey) === value
+    case 'arena':
+      return normalize(card.Arena ?? '').startsWith(value)
+    case 'trait':
+      return (card.Traits ?? []).some(trait => normalize(trait).startsWith(value))
+    case 'keyword':
+      return (card.Keywords ?? []).some(keyword => normalize(keyword).startsWith(value))
+    case 'text':
+      return normalize(card.FrontText ?? '').includes(value)
+    case 'artist':
+      return normalize(card.Artist ?? '').includes(value)
+    case 'variant':
+      return normalize(card.VariantType ?? '').startsWith(value)
+  }
+}
+
+/** Whether `card` from `setKey` matches the query. Word filters match the start of a value. */
+export function matchesQuery(node: QueryNode, card: Card, setKey: SetKey, context: QueryContext): boolean {
+  switch (node.kind) {
+    case 'text':
+      return normalize(`${card.Name} ${card.Subtitle ?? ''}`).includes(normalize(node.value))
+    case 'field':
+      return matchesField(node.field, normalize(node.value), card, setKey)
+    case 'compare': {
+      const actual = {
+        number: card.Number,
+        cost: card.Cost,
+        power: card.Power,
+        hp: card.HP,
+        owned: context.ownedOf(setKey, card.Number),
+        price: card.MarketPrice,
+      }[node.field]
+      return compare(actual, node.op, node.value)
+    }
+    case 'not':
+      return !matchesQuery(node.node, card, setKey, context)
+    case 'and':
+      return node.nodes.every(child => matchesQuery(child, card, setKey, context))
+    case 'or':
+      return node.nodes.some(child => matchesQuery(child, card, setKey, context))
+  }
+}
+
+/** Every card in `catalogs` matching the query, in catalog then collector number order. */
+export function runSearchQuery(node: QueryNode, catalogs: SearchCatalog[], context: QueryContext): QueryResult[] {
+  const results: QueryResult[] = []
+  for (const catalog of catalogs) {
+    const cards = [...catalog.cards].sort((a, b) => a.Number - b.Number)
+    for (const card of cards) {
+      if (matchesQuery(node, card, catalog.setKey, context)) {
+        results.push({ setKey: catalog.setKey, card, owned: context.ownedOf(catalog.setKey, card.Number) })
+      }
+    }
+  }
+  return results
+}
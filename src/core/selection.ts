@@ -1,21 +1,24 @@
-import { getSpreadCoords, moveBinderSelection, type MoveDirection } from './binder';
+import { getSpreadCoords, moveBinderSelection, type BinderProfile, type MoveDirection } from './binder';
 import type { ActiveSelection, Card } from './types';
 
 export function selectionAfterMove(
   active: ActiveSelection,
   direction: MoveDirection,
   totalPages: number,
-  byNumber: ReadonlyMap<number, Card>,
+  /** Cards by binder slot; the collector number unless the set has a sort order. */
+  bySlot: ReadonlyMap<number, Card>,
+  profile?: BinderProfile,
 ): ActiveSelection {
-  const next = moveBinderSelection(active, direction, totalPages);
+  const next = moveBinderSelection(active, direction, totalPages, profile);
   if (next === active) return active;
 
-  const card = byNumber.get(next.number);
+  const card = bySlot.get(next.number);
   if (!card) return active;
 
   return {
     ...next,
+    number: card.Number,
     card,
-    ...getSpreadCoords(next.page, next.row, next.column),
+    ...getSpreadCoords(next.page, next.row, next.column, profile),
   };
 }
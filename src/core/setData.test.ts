@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from 'vitest';
-import { fetchSetPayload, parseSetPayload } from './setData';
+import { fetchSetPayload, parseSetCard, parseSetPayload } from './setData';
 
 function response(body: unknown, ok = true): Response {
   return { ok, json: async () => body } as Response;
@@ -9,19 +9,86 @@ describe('set data loading', () => {
   it('rejects a non-success response even when it contains JSON', async () => {
     const fetcher = vi.fn(async () => response([{ Name: 'Wrong' }], false));
 
-    await expect(fetchSetPayload(fetcher, '/sets/missing.json')).rejects.toThrow(
+    await expect(fetchSetPayload(fetcher, '/sets/missing.json', 'SOR')).rejects.toThrow(
       'Failed to fetch set data',
     );
   });
 
   it('rejects malformed primary payload objects', () => {
-    expect(() => parseSetPayload({ cards: [] })).toThrow('Invalid set data');
+    expect(() => parseSetPayload({ cards: [] }, 'SOR')).toThrow('Invalid set data');
   });
 
   it('accepts array payloads and data-array wrappers', () => {
     const cards = [{ Name: 'Alpha', Number: 1 }];
+    const parsed = [{ Name: 'Alpha', Number: 1, Aspects: [], MarketPrice: 0, Set: 'SOR' }];
 
-    expect(parseSetPayload(cards)).toBe(cards);
-    expect(parseSetPayload({ data: cards })).toBe(cards);
+    expect(parseSetPayload(cards, 'SOR')).toMatchObject(parsed);
+    expect(parseSetPayload({ data: cards }, 'SOR')).toMatchObject(parsed);
+  });
+
+  it('drops entries without a name or a collector number', () => {
+    expect(parseSetPayload([{ Name: '', Number: 1 }, { Name: 'Beta', Number: 'x' }, 'junk'], 'SOR')).toEqual([]);
+  });
+});
+
+describe('parseSetCard', () => {
+  it('keeps the gameplay fields, converting numeric strings and named values', () => {
+    const card = parseSetCard(
+      {
+        Name: 'Darth Vader',
+        Subtitle: 'Commanding the First Legion',
+        Number: '087',
+        Aspects: ['Aggression', 'Villainy'],
+        Type: { Name: 'Unit' },
+        Rarity: 'L',
+        Cost: '7',
+        Power: '5',
+        HP: 7,
+        Arenas: ['Ground'],
+        Traits: ['FORCE', 'IMPERIAL', 'SITH'],
+        Keywords: ['Shielded'],
+        FrontText: 'When Played: Search the top 10 cards of your deck.',
+        Artist: 'Borja Pindado',
+        VariantType: 'Normal',
+        MarketPrice: '4.25',
+      },
+      'SOR',
+    );
+
+    expect(card).toEqual({
+      Name: 'Darth Vader',
+      Subtitle: 'Commanding the First Legion',
+      Number: 87,
+      Aspects: ['Aggression', 'Villainy'],
+      Type: 'Unit',
+      Rarity: 'Legendary',
+      Cost: 7,
+      Power: 5,
+      HP: 7,
+      Arena: 'Ground',
+      Traits: ['FORCE', 'IMPERIAL', 'SITH'],
+      Keywords: ['Shielded'],
+      FrontText: 'When Played: Search the top 10 cards of your deck.',
+      Artist: 'Borja Pindado',
+      VariantType: 'Normal',
+      MarketPrice: 4.25,
+      Set: 'SOR',
+    });
+  });
+
+  it('drops optional fields of the wrong type instead of the card', () => {
+    const card = parseSetCard(
+      { Name: 'Vanquish', Number: 999, Cost: '-', Power: {}, Traits: 'IMPERIAL', Keywords: [3, ''], Artist: 12 },
+      'JTL',
+    );
+
+    expect(card).toMatchObject({ Name: 'Vanquish', Number: 999, Set: 'JTL' });
+    expect([card?.Cost, card?.Power, card?.Traits, card?.Keywords, card?.Artist]).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    ]);
   });
 });
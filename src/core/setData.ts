@@ -1,17 +1,93 @@
+import type { Card, SetKey } from './types';
+
 type Fetcher = (input: RequestInfo | URL) => Promise<Response>;
 
 function isRecord(value: unknown): value is Record<string, unknown> {
   return !!value && typeof value === 'object' && !Array.isArray(value);
 }
 
-export function parseSetPayload(payload: unknown): unknown[] {
-  if (Array.isArray(payload)) return payload;
-  if (isRecord(payload) && Array.isArray(payload.data)) return payload.data;
-  throw new Error('Invalid set data payload.');
+// SWU-DB sends some fields as `{ Name }` objects instead of plain strings.
+function stringOrNamedValue(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (isRecord(value) && typeof value.Name === 'string') return value.Name;
+  return undefined;
+}
+
+function textField(value: unknown): string | undefined {
+  return stringOrNamedValue(value)?.trim() || undefined;
+}
+
+// Stats arrive as numbers or numeric strings; blanks and "-" mean the card has none.
+function numberField(value: unknown): number | undefined {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function textListField(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const items = value.map(textField).filter((item): item is string => !!item);
+  return items.length ? items : undefined;
+}
+
+export function normalizeRarity(r: unknown): string | undefined {
+  if (!r) return undefined;
+  const v = String(r).trim();
+  const k = v.toLowerCase();
+  const map: Record<string, string> = {
+    c: 'Common', common: 'Common',
+    u: 'Uncommon', uncommon: 'Uncommon',
+    r: 'Rare', rare: 'Rare',
+    l: 'Legendary', legendary: 'Legendary',
+    s: 'Special',
+    starter: 'Special',
+    'starter deck exclusive': 'Special',
+    'starter deck-exclusive': 'Special',
+    special: 'Special',
+  };
+  return map[k] ?? v; // fall back to the original string
+}
+
+/**
+ * One set-file entry as a card. Optional fields of the wrong type are dropped rather than
+ * rejecting the card; an entry without a name or a collector number is null.
+ */
+export function parseSetCard(value: unknown, setKey: SetKey): Card | null {
+  const c = isRecord(value) ? value : {};
+  const name = String(c.Name || '').trim();
+  const number = Number(c.Number);
+  if (!name || !Number.isFinite(number)) return null;
+
+  return {
+    Name: name,
+    Subtitle: String(c.Subtitle || '').trim() || undefined,
+    Number: number,
+    Aspects: textListField(c.Aspects) ?? [],
+    Type: stringOrNamedValue(c.Type)?.trim(),
+    Rarity: normalizeRarity(stringOrNamedValue(c.Rarity ?? c.rarity ?? c.RarityCode)),
+    Cost: numberField(c.Cost),
+    Power: numberField(c.Power),
+    HP: numberField(c.HP),
+    // SWU-DB lists arenas as an array; a unit fights in one.
+    Arena: textField(c.Arena) ?? textListField(c.Arenas)?.[0],
+    Traits: textListField(c.Traits),
+    Keywords: textListField(c.Keywords),
+    FrontText: textField(c.FrontText),
+    Artist: textField(c.Artist),
+    MarketPrice: numberField(c.MarketPrice ?? c.Price) ?? 0,
+    VariantType: textField(c.VariantType),
+    Set: setKey,
+  };
+}
+
+/** The cards in a set file (a bare array or `{ data: [...] }`), validated by `parseSetCard`. */
+export function parseSetPayload(payload: unknown, setKey: SetKey): Card[] {
+  const entries = Array.isArray(payload) ? payload : isRecord(payload) && Array.isArray(payload.data) ? payload.data : null;
+  if (!entries) throw new Error('Invalid set data payload.');
+  return entries.map(entry => parseSetCard(entry, setKey)).filter((card): card is Card => !!card);
 }
 
-export async function fetchSetPayload(fetcher: Fetcher, url: string): Promise<unknown[]> {
+export async function fetchSetPayload(fetcher: Fetcher, url: string, setKey: SetKey): Promise<Card[]> {
   const response = await fetcher(url);
   if (!response.ok) throw new Error(`Failed to fetch set data from ${url}.`);
-  return parseSetPayload(await response.json());
+  return parseSetPayload(await response.json(), setKey);
 }
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import {
+  SNAPSHOTS_STORAGE_KEY,
+  createInventorySnapshot,
+  diffSnapshots,
+  loadSnapshots,
+  parseSnapshots,
+  persistSnapshots,
+} from './snapshots'
+
+function fakeStorage(initial: Record<string, string> = {}) {
+  const store = new Map(Object.entries(initial))
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      store.set(key, value)
+    },
+  }
+}
+
+const prices: Record<string, number> = { 'SOR:87': 2, 'SOR:10': 0.5, 'SHD:1': 10 }
+const priceOf = (setKey: string, baseNumber: number) => prices[`${setKey}:${baseNumber}`] ?? 0
+
+describe('createInventorySnapshot', () => {
+  it('names untitled snapshots after their date', () => {
+    const snapshot = createInventorySnapshot('  ', { SOR: { 87: 1 } }, {
+      now: () => '2025-06-01T12:00:00.000Z',
+      makeId: () => 'snap-1',
+    })
+
+    expect(snapshot).toEqual({
+      id: 'snap-1',
+      name: 'Snapshot 2025-06-01',
+      createdAt: '2025-06-01T12:00:00.000Z',
+      sets: { SOR: { 87: 1 } },
+    })
+  })
+})
+
+describe('diffSnapshots', () => {
+  it('lists gained and lost printings per set with the market value change', () => {
+    const diff = diffSnapshots(
+      { SOR: { 87: 1, 10: 2 }, SHD: { 1: 1 }, TWI: { 5: 1 } },
+      { SOR: { 87: 2, '87:foil': 1 }, SHD: { 1: 1 }, TWI: { 5: 1 } },
+      priceOf,
+    )
+
+    expect(diff).toEqual([
+      {
+        setKey: 'SOR',
+        gained: [
+          { key: '87', baseNumber: 87, variant: 'normal', delta: 1 },
+          { key: '87:foil', baseNumber: 87, variant: 'foil', delta: 1 },
+        ],
+        lost: [{ key: '10', baseNumber: 10, variant: 'normal', delta: -2 }],
+        valueChange: 3,
+      },
+    ])
+  })
+
+  it('treats sets missing from one side as empty', () => {
+    expect(diffSnapshots({}, { SHD: { 1: 2 } }, priceOf)).toEqual([
+      {
+        setKey: 'SHD',
+        gained: [{ key: '1', baseNumber: 1, variant: 'normal', delta: 2 }],
+        lost: [],
+        valueChange: 20,
+      },
+    ])
+  })
+})
+
+describe('snapshot persistence', () => {
+  it('round-trips through storage', () => {
+    const storage = fakeStorage()
+    const snapshots = [createInventorySnapshot('After trade night', { SOR: { 87: 3, '87:hyperspace': 1 } })]
+
+    expect(persistSnapshots(storage, snapshots)).toBe(true)
+    expect(storage.getItem(SNAPSHOTS_STORAGE_KEY)).not.toBeNull()
+    expect(loadSnapshots(storage)).toEqual(snapshots)
+  })
+
+  it('drops malformed snapshots and entries', () => {
+    expect(parseSnapshots('{nope')).toEqual([])
+    expect(
+      parseSnapshots(
+        JSON.stringify([
+          { id: 'a', name: 'A', createdAt: '2025-01-01', sets: { SOR: { 87: 1, '87:bogus': 1, 10: -1 } } },
+          { id: 'b', name: 'B' },
+        ]),
+      ),
+    ).toEqual([{ id: 'a', name: 'A', createdAt: '2025-01-01', sets: { SOR: { 87: 1 } } }])
+  })
+})
@@ -0,0 +1,132 @@
+import { diffInventories } from './history'
+import { parsePrintingKey, type VariantKind } from './inventory'
+import type { Inventory, SetKey } from './types'
+
+/** A named copy of the whole multi-set collection, as produced by `createInventoryExportSnapshot`. */
+export type InventorySnapshot = {
+  id: string
+  name: string
+  createdAt: string
+  sets: Record<SetKey, Inventory>
+}
+
+export const SNAPSHOTS_STORAGE_KEY = 'snapshots:v1'
+
+export function createInventorySnapshot(
+  name: string,
+  sets: Record<SetKey, Inventory>,
+  deps: { now?: () => string; makeId?: () => string } = {},
+): InventorySnapshot {
+  const now = deps.now ?? (() => new Date().toISOString())
+  const makeId = deps.makeId ?? (() => crypto.randomUUID())
+  const createdAt = now()
+  return { id: makeId(), name: name.trim() || `Snapshot ${createdAt.slice(0, 10)}`, createdAt, sets }
+}
+
+/** Copies of one printing gained (`delta > 0`) or lost between two snapshots. */
+export type SnapshotCardDelta = {
+  key: string
+  baseNumber: number
+  variant: VariantKind
+  delta: number
+}
+
+export type SnapshotSetDiff = {
+  setKey: SetKey
+  gained: SnapshotCardDelta[]
+  lost: SnapshotCardDelta[]
+  /** Market value of the gained copies minus the lost ones. */
+  valueChange: number
+}
+
+/**
+ * Per-set changes going from `from` to `to`. Sets without changes are left out; each printing is
+ * priced by `priceOf` for its own variant.
+ */
+export function diffSnapshots(
+  from: Record<SetKey, Inventory>,
+  to: Record<SetKey, Inventory>,
+  priceOf: (setKey: SetKey, baseNumber: number, variant: VariantKind) => number,
+): SnapshotSetDiff[] {
+  const setKeys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort()
+  const diffs: SnapshotSetDiff[] = []
+  for (const setKey of setKeys) {
+    const gained: SnapshotCardDelta[] = []
+    const lost: SnapshotCardDelta[] = []
+    let valueChange = 0
+    for (const change of diffInventories(from[setKey] ?? {}, to[setKey] ?? {})) {
+      const parsed = parsePrintingKey(change.key)
+      if (!parsed) continue
+      const delta = change.after - change.before
+      const entry = { key: change.key, baseNumber: parsed.number, variant: parsed.variant, delta }
+      if (delta > 0) gained.push(entry)
+      else lost.push(entry)
+      valueChange += delta * priceOf(setKey, parsed.number, parsed.variant)
+    }
+    if (gained.length || lost.length) diffs.push({ setKey, gained, lost, valueChange })
+  }
+  return diffs
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function parseSetInventory(value: unknown): Inventory {
+  if (!isRecord(value)) return {}
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([key, count]) =>
+        parsePrintingKey(key) !== null &&
+        typeof count === 'number' &&
+        Number.isInteger(count) &&
+        count > 0,
+    ),
+  ) as Inventory
+}
+
+function parseSnapshot(value: unknown): InventorySnapshot | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return null
+  if (typeof value.createdAt !== 'string' || !isRecord(value.sets)) return null
+  return {
+    id: value.id,
+    name: value.name,
+    createdAt: value.createdAt,
+    sets: Object.fromEntries(
+      Object.entries(value.sets).map(([setKey, inventory]) => [setKey, parseSetInventory(inventory)]),
+    ),
+  }
+}
+
+export function parseSnapshots(raw: string | null): InventorySnapshot[] {
+  if (!raw) return []
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+    return parsed
+      .map(parseSnapshot)
+      .filter((snapshot): snapshot is InventorySnapshot => snapshot !== null)
+  } catch {
+    return []
+  }
+}
+
+export function loadSnapshots(storage: Pick<Storage, 'getItem'>): InventorySnapshot[] {
+  try {
+    return parseSnapshots(storage.getItem(SNAPSHOTS_STORAGE_KEY))
+  } catch {
+    return []
+  }
+}
+
+export function persistSnapshots(
+  storage: Pick<Storage, 'setItem'>,
+  snapshots: InventorySnapshot[],
+): boolean {
+  try {
+    storage.setItem(SNAPSHOTS_STORAGE_KEY, JSON.stringify(snapshots))
+    return true
+  } catch {
+    return false
+  }
+}
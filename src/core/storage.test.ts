@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  STORAGE_BACKUP_KEY,
+  STORAGE_MIGRATED_KEY,
+  STORAGE_SCHEMA_KEY,
+  STORAGE_SCHEMA_VERSION,
+  appStorage,
+  createCachedStorage,
+  flushAppStorage,
+  initAppStorage,
+  isCollectionKey,
+  migrateLocalStorageToBackend,
+  storageKeys,
+  type StorageBackend,
+  type StorageChannel,
+} from './storage'
+
+function memoryBackend(initial: Record<string, string> = {}) {
+  const data = new Map(Object.entries(initial))
+  const writes: Array<Record<string, string | null>> = []
+  const backend: StorageBackend = {
+    readAll: async () => Object.fromEntries(data),
+    read: async keys => Object.fromEntries(keys.map(key => [key, data.get(key) ?? null])),
+    write: async entries => {
+      writes.push(entries)
+      for (const [key, value] of Object.entries(entries)) {
+        if (value === null) data.delete(key)
+        else data.set(key, value)
+      }
+    },
+  }
+  return { backend, data, writes }
+}
+
+function fakeStorage(initial: Record<string, string> = {}): Storage {
+  const store = new Map(Object.entries(initial))
+  return {
+    get length() {
+      return store.size
+    },
+    key: index => [...store.keys()][index] ?? null,
+    getItem: key => store.get(key) ?? null,
+    setItem: (key, value) => {
+      store.set(key, value)
+    },
+    removeItem: key => {
+      store.delete(key)
+    },
+    clear: () => store.clear(),
+  }
+}
+
+describe('createCachedStorage', () => {
+  it('serves reads from memory and batches writes to the backend', async () => {
+    const { backend, data, writes } = memoryBackend()
+    const storage = createCachedStorage({ 'inv:SOR': '{"87":1}' }, backend)
+
+    storage.setItem('inv:SHD', '{}')
+    storage.setItem('inv:SOR', '{"87":2}')
+    storage.removeItem('inv:SHD')
+
+    expect(storage.getItem('inv:SOR')).toBe('{"87":2}')
+    expect(storage.getItem('inv:SHD')).toBeNull()
+    expect(storageKeys(storage)).toEqual(['inv:SOR'])
+
+    await storage.flush()
+    expect(writes).toEqual([{ 'inv:SHD': null, 'inv:SOR': '{"87":2}' }])
+    expect(Object.fromEntries(data)).toEqual({ 'inv:SOR': '{"87":2}' })
+  })
+
+  it('reports failed backend writes without losing the cached value', async () => {
+    const errors: unknown[] = []
+    const backend: StorageBackend = {
+      readAll: async () => ({}),
+      read: async () => ({}),
+      write: async () => {
+        throw new Error('quota')
+      },
+    }
+    const storage = createCachedStorage({}, backend, error => errors.push(error))
+
+    storage.setItem('decks:v1', '{}')
+    await storage.flush()
+
+    expect(storage.getItem('decks:v1')).toBe('{}')
+    expect(errors).toHaveLength(1)
+  })
+
+  it('reloads keys another tab wrote from the shared backend', async () => {
+    const { backend } = memoryBackend({ 'inv:SOR': '{"87":1}', 'sync:state': '{}' })
+    const tabs: Array<(keys: string[]) => void> = []
+    const channel = (): StorageChannel => ({
+      postMessage: keys => tabs.forEach(handler => handler(keys)),
+      onMessage: handler => {
+        tabs.push(handler)
+        return () => {}
+      },
+    })
+    const first = createCachedStorage(await backend.readAll(), backend, undefined, channel())
+    const second = createCachedStorage(await backend.readAll(), backend, undefined, channel())
+
+    first.setItem('inv:SOR', '{"87":2}')
+    first.setItem('sync:state', '{"pending":{}}')
+    second.setItem('sync:state', '{"pending":{"SHD":true}}')
+    await first.flush()
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    expect(second.getItem('inv:SOR')).toBe('{"87":2}')
+    expect(second.getItem('sync:state')).toBe('{"pending":{"SHD":true}}')
+  })
+})
+
+describe('migrateLocalStorageToBackend', () => {
+  it('backs up and copies collection keys once, then frees localStorage', async () => {
+    const legacy = fakeStorage({
+      'inv:SOR': '{"87":1}',
+      'inv:schema-version': '3',
+      'decks:v1': '{"customDecks":[],"preconOwnership":{}}',
+      'sync:state': '{}',
+      'ui:theme': 'dark',
+    })
+    const { backend, writes } = memoryBackend()
+
+    const entries = await migrateLocalStorageToBackend(legacy, backend)
+
+    expect(Object.keys(writes[0]!)).toEqual([STORAGE_BACKUP_KEY])
+    expect(JSON.parse(writes[0]![STORAGE_BACKUP_KEY]!)).toEqual({
+      'inv:SOR': '{"87":1}',
+      'inv:schema-version': '3',
+      'decks:v1': '{"customDecks":[],"preconOwnership":{}}',
+      'sync:state': '{}',
+    })
+    expect(entries['inv:SOR']).toBe('{"87":1}')
+    expect(entries[STORAGE_SCHEMA_KEY]).toBe(STORAGE_SCHEMA_VERSION)
+    expect(storageKeys(legacy)).toEqual(['ui:theme', STORAGE_MIGRATED_KEY])
+
+    legacy.setItem('inv:SOR', '{"87":3}')
+    const again = await migrateLocalStorageToBackend(legacy, backend)
+    expect(again['inv:SOR']).toBe('{"87":1}')
+    expect(writes).toHaveLength(2)
+  })
+
+  it('keeps the backup from an interrupted earlier attempt', async () => {
+    const legacy = fakeStorage({ 'inv:SOR': '{"87":2}' })
+    const { backend } = memoryBackend({ [STORAGE_BACKUP_KEY]: '{"inv:SOR":"{\\"87\\":1}"}' })
+
+    const entries = await migrateLocalStorageToBackend(legacy, backend)
+
+    expect(entries[STORAGE_BACKUP_KEY]).toBe('{"inv:SOR":"{\\"87\\":1}"}')
+    expect(entries['inv:SOR']).toBe('{"87":2}')
+  })
+
+  it('recognizes every collection key prefix', () => {
+    expect(['inv:SOR', 'inv-history:v1', 'deckSync:state', 'quota:v1', 'snapshots:v1'].every(isCollectionKey)).toBe(true)
+    expect(isCollectionKey('theme')).toBe(false)
+  })
+})
+
+describe('initAppStorage', () => {
+  afterEach(async () => {
+    localStorage.clear()
+    await initAppStorage({ openBackend: () => Promise.reject(new Error('reset')) })
+  })
+
+  it('switches appStorage to the backend after migrating', async () => {
+    localStorage.setItem('inv:SOR', '{"87":1}')
+    const { backend } = memoryBackend()
+
+    expect(await initAppStorage({ openBackend: async () => backend, channel: null })).toBe('indexeddb')
+    expect(appStorage.getItem('inv:SOR')).toBe('{"87":1}')
+    expect(localStorage.getItem('inv:SOR')).toBeNull()
+  })
+
+  it('keeps preferences in localStorage once collection data moves to the backend', async () => {
+    const { backend, data } = memoryBackend()
+    await initAppStorage({ openBackend: async () => backend, channel: null })
+
+    appStorage.setItem('binderProfile:v1', '{"rows":3}')
+    appStorage.setItem('decks:v1', '{}')
+    await flushAppStorage()
+
+    expect(localStorage.getItem('binderProfile:v1')).toBe('{"rows":3}')
+    expect(appStorage.getItem('binderProfile:v1')).toBe('{"rows":3}')
+    expect(data.get('decks:v1')).toBe('{}')
+    expect(data.has('binderProfile:v1')).toBe(false)
+  })
+
+  it('blocks saving instead of falling back once the collection has moved out of localStorage', async () => {
+    const { backend } = memoryBackend()
+    await initAppStorage({ openBackend: async () => backend, channel: null })
+
+    expect(await initAppStorage({ openBackend: () => Promise.reject(new Error('blocked')) })).toBe('unavailable')
+    expect(appStorage.getItem('inv:SOR')).toBeNull()
+    expect(() => appStorage.setItem('inv:SOR', '{"87":1}')).toThrow()
+  })
+
+  it('falls back to localStorage when IndexedDB cannot be opened', async () => {
+    localStorage.setItem('inv:SOR', '{"87":1}')
+
+    expect(await initAppStorage({ openBackend: () => Promise.reject(new Error('blocked')) })).toBe('localStorage')
+    expect(appStorage.getItem('inv:SOR')).toBe('{"87":1}')
+  })
+})
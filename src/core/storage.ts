@@ -0,0 +1,325 @@
+/**
+ * Storage adapter for collection data. The collection modules keep their synchronous `Storage`
+ * signatures; `createCachedStorage` serves them from memory and writes through to an async
+ * backend such as IndexedDB, which is not bound by localStorage's ~5 MB quota.
+ */
+
+/** Async key-value store behind the cache. `null` values delete their key. */
+export type StorageBackend = {
+  readAll(): Promise<Record<string, string>>
+  /** Current values of `keys`; missing keys are null. */
+  read(keys: string[]): Promise<Record<string, string | null>>
+  write(entries: Record<string, string | null>): Promise<void>
+}
+
+/** Tells other tabs which keys were written so they can reload them from the shared backend. */
+export type StorageChannel = {
+  postMessage(keys: string[]): void
+  onMessage(handler: (keys: string[]) => void): () => void
+}
+
+export type CachedStorage = Storage & {
+  /** Resolves once every write made so far has reached the backend. */
+  flush(): Promise<void>
+}
+
+/** Backend schema marker, written last by the localStorage migration. */
+export const STORAGE_SCHEMA_KEY = 'storage:schema-version'
+export const STORAGE_SCHEMA_VERSION = 'indexeddb-1'
+/** Original localStorage collection records, written before anything is copied. */
+export const STORAGE_BACKUP_KEY = 'storage:migration:indexeddb:backup'
+/**
+ * Set in localStorage once the collection lives in the backend, so a later load that cannot open
+ * the backend does not fall back to the emptied localStorage.
+ */
+export const STORAGE_MIGRATED_KEY = 'storage:migrated'
+/** Window event dispatched when a write could not reach the backend. */
+export const STORAGE_WRITE_ERROR_EVENT = 'swu:storage-write-error'
+
+const COLLECTION_KEY_PREFIXES = [
+  'inv:',
+  'inv-history:',
+  'decks:',
+  'sync:',
+  'deckSync:',
+  'quota:',
+  'snapshots:',
+  'ledger:',
+  'locations:',
+]
+
+/**
+ * Keys that hold collection data and move to the backend. Everything else (column mappings, binder
+ * layout and sort order, …) is a device preference that `appStorage` keeps in localStorage.
+ */
+export function isCollectionKey(key: string): boolean {
+  return COLLECTION_KEY_PREFIXES.some(prefix => key.startsWith(prefix))
+}
+
+export function storageKeys(storage: Pick<Storage, 'length' | 'key'>): string[] {
+  const keys: string[] = []
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i)
+    if (key !== null) keys.push(key)
+  }
+  return keys
+}
+
+export function createCachedStorage(
+  initial: Record<string, string>,
+  backend: StorageBackend,
+  onWriteError: (error: unknown) => void = () => {},
+  channel: StorageChannel | null = null,
+): CachedStorage {
+  const cache = new Map(Object.entries(initial))
+  let pending: Record<string, string | null> = {}
+  let chain: Promise<void> = Promise.resolve()
+
+  // Starts the backend transaction for everything written since the last one. Transactions run in
+  // the order they were started, so a flush never overtakes an earlier batch.
+  const writePending = () => {
+    const keys = Object.keys(pending)
+    if (!keys.length) return
+    const batch = pending
+    pending = {}
+    const written = backend.write(batch).then(
+      () => channel?.postMessage(keys),
+      error => onWriteError(error),
+    )
+    chain = chain.then(() => written)
+  }
+
+  // Writes made in the same tick share one backend transaction, in the order they were made.
+  const schedule = (key: string, value: string | null) => {
+    const first = !Object.keys(pending).length
+    pending[key] = value
+    if (first) queueMicrotask(writePending)
+  }
+
+  // Another tab wrote these keys: reload them, unless this tab has a newer write still queued.
+  channel?.onMessage(keys => {
+    backend.read(keys).then(
+      values => {
+        for (const key of keys) {
+          if (key in pending) continue
+          const value = values[key]
+          if (value === null || value === undefined) cache.delete(key)
+          else cache.set(key, value)
+        }
+      },
+      () => {
+        // Keep the cached values; the next message or load picks up the other tab's writes.
+      },
+    )
+  })
+
+  return {
+    get length() {
+      return cache.size
+    },
+    key: (index: number) => [...cache.keys()][index] ?? null,
+    getItem: (key: string) => cache.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      cache.set(key, String(value))
+      schedule(key, String(value))
+    },
+    removeItem: (key: string) => {
+      if (!cache.delete(key)) return
+      schedule(key, null)
+    },
+    clear: () => {
+      for (const key of cache.keys()) schedule(key, null)
+      cache.clear()
+    },
+    flush: () => {
+      writePending()
+      return chain
+    },
+  }
+}
+
+/**
+ * One-time copy of the localStorage collection records into the backend. Mirrors the inventory
+ * schema migration: the originals are backed up first (an existing backup is never replaced),
+ * the records and the schema marker follow, and only then are the localStorage copies removed.
+ * Returns the backend's contents after migrating.
+ */
+export async function migrateLocalStorageToBackend(
+  legacy: Storage,
+  backend: StorageBackend,
+): Promise<Record<string, string>> {
+  const existing = await backend.readAll()
+  if (existing[STORAGE_SCHEMA_KEY] === STORAGE_SCHEMA_VERSION) {
+    markMigrated(legacy)
+    return existing
+  }
+
+  const records: Record<string, string> = {}
+  for (const key of storageKeys(legacy).filter(isCollectionKey)) {
+    const value = legacy.getItem(key)
+    if (value !== null) records[key] = value
+  }
+
+  if (existing[STORAGE_BACKUP_KEY] === undefined) {
+    await backend.write({ [STORAGE_BACKUP_KEY]: JSON.stringify(records) })
+  }
+  await backend.write({ ...records, [STORAGE_SCHEMA_KEY]: STORAGE_SCHEMA_VERSION })
+
+  for (const key of Object.keys(records)) {
+    try {
+      legacy.removeItem(key)
+    } catch {
+      // The backend copy is authoritative from here; a leftover original only wastes quota.
+    }
+  }
+  markMigrated(legacy)
+  return backend.readAll()
+}
+
+function markMigrated(legacy: Storage) {
+  try {
+    legacy.setItem(STORAGE_MIGRATED_KEY, STORAGE_SCHEMA_VERSION)
+  } catch {
+    // Retried on every load that finds the backend already migrated.
+  }
+}
+
+const DB_NAME = 'swu-organizer'
+const STORE_NAME = 'kv'
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function openIndexedDbBackend(factory: IDBFactory = indexedDB): Promise<StorageBackend> {
+  const open = factory.open(DB_NAME, 1)
+  open.onupgradeneeded = () => {
+    if (!open.result.objectStoreNames.contains(STORE_NAME)) open.result.createObjectStore(STORE_NAME)
+  }
+  const db = await requestResult(open)
+
+  return {
+    async read(keys) {
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME)
+      const values = await Promise.all(keys.map(key => requestResult(store.get(key))))
+      return Object.fromEntries(keys.map((key, i) => [key, values[i] === undefined ? null : String(values[i])]))
+    },
+    async readAll() {
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME)
+      const [keys, values] = await Promise.all([
+        requestResult(store.getAllKeys()),
+        requestResult(store.getAll()),
+      ])
+      return Object.fromEntries(keys.map((key, i) => [String(key), String(values[i])]))
+    },
+    write(entries) {
+      return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, 'readwrite')
+        const store = tx.objectStore(STORE_NAME)
+        for (const [key, value] of Object.entries(entries)) {
+          if (value === null) store.delete(key)
+          else store.put(value, key)
+        }
+        tx.oncomplete = () => resolve()
+        tx.onerror = () => reject(tx.error)
+        tx.onabort = () => reject(tx.error)
+      })
+    },
+  }
+}
+
+export function makeBroadcastStorageChannel(): StorageChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null
+  const channel = new BroadcastChannel('swu-storage')
+  return {
+    postMessage: keys => channel.postMessage(keys),
+    onMessage: handler => {
+      const listener = (ev: MessageEvent<string[]>) => handler(ev.data)
+      channel.addEventListener('message', listener)
+      return () => channel.removeEventListener('message', listener)
+    },
+  }
+}
+
+// Stands in for the collection once it has moved to a backend that cannot be opened: nothing to
+// read, and every write fails so the app reports it instead of saving into the emptied localStorage.
+const unavailableStorage: Storage = {
+  length: 0,
+  key: () => null,
+  getItem: () => null,
+  setItem: () => {
+    throw new Error('Collection storage is unavailable.')
+  },
+  removeItem: () => {
+    throw new Error('Collection storage is unavailable.')
+  },
+  clear: () => {
+    throw new Error('Collection storage is unavailable.')
+  },
+}
+
+let activeStorage: Storage | null = null
+let activeCache: CachedStorage | null = null
+const currentStorage = () => activeStorage ?? localStorage
+const storageFor = (key: string) => (isCollectionKey(key) ? currentStorage() : localStorage)
+
+/**
+ * The storage the app reads from. Collection data lives in localStorage until `initAppStorage`
+ * switches it to the IndexedDB-backed cache; preferences always stay in localStorage. `length`,
+ * `key` and `clear` cover the collection storage only.
+ */
+export const appStorage: Storage = {
+  get length() {
+    return currentStorage().length
+  },
+  key: index => currentStorage().key(index),
+  getItem: key => storageFor(key).getItem(key),
+  setItem: (key, value) => storageFor(key).setItem(key, value),
+  removeItem: key => storageFor(key).removeItem(key),
+  clear: () => currentStorage().clear(),
+}
+
+/** Resolves once every collection write made so far has reached the backend. */
+export function flushAppStorage(): Promise<void> {
+  return activeCache?.flush() ?? Promise.resolve()
+}
+
+/** `unavailable`: the collection was migrated, but the backend cannot be opened on this load. */
+export type AppStorageKind = 'indexeddb' | 'localStorage' | 'unavailable'
+
+/**
+ * Opens IndexedDB, migrates localStorage into it once, and points `appStorage` at it. Falls back
+ * to localStorage (leaving it untouched) if IndexedDB is unavailable or the migration fails, unless
+ * an earlier load already moved the collection out of localStorage.
+ */
+export async function initAppStorage(
+  deps: {
+    legacy?: Storage
+    openBackend?: () => Promise<StorageBackend>
+    onWriteError?: (error: unknown) => void
+    channel?: StorageChannel | null
+  } = {},
+): Promise<AppStorageKind> {
+  const legacy = deps.legacy ?? localStorage
+  try {
+    const backend = await (deps.openBackend ?? (() => openIndexedDbBackend()))()
+    const entries = await migrateLocalStorageToBackend(legacy, backend)
+    const channel = deps.channel === undefined ? makeBroadcastStorageChannel() : deps.channel
+    activeCache = createCachedStorage(entries, backend, deps.onWriteError, channel)
+    activeStorage = activeCache
+    return 'indexeddb'
+  } catch {
+    let migrated = false
+    try {
+      migrated = legacy.getItem(STORAGE_MIGRATED_KEY) !== null
+    } catch {
+      // An unreadable flag is treated as never migrated, as before the flag existed.
+    }
+    activeCache = null
+    activeStorage = migrated ? unavailableStorage : null
+    return migrated ? 'unavailable' : 'localStorage'
+  }
+}
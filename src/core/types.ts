@@ -5,11 +5,27 @@ export type Card = {
   Aspects?: string[]
   Type?: string
   Rarity?: string
+  /** Resource cost, when the set data carries it. */
+  Cost?: number
+  Power?: number
+  HP?: number
+  /** 'Ground' or 'Space' for units. */
+  Arena?: string
+  Traits?: string[]
+  Keywords?: string[]
+  /** Rules text on the front face. */
+  FrontText?: string
+  Artist?: string
   MarketPrice?: number
+  /** Printing treatment, e.g. 'Normal', 'Hyperspace' or 'Showcase'. */
+  VariantType?: string
   Set: string
 }
 
-export type Inventory = Record<number, number>
+/** Owned copies keyed by printing key: `"87"` for normal copies, `"87:foil"` for variants. */
+export type Inventory = Record<string, number>
+/** Owned copies rolled up to the base card number, across every printing. */
+export type BaseTotals = Record<number, number>
 export type SetKey = string
 export type SetMeta = { key: string; label: string; file: string }
 export type BinderPosition = { number: number; page: number; row: number; column: number }
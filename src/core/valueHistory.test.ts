@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import type { InventorySnapshot } from './snapshots'
+import { collectionValueSeries, fetchPriceHistory, parsePriceHistory, type PriceSnapshot } from './valueHistory'
+
+const snapshot = (name: string, createdAt: string, sets: InventorySnapshot['sets']): InventorySnapshot => ({
+  id: name,
+  name,
+  createdAt,
+  sets,
+})
+
+describe('parsePriceHistory', () => {
+  it('keeps valid dated snapshots in date order and drops malformed prices', () => {
+    expect(
+      parsePriceHistory({
+        version: 1,
+        setKey: 'SOR',
+        snapshots: [
+          { date: '2025-02-01', prices: { 87: 2, 10: 'n/a' } },
+          { date: 'yesterday', prices: { 87: 1 } },
+          { date: '2025-01-01', prices: { 87: '1.5' } },
+        ],
+      }),
+    ).toEqual([
+      { date: '2025-01-01', prices: { 87: 1.5 } },
+      { date: '2025-02-01', prices: { 87: 2 } },
+    ])
+    expect(parsePriceHistory([])).toEqual([])
+  })
+
+  it('treats a missing history file as no history', async () => {
+    const notFound = async () => new Response('', { status: 404 })
+    expect(await fetchPriceHistory(notFound, '/sets/SWU-SOR.price-history.json')).toEqual([])
+  })
+})
+
+describe('collectionValueSeries', () => {
+  const history: Record<string, PriceSnapshot[]> = {
+    SOR: [
+      { date: '2025-01-01', prices: { 1: 1, 2: 10 } },
+      { date: '2025-03-01', prices: { 1: 2, 2: 20 } },
+    ],
+    SHD: [{ date: '2025-02-01', prices: { 5: 4 } }],
+  }
+  const wanted = { SOR: [{ baseNumber: 1, quota: 3 }, { baseNumber: 2, quota: 1 }], SHD: [{ baseNumber: 5, quota: 1 }] }
+
+  it('values the live collection on every priced date, carrying set prices forward', () => {
+    const series = collectionValueSeries(history, { SOR: { 1: 1, '1:foil': 1 }, SHD: { 5: 2 } }, [], wanted, {
+      today: () => '2025-01-01',
+    })
+
+    expect(series.map(point => [point.date, point.total, point.bySet, point.missing, point.inventory])).toEqual([
+      ['2025-01-01', 2, { SOR: 2 }, 11, null],
+      ['2025-02-01', 10, { SOR: 2, SHD: 8 }, 11, null],
+      ['2025-03-01', 12, { SOR: 4, SHD: 8 }, 22, null],
+    ])
+  })
+
+  it('uses the newest inventory snapshot taken on or before each date', () => {
+    const series = collectionValueSeries(
+      history,
+      { SOR: { 1: 3, 2: 1 } },
+      [snapshot('February', '2025-02-10T12:00:00.000Z', { SOR: { 2: 1 } }), snapshot('January', '2025-01-15T00:00:00.000Z', {})],
+      wanted,
+      { today: () => '2025-03-01' },
+    )
+
+    expect(series.map(point => [point.date, point.total, point.inventory])).toEqual([
+      ['2025-01-01', 0, 'January'],
+      ['2025-02-01', 0, 'January'],
+      ['2025-03-01', 26, null],
+    ])
+  })
+
+  it('prices printings with a collector number of their own by that number', () => {
+    const prices = { SOR: [{ date: '2025-01-01', prices: { 1: 1, 301: 15 } }] }
+    const numberOf = (_setKey: string, baseNumber: number, variant: string) =>
+      variant === 'hyperspace' ? 300 + baseNumber : baseNumber
+
+    const [point] = collectionValueSeries(prices, { SOR: { 1: 1, '1:hyperspace': 2, '1:foil': 1 } }, [], {}, {
+      today: () => '2025-01-01',
+      numberOf,
+    })
+
+    expect(point.total).toBe(32)
+  })
+})
@@ -0,0 +1,116 @@
+import { parsePrintingKey, rollupInventory, type PrintingNumberOf } from './inventory'
+import type { InventorySnapshot } from './snapshots'
+import type { Inventory, SetKey } from './types'
+
+type Fetcher = (input: RequestInfo | URL) => Promise<Response>
+
+/** Market prices by card number on one day, as appended by `scripts/fetch-prices.mjs`. */
+export type PriceSnapshot = { date: string; prices: Record<number, number> }
+
+/** A base card and the copies the active quota wants of it, used to price what is still missing. */
+export type WantedCard = { baseNumber: number; quota: number }
+
+export type ValuePoint = {
+  date: string
+  total: number
+  bySet: Record<SetKey, number>
+  /** Market value of the copies still needed to fill every quota. */
+  missing: number
+  /** Name of the inventory snapshot the point was valued with; null for the live collection. */
+  inventory: string | null
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/** Reads a `SWU-<SET>.price-history.json` payload; malformed days are dropped, the last copy of a date wins. */
+export function parsePriceHistory(payload: unknown): PriceSnapshot[] {
+  if (!isRecord(payload) || !Array.isArray(payload.snapshots)) return []
+  const byDate = new Map<string, PriceSnapshot>()
+  for (const snapshot of payload.snapshots) {
+    if (!isRecord(snapshot) || typeof snapshot.date !== 'string' || !DATE_PATTERN.test(snapshot.date)) continue
+    if (!isRecord(snapshot.prices)) continue
+    const prices: Record<number, number> = {}
+    for (const [number, price] of Object.entries(snapshot.prices)) {
+      const n = Number(number)
+      const p = Number(price)
+      if (Number.isInteger(n) && Number.isFinite(p)) prices[n] = p
+    }
+    byDate.set(snapshot.date, { date: snapshot.date, prices })
+  }
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/** Sets the price script has never run for have no history file; they simply yield no snapshots. */
+export async function fetchPriceHistory(fetcher: Fetcher, url: string): Promise<PriceSnapshot[]> {
+  try {
+    const response = await fetcher(url)
+    if (!response.ok) return []
+    return parsePriceHistory(await response.json())
+  } catch {
+    return []
+  }
+}
+
+/** Latest prices recorded on or before `date`, so sets fetched on different days still line up. */
+function pricesOn(history: PriceSnapshot[], date: string): Record<number, number> | null {
+  let prices: Record<number, number> | null = null
+  for (const snapshot of history) {
+    if (snapshot.date > date) break
+    prices = snapshot.prices
+  }
+  return prices
+}
+
+type InventoryAt = { date: string; name: string | null; sets: Record<SetKey, Inventory> }
+
+/**
+ * Values the collection on every date any set has prices for. Each date uses the newest inventory
+ * snapshot taken on or before it, the live collection from today on, and the oldest snapshot for
+ * dates before the first one. Each printing is priced by its own collector number from `numberOf`;
+ * without one, every printing is priced at its base card's number.
+ */
+export function collectionValueSeries(
+  history: Record<SetKey, PriceSnapshot[]>,
+  live: Record<SetKey, Inventory>,
+  snapshots: InventorySnapshot[],
+  wanted: Record<SetKey, WantedCard[]>,
+  deps: { today?: () => string; numberOf?: PrintingNumberOf } = {},
+): ValuePoint[] {
+  const today = deps.today ?? (() => new Date().toISOString().slice(0, 10))
+  const numberOf = deps.numberOf ?? ((_setKey, baseNumber) => baseNumber)
+  const timeline: InventoryAt[] = [
+    ...[...snapshots]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(snapshot => ({ date: snapshot.createdAt.slice(0, 10), name: snapshot.name, sets: snapshot.sets })),
+    { date: today(), name: null, sets: live },
+  ]
+  const dates = [...new Set(Object.values(history).flatMap(days => days.map(day => day.date)))].sort()
+
+  return dates.map(date => {
+    const held = timeline.filter(entry => entry.date <= date)
+    const inventory = held.length ? held[held.length - 1] : timeline[0]
+    const bySet: Record<SetKey, number> = {}
+    let missing = 0
+    for (const [setKey, days] of Object.entries(history)) {
+      const prices = pricesOn(days, date)
+      if (!prices) continue
+      const inv = inventory.sets[setKey] ?? {}
+      let value = 0
+      for (const [key, count] of Object.entries(inv)) {
+        const parsed = parsePrintingKey(key)
+        if (parsed) value += count * (prices[numberOf(setKey, parsed.number, parsed.variant)] ?? 0)
+      }
+      bySet[setKey] = value
+      const owned = rollupInventory(inv)
+      for (const card of wanted[setKey] ?? []) {
+        missing += Math.max(0, card.quota - (owned[card.baseNumber] ?? 0)) * (prices[card.baseNumber] ?? 0)
+      }
+    }
+    const total = Object.values(bySet).reduce((sum, value) => sum + value, 0)
+    return { date, total, bySet, missing, inventory: inventory.name }
+  })
+}
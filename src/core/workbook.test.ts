@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { SET_SHEET_HEADERS, SUMMARY_SHEET_NAME, collectionWorkbookSheets } from './workbook'
+
+const sets = [
+  {
+    setKey: 'SOR',
+    setName: 'Spark of Rebellion',
+    cards: [
+      { Name: 'Darth Vader', Subtitle: 'Dark Lord of the Sith', Number: 10, Type: 'Leader', Rarity: 'Rare', Aspects: ['Aggression', 'Villainy'], MarketPrice: 4, Set: 'SOR' },
+      { Name: 'Battlefield Marine', Number: 5, Type: 'Unit', Rarity: 'Common', MarketPrice: 0.25, Set: 'SOR' },
+    ],
+  },
+  { setKey: 'SHD', setName: 'Shadows of the Galaxy', cards: [{ Name: 'Bounty Hunter Crew', Number: 7, MarketPrice: 1, Set: 'SHD' }] },
+]
+const quotaOf = (_setKey: string, card: { Type?: string }) => (card.Type === 'Leader' ? 1 : 3)
+// Hyperspace copies have a collector number, and a price, of their own; foils use the base card's.
+const prices: Record<string, number> = { 'SOR:5': 0.25, 'SOR:10': 4, 'SOR:10:hyperspace': 30, 'SHD:7': 1 }
+const priceOf = (setKey: string, baseNumber: number, variant: string) =>
+  prices[`${setKey}:${baseNumber}:${variant}`] ?? prices[`${setKey}:${baseNumber}`] ?? 0
+
+describe('collectionWorkbookSheets', () => {
+  const sheets = collectionWorkbookSheets(
+    sets,
+    { SOR: { 5: 1, 10: 1, '10:foil': 1, '10:hyperspace': 1 } },
+    quotaOf,
+    priceOf,
+  )
+
+  it('writes a summary sheet first, then one sheet per set', () => {
+    expect(sheets.map(sheet => sheet.name)).toEqual([SUMMARY_SHEET_NAME, 'SOR', 'SHD'])
+  })
+
+  it('lists every card with owned, quota, needed, price and per-printing value, then its printings', () => {
+    const [headers, marine, vader] = sheets[1].rows
+    expect(headers).toEqual(SET_SHEET_HEADERS)
+    expect(marine.slice(0, 12)).toEqual(['SOR', 5, 'Battlefield Marine', '', 'Unit', 'Common', '', 1, 3, 2, 0.25, 0.25])
+    expect(vader.slice(0, 12)).toEqual([
+      'SOR', 10, 'Darth Vader', 'Dark Lord of the Sith', 'Leader', 'Rare', 'Aggression, Villainy', 3, 1, 0, 4, 38,
+    ])
+    expect(vader.slice(12, 15)).toEqual([1, 1, 1])
+  })
+
+  it('totals completion and value per set and overall', () => {
+    expect(sheets[0].rows).toEqual([
+      ['Set', 'Name', 'Cards', 'Complete', 'Completion %', 'Owned copies', 'Needed copies', 'Collection value', 'Missing cost'],
+      ['SOR', 'Spark of Rebellion', 2, 1, 50, 4, 2, 38.25, 0.5],
+      ['SHD', 'Shadows of the Galaxy', 1, 0, 0, 0, 3, 0, 3],
+      ['Total', '', 3, 1, 33.33, 4, 5, 38.25, 3.5],
+    ])
+  })
+})
@@ -0,0 +1,123 @@
+import { VARIANT_KINDS, VARIANT_LABELS, rollupInventory, variantCounts, type VariantKind } from './inventory'
+import type { Card, Inventory, SetKey } from './types'
+
+export type WorkbookCell = string | number
+export type WorkbookSheet = { name: string; rows: WorkbookCell[][] }
+export type WorkbookSet = { setKey: SetKey; setName: string; cards: Card[] }
+
+export const SUMMARY_SHEET_NAME = 'Summary'
+
+/**
+ * Per-set columns. `Set` and `Base card id` plus the printing columns from `Normal` on follow the
+ * SW-Unlimited layout, so `parseXlsxData` reads the sheet back with every printing intact.
+ */
+export const SET_SHEET_HEADERS = [
+  'Set',
+  'Base card id',
+  'Name',
+  'Subtitle',
+  'Type',
+  'Rarity',
+  'Aspects',
+  'Owned',
+  'Quota',
+  'Needed',
+  'Unit price',
+  'Line value',
+  ...VARIANT_KINDS.map(kind => VARIANT_LABELS[kind]),
+]
+
+const SUMMARY_HEADERS = [
+  'Set',
+  'Name',
+  'Cards',
+  'Complete',
+  'Completion %',
+  'Owned copies',
+  'Needed copies',
+  'Collection value',
+  'Missing cost',
+]
+
+const cents = (n: number) => Math.round(n * 100) / 100
+
+/**
+ * The whole collection as one sheet per set plus a summary sheet up front. The unit price is the
+ * normal printing's; owned copies are valued at their own printing's price, and missing cost covers
+ * the normal copies still needed to reach each quota.
+ */
+export function collectionWorkbookSheets(
+  sets: WorkbookSet[],
+  inventories: Record<SetKey, Inventory>,
+  quotaOf: (setKey: SetKey, card: Card) => number,
+  priceOf: (setKey: SetKey, baseNumber: number, variant: VariantKind) => number,
+): WorkbookSheet[] {
+  const summary: WorkbookCell[][] = [SUMMARY_HEADERS]
+  const setSheets: WorkbookSheet[] = []
+  const totals = { cards: 0, complete: 0, owned: 0, needed: 0, value: 0, missingCost: 0 }
+
+  for (const { setKey, setName, cards } of sets) {
+    const inventory = inventories[setKey] ?? {}
+    const owned = rollupInventory(inventory)
+    const set = { cards: 0, complete: 0, owned: 0, needed: 0, value: 0, missingCost: 0 }
+    const rows: WorkbookCell[][] = [SET_SHEET_HEADERS]
+
+    for (const card of [...cards].sort((a, b) => a.Number - b.Number)) {
+      const have = owned[card.Number] ?? 0
+      const quota = quotaOf(setKey, card)
+      const needed = Math.max(quota - have, 0)
+      const price = priceOf(setKey, card.Number, 'normal')
+      const printings = variantCounts(inventory, card.Number)
+      const value = VARIANT_KINDS.reduce(
+        (sum, kind) => sum + (printings[kind] ?? 0) * priceOf(setKey, card.Number, kind),
+        0,
+      )
+      rows.push([
+        setKey,
+        card.Number,
+        card.Name,
+        card.Subtitle ?? '',
+        card.Type ?? '',
+        card.Rarity ?? '',
+        (card.Aspects ?? []).join(', '),
+        have,
+        quota,
+        needed,
+        cents(price),
+        cents(value),
+        ...VARIANT_KINDS.map(kind => printings[kind] ?? 0),
+      ])
+      set.cards++
+      if (needed === 0) set.complete++
+      set.owned += have
+      set.needed += needed
+      set.value += value
+      set.missingCost += needed * price
+    }
+
+    setSheets.push({ name: setKey, rows })
+    summary.push(summaryRow(setKey, setName, set))
+    for (const key of Object.keys(totals) as Array<keyof typeof totals>) totals[key] += set[key]
+  }
+
+  summary.push(summaryRow('Total', '', totals))
+  return [{ name: SUMMARY_SHEET_NAME, rows: summary }, ...setSheets]
+}
+
+function summaryRow(
+  setKey: string,
+  setName: string,
+  set: { cards: number; complete: number; owned: number; needed: number; value: number; missingCost: number },
+): WorkbookCell[] {
+  return [
+    setKey,
+    setName,
+    set.cards,
+    set.complete,
+    set.cards ? cents((set.complete / set.cards) * 100) : 0,
+    set.owned,
+    set.needed,
+    cents(set.value),
+    cents(set.missingCost),
+  ]
+}
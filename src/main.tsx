@@ -1,6 +1,32 @@
 import React from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App'
+import { STORAGE_WRITE_ERROR_EVENT, flushAppStorage, initAppStorage } from './core/storage'
 
 const root = createRoot(document.getElementById('root')!)
-root.render(<App />)
+
+// Writes reach IndexedDB after the tick that made them; start any that are queued before the tab goes away.
+window.addEventListener('pagehide', () => void flushAppStorage())
+document.addEventListener('visibilitychange', () => {
+  if (document.visibilityState === 'hidden') void flushAppStorage()
+})
+
+// Collection data must be readable synchronously once App mounts, so open storage first.
+void initAppStorage({
+  // App shows the save-failure toast; failed writes are only known once the backend rejects them.
+  onWriteError: () => window.dispatchEvent(new Event(STORAGE_WRITE_ERROR_EVENT)),
+}).then(kind =>
+  root.render(
+    kind === 'unavailable' ? (
+      <div className="card" role="alert" style={{ maxWidth: 560, margin: '48px auto', padding: 20 }}>
+        <h2 style={{ marginTop: 0 }}>Your collection could not be opened</h2>
+        <p>
+          This browser&apos;s IndexedDB storage, where your collection is kept, is unavailable right now.
+          Nothing has been changed or saved. Reload the page to try again.
+        </p>
+      </div>
+    ) : (
+      <App />
+    ),
+  ),
+)